@@ -11,6 +11,8 @@ import Onboarding from "./pages/Onboarding";
 import Profile from "./pages/Profile";
 import BrandStrategy from "./pages/BrandStrategy";
 import ContentUpload from "./pages/ContentUpload";
+import ContentCalendarPage from "./pages/ContentCalendar";
+import CollectionsPage from "./pages/Collections";
 import Billing from "./pages/Billing";
 import Appointments from "./pages/Appointments";
 import Messages from "./pages/Messages";
@@ -20,10 +22,15 @@ import SignIn from "./pages/auth/SignIn";
 import SignUp from "./pages/auth/SignUp";
 import AuthPage from "./pages/auth-page";
 import NotFound from "./pages/not-found";
+import PublicBooking from "./pages/PublicBooking";
 import AdminDashboard from "./pages/admin/AdminDashboard";
 import ClientDetails from "./pages/admin/ClientDetails";
 import AppointmentManager from "./pages/admin/AppointmentManager";
 import ContentViewer from "./pages/admin/ContentViewer";
+import AdminContentCalendar from "./pages/admin/ContentCalendar";
+import AdminCollections from "./pages/admin/Collections";
+import AdminTrash from "./pages/admin/Trash";
+import BookingRequests from "./pages/admin/BookingRequests";
 import VerificationQueue from "./pages/admin/VerificationQueue";
 import BillingManagement from "./pages/admin/BillingManagement";
 import AdminMessaging from "./pages/admin/Messaging";
@@ -110,6 +117,11 @@ function Router() {
         <SignUp />
       </Route>
       
+      {/* Public booking request pages */}
+      <Route path="/book/:slug">
+        <PublicBooking />
+      </Route>
+      
       {/* Protected Client Routes */}
       <Route path="/dashboard">
         <ProtectedRoute>
@@ -146,6 +158,20 @@ function Router() {
           </SidebarLayout>
         </ProtectedRoute>
       </Route>
+      <Route path="/content-calendar">
+        <ProtectedRoute>
+          <SidebarLayout>
+            <ContentCalendarPage />
+          </SidebarLayout>
+        </ProtectedRoute>
+      </Route>
+      <Route path="/collections">
+        <ProtectedRoute>
+          <SidebarLayout>
+            <CollectionsPage />
+          </SidebarLayout>
+        </ProtectedRoute>
+      </Route>
       <Route path="/billing">
         <ProtectedRoute>
           <SidebarLayout>
@@ -214,12 +240,36 @@ function Router() {
         </SidebarLayout>
       )} />
       
+      <AdminRoute path="/admin/booking-requests" component={() => (
+        <SidebarLayout>
+          <BookingRequests />
+        </SidebarLayout>
+      )} />
+      
       <AdminRoute path="/admin/content-viewer" component={() => (
         <SidebarLayout>
           <ContentViewer />
         </SidebarLayout>
       )} />
       
+      <AdminRoute path="/admin/collections" component={() => (
+        <SidebarLayout>
+          <AdminCollections />
+        </SidebarLayout>
+      )} />
+      
+      <AdminRoute path="/admin/content-calendar" component={() => (
+        <SidebarLayout>
+          <AdminContentCalendar />
+        </SidebarLayout>
+      )} />
+      
+      <AdminRoute path="/admin/trash" component={() => (
+        <SidebarLayout>
+          <AdminTrash />
+        </SidebarLayout>
+      )} />
+      
       <AdminRoute path="/admin/verification-queue" component={() => (
         <SidebarLayout>
           <VerificationQueue />
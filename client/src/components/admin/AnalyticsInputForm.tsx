@@ -26,9 +26,6 @@ import {
 
 // Form schema for analytics input
 const analyticsFormSchema = z.object({
-  totalAppointments: z.coerce.number().int().min(0, {
-    message: "Appointments must be a non-negative number",
-  }),
   engagementRate: z.coerce.number().min(0).max(100, {
     message: "Engagement rate must be between 0 and 100%",
   }),
@@ -70,7 +67,6 @@ export default function AnalyticsInputForm({
   const form = useForm<AnalyticsFormValues>({
     resolver: zodResolver(analyticsFormSchema),
     defaultValues: existingData ? {
-      totalAppointments: existingData.totalAppointments || 0,
       engagementRate: existingData.engagementRate || 0,
       earningsTotal: existingData.earningsTotal || 0,
       followersCount: existingData.followersCount || 0,
@@ -79,7 +75,6 @@ export default function AnalyticsInputForm({
       notes: existingData.notes || "",
       customMetrics: existingData.customMetrics || "",
     } : {
-      totalAppointments: 0,
       engagementRate: 0,
       earningsTotal: 0,
       followersCount: 0,
@@ -124,6 +119,29 @@ export default function AnalyticsInputForm({
     },
   });
 
+  // Appointment figures are calculated from completed, no-show and cancelled appointments
+  const rollupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/analytics/${userId}/rollup`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: `Appointment figures recalculated for ${userName}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/analytics/${userId}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to recalculate appointment figures: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Handle form submission
   const onSubmit = (values: AnalyticsFormValues) => {
     mutation.mutate(values);
@@ -134,27 +152,31 @@ export default function AnalyticsInputForm({
       <CardHeader>
         <CardTitle>{existingData ? "Update" : "Create"} Analytics for {userName}</CardTitle>
         <CardDescription>
-          Enter the latest analytics data for this client.
+          Enter the latest analytics data for this client. Appointment figures are calculated
+          automatically from their appointments.
         </CardDescription>
       </CardHeader>
       <CardContent>
+        <div className="flex items-center justify-between gap-4 p-3 mb-4 bg-muted rounded-md text-sm">
+          <p>
+            {existingData
+              ? `${existingData.totalAppointments ?? 0} appointments, ${existingData.completedAppointments ?? 0} completed, ` +
+                `${existingData.noShowAppointments ?? 0} no-shows, ${existingData.canceledAppointments ?? 0} cancelled`
+              : "Appointment figures are added once the client has booked appointments."}
+          </p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => rollupMutation.mutate()}
+            disabled={rollupMutation.isPending}
+          >
+            {rollupMutation.isPending ? "Recalculating..." : "Recalculate"}
+          </Button>
+        </div>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <FormField
-                control={form.control}
-                name="totalAppointments"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Total Appointments</FormLabel>
-                    <FormControl>
-                      <Input type="number" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
               <FormField
                 control={form.control}
                 name="engagementRate"
@@ -17,6 +17,14 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { AppointmentDetailView } from "./AppointmentDetailView";
+import {
+  AppointmentPaymentStatus,
+  PaymentStatusBadge,
+  describeCancellationTerms,
+  formatCents,
+  useCancellationTerms,
+} from "@/components/appointments/AppointmentPayment";
+import { ScreeningBadge, ScreeningStatus } from "@/components/appointments/AppointmentScreening";
 
 interface AppointmentCardProps {
   appointment: {
@@ -29,9 +37,15 @@ interface AppointmentCardProps {
     details?: string;
     amount: string;
     photoUrl?: string;
-    status: "pending" | "approved" | "declined" | "completed" | "cancelled";
+    status: "pending" | "countered" | "approved" | "rescheduled" | "declined" | "completed" | "no_show" | "cancelled";
     notificationMethod: "email" | "sms" | "in-app" | "all";
     notificationSent: boolean;
+    depositCents?: number | null;
+    cancellationFeeCents?: number | null;
+    freeCancellationHours?: number | null;
+    paymentStatus?: AppointmentPaymentStatus;
+    bookerName?: string | null;
+    screeningStatus?: ScreeningStatus;
     createdAt: string;
     client?: {
       id: number;
@@ -50,6 +64,7 @@ export function AppointmentCard({ appointment, isAdmin = true }: AppointmentCard
   const [showDetails, setShowDetails] = useState(false);
   const [showCancelDialog, setShowCancelDialog] = useState(false);
   const [showResendDialog, setShowResendDialog] = useState(false);
+  const { data: cancellationTerms } = useCancellationTerms(appointment.id, showCancelDialog);
   
   // Format appointment date
   const formattedDate = format(new Date(appointment.appointmentDate), "PPPP 'at' h:mm a");
@@ -59,8 +74,11 @@ export function AppointmentCard({ appointment, isAdmin = true }: AppointmentCard
     switch (status) {
       case "approved": return "bg-green-500";
       case "pending": return "bg-yellow-500";
+      case "countered": return "bg-orange-500";
+      case "rescheduled": return "bg-purple-500";
       case "declined": return "bg-red-500";
       case "completed": return "bg-blue-500";
+      case "no_show": return "bg-red-500";
       case "cancelled": return "bg-gray-500";
       default: return "bg-gray-300";
     }
@@ -139,7 +157,9 @@ export function AppointmentCard({ appointment, isAdmin = true }: AppointmentCard
             <Badge 
               className={`${getStatusColor(appointment.status)} text-white`}
             >
-              {appointment.status.charAt(0).toUpperCase() + appointment.status.slice(1)}
+              {appointment.status === "no_show"
+                ? "No-show"
+                : appointment.status.charAt(0).toUpperCase() + appointment.status.slice(1)}
             </Badge>
           </div>
         </CardHeader>
@@ -166,6 +186,22 @@ export function AppointmentCard({ appointment, isAdmin = true }: AppointmentCard
               <span>${appointment.amount}</span>
             </div>
             
+            {!!appointment.depositCents && (
+              <div className="flex items-center gap-2">
+                <DollarSign className="h-4 w-4 text-muted-foreground" />
+                <span>{formatCents(appointment.depositCents)} deposit</span>
+                <PaymentStatusBadge appointment={appointment} />
+              </div>
+            )}
+            
+            {appointment.screeningStatus && appointment.screeningStatus !== "not_screened" && (
+              <div className="flex items-center gap-2">
+                <Users className="h-4 w-4 text-muted-foreground" />
+                <span>{appointment.bookerName || "Booker"}</span>
+                <ScreeningBadge status={appointment.screeningStatus} />
+              </div>
+            )}
+            
             {appointment.notificationSent && (
               <div className="flex items-center gap-2">
                 <MessageSquare className="h-4 w-4 text-muted-foreground" />
@@ -212,7 +248,7 @@ export function AppointmentCard({ appointment, isAdmin = true }: AppointmentCard
               </Button>
             )}
             
-            {isAdmin && ["pending", "approved"].includes(appointment.status) && (
+            {isAdmin && ["pending", "countered", "approved", "rescheduled"].includes(appointment.status) && (
               <Button 
                 variant="destructive" 
                 onClick={() => setShowCancelDialog(true)}
@@ -246,6 +282,7 @@ export function AppointmentCard({ appointment, isAdmin = true }: AppointmentCard
             <AlertTitle>Warning</AlertTitle>
             <AlertDescription>
               Cancelling will notify the client and update the appointment status.
+              {describeCancellationTerms(cancellationTerms) && ` ${describeCancellationTerms(cancellationTerms)}`}
             </AlertDescription>
           </Alert>
           
@@ -44,8 +44,28 @@ import {
   PhoneCall,
   Mail,
   CheckCircle,
-  XCircle
+  XCircle,
+  Repeat,
+  ShieldCheck,
+  UserCheck,
+  UserX
 } from "lucide-react";
+import {
+  CounterProposalDialog,
+  RevisionHistory,
+  describeRevisionTerms,
+  getPendingChange,
+  invalidateAppointmentQueries,
+  useAppointmentNegotiation,
+} from "@/components/appointments/AppointmentNegotiation";
+import {
+  AppointmentOutcome,
+  AppointmentOutcomeDialog,
+  OutcomeSummary,
+  canRecordOutcome,
+} from "@/components/appointments/AppointmentOutcome";
+import { SeriesPanel } from "@/components/appointments/AppointmentSeries";
+import { BookerDetailsDialog, ScreeningSummary } from "@/components/appointments/AppointmentScreening";
 
 interface AppointmentDetailViewProps {
   appointment: any;
@@ -55,8 +75,11 @@ interface AppointmentDetailViewProps {
 
 const statusColors: Record<string, string> = {
   pending: "bg-yellow-100 text-yellow-800",
+  countered: "bg-orange-100 text-orange-800",
+  rescheduled: "bg-purple-100 text-purple-800",
   approved: "bg-green-100 text-green-800",
   completed: "bg-blue-100 text-blue-800",
+  no_show: "bg-red-100 text-red-800",
   declined: "bg-red-100 text-red-800",
   cancelled: "bg-gray-100 text-gray-800",
 };
@@ -71,6 +94,36 @@ export function AppointmentDetailView({
   const [notificationMethod, setNotificationMethod] = useState<string>(appointment?.notificationMethod || "in-app");
   const [notificationMessage, setNotificationMessage] = useState<string>("");
   const [isSendingNotification, setIsSendingNotification] = useState(false);
+  const [showCounterDialog, setShowCounterDialog] = useState(false);
+  const [outcomeToRecord, setOutcomeToRecord] = useState<AppointmentOutcome | null>(null);
+  const [showBookerDialog, setShowBookerDialog] = useState(false);
+
+  const { data: negotiation } = useAppointmentNegotiation(appointment?.id);
+  const pendingChange = getPendingChange(negotiation);
+  const isMyTurn = negotiation?.awaitingParty === "admin";
+  const canCounter = isMyTurn || appointment?.status === "approved";
+
+  // Accept or decline the terms the client sent back
+  const respondMutation = useMutation({
+    mutationFn: async (response: "accept" | "decline") => {
+      const res = await apiRequest("POST", `/api/appointments/${appointment.id}/${response}`);
+      return res.json();
+    },
+    onSuccess: (_, response) => {
+      invalidateAppointmentQueries(queryClient);
+      toast({
+        title: response === "accept" ? "Appointment approved" : "Proposal declined",
+        description: "The client has been notified.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error responding to appointment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
   const updateStatusMutation = useMutation({
     mutationFn: async (data: { status: string }) => {
@@ -165,7 +218,9 @@ export function AppointmentDetailView({
             <Badge 
               className={`ml-3 ${statusColors[appointment.status] || 'bg-gray-100'}`}
             >
-              {appointment.status.charAt(0).toUpperCase() + appointment.status.slice(1)}
+              {appointment.status === "no_show"
+                ? "No-show"
+                : appointment.status.charAt(0).toUpperCase() + appointment.status.slice(1)}
             </Badge>
           </DialogTitle>
           <DialogDescription>
@@ -250,6 +305,10 @@ export function AppointmentDetailView({
                   </div>
                 </div>
                 
+                <OutcomeSummary appointment={appointment} />
+
+                <SeriesPanel appointment={appointment} party="admin" />
+
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Created On</p>
                   <p className="text-base">
@@ -259,6 +318,85 @@ export function AppointmentDetailView({
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Repeat className="mr-2 h-5 w-5 text-primary" />
+                  Negotiation
+                </CardTitle>
+                <CardDescription>
+                  {isMyTurn
+                    ? "The client is waiting on your response"
+                    : negotiation?.awaitingParty === "client"
+                      ? "Waiting on the client's response"
+                      : "Every proposal, counter-proposal and reschedule for this appointment"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {pendingChange && (
+                  <div className="p-3 bg-muted rounded-md text-sm">
+                    <p className="font-medium">
+                      {pendingChange.kind === "reschedule" ? "Requested reschedule" : "Proposed terms"}
+                    </p>
+                    <p>{describeRevisionTerms(pendingChange)}</p>
+                  </div>
+                )}
+                <RevisionHistory appointment={appointment} negotiation={negotiation} />
+              </CardContent>
+              {canCounter && (
+                <CardFooter className="flex gap-2">
+                  <Button variant="outline" onClick={() => setShowCounterDialog(true)}>
+                    <Repeat className="mr-2 h-4 w-4" />
+                    {appointment.status === "approved" ? "Reschedule" : "Counter"}
+                  </Button>
+                  {isMyTurn && (
+                    <>
+                      <Button
+                        variant="destructive"
+                        disabled={respondMutation.isPending}
+                        onClick={() => respondMutation.mutate("decline")}
+                      >
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Decline
+                      </Button>
+                      <Button
+                        disabled={respondMutation.isPending}
+                        onClick={() => respondMutation.mutate("accept")}
+                      >
+                        <CheckCircle className="mr-2 h-4 w-4" />
+                        Accept
+                      </Button>
+                    </>
+                  )}
+                </CardFooter>
+              )}
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <ShieldCheck className="mr-2 h-5 w-5 text-primary" />
+                  Screening
+                </CardTitle>
+                <CardDescription>
+                  {appointment.screeningStatus === "needs_review"
+                    ? "Held for the client's review"
+                    : "Who is booking, checked against the client's screening rules"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScreeningSummary appointment={appointment} />
+              </CardContent>
+              {["pending", "countered", "approved", "rescheduled"].includes(appointment.status) && (
+                <CardFooter>
+                  <Button variant="outline" onClick={() => setShowBookerDialog(true)}>
+                    <UserCheck className="mr-2 h-4 w-4" />
+                    Edit Booker Details
+                  </Button>
+                </CardFooter>
+              )}
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center">
@@ -418,11 +556,21 @@ export function AppointmentDetailView({
                   <Button
                     variant={appointment.status === "completed" ? "default" : "outline"}
                     className="justify-start"
-                    disabled={appointment.status === "completed"}
-                    onClick={() => handleStatusChange("completed")}
+                    disabled={!canRecordOutcome(appointment)}
+                    onClick={() => setOutcomeToRecord("completed")}
                   >
                     <CheckCircle className="mr-2 h-4 w-4 text-blue-500" />
-                    Mark as Completed
+                    {appointment.status === "completed" ? "Edit Completion" : "Mark as Completed"}
+                  </Button>
+
+                  <Button
+                    variant={appointment.status === "no_show" ? "default" : "outline"}
+                    className="justify-start"
+                    disabled={!canRecordOutcome(appointment)}
+                    onClick={() => setOutcomeToRecord("no_show")}
+                  >
+                    <UserX className="mr-2 h-4 w-4 text-red-500" />
+                    {appointment.status === "no_show" ? "Edit No-show" : "Mark as No-show"}
                   </Button>
                   
                   <Button
@@ -453,6 +601,26 @@ export function AppointmentDetailView({
         <DialogFooter>
           <Button variant="outline" onClick={onClose}>Close</Button>
         </DialogFooter>
+
+        <CounterProposalDialog
+          appointment={appointment}
+          negotiation={negotiation}
+          open={showCounterDialog}
+          onOpenChange={setShowCounterDialog}
+        />
+
+        <AppointmentOutcomeDialog
+          appointment={appointment}
+          outcome={outcomeToRecord ?? "completed"}
+          open={outcomeToRecord !== null}
+          onOpenChange={(open) => !open && setOutcomeToRecord(null)}
+        />
+
+        <BookerDetailsDialog
+          appointment={appointment}
+          open={showBookerDialog}
+          onOpenChange={setShowBookerDialog}
+        />
       </DialogContent>
     </Dialog>
   );
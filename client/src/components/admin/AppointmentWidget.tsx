@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -30,6 +30,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useToast } from "@/hooks/use-toast";
@@ -38,9 +39,16 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { format } from "date-fns";
-import { CalendarIcon, Loader2, Clock, MapPin, DollarSign, MessageSquare, Users, Camera } from "lucide-react";
+import { addDays, format, startOfDay } from "date-fns";
+import { SlotAvailability, formatClientTime, getSeriesConflictError, getSlotConflictError } from "@/lib/appointment-slots";
+import { CalendarIcon, Loader2, Clock, MapPin, DollarSign, MessageSquare, Users, Camera, Repeat, ShieldCheck } from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+  RECURRENCE_DAYS,
+  RecurrenceDay,
+  RecurrenceRuleInput,
+  SeriesPreview,
+} from "@/components/appointments/AppointmentSeries";
 
 // Define the form schema
 const appointmentFormSchema = z.object({
@@ -61,16 +69,101 @@ const appointmentFormSchema = z.object({
   notificationMethod: z.enum(["email", "sms", "in-app", "all"], {
     required_error: "Please select a notification method",
   }),
+  deposit: z.string().regex(/^(\d+(\.\d{1,2})?)?$/, "Enter a dollar amount").optional(),
+  cancellationFee: z.string().regex(/^(\d+(\.\d{1,2})?)?$/, "Enter a dollar amount").optional(),
+  freeCancellationHours: z.string().regex(/^\d*$/, "Enter a number of hours").optional(),
+  repeat: z.enum(["none", "weekly", "biweekly"]),
+  repeatDays: z.array(z.enum(["MO", "TU", "WE", "TH", "FR", "SA", "SU"])),
+  repeatEnds: z.enum(["on", "after"]),
+  repeatUntil: z.date().optional(),
+  repeatCount: z.string().regex(/^\d*$/, "Enter a number of appointments").optional(),
+  bookerName: z.string().optional(),
+  bookerEmail: z.string().email("Enter a valid email").or(z.literal("")).optional(),
+  bookerPhone: z.string().optional(),
+  bookerReferences: z.string().optional(),
+  bookerVerified: z.boolean().default(false),
+}).refine(values => !values.cancellationFee || Number(values.cancellationFee) <= Number(values.deposit || 0), {
+  message: "The fee is kept from the deposit, so it can't be more than it",
+  path: ["cancellationFee"],
+}).refine(values => values.repeat === "none" || values.repeatDays.length > 0, {
+  message: "Pick the days the appointment repeats on",
+  path: ["repeatDays"],
+}).refine(values => values.repeat === "none" || values.repeatEnds !== "on" || !!values.repeatUntil, {
+  message: "Pick the date the series ends on",
+  path: ["repeatUntil"],
+}).refine(values => values.repeat === "none" || values.repeatEnds !== "after" || Number(values.repeatCount) >= 2, {
+  message: "A standing booking has at least 2 appointments",
+  path: ["repeatCount"],
 });
 
+// Dollars as typed into the form to the cents the API expects
+const toCents = (dollars?: string) => dollars ? Math.round(Number(dollars) * 100) : undefined;
+
 type AppointmentFormValues = z.infer<typeof appointmentFormSchema>;
 
+// The picked day at the picked "H:mm", in the admin's own timezone
+function combineDateTime(date: Date, time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  const combined = new Date(date);
+  combined.setHours(hours, minutes, 0, 0);
+  return combined;
+}
+
+// The repeat fields as the recurrence the API takes, or undefined for a single appointment
+function toRecurrence(values: Pick<AppointmentFormValues, "repeat" | "repeatDays" | "repeatEnds" | "repeatUntil" | "repeatCount">): RecurrenceRuleInput | undefined {
+  if (values.repeat === "none" || values.repeatDays.length === 0) return undefined;
+  if (values.repeatEnds === "on") {
+    // Appointments can start any time on the last day
+    return values.repeatUntil
+      ? { frequency: values.repeat, days: values.repeatDays, until: addDays(startOfDay(values.repeatUntil), 1).toISOString() }
+      : undefined;
+  }
+  return Number(values.repeatCount) >= 2
+    ? { frequency: values.repeat, days: values.repeatDays, count: Number(values.repeatCount) }
+    : undefined;
+}
+
+const defaultFormValues: Partial<AppointmentFormValues> = {
+  details: "",
+  photoUrl: "",
+  notificationMethod: "all",
+  deposit: "",
+  cancellationFee: "",
+  freeCancellationHours: "24",
+  repeat: "none",
+  repeatDays: [],
+  repeatEnds: "after",
+  repeatCount: "4",
+  bookerName: "",
+  bookerEmail: "",
+  bookerPhone: "",
+  bookerReferences: "",
+  bookerVerified: false,
+};
+
+// A request from a public booking page to propose an appointment from
+export interface BookingRequestPrefill {
+  id: number;
+  clientId: number;
+  bookerName: string;
+  bookerEmail: string;
+  bookerPhone: string | null;
+  bookerReferences: string | null;
+  service: string | null;
+  requestedDate: string;
+  duration: number;
+  location: string | null;
+  offeredRate: string | null;
+  message: string | null;
+}
+
 interface AppointmentWidgetProps {
   isOpen: boolean;
   onClose: () => void;
+  bookingRequest?: BookingRequestPrefill;
 }
 
-export function AppointmentWidget({ isOpen, onClose }: AppointmentWidgetProps) {
+export function AppointmentWidget({ isOpen, onClose, bookingRequest }: AppointmentWidgetProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
@@ -78,13 +171,29 @@ export function AppointmentWidget({ isOpen, onClose }: AppointmentWidgetProps) {
   // Form setup
   const form = useForm<AppointmentFormValues>({
     resolver: zodResolver(appointmentFormSchema),
-    defaultValues: {
-      details: "",
-      photoUrl: "",
-      notificationMethod: "all",
-    },
+    defaultValues: defaultFormValues,
   });
 
+  // Start from what the booker asked for when proposing from a booking request
+  useEffect(() => {
+    if (!isOpen || !bookingRequest) return;
+    const requestedDate = new Date(bookingRequest.requestedDate);
+    form.reset({
+      ...defaultFormValues,
+      clientId: bookingRequest.clientId.toString(),
+      appointmentDate: startOfDay(requestedDate),
+      appointmentTime: format(requestedDate, "H:mm"),
+      duration: bookingRequest.duration.toString() as unknown as number, // the input holds a string until the schema parses it
+      location: bookingRequest.location ?? "",
+      amount: bookingRequest.offeredRate ?? "",
+      details: [bookingRequest.service && `Service: ${bookingRequest.service}`, bookingRequest.message].filter(Boolean).join("\n\n"),
+      bookerName: bookingRequest.bookerName,
+      bookerEmail: bookingRequest.bookerEmail,
+      bookerPhone: bookingRequest.bookerPhone ?? "",
+      bookerReferences: bookingRequest.bookerReferences ?? "",
+    });
+  }, [isOpen, bookingRequest, form]);
+
   // Get all clients
   const { data: clients, isLoading: isLoadingClients } = useQuery({
     queryKey: ["/api/users/clients"],
@@ -94,27 +203,81 @@ export function AppointmentWidget({ isOpen, onClose }: AppointmentWidgetProps) {
     },
   });
 
+  // Open times for the chosen client and day, from their availability and existing bookings
+  const [clientId, appointmentDate, duration] = form.watch(["clientId", "appointmentDate", "duration"]);
+  const slotDuration = Number(duration) > 0 ? Number(duration) : 60;
+  const { data: availability, isFetching: isLoadingSlots } = useQuery<SlotAvailability>({
+    queryKey: ["/api/appointments/availability", clientId, appointmentDate?.toISOString(), slotDuration],
+    queryFn: async () => {
+      const from = startOfDay(appointmentDate);
+      const query = new URLSearchParams({
+        clientId,
+        from: from.toISOString(),
+        to: addDays(from, 1).toISOString(),
+        duration: String(slotDuration),
+      });
+      const res = await apiRequest("GET", `/api/appointments/availability?${query}`);
+      return res.json();
+    },
+    enabled: !!clientId && !!appointmentDate,
+  });
+  const openSlots = availability?.hasSchedule ? availability.slots : null;
+
+  // Every appointment of a standing booking, checked against the client's availability as it's set up
+  const [appointmentTime, repeat, repeatDays, repeatEnds, repeatUntil, repeatCount] =
+    form.watch(["appointmentTime", "repeat", "repeatDays", "repeatEnds", "repeatUntil", "repeatCount"]);
+  const recurrence = toRecurrence({ repeat, repeatDays, repeatEnds, repeatUntil, repeatCount });
+  const seriesStart = appointmentDate && appointmentTime ? combineDateTime(appointmentDate, appointmentTime).toISOString() : undefined;
+  const { data: seriesPreview, isFetching: isLoadingPreview } = useQuery<SeriesPreview>({
+    queryKey: ["/api/appointments/series/preview", clientId, seriesStart, slotDuration, recurrence],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/appointments/series/preview", {
+        clientId,
+        appointmentDate: seriesStart,
+        duration: slotDuration,
+        recurrence,
+      });
+      return res.json();
+    },
+    enabled: !!clientId && !!seriesStart && !!recurrence,
+  });
+  const previewConflicts = seriesPreview?.occurrences.filter((occurrence) => occurrence.conflict) ?? [];
+
   // Create appointment mutation
   const createAppointmentMutation = useMutation({
     mutationFn: async (data: any) => { // Using any to bypass the TS error
       const res = await apiRequest("POST", "/api/appointments/propose", data);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      const created = data.series ? data.appointments : [data];
+      const approved = created.filter((appointment: { status: string }) => appointment.status === "approved").length;
       toast({
-        title: "Appointment proposed",
-        description: "The appointment proposal has been sent to the client.",
+        title: data.series ? "Standing booking proposed" : "Appointment proposed",
+        description: (data.series
+          ? `${data.appointments.length} appointments have been sent to the client.`
+          : "The appointment proposal has been sent to the client.") +
+          (approved > 0 ? ` ${approved === created.length ? "It passed" : `${approved} passed`} the client's screening and ${approved === 1 ? "was" : "were"} approved automatically.` : ""),
         variant: "default",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/appointments/admin"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/booking-requests"] });
       onClose();
       form.reset();
       setSelectedImage(null);
     },
     onError: (error: Error) => {
+      const conflict = getSlotConflictError(error);
+      const seriesConflict = getSeriesConflictError(error);
+      if (conflict) {
+        queryClient.invalidateQueries({ queryKey: ["/api/appointments/availability"] });
+      }
+      if (seriesConflict) {
+        queryClient.invalidateQueries({ queryKey: ["/api/appointments/series/preview"] });
+      }
       toast({
-        title: "Failed to propose appointment",
-        description: error.message,
+        title: conflict?.code === "DOUBLE_BOOKED" ? "Client is already booked" : "Failed to propose appointment",
+        description: conflict?.message ?? seriesConflict?.message ?? error.message,
         variant: "destructive",
       });
     },
@@ -138,14 +301,22 @@ export function AppointmentWidget({ isOpen, onClose }: AppointmentWidgetProps) {
   // Form submission
   const onSubmit = (data: AppointmentFormValues) => {
     // Combine date and time 
-    const [hours, minutes] = data.appointmentTime.split(':').map(Number);
-    const appointmentDateTime = new Date(data.appointmentDate);
-    appointmentDateTime.setHours(hours, minutes, 0, 0);
+    const appointmentDateTime = combineDateTime(data.appointmentDate, data.appointmentTime);
     
     // Create appointment payload
+    const {
+      deposit, cancellationFee, freeCancellationHours,
+      repeat, repeatDays, repeatEnds, repeatUntil, repeatCount,
+      ...appointmentFields
+    } = data;
     const appointmentData = {
-      ...data,
-      appointmentDate: appointmentDateTime.toISOString()
+      ...appointmentFields,
+      appointmentDate: appointmentDateTime.toISOString(),
+      recurrence: toRecurrence({ repeat, repeatDays, repeatEnds, repeatUntil, repeatCount }),
+      depositCents: toCents(deposit),
+      cancellationFeeCents: toCents(cancellationFee),
+      freeCancellationHours: freeCancellationHours ? parseInt(freeCancellationHours, 10) : undefined,
+      bookingRequestId: bookingRequest?.id,
     };
     
     createAppointmentMutation.mutate(appointmentData);
@@ -157,7 +328,9 @@ export function AppointmentWidget({ isOpen, onClose }: AppointmentWidgetProps) {
         <DialogHeader>
           <DialogTitle className="text-2xl font-bold">New Appointment Proposal</DialogTitle>
           <DialogDescription>
-            Create a new appointment proposal to send to a client.
+            {bookingRequest
+              ? `Proposing from ${bookingRequest.bookerName}'s booking request. Check the details before sending it to the client.`
+              : "Create a new appointment proposal to send to a client."}
           </DialogDescription>
         </DialogHeader>
 
@@ -175,7 +348,7 @@ export function AppointmentWidget({ isOpen, onClose }: AppointmentWidgetProps) {
                         <Users className="h-4 w-4 inline mr-2" />
                         Select Client
                       </FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <Select onValueChange={field.onChange} value={field.value}>
                         <FormControl>
                           <SelectTrigger>
                             <SelectValue placeholder="Select a client" />
@@ -259,14 +432,27 @@ export function AppointmentWidget({ isOpen, onClose }: AppointmentWidgetProps) {
                         <Clock className="h-4 w-4 inline mr-2" />
                         Appointment Time
                       </FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <Select onValueChange={field.onChange} value={field.value ?? ""}>
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select a time" />
+                            <SelectValue placeholder={isLoadingSlots ? "Finding open times..." : "Select a time"} />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {Array.from({ length: 24 }).map((_, hour) => {
+                          {openSlots && availability ? (
+                            openSlots.length > 0 ? (
+                              openSlots.map((slot) => {
+                                const start = new Date(slot.start);
+                                return (
+                                  <SelectItem key={slot.start} value={format(start, "H:mm")}>
+                                    {format(start, "h:mm a")} ({formatClientTime(start, availability.timezone)} for the client)
+                                  </SelectItem>
+                                );
+                              })
+                            ) : (
+                              <div className="p-2 text-sm text-muted-foreground">No open times on this date</div>
+                            )
+                          ) : Array.from({ length: 24 }).map((_, hour) => {
                             return (
                               <SelectItem key={`${hour}:00`} value={`${hour}:00`}>
                                 {hour === 0 ? '12:00 AM' : 
@@ -279,7 +465,9 @@ export function AppointmentWidget({ isOpen, onClose }: AppointmentWidgetProps) {
                         </SelectContent>
                       </Select>
                       <FormDescription>
-                        The time when the appointment will begin.
+                        {openSlots && availability
+                          ? `Open times from the client's availability, keeping ${availability.bufferMinutes} minutes free around other bookings.`
+                          : "The time when the appointment will begin."}
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -349,6 +537,65 @@ export function AppointmentWidget({ isOpen, onClose }: AppointmentWidgetProps) {
                   )}
                 />
 
+                {/* Deposit */}
+                <FormField
+                  control={form.control}
+                  name="deposit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        <DollarSign className="h-4 w-4 inline mr-2" />
+                        Deposit (optional)
+                      </FormLabel>
+                      <FormControl>
+                        <Input placeholder="0.00" inputMode="decimal" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Paid by card when the client approves. Leave empty for no deposit.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Cancellation policy */}
+                {form.watch("deposit") && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="cancellationFee"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Cancellation Fee</FormLabel>
+                          <FormControl>
+                            <Input placeholder="0.00" inputMode="decimal" {...field} />
+                          </FormControl>
+                          <FormDescription>
+                            Kept from the deposit if the client cancels late.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="freeCancellationHours"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Free Cancellation (hours before)</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={0} {...field} />
+                          </FormControl>
+                          <FormDescription>
+                            Cancelling is free until this many hours before.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+
                 {/* Notification method */}
                 <FormField
                   control={form.control}
@@ -379,6 +626,177 @@ export function AppointmentWidget({ isOpen, onClose }: AppointmentWidgetProps) {
                     </FormItem>
                   )}
                 />
+
+                {/* Repeat */}
+                <FormField
+                  control={form.control}
+                  name="repeat"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        <Repeat className="h-4 w-4 inline mr-2" />
+                        Repeat
+                      </FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Doesn't repeat</SelectItem>
+                          <SelectItem value="weekly">Weekly</SelectItem>
+                          <SelectItem value="biweekly">Every 2 weeks</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        A standing booking proposes each appointment separately, so they can be changed one at a time or all together.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {repeat !== "none" && (
+                  <div className="space-y-4 mt-4">
+                    <FormField
+                      control={form.control}
+                      name="repeatDays"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Repeat On</FormLabel>
+                          <div className="flex flex-wrap gap-1">
+                            {RECURRENCE_DAYS.map((day) => {
+                              const selected = field.value.includes(day.value);
+                              return (
+                                <Button
+                                  key={day.value}
+                                  type="button"
+                                  size="sm"
+                                  variant={selected ? "default" : "outline"}
+                                  onClick={() => field.onChange(selected
+                                    ? field.value.filter((value: RecurrenceDay) => value !== day.value)
+                                    : [...field.value, day.value])}
+                                >
+                                  {day.label}
+                                </Button>
+                              );
+                            })}
+                          </div>
+                          <FormDescription>
+                            Days are the client's, and the first appointment has to fall on one of them.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="repeatEnds"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Ends</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="after">After a number of appointments</SelectItem>
+                                <SelectItem value="on">On a date</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      {repeatEnds === "on" ? (
+                        <FormField
+                          control={form.control}
+                          name="repeatUntil"
+                          render={({ field }) => (
+                            <FormItem className="flex flex-col">
+                              <FormLabel>Last Day</FormLabel>
+                              <Popover>
+                                <PopoverTrigger asChild>
+                                  <FormControl>
+                                    <Button
+                                      variant={"outline"}
+                                      className={cn(
+                                        "w-full pl-3 text-left font-normal",
+                                        !field.value && "text-muted-foreground"
+                                      )}
+                                    >
+                                      {field.value ? format(field.value, "PPP") : <span>Pick a date</span>}
+                                    </Button>
+                                  </FormControl>
+                                </PopoverTrigger>
+                                <PopoverContent className="w-auto p-0" align="start">
+                                  <Calendar
+                                    mode="single"
+                                    selected={field.value}
+                                    onSelect={field.onChange}
+                                    initialFocus
+                                    disabled={(date) => !!appointmentDate && date < appointmentDate}
+                                  />
+                                </PopoverContent>
+                              </Popover>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ) : (
+                        <FormField
+                          control={form.control}
+                          name="repeatCount"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Appointments</FormLabel>
+                              <FormControl>
+                                <Input type="number" min={2} {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                    </div>
+
+                    {/* Every appointment of the series and whether the client is free for it */}
+                    {isLoadingPreview ? (
+                      <div className="flex items-center text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Checking each appointment...
+                      </div>
+                    ) : seriesPreview && (
+                      <div className="p-3 border rounded-md text-sm space-y-2">
+                        <p className="font-medium">{seriesPreview.description}</p>
+                        {seriesPreview.error ? (
+                          <p className="text-red-600">{seriesPreview.error}</p>
+                        ) : previewConflicts.length > 0 ? (
+                          <p className="text-red-600">
+                            {previewConflicts.length} of the {seriesPreview.occurrences.length} appointments don't work for the client.
+                          </p>
+                        ) : (
+                          <p className="text-muted-foreground">
+                            The client is free for all {seriesPreview.occurrences.length} appointments.
+                          </p>
+                        )}
+                        <ul className="max-h-40 overflow-y-auto space-y-1">
+                          {seriesPreview.occurrences.map((occurrence) => (
+                            <li key={occurrence.start} className={occurrence.conflict ? "text-red-600" : undefined}>
+                              {format(new Date(occurrence.start), "EEE, MMM d, yyyy h:mm a")}
+                              {occurrence.conflict && ` - ${occurrence.conflict.message}`}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
 
               <div>
@@ -456,6 +874,89 @@ export function AppointmentWidget({ isOpen, onClose }: AppointmentWidgetProps) {
                     </FormItem>
                   )}
                 />
+
+                {/* Booker */}
+                <div className="space-y-4 mt-4">
+                  <p className="text-sm font-medium">
+                    <ShieldCheck className="h-4 w-4 inline mr-2" />
+                    Booker
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Who is booking, checked against the client's screening rules. Bookings that pass are approved
+                    straight away if the client approves automatically.
+                  </p>
+                  <FormField
+                    control={form.control}
+                    name="bookerName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Full Name</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="bookerEmail"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email</FormLabel>
+                          <FormControl>
+                            <Input type="email" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="bookerPhone"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Phone</FormLabel>
+                          <FormControl>
+                            <Input {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="bookerReferences"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>References</FormLabel>
+                        <FormControl>
+                          <Textarea {...field} rows={2} placeholder="Other providers who can vouch for them" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="bookerVerified"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between rounded-md border p-3">
+                        <div className="space-y-0.5">
+                          <FormLabel>ID Verified</FormLabel>
+                          <FormDescription>
+                            You've checked the booker's ID.
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </div>
               </div>
             </div>
 
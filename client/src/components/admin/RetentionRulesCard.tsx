@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ContentStatus, contentStatusLabels } from "@/components/content/ContentReviewPanel";
+import { RetentionRule } from "@shared/schema";
+import { Loader2, Trash2 } from "lucide-react";
+
+// Days trashed content can still be restored, on top of the rule's own days (TRASH_RETENTION_DAYS on the server)
+const TRASH_RETENTION_DAYS = 30;
+
+interface RetentionRulesCardProps {
+  clientId: number;
+}
+
+// Rules that move a client's content to the trash once it has had a review status for some days
+export default function RetentionRulesCard({ clientId }: RetentionRulesCardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ContentStatus>("rejected");
+  const [afterDays, setAfterDays] = useState("30");
+
+  const rulesKey = `/api/admin/clients/${clientId}/retention-rules`;
+  const { data: rules, isLoading } = useQuery<RetentionRule[]>({
+    queryKey: [rulesKey],
+    enabled: !!clientId,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Save failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (ruleStatus: ContentStatus) => {
+      const res = await apiRequest("POST", rulesKey, { status: ruleStatus, afterDays: parseInt(afterDays) });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [rulesKey] });
+      toast({
+        title: "Retention rule added",
+        description: "Matching content is moved to the trash on the next hourly run.",
+      });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...data }: Pick<RetentionRule, "id"> & Partial<Pick<RetentionRule, "enabled" | "afterDays">>) => {
+      const res = await apiRequest("PATCH", `/api/admin/retention-rules/${id}`, data);
+      return await res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [rulesKey] }),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/retention-rules/${id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [rulesKey] }),
+    onError,
+  });
+
+  const days = parseInt(afterDays);
+  const usedStatuses = new Set(rules?.map(rule => rule.status));
+  const availableStatuses = (Object.keys(contentStatusLabels) as ContentStatus[]).filter(value => !usedStatuses.has(value));
+  const selectedStatus = availableStatuses.includes(status) ? status : availableStatuses[0];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Retention</CardTitle>
+        <CardDescription>
+          Content that has had a status for the set number of days is moved to the trash. The client can restore it
+          from there for another {TRASH_RETENTION_DAYS} days, then it's deleted for good.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : rules && rules.length > 0 ? (
+          <div className="space-y-3">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center gap-4 border rounded-md p-3">
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(enabled) => updateMutation.mutate({ id: rule.id, enabled })}
+                  aria-label="Rule enabled"
+                />
+                <div className="flex-1 text-sm">
+                  <span className="font-medium">{contentStatusLabels[rule.status as ContentStatus] ?? rule.status}</span>
+                  {" "}content, trashed after
+                </div>
+                <Input
+                  type="number"
+                  min={1}
+                  className="w-24"
+                  defaultValue={rule.afterDays}
+                  onBlur={(e) => {
+                    const value = parseInt(e.target.value);
+                    if (value > 0 && value !== rule.afterDays) {
+                      updateMutation.mutate({ id: rule.id, afterDays: value });
+                    }
+                  }}
+                />
+                <span className="text-sm text-muted-foreground">
+                  days, deleted for good after {rule.afterDays + TRASH_RETENTION_DAYS}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(rule.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No retention rules, content is kept until it's deleted.</p>
+        )}
+
+        {availableStatuses.length > 0 && (
+          <div className="flex flex-col md:flex-row md:items-end gap-4 border-t pt-6">
+            <div className="space-y-2 md:w-56">
+              <Label>Status</Label>
+              <Select
+                value={selectedStatus}
+                onValueChange={(value) => setStatus(value as ContentStatus)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableStatuses.map((value) => (
+                    <SelectItem key={value} value={value}>{contentStatusLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:w-32">
+              <Label htmlFor="retention-days">After days</Label>
+              <Input
+                id="retention-days"
+                type="number"
+                min={1}
+                value={afterDays}
+                onChange={(e) => setAfterDays(e.target.value)}
+              />
+            </div>
+            {days > 0 && (
+              <p className="text-sm text-muted-foreground md:pb-2">
+                Deleted for good after {days + TRASH_RETENTION_DAYS} days
+              </p>
+            )}
+            <Button
+              onClick={() => createMutation.mutate(selectedStatus)}
+              disabled={!(days > 0) || createMutation.isPending}
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Rule
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
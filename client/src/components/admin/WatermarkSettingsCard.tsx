@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { WatermarkSettings } from "@shared/schema";
+import { Loader2, Upload } from "lucide-react";
+
+type WatermarkForm = Pick<WatermarkSettings, "enabled" | "type" | "text" | "position" | "opacity" | "scale">;
+
+const positionLabels: Record<string, string> = {
+  "top-left": "Top left",
+  "top-right": "Top right",
+  "bottom-left": "Bottom left",
+  "bottom-right": "Bottom right",
+  "center": "Center",
+};
+
+interface WatermarkSettingsCardProps {
+  clientId: number;
+}
+
+// Watermark applied to a client's content when it's exported for sharing
+export default function WatermarkSettingsCard({ clientId }: WatermarkSettingsCardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [form, setForm] = useState<WatermarkForm | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const settingsKey = `/api/admin/clients/${clientId}/watermark`;
+  const { data: settings } = useQuery<WatermarkSettings>({
+    queryKey: [settingsKey],
+    enabled: !!clientId,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      const { enabled, type, text, position, opacity, scale } = settings;
+      setForm({ enabled, type, text, position, opacity, scale });
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: WatermarkForm) => {
+      const res = await apiRequest("PUT", settingsKey, data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [settingsKey] });
+      toast({
+        title: "Watermark saved",
+        description: "Exports of this client's content will use the new watermark.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Save failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("logo", file);
+      const res = await fetch(`${settingsKey}/logo`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error((await res.json().catch(() => null))?.message || res.statusText);
+      }
+
+      queryClient.invalidateQueries({ queryKey: [settingsKey] });
+      toast({
+        title: "Logo uploaded",
+        description: "The logo is now used as this client's watermark.",
+      });
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "There was a problem uploading the logo.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (!form || !settings) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const update = (changes: Partial<WatermarkForm>) => setForm({ ...form, ...changes });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Watermark</CardTitle>
+        <CardDescription>
+          Applied to images and videos downloaded through the export option. Location and device metadata are always removed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="watermark-enabled">Watermark exports</Label>
+          <Switch
+            id="watermark-enabled"
+            checked={form.enabled}
+            onCheckedChange={(enabled) => update({ enabled })}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={form.type} onValueChange={(type) => update({ type })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="text">Text</SelectItem>
+                <SelectItem value="logo">Logo</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Position</Label>
+            <Select value={form.position} onValueChange={(position) => update({ position })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(positionLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {form.type === "text" ? (
+          <div className="space-y-2">
+            <Label htmlFor="watermark-text">Text</Label>
+            <Input
+              id="watermark-text"
+              value={form.text ?? ""}
+              onChange={(e) => update({ text: e.target.value })}
+              placeholder="e.g. @username"
+              maxLength={100}
+            />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label>Logo</Label>
+            <div className="flex items-center gap-4">
+              {settings.logoPath ? (
+                <img
+                  src={`${settingsKey}/logo?v=${encodeURIComponent(settings.logoPath)}`}
+                  alt="Watermark logo"
+                  className="h-16 max-w-[160px] object-contain rounded border bg-muted p-1"
+                />
+              ) : (
+                <span className="text-sm text-muted-foreground">No logo uploaded yet</span>
+              )}
+              <Button variant="outline" size="sm" asChild disabled={isUploading}>
+                <label className="cursor-pointer">
+                  {isUploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                  Upload Logo
+                  <input type="file" accept="image/*" className="hidden" onChange={handleLogoChange} />
+                </label>
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <Label>Opacity: {Math.round(form.opacity * 100)}%</Label>
+            <Slider
+              min={5}
+              max={100}
+              step={5}
+              value={[Math.round(form.opacity * 100)]}
+              onValueChange={([value]) => update({ opacity: value / 100 })}
+            />
+          </div>
+          <div className="space-y-3">
+            <Label>Size: {Math.round(form.scale * 100)}% of the width</Label>
+            <Slider
+              min={5}
+              max={90}
+              step={5}
+              value={[Math.round(form.scale * 100)]}
+              onValueChange={([value]) => update({ scale: value / 100 })}
+            />
+          </div>
+        </div>
+      </CardContent>
+      <CardFooter className="justify-end">
+        <Button onClick={() => saveMutation.mutate(form)} disabled={saveMutation.isPending}>
+          {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Watermark
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import { QueryClient, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest } from "@/lib/queryClient";
+import { getSlotConflictError } from "@/lib/appointment-slots";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+export type AppointmentParty = "admin" | "client";
+
+// A set of terms put forward for an appointment, as returned by /api/appointments/:id/revisions
+export interface AppointmentRevisionInfo {
+  id: number;
+  appointmentId: number;
+  proposedBy: number;
+  kind: "proposal" | "counter" | "reschedule";
+  appointmentDate: string;
+  duration: number;
+  location: string;
+  amount: string | null;
+  note: string | null;
+  status: "open" | "accepted" | "declined" | "superseded";
+  respondedBy: number | null;
+  respondedAt: string | null;
+  createdAt: string;
+}
+
+export interface AppointmentNegotiationInfo {
+  revisions: AppointmentRevisionInfo[];
+  awaitingParty: AppointmentParty | null; // whose turn it is to accept, decline or counter
+}
+
+interface NegotiableAppointment {
+  id: number;
+  adminId: number;
+  appointmentDate: string;
+  duration: number;
+  location: string;
+  amount: string | null;
+  status: string;
+  seriesId?: number | null;
+}
+
+const revisionKindLabels: Record<AppointmentRevisionInfo["kind"], string> = {
+  proposal: "proposed",
+  counter: "countered with",
+  reschedule: "asked to reschedule to",
+};
+
+const revisionStatusColors: Record<AppointmentRevisionInfo["status"], string> = {
+  open: "bg-yellow-100 text-yellow-800",
+  accepted: "bg-green-100 text-green-800",
+  declined: "bg-red-100 text-red-800",
+  superseded: "bg-gray-100 text-gray-800",
+};
+
+// Every appointment list, detail and revision query starts with /api/appointments
+export function invalidateAppointmentQueries(queryClient: QueryClient) {
+  return queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/appointments"),
+  });
+}
+
+export function useAppointmentNegotiation(appointmentId: number) {
+  return useQuery<AppointmentNegotiationInfo>({
+    queryKey: [`/api/appointments/${appointmentId}/revisions`],
+    enabled: !!appointmentId,
+  });
+}
+
+// The terms waiting for an answer, unless they're the ones the appointment was proposed with
+export function getPendingChange(negotiation?: AppointmentNegotiationInfo) {
+  const open = negotiation?.revisions.filter((revision) => revision.status === "open").pop();
+  return open && open.kind !== "proposal" ? open : undefined;
+}
+
+export function describeRevisionTerms(terms: Pick<AppointmentRevisionInfo, "appointmentDate" | "duration" | "location" | "amount">) {
+  return `${format(new Date(terms.appointmentDate), "PPP 'at' h:mm a")} · ${terms.duration} minutes · ${terms.location}` +
+    (terms.amount ? ` · $${terms.amount}` : "");
+}
+
+interface RevisionHistoryProps {
+  appointment: NegotiableAppointment;
+  negotiation?: AppointmentNegotiationInfo;
+}
+
+// Oldest first, so the conversation reads top to bottom
+export function RevisionHistory({ appointment, negotiation }: RevisionHistoryProps) {
+  if (!negotiation || negotiation.revisions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes have been proposed.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {negotiation.revisions.map((revision) => (
+        <li key={revision.id} className="border rounded-md p-3 text-sm">
+          <div className="flex justify-between items-start gap-2">
+            <p>
+              <span className="font-medium">{revision.proposedBy === appointment.adminId ? "Admin" : "Client"}</span>
+              {" "}{revisionKindLabels[revision.kind]}
+            </p>
+            <Badge variant="outline" className={revisionStatusColors[revision.status]}>
+              {revision.status.charAt(0).toUpperCase() + revision.status.slice(1)}
+            </Badge>
+          </div>
+          <p className="mt-1">{describeRevisionTerms(revision)}</p>
+          {revision.note && <p className="mt-1 text-muted-foreground whitespace-pre-wrap">"{revision.note}"</p>}
+          <p className="mt-1 text-xs text-muted-foreground">{format(new Date(revision.createdAt), "MMM d, yyyy 'at' h:mm a")}</p>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+interface CounterProposalDialogProps {
+  appointment: NegotiableAppointment;
+  negotiation?: AppointmentNegotiationInfo;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// New date, duration, location or amount, starting from the terms on the table
+export function CounterProposalDialog({ appointment, negotiation, open, onOpenChange }: CounterProposalDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [date, setDate] = useState("");
+  const [time, setTime] = useState("");
+  const [duration, setDuration] = useState("");
+  const [location, setLocation] = useState("");
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+
+  const isReschedule = appointment.status === "approved" || appointment.status === "rescheduled";
+  const current = getPendingChange(negotiation) ?? appointment;
+
+  useEffect(() => {
+    if (!open) return;
+
+    const startsAt = new Date(current.appointmentDate);
+    setDate(format(startsAt, "yyyy-MM-dd"));
+    setTime(format(startsAt, "HH:mm"));
+    setDuration(String(current.duration));
+    setLocation(current.location);
+    setAmount(current.amount ?? "");
+    setNote("");
+  }, [open]);
+
+  const counterMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/appointments/${appointment.id}/counter`, {
+        appointmentDate: new Date(`${date}T${time}`).toISOString(),
+        duration: parseInt(duration),
+        location,
+        amount: amount || undefined,
+        note: note || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateAppointmentQueries(queryClient);
+      toast({
+        title: isReschedule ? "Reschedule requested" : "Counter-proposal sent",
+        description: "The other party has been notified and can accept, decline or counter.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      const conflict = getSlotConflictError(error);
+      toast({
+        title: conflict?.code === "DOUBLE_BOOKED" ? "Client is already booked" : "Failed to send counter-proposal",
+        description: conflict?.message ?? error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isValid = date && time && parseInt(duration) >= 15 && location.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isReschedule ? "Reschedule Appointment" : "Counter-Proposal"}</DialogTitle>
+          <DialogDescription>
+            {isReschedule
+              ? "The appointment stays as agreed until the new terms are accepted."
+              : "Change any of the terms and send them back for approval."}
+            {appointment.seriesId && " Only this appointment of the standing booking changes, later changes to the series leave it as it is."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="counter-date">Date</Label>
+            <Input id="counter-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="counter-time">Time</Label>
+            <Input id="counter-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="counter-duration">Duration (minutes)</Label>
+            <Input
+              id="counter-duration"
+              type="number"
+              min={15}
+              step={15}
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="counter-amount">Amount ($)</Label>
+            <Input id="counter-amount" value={amount} onChange={(e) => setAmount(e.target.value)} />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="counter-location">Location</Label>
+            <Input id="counter-location" value={location} onChange={(e) => setLocation(e.target.value)} />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="counter-note">Note (optional)</Label>
+            <Textarea
+              id="counter-note"
+              rows={3}
+              placeholder="Let them know why you're proposing a change"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={counterMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => counterMutation.mutate()} disabled={!isValid || counterMutation.isPending}>
+            {counterMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isReschedule ? "Request Reschedule" : "Send Counter-Proposal"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
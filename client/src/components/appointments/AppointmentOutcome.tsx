@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { invalidateAppointmentQueries } from "./AppointmentNegotiation";
+import { formatCents } from "./AppointmentPayment";
+
+export type AppointmentOutcome = "completed" | "no_show";
+
+// Outcome columns of an appointment, recorded once it has taken place
+export interface AppointmentOutcomeInfo {
+  id: number;
+  appointmentDate: string;
+  duration: number;
+  amount: string | null;
+  status: string;
+  completedAt?: string | null;
+  actualDuration?: number | null;
+  amountCollectedCents?: number | null;
+  outcomeNotes?: string | null;
+}
+
+// Mirrors the statuses the server accepts an outcome for
+export function canRecordOutcome(appointment: AppointmentOutcomeInfo) {
+  return ["approved", "rescheduled", "completed", "no_show"].includes(appointment.status) &&
+    new Date(appointment.appointmentDate) <= new Date();
+}
+
+export function OutcomeSummary({ appointment }: { appointment: AppointmentOutcomeInfo }) {
+  if (!appointment.completedAt) return null;
+
+  return (
+    <div className="p-3 bg-muted rounded-md text-sm space-y-1">
+      <p className="font-medium">
+        {appointment.status === "no_show" ? "Client didn't show" : "Completed"}
+        {" "}· recorded {format(new Date(appointment.completedAt), "MMM d, yyyy 'at' h:mm a")}
+      </p>
+      {appointment.actualDuration != null && <p>Actual duration: {appointment.actualDuration} minutes</p>}
+      {appointment.amountCollectedCents != null && <p>Collected: {formatCents(appointment.amountCollectedCents)}</p>}
+      {appointment.outcomeNotes && <p className="text-muted-foreground whitespace-pre-wrap">"{appointment.outcomeNotes}"</p>}
+    </div>
+  );
+}
+
+interface AppointmentOutcomeDialogProps {
+  appointment: AppointmentOutcomeInfo;
+  outcome: AppointmentOutcome;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Record that an appointment went ahead, or that the client didn't turn up. Analytics are recalculated from it.
+export function AppointmentOutcomeDialog({ appointment, outcome, open, onOpenChange }: AppointmentOutcomeDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [actualDuration, setActualDuration] = useState("");
+  const [amountCollected, setAmountCollected] = useState("");
+  const [notes, setNotes] = useState("");
+
+  // Start from what was recorded before, or what was agreed
+  useEffect(() => {
+    if (!open) return;
+    setActualDuration(String(appointment.actualDuration ?? appointment.duration));
+    setAmountCollected(
+      appointment.amountCollectedCents != null
+        ? (appointment.amountCollectedCents / 100).toFixed(2)
+        : outcome === "completed" && appointment.amount ? appointment.amount : ""
+    );
+    setNotes(appointment.outcomeNotes ?? "");
+  }, [open, outcome, appointment]);
+
+  const outcomeMutation = useMutation({
+    mutationFn: async () => {
+      const collected = parseFloat(amountCollected);
+      const res = await apiRequest(
+        "POST",
+        `/api/appointments/${appointment.id}/${outcome === "completed" ? "complete" : "no-show"}`,
+        {
+          actualDuration: outcome === "completed" && actualDuration ? parseInt(actualDuration, 10) : undefined,
+          amountCollectedCents: isNaN(collected) ? undefined : Math.round(collected * 100),
+          notes: notes.trim() || undefined,
+        }
+      );
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateAppointmentQueries(queryClient);
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/analytics") });
+      toast({
+        title: outcome === "completed" ? "Appointment completed" : "No-show recorded",
+        description: "The client's analytics have been updated.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error recording outcome",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{outcome === "completed" ? "Complete Appointment" : "Record No-show"}</DialogTitle>
+          <DialogDescription>
+            {outcome === "completed"
+              ? "Record how long the appointment ran and what was collected."
+              : "Record that the client didn't turn up, and anything collected anyway."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {outcome === "completed" && (
+            <div className="space-y-2">
+              <Label htmlFor="outcome-duration">Actual duration (minutes)</Label>
+              <Input
+                id="outcome-duration"
+                type="number"
+                min={1}
+                value={actualDuration}
+                onChange={(e) => setActualDuration(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="outcome-amount">Amount collected ($)</Label>
+            <Input
+              id="outcome-amount"
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="0.00"
+              value={amountCollected}
+              onChange={(e) => setAmountCollected(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="outcome-notes">Notes</Label>
+            <Textarea
+              id="outcome-notes"
+              rows={3}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={outcomeMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => outcomeMutation.mutate()} disabled={outcomeMutation.isPending}>
+            {outcomeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
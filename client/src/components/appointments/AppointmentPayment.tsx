@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { loadStripe } from "@stripe/stripe-js";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+
+// Make sure to call loadStripe outside of a component's render to avoid
+// recreating the Stripe object on every render
+const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY);
+
+export type AppointmentPaymentStatus = "not_required" | "unpaid" | "paid" | "refunded" | "partially_refunded" | "fee_retained";
+
+// Deposit and cancellation policy columns of an appointment, amounts in cents
+export interface AppointmentPaymentInfo {
+  id: number;
+  appointmentDate: string;
+  depositCents?: number | null;
+  cancellationFeeCents?: number | null;
+  freeCancellationHours?: number | null;
+  paymentStatus?: AppointmentPaymentStatus;
+  refundedCents?: number;
+  feeRetainedCents?: number;
+}
+
+// As returned by /api/appointments/:id/cancellation
+export interface CancellationTermsInfo {
+  feeCents: number;
+  refundCents: number;
+  freeUntil: string | null;
+}
+
+const paymentStatusLabels: Record<AppointmentPaymentStatus, string> = {
+  not_required: "No deposit",
+  unpaid: "Deposit due",
+  paid: "Deposit paid",
+  refunded: "Refunded",
+  partially_refunded: "Partly refunded",
+  fee_retained: "Fee kept",
+};
+
+const paymentStatusColors: Record<AppointmentPaymentStatus, string> = {
+  not_required: "bg-gray-100 text-gray-800",
+  unpaid: "bg-yellow-100 text-yellow-800",
+  paid: "bg-green-100 text-green-800",
+  refunded: "bg-blue-100 text-blue-800",
+  partially_refunded: "bg-blue-100 text-blue-800",
+  fee_retained: "bg-orange-100 text-orange-800",
+};
+
+export function formatCents(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+export function PaymentStatusBadge({ appointment }: { appointment: AppointmentPaymentInfo }) {
+  const status = appointment.paymentStatus ?? "not_required";
+  if (status === "not_required") return null;
+
+  return (
+    <Badge variant="outline" className={paymentStatusColors[status]}>
+      {paymentStatusLabels[status]}
+    </Badge>
+  );
+}
+
+// e.g. "Free cancellation until 24 hours before, then a $25.00 fee is kept from the deposit."
+export function describeCancellationPolicy(appointment: AppointmentPaymentInfo) {
+  if (!appointment.depositCents) return null;
+  if (!appointment.cancellationFeeCents || appointment.freeCancellationHours == null) {
+    return "Cancelling is free, the deposit is refunded in full.";
+  }
+  return `Free cancellation until ${appointment.freeCancellationHours} hours before, ` +
+    `then a ${formatCents(appointment.cancellationFeeCents)} fee is kept from the deposit.`;
+}
+
+// What cancelling now would cost the current user
+export function useCancellationTerms(appointmentId: number, enabled: boolean) {
+  return useQuery<CancellationTermsInfo>({
+    queryKey: [`/api/appointments/${appointmentId}/cancellation`],
+    enabled,
+    staleTime: 0,
+  });
+}
+
+export function describeCancellationTerms(terms?: CancellationTermsInfo) {
+  if (!terms || (terms.feeCents === 0 && terms.refundCents === 0)) return null;
+  if (terms.feeCents === 0) return `The ${formatCents(terms.refundCents)} deposit will be refunded in full.`;
+  return `A ${formatCents(terms.feeCents)} cancellation fee will be kept` +
+    (terms.refundCents > 0 ? ` and ${formatCents(terms.refundCents)} refunded.` : " from the deposit.");
+}
+
+interface DepositFormProps {
+  depositCents: number;
+  onPaid: () => void;
+  onCancel: () => void;
+}
+
+function DepositForm({ depositCents, onPaid, onCancel }: DepositFormProps) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setIsProcessing(true);
+    setErrorMessage(null);
+
+    // Cards that need 3-D Secure send the client away and back to the appointments page
+    const { error } = await stripe.confirmPayment({
+      elements,
+      redirect: "if_required",
+      confirmParams: {
+        return_url: window.location.origin + "/appointments",
+      },
+    });
+
+    if (error) {
+      setErrorMessage(error.message || "The payment didn't go through");
+      setIsProcessing(false);
+      return;
+    }
+    setIsProcessing(false);
+    onPaid();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement />
+      {errorMessage && (
+        <div className="p-2 bg-red-900/30 border border-red-700 rounded-md text-red-400 text-sm">
+          {errorMessage}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isProcessing}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!stripe || isProcessing}>
+          {isProcessing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Pay {formatCents(depositCents)} and Approve
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface DepositPaymentProps {
+  appointmentId: number;
+  depositCents: number;
+  onPaid: () => void;
+  onCancel: () => void;
+  onError: (error: Error) => void;
+}
+
+// Card form for an appointment's deposit. onPaid runs once Stripe has taken the payment.
+export function DepositPayment({ appointmentId, depositCents, onPaid, onCancel, onError }: DepositPaymentProps) {
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiRequest("POST", `/api/appointments/${appointmentId}/deposit`)
+      .then((res) => res.json())
+      .then((data) => {
+        // Paid already, e.g. after coming back from a 3-D Secure check
+        if (data.paymentIntentStatus === "succeeded") {
+          onPaid();
+        } else {
+          setClientSecret(data.clientSecret);
+        }
+      })
+      .catch(onError);
+  }, [appointmentId]);
+
+  if (!clientSecret) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <Elements
+      stripe={stripePromise}
+      options={{
+        clientSecret,
+        appearance: {
+          theme: "night",
+          variables: {
+            colorPrimary: "#0ea5e9",
+            colorBackground: "#1e293b",
+            colorText: "#f8fafc",
+            colorDanger: "#ef4444",
+            fontFamily: "Inter, sans-serif",
+          },
+        },
+      }}
+    >
+      <DepositForm depositCents={depositCents} onPaid={onPaid} onCancel={onCancel} />
+    </Elements>
+  );
+}
@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { invalidateAppointmentQueries } from "./AppointmentNegotiation";
+
+export type ScreeningStatus = "not_screened" | "passed" | "needs_review";
+
+// Booker and screening columns of an appointment
+export interface ScreenedAppointment {
+  id: number;
+  bookerName?: string | null;
+  bookerEmail?: string | null;
+  bookerPhone?: string | null;
+  bookerReferences?: string | null;
+  bookerVerified?: boolean;
+  screeningStatus?: ScreeningStatus;
+  screeningReasons?: string[] | null;
+}
+
+// As returned by /api/appointments/:id/screening
+export interface AppointmentScreeningInfo {
+  status: ScreeningStatus;
+  reasons: string[];
+  screenedAt: string | null;
+  rules: {
+    approvalProcess: "auto" | "manual";
+    requirements: string[];
+    verifiedOnly: boolean;
+    minimumRate: string | null;
+    preferences: string | null;
+  };
+}
+
+const requirementLabels: Record<string, string> = {
+  name: "full name",
+  email: "email",
+  phone: "phone number",
+  references: "references",
+};
+
+export function useAppointmentScreening(appointmentId?: number) {
+  return useQuery<AppointmentScreeningInfo>({
+    queryKey: [`/api/appointments/${appointmentId}/screening`],
+    enabled: !!appointmentId,
+  });
+}
+
+export function ScreeningBadge({ status }: { status?: ScreeningStatus }) {
+  switch (status) {
+    case "passed":
+      return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Screening passed</Badge>;
+    case "needs_review":
+      return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">Needs review</Badge>;
+    default:
+      return <Badge variant="outline">Not screened</Badge>;
+  }
+}
+
+// The client's screening rules in a line, e.g. "Approves automatically. Requires email and phone number, verified ID, at least $200."
+function describeRules(rules: AppointmentScreeningInfo["rules"]) {
+  const requirements = [
+    ...rules.requirements.map((requirement) => requirementLabels[requirement] ?? requirement),
+    ...(rules.verifiedOnly ? ["verified ID"] : []),
+    ...(rules.minimumRate ? [`at least ${rules.minimumRate}`] : []),
+  ];
+  return (rules.approvalProcess === "auto" ? "Approves bookings that pass automatically." : "Reviews every booking.") +
+    (requirements.length > 0 ? ` Requires ${requirements.join(", ")}.` : "");
+}
+
+// Who is booking and how the booking fared against the client's screening rules
+export function ScreeningSummary({ appointment }: { appointment: ScreenedAppointment }) {
+  const { data: screening } = useAppointmentScreening(appointment.id);
+  const reasons = screening?.reasons ?? appointment.screeningReasons ?? [];
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <ScreeningBadge status={screening?.status ?? appointment.screeningStatus} />
+        {appointment.bookerVerified && <Badge variant="outline">ID verified</Badge>}
+      </div>
+
+      {reasons.length > 0 && (
+        <ul className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800 space-y-1 list-disc list-inside">
+          {reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <p className="font-medium text-muted-foreground">Booker</p>
+          <p>{appointment.bookerName || "Not given"}</p>
+        </div>
+        <div>
+          <p className="font-medium text-muted-foreground">Contact</p>
+          <p>{[appointment.bookerEmail, appointment.bookerPhone].filter(Boolean).join(" · ") || "Not given"}</p>
+        </div>
+      </div>
+      {appointment.bookerReferences && (
+        <div>
+          <p className="font-medium text-muted-foreground">References</p>
+          <p className="whitespace-pre-wrap">{appointment.bookerReferences}</p>
+        </div>
+      )}
+
+      {screening && (
+        <div className="text-muted-foreground">
+          <p>{describeRules(screening.rules)}</p>
+          {screening.rules.preferences && <p className="mt-1 italic whitespace-pre-wrap">"{screening.rules.preferences}"</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface BookerDetailsDialogProps {
+  appointment: ScreenedAppointment;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Fill in or correct who is booking, the appointment is screened again on save
+export function BookerDetailsDialog({ appointment, open, onOpenChange }: BookerDetailsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [bookerName, setBookerName] = useState("");
+  const [bookerEmail, setBookerEmail] = useState("");
+  const [bookerPhone, setBookerPhone] = useState("");
+  const [bookerReferences, setBookerReferences] = useState("");
+  const [bookerVerified, setBookerVerified] = useState(false);
+
+  // Start from what was recorded each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setBookerName(appointment.bookerName ?? "");
+    setBookerEmail(appointment.bookerEmail ?? "");
+    setBookerPhone(appointment.bookerPhone ?? "");
+    setBookerReferences(appointment.bookerReferences ?? "");
+    setBookerVerified(!!appointment.bookerVerified);
+  }, [open, appointment]);
+
+  const bookerMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/appointments/${appointment.id}/booker`, {
+        bookerName,
+        bookerEmail,
+        bookerPhone,
+        bookerReferences,
+        bookerVerified,
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      invalidateAppointmentQueries(queryClient);
+      toast({
+        title: data.autoApproved ? "Appointment approved" : "Booker details saved",
+        description: data.autoApproved
+          ? "It now meets the client's screening rules and was approved automatically."
+          : data.screeningStatus === "passed"
+            ? "The booking passes the client's screening rules."
+            : "The booking still needs the client's review.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving booker details",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Booker Details</DialogTitle>
+          <DialogDescription>
+            The booking is screened against the client's rules again when you save.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="booker-name">Full name</Label>
+            <Input id="booker-name" value={bookerName} onChange={(e) => setBookerName(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="booker-email">Email</Label>
+              <Input id="booker-email" type="email" value={bookerEmail} onChange={(e) => setBookerEmail(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="booker-phone">Phone</Label>
+              <Input id="booker-phone" value={bookerPhone} onChange={(e) => setBookerPhone(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="booker-references">References</Label>
+            <Textarea
+              id="booker-references"
+              rows={3}
+              placeholder="Other providers who can vouch for them"
+              value={bookerReferences}
+              onChange={(e) => setBookerReferences(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="booker-verified">ID verified</Label>
+            <Switch id="booker-verified" checked={bookerVerified} onCheckedChange={setBookerVerified} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={bookerMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => bookerMutation.mutate()} disabled={bookerMutation.isPending}>
+            {bookerMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save and Screen
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
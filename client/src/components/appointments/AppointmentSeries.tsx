@@ -0,0 +1,320 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest } from "@/lib/queryClient";
+import { SlotConflictError, formatClientTime, getSeriesConflictError } from "@/lib/appointment-slots";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle, Loader2, Pencil, Repeat, XCircle } from "lucide-react";
+import { AppointmentParty, invalidateAppointmentQueries } from "./AppointmentNegotiation";
+
+export type RecurrenceDay = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+export const RECURRENCE_DAYS: { value: RecurrenceDay; label: string }[] = [
+  { value: "MO", label: "Mon" },
+  { value: "TU", label: "Tue" },
+  { value: "WE", label: "Wed" },
+  { value: "TH", label: "Thu" },
+  { value: "FR", label: "Fri" },
+  { value: "SA", label: "Sat" },
+  { value: "SU", label: "Sun" },
+];
+
+// Recurrence sent with a proposal to make it a standing booking, ending on a date or after a number of appointments
+export interface RecurrenceRuleInput {
+  frequency: "weekly" | "biweekly";
+  days: RecurrenceDay[];
+  until?: string;
+  count?: number;
+}
+
+// As returned by /api/appointments/series/preview
+export interface SeriesPreview {
+  timezone: string;
+  description: string;
+  occurrences: { start: string; conflict: SlotConflictError | null }[];
+  error: string | null;
+}
+
+interface SeriesAppointmentInfo {
+  id: number;
+  appointmentDate: string;
+  status: string;
+  seriesId?: number | null;
+  detachedFromSeries?: boolean;
+}
+
+// As returned by /api/appointments/series/:id
+export interface AppointmentSeriesInfo {
+  id: number;
+  adminId: number;
+  clientId: number;
+  recurrenceRule: string;
+  timezone: string;
+  startDate: string;
+  duration: number;
+  location: string;
+  amount: string | null;
+  status: "active" | "cancelled";
+  description: string;
+  appointments: SeriesAppointmentInfo[];
+}
+
+// Statuses a change to the series still reaches
+const OPEN_STATUSES = ["pending", "countered", "approved", "rescheduled"];
+
+export function useAppointmentSeries(seriesId?: number | null) {
+  return useQuery<AppointmentSeriesInfo>({
+    queryKey: [`/api/appointments/series/${seriesId}`],
+    enabled: !!seriesId,
+  });
+}
+
+// HH:mm of a series' appointments in the client's timezone, as the edit form takes it
+function seriesTime(series: AppointmentSeriesInfo) {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone: series.timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(new Date(series.startDate));
+}
+
+interface EditSeriesDialogProps {
+  series: AppointmentSeriesInfo;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// New time, duration, location or amount for every upcoming appointment of a standing booking
+export function EditSeriesDialog({ series, open, onOpenChange }: EditSeriesDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [time, setTime] = useState("");
+  const [duration, setDuration] = useState("");
+  const [location, setLocation] = useState("");
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+  const [conflicts, setConflicts] = useState<{ start: string; conflict: SlotConflictError }[]>([]);
+
+  // Start from the series' current terms each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setTime(seriesTime(series));
+    setDuration(String(series.duration));
+    setLocation(series.location);
+    setAmount(series.amount ?? "");
+    setNote("");
+    setConflicts([]);
+  }, [open, series]);
+
+  const editMutation = useMutation({
+    mutationFn: async () => {
+      // Only send what changed, so appointments changed since keep their other terms
+      const res = await apiRequest("PATCH", `/api/appointments/series/${series.id}`, {
+        time: time !== seriesTime(series) ? time : undefined,
+        duration: Number(duration) !== series.duration ? Number(duration) : undefined,
+        location: location !== series.location ? location : undefined,
+        amount: amount !== (series.amount ?? "") ? amount : undefined,
+        note: note || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      invalidateAppointmentQueries(queryClient);
+      toast({
+        title: "Change sent",
+        description: `${data.appointments.length} upcoming appointments are waiting on the other party.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      const seriesConflict = getSeriesConflictError(error);
+      setConflicts(seriesConflict?.conflicts ?? []);
+      toast({
+        title: "Failed to change the standing booking",
+        description: seriesConflict?.message ?? error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Change Standing Booking</DialogTitle>
+          <DialogDescription>
+            Applies to every upcoming appointment of the series except ones that were changed on their own.
+            Times are in the client's timezone ({series.timezone}).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="series-time">Time</Label>
+            <Input id="series-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="series-duration">Duration (minutes)</Label>
+            <Input id="series-duration" type="number" min={15} value={duration} onChange={(e) => setDuration(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="series-location">Location</Label>
+            <Input id="series-location" value={location} onChange={(e) => setLocation(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="series-amount">Amount</Label>
+            <Input id="series-amount" value={amount} onChange={(e) => setAmount(e.target.value)} />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="series-note">Note (optional)</Label>
+          <Textarea id="series-note" rows={2} value={note} onChange={(e) => setNote(e.target.value)} />
+        </div>
+
+        {conflicts.length > 0 && (
+          <ul className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800 space-y-1 max-h-40 overflow-y-auto">
+            {conflicts.map(({ start, conflict }) => (
+              <li key={start}>{conflict.message}</li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={editMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => editMutation.mutate()} disabled={editMutation.isPending || !time || !location}>
+            {editMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send Change
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SeriesPanelProps {
+  appointment: SeriesAppointmentInfo;
+  party: AppointmentParty;
+}
+
+// Where an appointment sits in its standing booking, and the actions that reach the whole series
+export function SeriesPanel({ appointment, party }: SeriesPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: series } = useAppointmentSeries(appointment.seriesId);
+  const [showEditDialog, setShowEditDialog] = useState(false);
+  const [showCancelDialog, setShowCancelDialog] = useState(false);
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/appointments/series/${appointment.seriesId}/accept`);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      invalidateAppointmentQueries(queryClient);
+      toast({
+        title: `${data.accepted.length} appointments approved`,
+        description: data.skipped.length > 0
+          ? `${data.skipped.length} still need their deposit paid before they can be approved.`
+          : "The other party has been notified.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to approve the standing booking", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", `/api/appointments/series/${appointment.seriesId}/cancel`, {});
+      return res.json();
+    },
+    onSuccess: (data) => {
+      invalidateAppointmentQueries(queryClient);
+      toast({
+        title: "Standing booking cancelled",
+        description: `${data.cancelled.length} upcoming appointments were cancelled.`,
+      });
+      setShowCancelDialog(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to cancel the standing booking", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!appointment.seriesId || !series) return null;
+
+  const position = series.appointments.findIndex((occurrence) => occurrence.id === appointment.id) + 1;
+  const upcoming = series.appointments.filter((occurrence) =>
+    OPEN_STATUSES.includes(occurrence.status) && new Date(occurrence.appointmentDate) > new Date());
+  const isActive = series.status === "active" && upcoming.length > 0;
+
+  return (
+    <div className="p-3 border rounded-md text-sm space-y-2">
+      <p className="flex items-center font-medium">
+        <Repeat className="mr-2 h-4 w-4" />
+        Standing booking: {series.description}
+      </p>
+      <p className="text-muted-foreground">
+        Appointment {position} of {series.appointments.length}, at {formatClientTime(new Date(series.startDate), series.timezone)} for
+        the client.
+        {series.status === "cancelled" && " The standing booking has been cancelled."}
+        {appointment.detachedFromSeries && " This appointment was changed on its own, so changes to the series leave it as it is."}
+      </p>
+      {isActive && (
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" onClick={() => setShowEditDialog(true)}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Change Series
+          </Button>
+          {party === "client" && upcoming.some((occurrence) => ["pending", "countered", "rescheduled"].includes(occurrence.status)) && (
+            <Button size="sm" variant="outline" onClick={() => acceptMutation.mutate()} disabled={acceptMutation.isPending}>
+              <CheckCircle className="mr-2 h-4 w-4" />
+              Approve All
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={() => setShowCancelDialog(true)}>
+            <XCircle className="mr-2 h-4 w-4" />
+            Cancel Series
+          </Button>
+        </div>
+      )}
+
+      <EditSeriesDialog series={series} open={showEditDialog} onOpenChange={setShowEditDialog} />
+
+      <Dialog open={showCancelDialog} onOpenChange={setShowCancelDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Standing Booking</DialogTitle>
+            <DialogDescription>
+              All {upcoming.length} upcoming appointments of the series will be cancelled, including ones changed on
+              their own. Deposits are refunded as they would be for each appointment.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCancelDialog(false)} disabled={cancelMutation.isPending}>
+              No, Keep It
+            </Button>
+            <Button variant="destructive" onClick={() => cancelMutation.mutate()} disabled={cancelMutation.isPending}>
+              {cancelMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Yes, Cancel All
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarPlus, Copy, Loader2, RefreshCw } from "lucide-react";
+
+// As returned by /api/appointments/calendar-feed
+export interface CalendarFeedInfo {
+  url: string;
+  webcalUrl: string;
+  updatedAt: string;
+}
+
+const CALENDAR_FEED_QUERY_KEY = ["/api/appointments/calendar-feed"];
+
+// Button that opens the user's iCal feed URL, for subscribing from Google, Apple or Outlook calendars
+export function CalendarFeedDialog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  // The feed is created the first time it's fetched, so wait until it's wanted
+  const { data: feed, isLoading } = useQuery<CalendarFeedInfo>({
+    queryKey: CALENDAR_FEED_QUERY_KEY,
+    enabled: open,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/appointments/calendar-feed/regenerate");
+      return res.json() as Promise<CalendarFeedInfo>;
+    },
+    onSuccess: (updatedFeed) => {
+      queryClient.setQueryData(CALENDAR_FEED_QUERY_KEY, updatedFeed);
+      toast({
+        title: "Calendar link reset",
+        description: "Calendars subscribed to the old link will stop updating.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reset calendar link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyUrl = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast({ title: "Copied", description: "Paste the link into your calendar app's subscribe option." });
+    } catch {
+      toast({ title: "Couldn't copy the link", description: "Select it and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" className="flex items-center gap-2" onClick={() => setOpen(true)}>
+        <CalendarPlus className="h-4 w-4" />
+        Subscribe to Calendar
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Subscribe to Your Appointments</DialogTitle>
+            <DialogDescription>
+              Add this link to your calendar app to see your appointments. Confirmed appointments show as busy,
+              proposals still being worked out as tentative, and changes or cancellations update automatically.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading || !feed ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="calendar-feed-url">Calendar link</Label>
+              <div className="flex gap-2">
+                <Input id="calendar-feed-url" readOnly value={feed.url} onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={copyUrl} title="Copy link">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Anyone with this link can see your appointments. Reset it if it's been shared by mistake.
+              </p>
+            </div>
+          )}
+
+          <DialogFooter className="flex justify-between sm:justify-between gap-2">
+            <Button
+              variant="ghost"
+              onClick={() => regenerateMutation.mutate()}
+              disabled={!feed || regenerateMutation.isPending}
+            >
+              {regenerateMutation.isPending
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <RefreshCw className="h-4 w-4 mr-2" />}
+              Reset Link
+            </Button>
+            {feed && (
+              <Button asChild>
+                <a href={feed.webcalUrl}>Open in Calendar App</a>
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
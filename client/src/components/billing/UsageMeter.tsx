@@ -0,0 +1,72 @@
+import { Progress } from "@/components/ui/progress";
+
+// Usage against the plan's quotas, as returned by /api/usage
+export interface UsageSummary {
+  plan: "basic" | "pro" | "premium";
+  limits: {
+    storageBytes: number;
+    filesPerMonth: number | null; // null for no limit
+    maxFileSize: number;
+  };
+  bytesUsed: number;
+  fileCount: number;
+  uploadsThisMonth: number;
+  monthStart: string;
+  exempt: boolean;
+}
+
+export function formatBytes(bytes: number): string {
+  const GB = 1024 * 1024 * 1024;
+  const MB = 1024 * 1024;
+  if (bytes >= GB) return `${(bytes / GB).toFixed(1)} GB`;
+  if (bytes >= MB) return `${(bytes / MB).toFixed(1)} MB`;
+  return `${Math.ceil(bytes / 1024)} KB`;
+}
+
+function MeterRow({ label, used, limit, detail }: { label: string; used: number; limit: number | null; detail: string }) {
+  const percent = limit ? Math.min(100, (used / limit) * 100) : 0;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span>{label}</span>
+        <span className={percent >= 90 ? "text-red-500" : "text-muted-foreground"}>{detail}</span>
+      </div>
+      {limit !== null && <Progress value={percent} className="h-2" />}
+    </div>
+  );
+}
+
+interface UsageMeterProps {
+  usage: UsageSummary;
+  className?: string;
+}
+
+export function UsageMeter({ usage, className }: UsageMeterProps) {
+  const { limits } = usage;
+
+  return (
+    <div className={`space-y-4 ${className ?? ""}`}>
+      <MeterRow
+        label="Storage"
+        used={usage.bytesUsed}
+        limit={usage.exempt ? null : limits.storageBytes}
+        detail={usage.exempt
+          ? `${formatBytes(usage.bytesUsed)} used`
+          : `${formatBytes(usage.bytesUsed)} of ${formatBytes(limits.storageBytes)}`}
+      />
+      <MeterRow
+        label="Uploads this month"
+        used={usage.uploadsThisMonth}
+        limit={usage.exempt ? null : limits.filesPerMonth}
+        detail={usage.exempt || limits.filesPerMonth === null
+          ? `${usage.uploadsThisMonth} (no limit)`
+          : `${usage.uploadsThisMonth} of ${limits.filesPerMonth}`}
+      />
+      <p className="text-sm text-muted-foreground">
+        {usage.fileCount} {usage.fileCount === 1 ? "file" : "files"} stored
+        {!usage.exempt && ` · files up to ${formatBytes(limits.maxFileSize)} on the ${usage.plan} plan`}
+      </p>
+    </div>
+  );
+}
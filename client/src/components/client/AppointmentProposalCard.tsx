@@ -28,10 +28,31 @@ import {
   XCircle,
   AlertCircle,
   Loader2,
+  Repeat,
+  ShieldAlert,
 } from "lucide-react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import {
+  CounterProposalDialog,
+  RevisionHistory,
+  describeRevisionTerms,
+  getPendingChange,
+  invalidateAppointmentQueries,
+  useAppointmentNegotiation,
+} from "@/components/appointments/AppointmentNegotiation";
+import {
+  AppointmentPaymentStatus,
+  DepositPayment,
+  PaymentStatusBadge,
+  describeCancellationPolicy,
+  describeCancellationTerms,
+  formatCents,
+  useCancellationTerms,
+} from "@/components/appointments/AppointmentPayment";
+import { SeriesPanel } from "@/components/appointments/AppointmentSeries";
+import { ScreeningStatus } from "@/components/appointments/AppointmentScreening";
 
 interface AppointmentProposalCardProps {
   appointment: {
@@ -44,9 +65,18 @@ interface AppointmentProposalCardProps {
     details?: string;
     amount: string;
     photoUrl?: string;
-    status: "pending" | "approved" | "declined" | "completed" | "cancelled";
+    status: "pending" | "countered" | "approved" | "rescheduled" | "declined" | "completed" | "no_show" | "cancelled";
     notificationMethod: "email" | "sms" | "in-app" | "all";
     notificationSent: boolean;
+    depositCents?: number | null;
+    cancellationFeeCents?: number | null;
+    freeCancellationHours?: number | null;
+    paymentStatus?: AppointmentPaymentStatus;
+    seriesId?: number | null;
+    detachedFromSeries?: boolean;
+    bookerName?: string | null;
+    screeningStatus?: ScreeningStatus;
+    screeningReasons?: string[] | null;
     createdAt: string;
     admin?: {
       id: number;
@@ -62,6 +92,17 @@ export function AppointmentProposalCard({ appointment }: AppointmentProposalCard
   const [showDetails, setShowDetails] = useState(false);
   const [showApproveDialog, setShowApproveDialog] = useState(false);
   const [showDeclineDialog, setShowDeclineDialog] = useState(false);
+  const [showCounterDialog, setShowCounterDialog] = useState(false);
+  const [showCancelDialog, setShowCancelDialog] = useState(false);
+
+  const { data: negotiation } = useAppointmentNegotiation(appointment.id);
+  const pendingChange = getPendingChange(negotiation);
+  const isMyTurn = negotiation?.awaitingParty === "client";
+  const canCounter = isMyTurn || appointment.status === "approved";
+  const canCancel = ["pending", "countered", "approved", "rescheduled"].includes(appointment.status);
+  const needsDeposit = appointment.paymentStatus === "unpaid" && !!appointment.depositCents;
+  const cancellationPolicy = describeCancellationPolicy(appointment);
+  const { data: cancellationTerms, isLoading: isLoadingCancellationTerms } = useCancellationTerms(appointment.id, showCancelDialog);
 
   // Format appointment date
   const formattedDate = format(new Date(appointment.appointmentDate), "PPPP 'at' h:mm a");
@@ -76,6 +117,14 @@ export function AppointmentProposalCard({ appointment }: AppointmentProposalCard
         color = "bg-yellow-500 text-white";
         text = "Pending Response";
         break;
+      case "countered":
+        color = "bg-orange-500 text-white";
+        text = "Counter-Proposal";
+        break;
+      case "rescheduled":
+        color = "bg-purple-500 text-white";
+        text = "Reschedule Requested";
+        break;
       case "approved":
         color = "bg-green-500 text-white";
         text = "Approved";
@@ -88,6 +137,10 @@ export function AppointmentProposalCard({ appointment }: AppointmentProposalCard
         color = "bg-blue-500 text-white";
         text = "Completed";
         break;
+      case "no_show":
+        color = "bg-red-500 text-white";
+        text = "No-show";
+        break;
       case "cancelled":
         color = "bg-gray-500 text-white";
         text = "Cancelled";
@@ -103,18 +156,18 @@ export function AppointmentProposalCard({ appointment }: AppointmentProposalCard
   // Response mutations
   const approveAppointmentMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("PUT", `/api/appointments/${appointment.id}/respond`, {
-        status: "approved"
-      });
+      const res = await apiRequest("POST", `/api/appointments/${appointment.id}/accept`);
       return res.json();
     },
     onSuccess: () => {
       toast({
         title: "Appointment approved",
-        description: "You have successfully approved this appointment.",
+        description: pendingChange
+          ? "The new terms are now the appointment's terms."
+          : "You have successfully approved this appointment.",
         variant: "default",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/appointments/client"] });
+      invalidateAppointmentQueries(queryClient);
       setShowApproveDialog(false);
     },
     onError: (error: Error) => {
@@ -126,20 +179,43 @@ export function AppointmentProposalCard({ appointment }: AppointmentProposalCard
     }
   });
   
-  const declineAppointmentMutation = useMutation({
+  const cancelAppointmentMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("PUT", `/api/appointments/${appointment.id}/respond`, {
-        status: "declined"
+      const res = await apiRequest("PATCH", `/api/appointments/${appointment.id}/cancel`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Appointment cancelled",
+        description: describeCancellationTerms(cancellationTerms) ?? "The admin has been notified.",
+        variant: "default",
+      });
+      invalidateAppointmentQueries(queryClient);
+      setShowCancelDialog(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to cancel appointment: ${error.message}`,
+        variant: "destructive",
       });
+    }
+  });
+  
+  const declineAppointmentMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/appointments/${appointment.id}/decline`);
       return res.json();
     },
     onSuccess: () => {
       toast({
         title: "Appointment declined",
-        description: "You have declined this appointment proposal.",
+        description: appointment.status === "rescheduled"
+          ? "The appointment stays as agreed."
+          : "You have declined this appointment proposal.",
         variant: "default",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/appointments/client"] });
+      invalidateAppointmentQueries(queryClient);
       setShowDeclineDialog(false);
     },
     onError: (error: Error) => {
@@ -187,8 +263,51 @@ export function AppointmentProposalCard({ appointment }: AppointmentProposalCard
               <DollarSign className="h-4 w-4 text-primary" />
               <span className="font-semibold">${appointment.amount}</span>
             </div>
+            
+            {!!appointment.depositCents && (
+              <div className="flex items-center gap-2">
+                <DollarSign className="h-4 w-4 text-primary" />
+                <span>{formatCents(appointment.depositCents)} deposit</span>
+                <PaymentStatusBadge appointment={appointment} />
+              </div>
+            )}
+            
+            {cancellationPolicy && (
+              <p className="text-sm text-muted-foreground">{cancellationPolicy}</p>
+            )}
           </div>
           
+          <SeriesPanel appointment={appointment} party="client" />
+          
+          {appointment.screeningStatus === "needs_review" && appointment.status === "pending" && (
+            <Alert>
+              <ShieldAlert className="h-4 w-4" />
+              <AlertTitle>Held for your review</AlertTitle>
+              <AlertDescription>
+                This booking doesn't meet your screening rules
+                {appointment.bookerName && ` (booked by ${appointment.bookerName})`}:
+                <ul className="list-disc list-inside mt-1">
+                  {(appointment.screeningReasons ?? []).map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+          
+          {pendingChange && (
+            <Alert>
+              <Repeat className="h-4 w-4" />
+              <AlertTitle>
+                {pendingChange.proposedBy === appointment.adminId ? "Admin proposed new terms" : "You proposed new terms"}
+              </AlertTitle>
+              <AlertDescription>
+                {describeRevisionTerms(pendingChange)}
+                {pendingChange.note && <span className="block mt-1 italic">"{pendingChange.note}"</span>}
+              </AlertDescription>
+            </Alert>
+          )}
+          
           {appointment.photoUrl && (
             <div className="mt-4 h-36 w-full overflow-hidden rounded-md">
               <img
@@ -205,29 +324,53 @@ export function AppointmentProposalCard({ appointment }: AppointmentProposalCard
             View Details
           </Button>
           
-          {appointment.status === "pending" && (
+          {canCounter && (
             <div className="flex gap-2">
               <Button
-                variant="destructive"
+                variant="outline"
                 size="sm"
                 className="flex items-center gap-1"
-                onClick={() => setShowDeclineDialog(true)}
+                onClick={() => setShowCounterDialog(true)}
               >
-                <XCircle className="h-4 w-4" />
-                Decline
+                <Repeat className="h-4 w-4" />
+                {appointment.status === "approved" ? "Reschedule" : "Counter"}
               </Button>
               
-              <Button
-                variant="default"
-                size="sm"
-                className="flex items-center gap-1"
-                onClick={() => setShowApproveDialog(true)}
-              >
-                <CheckCircle className="h-4 w-4" />
-                Approve
-              </Button>
+              {isMyTurn && (
+                <>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    className="flex items-center gap-1"
+                    onClick={() => setShowDeclineDialog(true)}
+                  >
+                    <XCircle className="h-4 w-4" />
+                    Decline
+                  </Button>
+                  
+                  <Button
+                    variant="default"
+                    size="sm"
+                    className="flex items-center gap-1"
+                    onClick={() => setShowApproveDialog(true)}
+                  >
+                    <CheckCircle className="h-4 w-4" />
+                    Approve
+                  </Button>
+                </>
+              )}
             </div>
           )}
+          
+          {negotiation?.awaitingParty === "admin" && (
+            <span className="text-sm text-muted-foreground">Waiting on the admin</span>
+          )}
+          
+          {canCancel && !isMyTurn && (
+            <Button variant="ghost" size="sm" onClick={() => setShowCancelDialog(true)}>
+              Cancel Appointment
+            </Button>
+          )}
         </CardFooter>
       </Card>
       
@@ -273,6 +416,11 @@ export function AppointmentProposalCard({ appointment }: AppointmentProposalCard
               </div>
             )}
             
+            <div>
+              <h3 className="text-sm font-semibold mb-1">History</h3>
+              <RevisionHistory appointment={appointment} negotiation={negotiation} />
+            </div>
+            
             {appointment.photoUrl && (
               <div>
                 <h3 className="text-sm font-semibold mb-1">Photo</h3>
@@ -288,7 +436,7 @@ export function AppointmentProposalCard({ appointment }: AppointmentProposalCard
           </div>
           
           <DialogFooter className="flex justify-end gap-2 mt-4">
-            {appointment.status === "pending" && (
+            {isMyTurn && (
               <div className="flex gap-2 w-full">
                 <Button
                   variant="destructive"
@@ -316,7 +464,7 @@ export function AppointmentProposalCard({ appointment }: AppointmentProposalCard
               </div>
             )}
             
-            {appointment.status !== "pending" && (
+            {!isMyTurn && (
               <Button variant="outline" onClick={() => setShowDetails(false)}>
                 Close
               </Button>
@@ -335,12 +483,85 @@ export function AppointmentProposalCard({ appointment }: AppointmentProposalCard
             </DialogDescription>
           </DialogHeader>
           
-          <div className="py-4">
+          <div className="py-4 space-y-4">
             <Alert>
               <CheckCircle className="h-4 w-4" />
               <AlertTitle>Confirmation</AlertTitle>
               <AlertDescription>
-                By approving this appointment, you are committing to the time, date, and location specified.
+                By approving this appointment, you are committing to the
+                {pendingChange ? ` new terms: ${describeRevisionTerms(pendingChange)}.` : " time, date, and location specified."}
+                {needsDeposit && ` A ${formatCents(appointment.depositCents!)} deposit is due now. ${cancellationPolicy}`}
+              </AlertDescription>
+            </Alert>
+            
+            {needsDeposit && showApproveDialog && (
+              <DepositPayment
+                appointmentId={appointment.id}
+                depositCents={appointment.depositCents!}
+                onPaid={() => approveAppointmentMutation.mutate()}
+                onCancel={() => setShowApproveDialog(false)}
+                onError={(error) => {
+                  toast({
+                    title: "Couldn't start the payment",
+                    description: error.message,
+                    variant: "destructive",
+                  });
+                  setShowApproveDialog(false);
+                }}
+              />
+            )}
+          </div>
+          
+          {!needsDeposit && (
+            <DialogFooter className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setShowApproveDialog(false)}
+                disabled={approveAppointmentMutation.isPending}
+              >
+                Cancel
+              </Button>
+              
+              <Button
+                variant="default"
+                onClick={() => approveAppointmentMutation.mutate()}
+                disabled={approveAppointmentMutation.isPending}
+              >
+                {approveAppointmentMutation.isPending ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Approving...
+                  </>
+                ) : (
+                  <>
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Approve Appointment
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+      
+      {/* Cancel Dialog */}
+      <Dialog open={showCancelDialog} onOpenChange={setShowCancelDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Cancel Appointment</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to cancel this appointment? This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          
+          <div className="py-4">
+            <Alert variant={cancellationTerms?.feeCents ? "destructive" : "default"}>
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>{cancellationTerms?.feeCents ? "Late cancellation" : "Cancellation"}</AlertTitle>
+              <AlertDescription>
+                {isLoadingCancellationTerms
+                  ? "Checking the cancellation policy..."
+                  : describeCancellationTerms(cancellationTerms) ?? "The admin will be notified."}
               </AlertDescription>
             </Alert>
           </div>
@@ -348,28 +569,19 @@ export function AppointmentProposalCard({ appointment }: AppointmentProposalCard
           <DialogFooter className="flex justify-end gap-2">
             <Button
               variant="outline"
-              onClick={() => setShowApproveDialog(false)}
-              disabled={approveAppointmentMutation.isPending}
+              onClick={() => setShowCancelDialog(false)}
+              disabled={cancelAppointmentMutation.isPending}
             >
-              Cancel
+              Keep Appointment
             </Button>
             
             <Button
-              variant="default"
-              onClick={() => approveAppointmentMutation.mutate()}
-              disabled={approveAppointmentMutation.isPending}
+              variant="destructive"
+              onClick={() => cancelAppointmentMutation.mutate()}
+              disabled={cancelAppointmentMutation.isPending || isLoadingCancellationTerms}
             >
-              {approveAppointmentMutation.isPending ? (
-                <>
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Approving...
-                </>
-              ) : (
-                <>
-                  <CheckCircle className="h-4 w-4 mr-2" />
-                  Approve Appointment
-                </>
-              )}
+              {cancelAppointmentMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Cancel Appointment
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -390,7 +602,9 @@ export function AppointmentProposalCard({ appointment }: AppointmentProposalCard
               <AlertCircle className="h-4 w-4" />
               <AlertTitle>Warning</AlertTitle>
               <AlertDescription>
-                Declining this appointment proposal cannot be undone. The admin will be notified of your decision.
+                {appointment.status === "rescheduled"
+                  ? "The appointment will stay as agreed. The admin will be notified of your decision."
+                  : "Declining this appointment proposal cannot be undone. The admin will be notified of your decision."}
               </AlertDescription>
             </Alert>
           </div>
@@ -424,6 +638,13 @@ export function AppointmentProposalCard({ appointment }: AppointmentProposalCard
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      
+      <CounterProposalDialog
+        appointment={appointment}
+        negotiation={negotiation}
+        open={showCounterDialog}
+        onOpenChange={setShowCounterDialog}
+      />
     </>
   );
 }
\ No newline at end of file
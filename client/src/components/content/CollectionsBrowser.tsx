@@ -0,0 +1,641 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+import { ContentStatus, contentStatusLabels } from '@/components/content/ContentReviewPanel';
+import {
+  ArrowDown, ArrowLeft, ArrowUp, Download, FolderOpen, Image, Loader2, Pencil, Plus, Sparkles, Star, Trash2, Video, X,
+} from 'lucide-react';
+
+export type CollectionType = 'manual' | 'smart';
+
+export interface SmartAlbumRules {
+  tags: string[];
+  anyTags: string[];
+  excludeTags: string[];
+  statuses: ContentStatus[];
+  fileTypes: ('image' | 'video')[];
+  posted?: boolean;
+}
+
+interface CollectionSummary {
+  id: number;
+  userId: number;
+  name: string;
+  description: string | null;
+  type: CollectionType;
+  rules: SmartAlbumRules | null;
+  coverMediaId: number | null;
+  itemCount: number;
+  coverUrl: string | null;
+}
+
+interface CollectionMedia {
+  id: number;
+  title: string;
+  fileType: string;
+  status: ContentStatus;
+  tags: string[] | null;
+  url: string;
+  thumbnailUrl?: string;
+}
+
+interface CollectionDetail extends CollectionSummary {
+  media: CollectionMedia[];
+}
+
+interface CollectionsBrowserProps {
+  // Client whose vault is shown. Clients always see their own, admins pick the client.
+  clientId?: number;
+}
+
+const emptyRules: SmartAlbumRules = { tags: [], anyTags: [], excludeTags: [], statuses: [], fileTypes: [] };
+
+const ruleStatuses: ContentStatus[] = ['pending', 'approved', 'changes_requested', 'rejected'];
+
+function parseTagList(value: string): string[] {
+  return Array.from(new Set(value.split(',').map(tag => tag.trim().replace(/^#+/, '')).filter(Boolean)));
+}
+
+// Plain-language summary of smart album rules, e.g. "tagged beach · approved · not posted yet"
+export function describeRules(rules: SmartAlbumRules | null): string {
+  if (!rules) return '';
+  const parts: string[] = [];
+  if (rules.tags.length) parts.push(`tagged ${rules.tags.join(' and ')}`);
+  if (rules.anyTags.length) parts.push(`tagged ${rules.anyTags.join(' or ')}`);
+  if (rules.excludeTags.length) parts.push(`not tagged ${rules.excludeTags.join(' or ')}`);
+  if (rules.statuses.length) parts.push(rules.statuses.map(status => contentStatusLabels[status].toLowerCase()).join(' or '));
+  if (rules.fileTypes.length) parts.push(rules.fileTypes.map(type => `${type}s`).join(' or '));
+  if (rules.posted !== undefined) parts.push(rules.posted ? 'already posted' : 'not posted yet');
+  return parts.join(' · ') || 'all content';
+}
+
+function MediaThumbnail({ media, className }: { media: CollectionMedia; className?: string }) {
+  return (
+    <div className={cn('aspect-square bg-muted rounded-md overflow-hidden flex items-center justify-center', className)}>
+      {media.thumbnailUrl ? (
+        <img src={media.thumbnailUrl} alt={media.title} className="w-full h-full object-cover" />
+      ) : media.fileType === 'video' ? (
+        <Video className="h-8 w-8 text-muted-foreground" />
+      ) : (
+        <Image className="h-8 w-8 text-muted-foreground" />
+      )}
+    </div>
+  );
+}
+
+function SmartRulesEditor({ rules, onChange }: { rules: SmartAlbumRules; onChange: (rules: SmartAlbumRules) => void }) {
+  // Tags are edited as text and parsed on blur so typing commas and spaces isn't interrupted
+  const [tagText, setTagText] = useState({
+    tags: rules.tags.join(', '),
+    anyTags: rules.anyTags.join(', '),
+    excludeTags: rules.excludeTags.join(', '),
+  });
+
+  const tagFields: { key: keyof typeof tagText; label: string; placeholder: string }[] = [
+    { key: 'tags', label: 'Has all of these tags', placeholder: 'beach, may' },
+    { key: 'anyTags', label: 'Has any of these tags', placeholder: 'bikini, swimwear' },
+    { key: 'excludeTags', label: 'Has none of these tags', placeholder: 'outtake' },
+  ];
+
+  const toggle = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  return (
+    <div className="space-y-4">
+      {tagFields.map(({ key, label, placeholder }) => (
+        <div key={key} className="space-y-1">
+          <Label>{label}</Label>
+          <Input
+            value={tagText[key]}
+            placeholder={placeholder}
+            onChange={(e) => setTagText({ ...tagText, [key]: e.target.value })}
+            onBlur={() => onChange({ ...rules, [key]: parseTagList(tagText[key]) })}
+          />
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <Label>Review status</Label>
+        <div className="flex flex-wrap gap-4">
+          {ruleStatuses.map(status => (
+            <label key={status} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={rules.statuses.includes(status)}
+                onCheckedChange={() => onChange({ ...rules, statuses: toggle(rules.statuses, status) })}
+              />
+              {contentStatusLabels[status]}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Type</Label>
+          <div className="flex gap-4">
+            {(['image', 'video'] as const).map(type => (
+              <label key={type} className="flex items-center gap-2 text-sm capitalize">
+                <Checkbox
+                  checked={rules.fileTypes.includes(type)}
+                  onCheckedChange={() => onChange({ ...rules, fileTypes: toggle(rules.fileTypes, type) })}
+                />
+                {type}s
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Posting</Label>
+          <Select
+            value={rules.posted === undefined ? 'any' : rules.posted ? 'posted' : 'not-posted'}
+            onValueChange={(value) => onChange({ ...rules, posted: value === 'any' ? undefined : value === 'posted' })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Posted or not</SelectItem>
+              <SelectItem value="not-posted">Not posted yet</SelectItem>
+              <SelectItem value="posted">Already posted</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface CollectionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clientId?: number;
+  collection?: CollectionSummary; // edited collection, a new one is created when missing
+  onSaved: (collection: CollectionSummary) => void;
+}
+
+function CollectionFormDialog({ open, onOpenChange, clientId, collection, onSaved }: CollectionFormDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [type, setType] = useState<CollectionType>('manual');
+  const [rules, setRules] = useState<SmartAlbumRules>(emptyRules);
+  const [isSaving, setIsSaving] = useState(false);
+  const [preview, setPreview] = useState<{ itemCount: number } | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setName(collection?.name ?? '');
+      setDescription(collection?.description ?? '');
+      setType(collection?.type ?? 'manual');
+      setRules(collection?.rules ?? emptyRules);
+      setPreview(null);
+    }
+  }, [open, collection]);
+
+  // Show how many files the rules match while they are edited
+  useEffect(() => {
+    if (!open || type !== 'smart') return;
+
+    let cancelled = false;
+    apiRequest('POST', '/api/collections/preview', { userId: clientId, rules })
+      .then(res => res.json())
+      .then(result => { if (!cancelled) setPreview(result); })
+      .catch(() => { if (!cancelled) setPreview(null); });
+    return () => { cancelled = true; };
+  }, [open, type, rules, clientId]);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const res = collection
+        ? await apiRequest('PATCH', `/api/collections/${collection.id}`, {
+            name,
+            description: description || null,
+            ...(collection.type === 'smart' ? { rules } : {}),
+          })
+        : await apiRequest('POST', '/api/collections', {
+            userId: clientId,
+            name,
+            description: description || null,
+            type,
+            ...(type === 'smart' ? { rules } : {}),
+          });
+      onSaved(await res.json());
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'There was a problem saving the collection.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>{collection ? 'Edit Collection' : 'New Collection'}</DialogTitle>
+          <DialogDescription>
+            Collections group content into sets and bundles. Smart albums fill themselves from rules.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="collection-name">Name</Label>
+            <Input id="collection-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Beach set May" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="collection-description">Description</Label>
+            <Textarea id="collection-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+          </div>
+          {!collection && (
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as CollectionType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="manual">Collection (pick files)</SelectItem>
+                  <SelectItem value="smart">Smart album (rules)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {type === 'smart' && (
+            <>
+              <SmartRulesEditor key={collection?.id ?? 'new'} rules={rules} onChange={setRules} />
+              <p className="text-sm text-muted-foreground">
+                {preview ? `${preview.itemCount} file${preview.itemCount === 1 ? '' : 's'} currently match` : 'Checking matches…'}
+              </p>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={save} disabled={!name.trim() || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AddMediaDialogProps {
+  collection: CollectionDetail | null;
+  onOpenChange: (open: boolean) => void;
+  onAdded: (collection: CollectionDetail) => void;
+}
+
+function AddMediaDialog({ collection, onOpenChange, onAdded }: AddMediaDialogProps) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<number[]>([]);
+  const [search, setSearch] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const { data: media = [], isLoading } = useQuery<CollectionMedia[]>({
+    queryKey: [`/api/collections/media?userId=${collection?.userId}`],
+    enabled: !!collection,
+  });
+
+  useEffect(() => {
+    setSelected([]);
+    setSearch('');
+  }, [collection?.id]);
+
+  const inCollection = new Set(collection?.media.map(item => item.id));
+  const term = search.toLowerCase();
+  const available = media.filter(item =>
+    !inCollection.has(item.id) &&
+    (!term || item.title.toLowerCase().includes(term) || (item.tags ?? []).some(tag => tag.toLowerCase().includes(term)))
+  );
+
+  const add = async () => {
+    if (!collection) return;
+
+    setIsAdding(true);
+    try {
+      const res = await apiRequest('POST', `/api/collections/${collection.id}/items`, { mediaFileIds: selected });
+      onAdded(await res.json());
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'There was a problem adding files to the collection.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!collection} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Add to {collection?.name}</DialogTitle>
+          <DialogDescription>Select the files to add.</DialogDescription>
+        </DialogHeader>
+
+        <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search by title or tag" />
+
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : available.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No other content to add</p>
+        ) : (
+          <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+            {available.map(item => {
+              const isSelected = selected.includes(item.id);
+              return (
+                <button
+                  key={item.id}
+                  type="button"
+                  onClick={() => setSelected(isSelected ? selected.filter(id => id !== item.id) : [...selected, item.id])}
+                  className={cn('text-left rounded-md p-1 border-2', isSelected ? 'border-primary' : 'border-transparent')}
+                >
+                  <MediaThumbnail media={item} />
+                  <p className="text-xs truncate mt-1" title={item.title}>{item.title}</p>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={add} disabled={selected.length === 0 || isAdding}>
+            {isAdding && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Add {selected.length > 0 ? selected.length : ''} File{selected.length === 1 ? '' : 's'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Vault of a client's collections and smart albums, used on the client and admin pages
+export function CollectionsBrowser({ clientId }: CollectionsBrowserProps) {
+  const { toast } = useToast();
+  const [openCollectionId, setOpenCollectionId] = useState<number | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<CollectionSummary | undefined>();
+  const [addingTo, setAddingTo] = useState<CollectionDetail | null>(null);
+
+  const listKey = `/api/collections${clientId ? `?userId=${clientId}` : ''}`;
+  const { data: collections = [], isLoading } = useQuery<CollectionSummary[]>({
+    queryKey: [listKey],
+  });
+
+  const { data: openCollection, isLoading: isLoadingCollection } = useQuery<CollectionDetail>({
+    queryKey: [`/api/collections/${openCollectionId}`],
+    enabled: openCollectionId !== null,
+  });
+
+  // Switching clients closes the open collection
+  useEffect(() => {
+    setOpenCollectionId(null);
+  }, [clientId]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/collections') });
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      refresh();
+    } catch (error) {
+      toast({ title: 'Error', description: failure, variant: 'destructive' });
+    }
+  };
+
+  const removeItem = (mediaFileId: number) => runAction(
+    () => apiRequest('DELETE', `/api/collections/${openCollectionId}/items/${mediaFileId}`),
+    'There was a problem removing the file.'
+  );
+
+  const moveItem = (index: number, offset: number) => {
+    if (!openCollection) return;
+    const order = openCollection.media.map(item => item.id);
+    const [moved] = order.splice(index, 1);
+    order.splice(index + offset, 0, moved);
+    runAction(
+      () => apiRequest('PUT', `/api/collections/${openCollection.id}/items/order`, { mediaFileIds: order }),
+      'There was a problem reordering the collection.'
+    );
+  };
+
+  const setCover = (mediaFileId: number) => runAction(
+    () => apiRequest('PATCH', `/api/collections/${openCollectionId}`, { coverMediaId: mediaFileId }),
+    'There was a problem changing the cover.'
+  );
+
+  const deleteCollection = async () => {
+    if (!openCollection || !window.confirm(`Delete "${openCollection.name}"? The files in it are kept.`)) return;
+    await runAction(
+      () => apiRequest('DELETE', `/api/collections/${openCollection.id}`),
+      'There was a problem deleting the collection.'
+    );
+    setOpenCollectionId(null);
+  };
+
+  const openForm = (collection?: CollectionSummary) => {
+    setEditing(collection);
+    setFormOpen(true);
+  };
+
+  const dialogs = (
+    <>
+      <CollectionFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        clientId={clientId}
+        collection={editing}
+        onSaved={(collection) => {
+          refresh();
+          setOpenCollectionId(collection.id);
+        }}
+      />
+      <AddMediaDialog
+        collection={addingTo}
+        onOpenChange={(open) => !open && setAddingTo(null)}
+        onAdded={refresh}
+      />
+    </>
+  );
+
+  if (openCollectionId !== null) {
+    if (isLoadingCollection || !openCollection) {
+      return (
+        <div className="flex justify-center p-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    const isManual = openCollection.type === 'manual';
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => setOpenCollectionId(null)}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h2 className="text-xl font-semibold flex items-center gap-2">
+                {openCollection.name}
+                {!isManual && <Badge variant="secondary"><Sparkles className="h-3 w-3 mr-1" />Smart</Badge>}
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                {isManual ? openCollection.description : describeRules(openCollection.rules)}
+                {' · '}{openCollection.itemCount} file{openCollection.itemCount === 1 ? '' : 's'}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {isManual && (
+              <Button size="sm" onClick={() => setAddingTo(openCollection)}>
+                <Plus className="h-4 w-4 mr-1" /> Add Files
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={() => openForm(openCollection)}>
+              <Pencil className="h-4 w-4 mr-1" /> Edit
+            </Button>
+            {openCollection.media.length > 0 && (
+              <Button size="sm" variant="outline" asChild>
+                <a href={`/api/content/export?status=all&ids=${openCollection.media.map(item => item.id).join(',')}`} download>
+                  <Download className="h-4 w-4 mr-1" /> Download ZIP
+                </a>
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={deleteCollection}>
+              <Trash2 className="h-4 w-4 mr-1" /> Delete
+            </Button>
+          </div>
+        </div>
+
+        {openCollection.media.length === 0 ? (
+          <div className="text-center text-muted-foreground py-12">
+            {isManual ? 'No files in this collection yet' : 'No content matches these rules yet'}
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+            {openCollection.media.map((item, index) => (
+              <div key={item.id} className="group relative">
+                <a href={item.url} target="_blank" rel="noopener noreferrer">
+                  <MediaThumbnail media={item} />
+                </a>
+                {item.id === (openCollection.coverMediaId ?? openCollection.media[0].id) && (
+                  <Badge className="absolute top-1 left-1"><Star className="h-3 w-3 mr-1" />Cover</Badge>
+                )}
+                <div className="absolute top-1 right-1 hidden group-hover:flex gap-1">
+                  <Button size="icon" variant="secondary" className="h-7 w-7" title="Use as cover" onClick={() => setCover(item.id)}>
+                    <Star className="h-3 w-3" />
+                  </Button>
+                  {isManual && (
+                    <>
+                      <Button size="icon" variant="secondary" className="h-7 w-7" title="Move earlier" disabled={index === 0} onClick={() => moveItem(index, -1)}>
+                        <ArrowUp className="h-3 w-3" />
+                      </Button>
+                      <Button size="icon" variant="secondary" className="h-7 w-7" title="Move later" disabled={index === openCollection.media.length - 1} onClick={() => moveItem(index, 1)}>
+                        <ArrowDown className="h-3 w-3" />
+                      </Button>
+                      <Button size="icon" variant="secondary" className="h-7 w-7" title="Remove from collection" onClick={() => removeItem(item.id)}>
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+                <p className="text-sm truncate mt-1" title={item.title}>{item.title}</p>
+                <p className="text-xs text-muted-foreground">{contentStatusLabels[item.status] ?? item.status}</p>
+              </div>
+            ))}
+          </div>
+        )}
+        {dialogs}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => openForm()}>
+          <Plus className="h-4 w-4 mr-2" /> New Collection
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center p-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : collections.length === 0 ? (
+        <div className="text-center text-muted-foreground py-12">
+          <FolderOpen className="h-10 w-10 mx-auto mb-2 opacity-50" />
+          No collections yet. Group content into sets and bundles, or create a smart album that fills itself.
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+          {collections.map(collection => (
+            <button
+              key={collection.id}
+              type="button"
+              onClick={() => setOpenCollectionId(collection.id)}
+              className="text-left rounded-lg border p-3 hover:border-primary transition-colors"
+            >
+              <div className="aspect-video bg-muted rounded-md overflow-hidden flex items-center justify-center mb-2">
+                {collection.coverUrl ? (
+                  <img src={collection.coverUrl} alt={collection.name} className="w-full h-full object-cover" />
+                ) : (
+                  <FolderOpen className="h-8 w-8 text-muted-foreground" />
+                )}
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium truncate">{collection.name}</span>
+                {collection.type === 'smart' && <Sparkles className="h-4 w-4 shrink-0 text-primary" />}
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {collection.itemCount} file{collection.itemCount === 1 ? '' : 's'}
+                {collection.type === 'smart' && ` · ${describeRules(collection.rules)}`}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+      {dialogs}
+    </div>
+  );
+}
@@ -0,0 +1,579 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+import { ChevronLeft, ChevronRight, GripVertical, Image, Loader2, Video } from 'lucide-react';
+
+export type ScheduledPostStatus = 'queued' | 'due' | 'posted' | 'missed' | 'cancelled';
+
+type CalendarView = 'month' | 'week' | 'day';
+
+interface ScheduledPostEntry {
+  id: number;
+  mediaFileId: number;
+  userId: number;
+  platformAccountId: number | null;
+  platform: string;
+  scheduledFor: string;
+  status: ScheduledPostStatus;
+  postedAt: string | null;
+  media: { title: string; fileType: string; status: string; thumbnailUrl: string | null } | null;
+  client: { id: number; fullName: string } | null;
+  assignedManager: { id: number; fullName: string } | null;
+}
+
+interface PlatformSlot {
+  platformAccountId: number;
+  platform: string;
+  username: string | null;
+}
+
+interface SchedulableContent {
+  id: number;
+  title: string;
+  fileType: string;
+  status: string;
+  scheduledDate: string | null;
+  thumbnailUrl: string | null;
+}
+
+interface ContentCalendarProps {
+  // Client whose calendar is shown. Clients always see their own, admins may leave it empty to see everyone.
+  clientId?: number;
+  // Managers can mark posts as published and assign who publishes them
+  managers?: { id: number; fullName: string }[];
+}
+
+export const postStatusLabels: Record<ScheduledPostStatus, string> = {
+  queued: 'Queued',
+  due: 'Due',
+  posted: 'Posted',
+  missed: 'Missed',
+  cancelled: 'Cancelled',
+};
+
+const postStatusColors: Record<ScheduledPostStatus, string> = {
+  queued: 'bg-blue-500 bg-opacity-20 text-blue-400 border-blue-500/40',
+  due: 'bg-yellow-500 bg-opacity-20 text-yellow-400 border-yellow-500/40',
+  posted: 'bg-green-500 bg-opacity-20 text-green-400 border-green-500/40',
+  missed: 'bg-red-500 bg-opacity-20 text-red-400 border-red-500/40',
+  cancelled: 'bg-gray-500 bg-opacity-20 text-gray-400 border-gray-500/40',
+};
+
+// New posts dropped on a day without a specific hour go out at noon
+const DEFAULT_POST_HOUR = 12;
+const DAY_HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Visible date range for a view, end is exclusive
+function getRange(view: CalendarView, date: Date) {
+  if (view === 'month') {
+    return { start: startOfWeek(startOfMonth(date)), end: addDays(endOfWeek(endOfMonth(date)), 1) };
+  }
+  if (view === 'week') {
+    const start = startOfWeek(date);
+    return { start, end: addDays(start, 7) };
+  }
+  const start = startOfDay(date);
+  return { start, end: addDays(start, 1) };
+}
+
+// Keep the time of day when an entry is dragged to another day, or use the hour it was dropped on
+function moveToSlot(original: Date, day: Date, hour?: number) {
+  const moved = new Date(day);
+  moved.setHours(hour ?? original.getHours(), original.getMinutes(), 0, 0);
+  return moved;
+}
+
+const toDateTimeInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+const refreshCalendar = () =>
+  queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/calendar') });
+
+export function ContentCalendar({ clientId, managers }: ContentCalendarProps) {
+  const { toast } = useToast();
+  const [view, setView] = useState<CalendarView>('month');
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const [selectedPost, setSelectedPost] = useState<ScheduledPostEntry | null>(null);
+  const [rescheduleValue, setRescheduleValue] = useState('');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canManage = !!managers;
+  const clientQuery = clientId ? `userId=${clientId}` : '';
+  const { start, end } = getRange(view, currentDate);
+
+  const { data: posts = [], isLoading } = useQuery<ScheduledPostEntry[]>({
+    queryKey: [`/api/calendar?start=${start.toISOString()}&end=${end.toISOString()}&${clientQuery}`],
+  });
+
+  // Lanes and the unscheduled tray need a single client
+  const hasClient = !canManage || !!clientId;
+  const { data: slots = [] } = useQuery<PlatformSlot[]>({
+    queryKey: [`/api/calendar/slots?${clientQuery}`],
+    enabled: hasClient,
+  });
+  const { data: schedulableContent = [] } = useQuery<SchedulableContent[]>({
+    queryKey: [`/api/calendar/content?${clientQuery}`],
+    enabled: hasClient,
+  });
+
+  const visiblePosts = posts.filter(post => post.status !== 'cancelled');
+  const unscheduledContent = schedulableContent.filter(item => !item.scheduledDate);
+  const lanes: { key: string; platformAccountId?: number; label: string }[] = hasClient && slots.length > 0
+    ? slots.map(slot => ({
+        key: String(slot.platformAccountId),
+        platformAccountId: slot.platformAccountId,
+        label: slot.username ? `${slot.platform} · @${slot.username}` : slot.platform,
+      }))
+    : [{ key: 'all', label: 'All platforms' }];
+
+  const postsIn = (day: Date, lane?: { platformAccountId?: number }, hour?: number) =>
+    visiblePosts
+      .filter(post => {
+        const scheduledFor = new Date(post.scheduledFor);
+        return isSameDay(scheduledFor, day)
+          && (!lane?.platformAccountId || post.platformAccountId === lane.platformAccountId)
+          && (hour === undefined || scheduledFor.getHours() === hour);
+      })
+      .sort((a, b) => new Date(a.scheduledFor).getTime() - new Date(b.scheduledFor).getTime());
+
+  const navigate = (direction: 1 | -1) => {
+    if (view === 'month') setCurrentDate(addMonths(currentDate, direction));
+    else if (view === 'week') setCurrentDate(addWeeks(currentDate, direction));
+    else setCurrentDate(addDays(currentDate, direction));
+  };
+
+  const reschedule = async (post: ScheduledPostEntry, scheduledFor: Date, platformAccountId?: number) => {
+    try {
+      await apiRequest('PATCH', `/api/calendar/${post.id}/reschedule`, {
+        scheduledFor: scheduledFor.toISOString(),
+        platformAccountId,
+      });
+      refreshCalendar();
+      toast({
+        title: 'Post rescheduled',
+        description: `"${post.media?.title ?? 'Content'}" moved to ${format(scheduledFor, 'MMM d, h:mm a')}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'There was a problem rescheduling the post.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const schedule = async (mediaFileId: number, scheduledFor: Date, platformAccountId?: number) => {
+    const accountId = platformAccountId ?? slots[0]?.platformAccountId;
+    if (!accountId) {
+      toast({
+        title: 'No platform accounts',
+        description: 'Add a platform account before scheduling content.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await apiRequest('POST', '/api/calendar', {
+        mediaFileId,
+        platformAccountId: accountId,
+        scheduledFor: scheduledFor.toISOString(),
+      });
+      refreshCalendar();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'There was a problem scheduling the content.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const updatePost = async (post: ScheduledPostEntry, data: { status?: 'posted' | 'cancelled'; assignedManagerId?: number | null }) => {
+    setIsSaving(true);
+    try {
+      const response = await apiRequest('PATCH', `/api/calendar/${post.id}/status`, data);
+      const updatedPost: ScheduledPostEntry = await response.json();
+      setSelectedPost(updatedPost.status === 'cancelled' ? null : updatedPost);
+      refreshCalendar();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'There was a problem updating the post.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, day: Date, platformAccountId?: number, hour?: number) => {
+    event.preventDefault();
+    setDropTarget(null);
+
+    const postId = event.dataTransfer.getData('application/x-scheduled-post');
+    const mediaFileId = event.dataTransfer.getData('application/x-media-file');
+
+    if (postId) {
+      const post = visiblePosts.find(entry => entry.id === parseInt(postId));
+      if (!post || post.status === 'posted') return;
+      reschedule(post, moveToSlot(new Date(post.scheduledFor), day, hour), platformAccountId);
+    } else if (mediaFileId) {
+      const scheduledFor = new Date(day);
+      scheduledFor.setHours(hour ?? DEFAULT_POST_HOUR, 0, 0, 0);
+      schedule(parseInt(mediaFileId), scheduledFor, platformAccountId);
+    }
+  };
+
+  // Props that turn a calendar cell into a drop target
+  const dropZone = (key: string, day: Date, platformAccountId?: number, hour?: number) => ({
+    onDragOver: (event: React.DragEvent) => {
+      event.preventDefault();
+      setDropTarget(key);
+    },
+    onDragLeave: () => setDropTarget(current => (current === key ? null : current)),
+    onDrop: (event: React.DragEvent) => handleDrop(event, day, platformAccountId, hour),
+  });
+
+  const renderPost = (post: ScheduledPostEntry, compact = false) => (
+    <div
+      key={post.id}
+      draggable={post.status !== 'posted'}
+      onDragStart={(event) => event.dataTransfer.setData('application/x-scheduled-post', String(post.id))}
+      onClick={() => {
+        setSelectedPost(post);
+        setRescheduleValue(toDateTimeInput(new Date(post.scheduledFor)));
+      }}
+      className={cn(
+        'text-xs rounded border px-1.5 py-1 mb-1 cursor-pointer truncate',
+        postStatusColors[post.status],
+        post.status !== 'posted' && 'cursor-grab'
+      )}
+      title={`${post.media?.title ?? 'Content'} · ${post.platform}`}
+    >
+      <span className="font-medium">{format(new Date(post.scheduledFor), 'h:mma')}</span>{' '}
+      {post.media?.title ?? `Content #${post.mediaFileId}`}
+      {!compact && <span className="opacity-75"> · {post.platform}</span>}
+      {!compact && canManage && !clientId && post.client && (
+        <span className="opacity-75"> · {post.client.fullName}</span>
+      )}
+    </div>
+  );
+
+  const weekDays = Array.from({ length: 7 }, (_, index) => addDays(startOfWeek(currentDate), index));
+
+  const renderMonth = () => {
+    const days = Array.from(
+      { length: Math.round((end.getTime() - start.getTime()) / 86400000) },
+      (_, index) => addDays(start, index)
+    );
+
+    return (
+      <div className="grid grid-cols-7 border-l border-t">
+        {weekDays.map(day => (
+          <div key={day.toISOString()} className="border-r border-b p-2 text-xs font-medium text-muted-foreground">
+            {format(day, 'EEE')}
+          </div>
+        ))}
+        {days.map(day => {
+          const key = `month-${day.toISOString()}`;
+          return (
+            <div
+              key={key}
+              {...dropZone(key, day)}
+              className={cn(
+                'border-r border-b p-1 min-h-[110px]',
+                !isSameMonth(day, currentDate) && 'opacity-50',
+                dropTarget === key && 'bg-primary/10'
+              )}
+            >
+              <button
+                type="button"
+                className={cn('text-xs mb-1 hover:underline', isSameDay(day, new Date()) && 'text-primary font-bold')}
+                onClick={() => {
+                  setCurrentDate(day);
+                  setView('day');
+                }}
+              >
+                {format(day, 'd')}
+              </button>
+              {postsIn(day).map(post => renderPost(post, true))}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderWeek = () => (
+    <div className="overflow-x-auto">
+      <div className="grid min-w-[900px]" style={{ gridTemplateColumns: `160px repeat(7, minmax(0, 1fr))` }}>
+        <div className="border-b p-2" />
+        {weekDays.map(day => (
+          <div
+            key={day.toISOString()}
+            className={cn('border-b p-2 text-xs font-medium', isSameDay(day, new Date()) && 'text-primary')}
+          >
+            {format(day, 'EEE d')}
+          </div>
+        ))}
+        {lanes.map(lane => (
+          <div key={lane.key} className="contents">
+            <div className="border-b p-2 text-xs font-medium text-muted-foreground">{lane.label}</div>
+            {weekDays.map(day => {
+              const key = `week-${lane.key}-${day.toISOString()}`;
+              return (
+                <div
+                  key={key}
+                  {...dropZone(key, day, lane.platformAccountId)}
+                  className={cn('border-b border-l p-1 min-h-[90px]', dropTarget === key && 'bg-primary/10')}
+                >
+                  {postsIn(day, lane).map(post => renderPost(post, true))}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderDay = () => (
+    <div className="overflow-x-auto max-h-[70vh] overflow-y-auto">
+      <div className="grid" style={{ gridTemplateColumns: `70px repeat(${lanes.length}, minmax(180px, 1fr))` }}>
+        <div className="border-b p-2" />
+        {lanes.map(lane => (
+          <div key={lane.key} className="border-b p-2 text-xs font-medium text-muted-foreground">{lane.label}</div>
+        ))}
+        {DAY_HOURS.map(hour => (
+          <div key={hour} className="contents">
+            <div className="border-b p-2 text-xs text-muted-foreground">
+              {format(new Date(2000, 0, 1, hour), 'h a')}
+            </div>
+            {lanes.map(lane => {
+              const key = `day-${lane.key}-${hour}`;
+              return (
+                <div
+                  key={key}
+                  {...dropZone(key, currentDate, lane.platformAccountId, hour)}
+                  className={cn('border-b border-l p-1 min-h-[44px]', dropTarget === key && 'bg-primary/10')}
+                >
+                  {postsIn(currentDate, lane, hour).map(post => renderPost(post))}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const title = view === 'month'
+    ? format(currentDate, 'MMMM yyyy')
+    : view === 'week'
+      ? `${format(weekDays[0], 'MMM d')} – ${format(weekDays[6], 'MMM d, yyyy')}`
+      : format(currentDate, 'EEEE, MMMM d, yyyy');
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6">
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => navigate(-1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setCurrentDate(new Date())}>
+              Today
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => navigate(1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <h2 className="text-lg font-semibold ml-2">{title}</h2>
+            {isLoading && <Loader2 className="h-4 w-4 animate-spin text-primary" />}
+          </div>
+          <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+            <TabsList>
+              <TabsTrigger value="month">Month</TabsTrigger>
+              <TabsTrigger value="week">Week</TabsTrigger>
+              <TabsTrigger value="day">Day</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        {view === 'month' && renderMonth()}
+        {view === 'week' && renderWeek()}
+        {view === 'day' && renderDay()}
+
+        <div className="flex flex-wrap gap-2 mt-4">
+          {(Object.keys(postStatusLabels) as ScheduledPostStatus[])
+            .filter(status => status !== 'cancelled')
+            .map(status => (
+              <Badge key={status} variant="outline" className={postStatusColors[status]}>
+                {postStatusLabels[status]}
+              </Badge>
+            ))}
+        </div>
+      </div>
+
+      {/* Unscheduled content can be dragged onto the calendar */}
+      {hasClient && (
+        <div className="lg:w-64 shrink-0">
+          <h3 className="font-medium mb-1">Unscheduled Content</h3>
+          <p className="text-xs text-muted-foreground mb-3">Drag an item onto a day or platform lane to schedule it.</p>
+          {unscheduledContent.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Everything is on the calendar.</p>
+          ) : (
+            <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+              {unscheduledContent.map(item => (
+                <div
+                  key={item.id}
+                  draggable
+                  onDragStart={(event) => event.dataTransfer.setData('application/x-media-file', String(item.id))}
+                  className="flex items-center gap-2 rounded-md border p-2 text-sm cursor-grab bg-muted/50"
+                >
+                  <GripVertical className="h-4 w-4 text-muted-foreground shrink-0" />
+                  {item.thumbnailUrl ? (
+                    <img src={item.thumbnailUrl} alt="" className="h-8 w-8 rounded object-cover shrink-0" />
+                  ) : item.fileType === 'video' ? (
+                    <Video className="h-4 w-4 shrink-0" />
+                  ) : (
+                    <Image className="h-4 w-4 shrink-0" />
+                  )}
+                  <span className="truncate">{item.title}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Post details */}
+      <Dialog open={!!selectedPost} onOpenChange={(open) => !open && setSelectedPost(null)}>
+        {selectedPost && (
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>{selectedPost.media?.title ?? `Content #${selectedPost.mediaFileId}`}</DialogTitle>
+              <DialogDescription>
+                {selectedPost.platform}
+                {selectedPost.client && ` · ${selectedPost.client.fullName}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className={postStatusColors[selectedPost.status]}>
+                  {postStatusLabels[selectedPost.status]}
+                </Badge>
+                {selectedPost.postedAt && (
+                  <span className="text-xs text-muted-foreground">
+                    Posted {format(new Date(selectedPost.postedAt), 'MMM d, yyyy h:mm a')}
+                  </span>
+                )}
+              </div>
+
+              {selectedPost.status !== 'posted' && (
+                <div className="space-y-2">
+                  <Label htmlFor="reschedule-at">Scheduled for</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="reschedule-at"
+                      type="datetime-local"
+                      value={rescheduleValue}
+                      onChange={(e) => setRescheduleValue(e.target.value)}
+                    />
+                    <Button
+                      variant="outline"
+                      disabled={!rescheduleValue}
+                      onClick={async () => {
+                        await reschedule(selectedPost, new Date(rescheduleValue));
+                        setSelectedPost(null);
+                      }}
+                    >
+                      Move
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {canManage ? (
+                <div className="space-y-2">
+                  <Label>Assigned manager</Label>
+                  <Select
+                    value={selectedPost.assignedManager ? String(selectedPost.assignedManager.id) : 'none'}
+                    onValueChange={(value) =>
+                      updatePost(selectedPost, { assignedManagerId: value === 'none' ? null : parseInt(value) })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Unassigned" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Unassigned (all managers)</SelectItem>
+                      {managers.map(manager => (
+                        <SelectItem key={manager.id} value={String(manager.id)}>{manager.fullName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : selectedPost.assignedManager && (
+                <p className="text-sm text-muted-foreground">Managed by {selectedPost.assignedManager.fullName}</p>
+              )}
+            </div>
+
+            {selectedPost.status !== 'posted' && (
+              <DialogFooter className="gap-2">
+                <Button
+                  variant="outline"
+                  disabled={isSaving}
+                  onClick={() => updatePost(selectedPost, { status: 'cancelled' })}
+                >
+                  Remove from Calendar
+                </Button>
+                {canManage && (
+                  <Button disabled={isSaving} onClick={() => updatePost(selectedPost, { status: 'posted' })}>
+                    Mark as Posted
+                  </Button>
+                )}
+              </DialogFooter>
+            )}
+          </DialogContent>
+        )}
+      </Dialog>
+    </div>
+  );
+}
@@ -13,10 +13,14 @@ export interface ContentItem {
   id: string;
   title: string;
   description: string;
-  status: 'approved' | 'processing' | 'scheduled' | 'rejected';
+  status: 'pending' | 'approved' | 'processing' | 'scheduled' | 'rejected' | 'changes_requested';
   uploadedAt: Date;
   scheduledDate?: Date;
   thumbnailUrl: string;
+  previewUrl?: string;
+  url?: string;
+  fileType?: string;
+  version?: number;
 }
 
 interface ContentCardProps {
@@ -28,24 +32,42 @@ interface ContentCardProps {
 }
 
 const statusStyles = {
+  pending: 'bg-gray-500 bg-opacity-20 text-gray-300',
+  changes_requested: 'bg-orange-500 bg-opacity-20 text-orange-400',
   approved: 'bg-green-500 bg-opacity-20 text-green-400',
   processing: 'bg-yellow-500 bg-opacity-20 text-yellow-400',
   scheduled: 'bg-blue-500 bg-opacity-20 text-blue-400',
   rejected: 'bg-red-500 bg-opacity-20 text-red-400',
 };
 
+const statusLabels = {
+  pending: 'Pending Review',
+  changes_requested: 'Changes Requested',
+  approved: 'Approved',
+  processing: 'Processing',
+  scheduled: 'Scheduled',
+  rejected: 'Rejected',
+};
+
 export function ContentCard({ content, onView, onEdit, onDelete, className }: ContentCardProps) {
   return (
     <div className={cn("bg-background-lighter rounded-lg overflow-hidden", className)}>
-      <div 
-        className="w-full h-48 bg-center bg-cover" 
-        style={{ backgroundImage: `url(${content.thumbnailUrl})` }}
-      ></div>
+      <img
+        src={content.thumbnailUrl}
+        alt={content.title}
+        loading="lazy"
+        className="w-full h-48 object-cover"
+      />
       <div className="p-4">
         <div className="flex items-center justify-between mb-2">
-          <h3 className="text-white font-medium">{content.title}</h3>
+          <h3 className="text-white font-medium">
+            {content.title}
+            {content.version && content.version > 1 && (
+              <span className="ml-2 text-xs text-gray-400">v{content.version}</span>
+            )}
+          </h3>
           <span className={cn("text-xs font-medium py-1 px-2 rounded-full", statusStyles[content.status])}>
-            {content.status.charAt(0).toUpperCase() + content.status.slice(1)}
+            {statusLabels[content.status]}
           </span>
         </div>
         <p className="text-gray-400 text-sm mb-3">{content.description}</p>
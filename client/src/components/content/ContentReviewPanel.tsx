@@ -0,0 +1,311 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+import { CheckCircle2, Clock, CornerDownRight, History, Layers, Loader2, MessageSquare } from 'lucide-react';
+
+export type ContentStatus = 'pending' | 'approved' | 'rejected' | 'changes_requested' | 'superseded';
+
+export const contentStatusLabels: Record<ContentStatus, string> = {
+  pending: 'Pending Review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  changes_requested: 'Changes Requested',
+  superseded: 'Replaced',
+};
+
+interface ReviewParticipant {
+  id: number;
+  fullName: string;
+  role: string;
+}
+
+interface ReviewComment {
+  id: number;
+  mediaFileId: number;
+  version: number;
+  parentCommentId: number | null;
+  body: string;
+  timecode: number | null;
+  resolved: boolean;
+  createdAt: string;
+  author: ReviewParticipant | null;
+}
+
+interface ContentReview {
+  mediaFileId: number;
+  status: ContentStatus;
+  version: number;
+  versions: { id: number; version: number; title: string; status: ContentStatus; uploadDate: string }[];
+  comments: ReviewComment[];
+  history: {
+    id: number;
+    fromStatus: ContentStatus | null;
+    toStatus: ContentStatus;
+    note: string | null;
+    version: number;
+    createdAt: string;
+    changedBy: ReviewParticipant | null;
+  }[];
+}
+
+interface ContentReviewPanelProps {
+  mediaFileId: number;
+  // Current playback position of the video being reviewed, used to pin comments to a frame
+  getCurrentTime?: () => number | null;
+  onSeek?: (seconds: number) => void;
+  onSelectVersion?: (mediaFileId: number) => void;
+}
+
+// Format a video position as m:ss.s so comments can point at an exact frame
+export function formatTimecode(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${remainder}`;
+}
+
+export function ContentReviewPanel({ mediaFileId, getCurrentTime, onSeek, onSelectVersion }: ContentReviewPanelProps) {
+  const { toast } = useToast();
+  const [commentBody, setCommentBody] = useState('');
+  const [pinToFrame, setPinToFrame] = useState(true);
+  const [replyTo, setReplyTo] = useState<ReviewComment | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const reviewQueryKey = [`/api/content/${mediaFileId}/review`];
+  const { data: review, isLoading } = useQuery<ContentReview>({
+    queryKey: reviewQueryKey,
+  });
+
+  const submitComment = async () => {
+    if (!commentBody.trim()) return;
+
+    const timecode = pinToFrame && !replyTo ? getCurrentTime?.() ?? null : null;
+
+    setIsSubmitting(true);
+    try {
+      await apiRequest('POST', `/api/content/${mediaFileId}/comments`, {
+        body: commentBody,
+        timecode,
+        parentCommentId: replyTo?.id ?? null,
+      });
+      setCommentBody('');
+      setReplyTo(null);
+      queryClient.invalidateQueries({ queryKey: reviewQueryKey });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'There was a problem posting your comment.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleResolved = async (comment: ReviewComment) => {
+    try {
+      await apiRequest('PATCH', `/api/content/${mediaFileId}/comments/${comment.id}`, {
+        resolved: !comment.resolved,
+      });
+      queryClient.invalidateQueries({ queryKey: reviewQueryKey });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'There was a problem updating the comment.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (isLoading || !review) {
+    return (
+      <div className="flex justify-center items-center p-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const renderComment = (comment: ReviewComment, depth: number, readOnly = false) => {
+    const replies = review.comments.filter(reply => reply.parentCommentId === comment.id);
+
+    return (
+      <div key={comment.id} className={cn(depth > 0 && 'ml-6 border-l pl-3')}>
+        <div className={cn('rounded-md p-3 bg-muted/50', comment.resolved && 'opacity-60')}>
+          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span>
+              <span className="font-medium text-foreground">{comment.author?.fullName ?? 'Unknown'}</span>
+              {comment.author?.role === 'admin' && ' (manager)'}
+              {' · '}
+              {format(new Date(comment.createdAt), 'MMM d, yyyy h:mm a')}
+            </span>
+            {comment.timecode != null && !readOnly && (
+              <button
+                type="button"
+                className="flex items-center text-primary hover:underline"
+                onClick={() => onSeek?.(comment.timecode!)}
+              >
+                <Clock className="h-3 w-3 mr-1" />
+                {formatTimecode(comment.timecode)}
+              </button>
+            )}
+          </div>
+          <p className="text-sm mt-1 whitespace-pre-wrap">{comment.body}</p>
+          <div className="flex gap-3 mt-2 text-xs">
+            {!readOnly && (
+              <button type="button" className="text-muted-foreground hover:text-foreground" onClick={() => setReplyTo(comment)}>
+                Reply
+              </button>
+            )}
+            {depth === 0 && !readOnly && (
+              <button type="button" className="text-muted-foreground hover:text-foreground" onClick={() => toggleResolved(comment)}>
+                {comment.resolved ? 'Reopen' : 'Resolve'}
+              </button>
+            )}
+            {comment.resolved && (
+              <span className="flex items-center text-green-500">
+                <CheckCircle2 className="h-3 w-3 mr-1" /> Resolved
+              </span>
+            )}
+          </div>
+        </div>
+        {replies.length > 0 && (
+          <div className="mt-2 space-y-2">
+            {replies.map(reply => renderComment(reply, depth + 1, readOnly))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const topLevelComments = review.comments.filter(
+    comment => !comment.parentCommentId && comment.mediaFileId === mediaFileId
+  );
+  const earlierComments = review.comments.filter(
+    comment => !comment.parentCommentId && comment.version < review.version
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Versions */}
+      {review.versions.length > 1 && (
+        <div>
+          <h4 className="font-medium mb-2 flex items-center">
+            <Layers className="h-4 w-4 mr-2" /> Versions
+          </h4>
+          <div className="flex flex-wrap gap-2">
+            {review.versions.map(version => (
+              <Button
+                key={version.id}
+                type="button"
+                size="sm"
+                variant={version.id === mediaFileId ? 'default' : 'outline'}
+                onClick={() => onSelectVersion?.(version.id)}
+                disabled={!onSelectVersion}
+              >
+                v{version.version} · {contentStatusLabels[version.status] ?? version.status}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Comment thread */}
+      <div>
+        <h4 className="font-medium mb-2 flex items-center">
+          <MessageSquare className="h-4 w-4 mr-2" /> Review Comments
+        </h4>
+        {topLevelComments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No comments on this version yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {topLevelComments.map(comment => renderComment(comment, 0))}
+          </div>
+        )}
+
+        <div className="mt-4 space-y-2">
+          {replyTo && (
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span className="flex items-center">
+                <CornerDownRight className="h-3 w-3 mr-1" />
+                Replying to {replyTo.author?.fullName ?? 'comment'}
+              </span>
+              <button type="button" className="hover:text-foreground" onClick={() => setReplyTo(null)}>
+                Cancel
+              </button>
+            </div>
+          )}
+          <Textarea
+            value={commentBody}
+            onChange={(e) => setCommentBody(e.target.value)}
+            placeholder={replyTo ? 'Write a reply...' : 'Leave feedback on this content...'}
+            rows={3}
+          />
+          <div className="flex items-center justify-between">
+            {getCurrentTime && !replyTo ? (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`pin-frame-${mediaFileId}`}
+                  checked={pinToFrame}
+                  onCheckedChange={(checked) => setPinToFrame(checked === true)}
+                />
+                <Label htmlFor={`pin-frame-${mediaFileId}`} className="text-sm text-muted-foreground">
+                  Pin to current frame
+                </Label>
+              </div>
+            ) : <span />}
+            <Button type="button" size="sm" onClick={submitComment} disabled={isSubmitting || !commentBody.trim()}>
+              {isSubmitting ? 'Posting...' : replyTo ? 'Reply' : 'Comment'}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Feedback on earlier versions */}
+      {earlierComments.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-2 text-muted-foreground">Comments on Earlier Versions</h4>
+          <div className="space-y-3">
+            {earlierComments.map(comment => (
+              <div key={comment.id}>
+                <Badge variant="outline" className="mb-1">v{comment.version}</Badge>
+                {renderComment(comment, 0, true)}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Status history */}
+      <div>
+        <h4 className="font-medium mb-2 flex items-center">
+          <History className="h-4 w-4 mr-2" /> Status History
+        </h4>
+        {review.history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes recorded.</p>
+        ) : (
+          <ol className="space-y-2 border-l pl-4">
+            {review.history.map(entry => (
+              <li key={entry.id} className="text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">v{entry.version}</Badge>
+                  <span className="font-medium">{contentStatusLabels[entry.toStatus] ?? entry.toStatus}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {entry.changedBy?.fullName ?? 'Unknown'} · {format(new Date(entry.createdAt), 'MMM d, yyyy h:mm a')}
+                  </span>
+                </div>
+                {entry.note && <p className="text-muted-foreground mt-1">{entry.note}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
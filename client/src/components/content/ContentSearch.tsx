@@ -0,0 +1,91 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+
+export interface FacetCount {
+  value: string;
+  count: number;
+  label?: string; // client facets carry the client's name
+}
+
+export interface ContentSearchResponse<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  facets: {
+    status: FacetCount[];
+    fileType: FacetCount[];
+    tag: FacetCount[];
+    client: FacetCount[];
+  };
+}
+
+export interface ContentSearchParams {
+  q?: string;
+  status?: string; // a review status, "all" for every version, or unset for the current versions
+  type?: string;
+  tag?: string[];
+  clientId?: string;
+  from?: string;
+  to?: string;
+  sort?: 'relevance' | 'newest' | 'oldest' | 'title';
+  page: number;
+  pageSize?: number;
+}
+
+// Kept under /api/content so anything that refreshes the content list refreshes searches too
+export const contentSearchQueryKey = (params: ContentSearchParams) => ['/api/content', 'search', params] as const;
+
+export async function fetchContentSearch<T>(params: ContentSearchParams): Promise<ContentSearchResponse<T>> {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) continue;
+    query.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+
+  const res = await apiRequest('GET', `/api/content/search?${query}`);
+  return res.json();
+}
+
+// Count for a facet value, 0 when no result has it
+export function facetCount(facets: FacetCount[] | undefined, value: string): number {
+  return facets?.find(facet => facet.value === value)?.count ?? 0;
+}
+
+interface SearchPaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+  className?: string;
+}
+
+export function SearchPagination({ page, pageSize, total, onPageChange, className }: SearchPaginationProps) {
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  if (total <= pageSize) return null;
+
+  const first = (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  return (
+    <div className={`flex items-center justify-between gap-4 ${className ?? ''}`}>
+      <p className="text-sm text-muted-foreground">
+        {first}–{last} of {total}
+      </p>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => onPageChange(page - 1)}>
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Previous
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          Page {page} of {pageCount}
+        </span>
+        <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => onPageChange(page + 1)}>
+          Next
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </div>
+    </div>
+  );
+}
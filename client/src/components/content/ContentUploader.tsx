@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Select,
   SelectContent,
@@ -13,14 +14,26 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import {
+  UploadSessionInfo,
+  uploadFileInChunks,
+  cancelUpload,
+  getFileFingerprint,
+  getUploadedBytes,
+} from '@/lib/chunked-upload';
+import { useQuery } from '@tanstack/react-query';
+import { DoNotSayAlert } from '@/components/ui/do-not-say-alert';
+import { DoNotSayError, getDoNotSayError } from '@/lib/do-not-say';
+import { UploadQuotaError, getUploadQuotaError } from '@/lib/upload-quota';
 import { cn } from '@/lib/utils';
-import { CloudUpload, Image, Video, X } from 'lucide-react';
+import { CloudUpload, Image, Video, X, RotateCcw } from 'lucide-react';
 
 // Simplified schema to match the user's requirement:
-// upload, tag, platform, submit with preview
+// upload, caption, tag, platform, submit with preview
 const contentUploadSchema = z.object({
   platform: z.string().min(1, { message: 'Platform is required' }),
+  caption: z.string().optional(),
   tags: z.string().optional(),
 });
 
@@ -28,21 +41,48 @@ type ContentUploadFormValues = z.infer<typeof contentUploadSchema>;
 
 interface ContentUploaderProps {
   onUploadSuccess?: () => void;
+  // Uploads a single file as the next version of an item that was sent back in review
+  replacesMediaId?: number;
 }
 
-export function ContentUploader({ onUploadSuccess }: ContentUploaderProps) {
+export function ContentUploader({ onUploadSuccess, replacesMediaId }: ContentUploaderProps) {
   const [files, setFiles] = useState<File[]>([]);
   const [dragActive, setDragActive] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [fileProgress, setFileProgress] = useState<number[]>([]);
   const [previewUrls, setPreviewUrls] = useState<string[]>([]);
+  const [doNotSayError, setDoNotSayError] = useState<DoNotSayError | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
+  // Uploads interrupted by a lost connection or page reload, resumed when the same file is selected again
+  const { data: unfinishedUploads = [] } = useQuery<UploadSessionInfo[]>({
+    queryKey: ['/api/content/uploads'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/content/uploads');
+      return response.json();
+    },
+  });
+
+  const selectedFingerprints = files.map(getFileFingerprint);
+  const interruptedUploads = unfinishedUploads.filter(
+    (session) => !selectedFingerprints.includes(session.fingerprint)
+  );
+
+  // Progress the server already holds for a selected file, if it was partially uploaded before
+  const getResumedProgress = (file: File): number | undefined => {
+    const session = unfinishedUploads.find(
+      (upload) => upload.fingerprint === getFileFingerprint(file)
+    );
+    return session ? Math.round((getUploadedBytes(session) / session.fileSize) * 100) : undefined;
+  };
+
   const form = useForm<ContentUploadFormValues>({
     resolver: zodResolver(contentUploadSchema),
     defaultValues: {
       platform: 'OnlyFans',
+      caption: '',
       tags: '',
     },
   });
@@ -69,7 +109,7 @@ export function ContentUploader({ onUploadSuccess }: ContentUploaderProps) {
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
       const newFiles = Array.from(event.target.files);
-      setFiles([...files, ...newFiles]);
+      setFiles(replacesMediaId ? newFiles.slice(0, 1) : [...files, ...newFiles]);
     }
   };
 
@@ -92,7 +132,7 @@ export function ContentUploader({ onUploadSuccess }: ContentUploaderProps) {
     
     if (event.dataTransfer.files && event.dataTransfer.files.length > 0) {
       const newFiles = Array.from(event.dataTransfer.files);
-      setFiles([...files, ...newFiles]);
+      setFiles(replacesMediaId ? newFiles.slice(0, 1) : [...files, ...newFiles]);
     }
   };
 
@@ -110,7 +150,7 @@ export function ContentUploader({ onUploadSuccess }: ContentUploaderProps) {
   };
 
   // Submit form
-  const onSubmit = async (data: ContentUploadFormValues) => {
+  const onSubmit = async (data: ContentUploadFormValues, doNotSayAcknowledged?: boolean) => {
     if (files.length === 0) {
       toast({
         title: "No files selected",
@@ -121,39 +161,64 @@ export function ContentUploader({ onUploadSuccess }: ContentUploaderProps) {
     }
 
     setIsUploading(true);
+    setDoNotSayError(null);
     setUploadProgress(0);
+    setFileProgress(files.map(() => 0));
 
-    try {
-      // Create a FormData instance to send files
-      const formData = new FormData();
-      
-      // Append form data (only platform and tags as per user request)
-      formData.append('platform', data.platform);
-      formData.append('tags', data.tags || '');
-      
-      // Append all files
-      files.forEach((file, index) => {
-        formData.append(`file${index}`, file);
-      });
+    const totalBytes = files.reduce((total, file) => total + file.size, 0);
+    const uploadedBytes = files.map(() => 0);
+    const failedFiles: File[] = [];
+    let blockedCaption = false;
+    let quotaError: UploadQuotaError | null = null;
 
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev >= 95) {
-            clearInterval(progressInterval);
-            return 95;
-          }
-          return prev + 5;
-        });
-      }, 300);
+    const metadata = {
+      platform: data.platform,
+      caption: data.caption || undefined,
+      tags: (data.tags || '').split(',').map(tag => tag.trim()).filter(Boolean),
+      replacesMediaId,
+      doNotSayAcknowledged,
+    };
 
-      // Make the API request
-      await apiRequest('POST', '/api/content/upload', formData);
+    // Files are sent one after another in checksummed chunks, so a dropped connection only costs the current chunk
+    for (let index = 0; index < files.length; index++) {
+      const file = files[index];
+      try {
+        await uploadFileInChunks(file, metadata, (uploaded, total) => {
+          uploadedBytes[index] = uploaded;
+          setFileProgress(prev => {
+            const next = [...prev];
+            next[index] = Math.round((uploaded / total) * 100);
+            return next;
+          });
+          setUploadProgress(Math.round((uploadedBytes.reduce((sum, bytes) => sum + bytes, 0) / totalBytes) * 100));
+        });
+      } catch (error) {
+        // The caption is shared by every file, so there is no point trying the rest
+        const blocked = getDoNotSayError(error);
+        if (blocked) {
+          setDoNotSayError(blocked);
+          blockedCaption = true;
+          failedFiles.push(...files.slice(index));
+          break;
+        }
+        // Only a file over the size limit can be skipped, a full quota stops the rest as well
+        quotaError = getUploadQuotaError(error) ?? quotaError;
+        if (quotaError && quotaError.code !== 'FILE_TOO_LARGE') {
+          failedFiles.push(...files.slice(index));
+          break;
+        }
+        console.error(`Error uploading ${file.name}:`, error);
+        failedFiles.push(file);
+      }
+    }
 
-      // Complete progress
-      clearInterval(progressInterval);
-      setUploadProgress(100);
+    queryClient.invalidateQueries({ queryKey: ['/api/content/uploads'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/usage'] });
+    setIsUploading(false);
+    setUploadProgress(0);
+    setFileProgress([]);
 
+    if (failedFiles.length === 0) {
       toast({
         title: "Upload successful",
         description: "Your content has been uploaded successfully.",
@@ -162,29 +227,56 @@ export function ContentUploader({ onUploadSuccess }: ContentUploaderProps) {
       // Reset form
       form.reset();
       setFiles([]);
-      
+
       // Call the onUploadSuccess callback if provided
       if (onUploadSuccess) {
         onUploadSuccess();
       }
-      
+    } else {
+      // Keep the failed files selected so submitting again resumes them where they stopped
+      setFiles(failedFiles);
+      toast(blockedCaption ? {
+        title: "Caption not allowed",
+        description: "Your caption uses terms on your do-not-say list. Edit it and submit again.",
+        variant: "destructive",
+      } : quotaError ? {
+        title: "Upload limit reached",
+        description: quotaError.message,
+        variant: "destructive",
+      } : {
+        title: "Upload interrupted",
+        description: `${failedFiles.length} of ${files.length} files did not finish. Submit again to resume from where they stopped.`,
+        variant: "destructive",
+      });
+
+      // Some files may still have made it through
+      if (failedFiles.length < files.length) {
+        queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+      }
+    }
+  };
+
+  // Discard an interrupted upload the user doesn't want to resume
+  const discardUpload = async (session: UploadSessionInfo) => {
+    try {
+      await cancelUpload(session.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/content/uploads'] });
     } catch (error) {
       toast({
-        title: "Upload failed",
-        description: "There was a problem uploading your content.",
+        title: "Error",
+        description: "There was a problem discarding the upload.",
         variant: "destructive",
       });
-    } finally {
-      setIsUploading(false);
-      setUploadProgress(0);
     }
   };
 
   return (
     <div className="bg-background-card rounded-xl shadow-md p-6 mb-8">
-      <h2 className="text-xl font-semibold text-white mb-4">Upload New Content</h2>
+      <h2 className="text-xl font-semibold text-white mb-4">
+        {replacesMediaId ? 'Upload New Version' : 'Upload New Content'}
+      </h2>
       
-      <form onSubmit={form.handleSubmit(onSubmit)}>
+      <form onSubmit={form.handleSubmit((data) => onSubmit(data))}>
         {/* File Upload Area */}
         <div className="mb-6">
           <Label className="block text-white font-medium mb-2">Content Files</Label>
@@ -210,18 +302,52 @@ export function ContentUploader({ onUploadSuccess }: ContentUploaderProps) {
             >
               Browse Files
             </Button>
-            <p className="text-gray-500 text-xs mt-4">Max file size: 100MB. Supported formats: JPG, PNG, MP4, MOV</p>
+            <p className="text-gray-500 text-xs mt-4">Large videos are uploaded in resumable chunks. Supported formats: JPG, PNG, MP4, MOV</p>
             <input
               type="file"
               ref={fileInputRef}
               onChange={handleFileChange}
               accept="image/jpeg,image/png,video/mp4,video/quicktime"
-              multiple
+              multiple={!replacesMediaId}
               className="hidden"
             />
           </div>
         </div>
         
+        {/* Interrupted Uploads */}
+        {interruptedUploads.length > 0 && (
+          <div className="mb-6">
+            <Label className="block text-white font-medium mb-2">Interrupted Uploads</Label>
+            <p className="text-gray-400 text-sm mb-3">Select the same file again to resume where it stopped.</p>
+            <div className="space-y-2">
+              {interruptedUploads.map((session) => {
+                const progress = Math.round((getUploadedBytes(session) / session.fileSize) * 100);
+                return (
+                  <div key={session.id} className="flex items-center gap-3 bg-background-lighter rounded-lg p-3">
+                    <RotateCcw className="h-4 w-4 text-gray-400 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white truncate">{session.fileName}</p>
+                      <div className="w-full bg-background h-1.5 rounded-full mt-1">
+                        <div className="bg-primary h-1.5 rounded-full" style={{ width: `${progress}%` }}></div>
+                      </div>
+                    </div>
+                    <span className="text-xs text-gray-400">{progress}%</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => discardUpload(session)}
+                      disabled={isUploading}
+                    >
+                      Discard
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+        
         {/* File Previews */}
         {files.length > 0 && (
           <div className="mb-6">
@@ -250,6 +376,16 @@ export function ContentUploader({ onUploadSuccess }: ContentUploaderProps) {
                     <X className="h-3 w-3" />
                   </Button>
                   <p className="text-xs text-gray-400 mt-1 truncate">{file.name}</p>
+                  {isUploading ? (
+                    <div className="w-full bg-background-lighter h-1 rounded-full mt-1">
+                      <div
+                        className="bg-primary h-1 rounded-full transition-all duration-300 ease-in-out"
+                        style={{ width: `${fileProgress[index] || 0}%` }}
+                      ></div>
+                    </div>
+                  ) : getResumedProgress(file) !== undefined && (
+                    <p className="text-xs text-primary">Resumes at {getResumedProgress(file)}%</p>
+                  )}
                 </div>
               ))}
             </div>
@@ -279,6 +415,26 @@ export function ContentUploader({ onUploadSuccess }: ContentUploaderProps) {
           )}
         </div>
         
+        {/* Caption, becomes the first variant of the posting plan */}
+        <div className="mb-6">
+          <Label htmlFor="caption" className="block text-white font-medium mb-2">Caption</Label>
+          <Textarea
+            id="caption"
+            placeholder="Write a caption for this platform..."
+            className="w-full bg-background-lighter text-gray-300 rounded-lg"
+            rows={3}
+            {...form.register('caption')}
+          />
+          {doNotSayError && (
+            <DoNotSayAlert
+              className="mt-3"
+              error={doNotSayError}
+              onAcknowledge={form.handleSubmit((data) => onSubmit(data, true))}
+              isSubmitting={isUploading}
+            />
+          )}
+        </div>
+        
         {/* Tags */}
         <div className="mb-6">
           <Label htmlFor="tags" className="block text-white font-medium mb-2">Tags</Label>
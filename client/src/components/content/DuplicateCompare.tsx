@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { ContentStatus, contentStatusLabels } from '@/components/content/ContentReviewPanel';
+import { ExternalLink, Loader2 } from 'lucide-react';
+
+export type DuplicateMatch = 'exact' | 'similar';
+
+export const duplicateMatchLabels: Record<DuplicateMatch, string> = {
+  exact: 'Exact copy',
+  similar: 'Looks similar',
+};
+
+interface CompareFile {
+  id: number;
+  title: string;
+  fileType: string;
+  status: ContentStatus;
+  version: number;
+  uploadDate: string;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  url: string;
+  thumbnailUrl?: string;
+  previewUrl?: string;
+}
+
+interface DuplicateComparison {
+  match: DuplicateMatch;
+  file: CompareFile;
+  original: CompareFile;
+}
+
+interface DuplicateCompareDialogProps {
+  mediaFileId: number | null;
+  onOpenChange: (open: boolean) => void;
+  onDismissed?: () => void;
+}
+
+function ComparePane({ label, file }: { label: string; file: CompareFile }) {
+  return (
+    <div className="space-y-2 min-w-0">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">{label} #{file.id}</span>
+        <Badge variant="outline">{contentStatusLabels[file.status] ?? file.status}</Badge>
+      </div>
+      <div className="aspect-square bg-muted rounded-md overflow-hidden flex items-center justify-center">
+        {file.fileType === 'video' ? (
+          <video src={file.previewUrl ?? file.url} poster={file.thumbnailUrl} controls muted className="max-h-full max-w-full" />
+        ) : (
+          <img src={file.previewUrl ?? file.url} alt={file.title} className="max-h-full max-w-full object-contain" />
+        )}
+      </div>
+      <div className="text-sm space-y-1">
+        <p className="font-medium truncate" title={file.title}>{file.title}</p>
+        <p className="text-muted-foreground">
+          Uploaded {format(new Date(file.uploadDate), 'MMM d, yyyy h:mm a')}
+          {file.version > 1 && ` · v${file.version}`}
+        </p>
+        {file.width && file.height && (
+          <p className="text-muted-foreground">
+            {file.width}×{file.height}
+            {file.duration != null && ` · ${Math.round(file.duration)}s`}
+          </p>
+        )}
+        <a href={file.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-primary hover:underline">
+          <ExternalLink className="h-3 w-3 mr-1" /> Open original
+        </a>
+      </div>
+    </div>
+  );
+}
+
+// Side-by-side view of an upload flagged as a duplicate and the earlier upload it matches
+export function DuplicateCompareDialog({ mediaFileId, onOpenChange, onDismissed }: DuplicateCompareDialogProps) {
+  const { toast } = useToast();
+  const [isDismissing, setIsDismissing] = useState(false);
+
+  const { data: comparison, isLoading } = useQuery<DuplicateComparison>({
+    queryKey: [`/api/content/${mediaFileId}/duplicate`],
+    enabled: mediaFileId !== null,
+  });
+
+  const dismiss = async () => {
+    if (mediaFileId === null) return;
+
+    setIsDismissing(true);
+    try {
+      await apiRequest('DELETE', `/api/content/${mediaFileId}/duplicate`);
+      toast({
+        title: 'Duplicate flag removed',
+        description: 'This upload is no longer marked as a duplicate.',
+      });
+      onDismissed?.();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'There was a problem removing the duplicate flag.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDismissing(false);
+    }
+  };
+
+  return (
+    <Dialog open={mediaFileId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Possible Duplicate
+            {comparison && (
+              <Badge variant={comparison.match === 'exact' ? 'destructive' : 'secondary'}>
+                {duplicateMatchLabels[comparison.match]}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            Compare the new upload with the earlier one before reviewing it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !comparison ? (
+          <div className="flex justify-center items-center p-12">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <ComparePane label="New upload" file={comparison.file} />
+            <ComparePane label="Earlier upload" file={comparison.original} />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={dismiss} disabled={isDismissing || !comparison}>
+            Not a Duplicate
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
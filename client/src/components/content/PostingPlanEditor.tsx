@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DoNotSayAlert } from '@/components/ui/do-not-say-alert';
+import { useToast } from '@/hooks/use-toast';
+import { DoNotSayError, getDoNotSayError } from '@/lib/do-not-say';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+
+export type PostingVariantStatus = 'draft' | 'ready' | 'scheduled' | 'posted';
+
+export interface PostingVariant {
+  id: number;
+  mediaFileId: number;
+  platform: string;
+  caption: string | null;
+  hashtags: string[] | null;
+  price: string | null;
+  targetDate: string | null;
+  status: PostingVariantStatus;
+  updatedAt: string;
+}
+
+export const POSTING_PLATFORMS = ['OnlyFans', 'Instagram', 'TikTok', 'Twitter', 'Reddit'];
+
+// Pay-per-view pricing only exists on OnlyFans
+const PPV_PLATFORMS = ['OnlyFans'];
+
+export const variantStatusLabels: Record<PostingVariantStatus, string> = {
+  draft: 'Draft',
+  ready: 'Ready',
+  scheduled: 'Scheduled',
+  posted: 'Posted',
+};
+
+interface PostingPlanEditorProps {
+  mediaFileId: number;
+}
+
+function VariantEditor({ variant, onSaved }: { variant: PostingVariant; onSaved: () => void }) {
+  const { toast } = useToast();
+  const [caption, setCaption] = useState(variant.caption ?? '');
+  const [hashtags, setHashtags] = useState((variant.hashtags ?? []).map(tag => `#${tag}`).join(' '));
+  const [price, setPrice] = useState(variant.price ?? '');
+  const [targetDate, setTargetDate] = useState(
+    variant.targetDate ? format(new Date(variant.targetDate), "yyyy-MM-dd'T'HH:mm") : ''
+  );
+  const [status, setStatus] = useState<PostingVariantStatus>(variant.status);
+  const [isSaving, setIsSaving] = useState(false);
+  const [doNotSayError, setDoNotSayError] = useState<DoNotSayError | null>(null);
+
+  const supportsPrice = PPV_PLATFORMS.includes(variant.platform);
+
+  const save = async (doNotSayOverrideReason?: string, doNotSayAcknowledged?: boolean) => {
+    setIsSaving(true);
+    try {
+      await apiRequest('PATCH', `/api/posting-plans/${variant.id}`, {
+        caption: caption || null,
+        hashtags,
+        price: supportsPrice && price !== '' ? Number(price) : null,
+        targetDate: targetDate ? new Date(targetDate).toISOString() : null,
+        status,
+        doNotSayOverrideReason,
+        doNotSayAcknowledged,
+      });
+      setDoNotSayError(null);
+      onSaved();
+      toast({
+        title: 'Variant saved',
+        description: `The ${variant.platform} variant has been updated.`,
+      });
+    } catch (error) {
+      const blocked = getDoNotSayError(error);
+      if (blocked) {
+        setDoNotSayError(blocked);
+        return;
+      }
+      toast({
+        title: 'Error',
+        description: 'There was a problem saving the variant.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    try {
+      await apiRequest('DELETE', `/api/posting-plans/${variant.id}`);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'There was a problem removing the variant.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-md border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{variant.platform}</span>
+          <Badge variant="outline">{variantStatusLabels[variant.status]}</Badge>
+        </div>
+        <Button type="button" variant="ghost" size="icon" onClick={remove}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`caption-${variant.id}`}>Caption</Label>
+        <Textarea
+          id={`caption-${variant.id}`}
+          value={caption}
+          onChange={(e) => setCaption(e.target.value)}
+          rows={3}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`hashtags-${variant.id}`}>Hashtags</Label>
+        <Input
+          id={`hashtags-${variant.id}`}
+          value={hashtags}
+          onChange={(e) => setHashtags(e.target.value)}
+          placeholder="#tag #another"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {supportsPrice && (
+          <div className="space-y-1">
+            <Label htmlFor={`price-${variant.id}`}>PPV Price ($)</Label>
+            <Input
+              id={`price-${variant.id}`}
+              type="number"
+              min="0"
+              step="0.01"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder="Free"
+            />
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label htmlFor={`target-${variant.id}`}>Target Date</Label>
+          <Input
+            id={`target-${variant.id}`}
+            type="datetime-local"
+            value={targetDate}
+            onChange={(e) => setTargetDate(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Status</Label>
+          <Select value={status} onValueChange={(value) => setStatus(value as PostingVariantStatus)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(variantStatusLabels) as PostingVariantStatus[]).map(value => (
+                <SelectItem key={value} value={value}>{variantStatusLabels[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {doNotSayError && (
+        <DoNotSayAlert
+          error={doNotSayError}
+          onOverride={(reason) => save(reason)}
+          onAcknowledge={() => save(undefined, true)}
+          isSubmitting={isSaving}
+        />
+      )}
+
+      <div className="flex justify-end">
+        <Button type="button" size="sm" onClick={() => save()} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Variant'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function PostingPlanEditor({ mediaFileId }: PostingPlanEditorProps) {
+  const { toast } = useToast();
+  const [newPlatform, setNewPlatform] = useState('');
+
+  const variantsQueryKey = [`/api/posting-plans/media/${mediaFileId}`];
+  const { data: variants = [], isLoading } = useQuery<PostingVariant[]>({
+    queryKey: variantsQueryKey,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: variantsQueryKey });
+  const availablePlatforms = POSTING_PLATFORMS.filter(
+    platform => !variants.some(variant => variant.platform === platform)
+  );
+
+  const addVariant = async () => {
+    if (!newPlatform) return;
+
+    try {
+      await apiRequest('POST', `/api/posting-plans/media/${mediaFileId}`, { platform: newPlatform });
+      setNewPlatform('');
+      refresh();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'There was a problem adding the variant.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center p-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {variants.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No platform variants yet. Add one to plan how this content is posted.</p>
+      ) : (
+        // Keyed on updatedAt so the form picks up changes made elsewhere, e.g. by the calendar
+        variants.map(variant => (
+          <VariantEditor key={`${variant.id}-${variant.updatedAt}`} variant={variant} onSaved={refresh} />
+        ))
+      )}
+
+      {availablePlatforms.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Select value={newPlatform} onValueChange={setNewPlatform}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="Add a platform" />
+            </SelectTrigger>
+            <SelectContent>
+              {availablePlatforms.map(platform => (
+                <SelectItem key={platform} value={platform}>{platform}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="button" variant="outline" onClick={addVariant} disabled={!newPlatform}>
+            <Plus className="h-4 w-4 mr-1" /> Add Variant
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { FileImage, FileVideo, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+
+// Trashed content as returned by /api/content/trash, managers also get the owner and who deleted it
+export interface TrashItem {
+  id: number;
+  userId: number;
+  title: string;
+  fileType: string;
+  status: string;
+  uploadDate: string;
+  deletedAt: string;
+  deletedBy: number | null;
+  deletionReason: string | null;
+  purgeAfter: string;
+  thumbnailUrl?: string;
+  user?: { id: number; username: string; fullName: string };
+  deletedByName?: string | null;
+}
+
+// Under /api/content so deleting content refreshes the trash too
+export const trashQueryKey = (clientId?: number) => ['/api/content', 'trash', clientId ?? 'all'] as const;
+
+interface TrashListProps {
+  clientId?: number; // managers only, to show one client's trash
+  showClient?: boolean;
+  emptyMessage?: string;
+}
+
+export function TrashList({ clientId, showClient, emptyMessage = 'The trash is empty.' }: TrashListProps) {
+  const { toast } = useToast();
+  const [itemToPurge, setItemToPurge] = useState<TrashItem | null>(null);
+
+  const { data: items, isLoading } = useQuery<TrashItem[]>({
+    queryKey: trashQueryKey(clientId),
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/content/trash${clientId ? `?clientId=${clientId}` : ''}`);
+      return res.json();
+    },
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/usage'] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (item: TrashItem) => apiRequest('POST', `/api/content/trash/${item.id}/restore`),
+    onSuccess: (_, item) => {
+      onChanged();
+      toast({ title: 'Content restored', description: `"${item.title}" is back in the content library.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Restore failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (item: TrashItem) => apiRequest('DELETE', `/api/content/trash/${item.id}`),
+    onSuccess: (_, item) => {
+      onChanged();
+      setItemToPurge(null);
+      toast({ title: 'Content deleted', description: `"${item.title}" was deleted permanently.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Delete failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!items || items.length === 0) {
+    return <p className="text-center text-sm text-muted-foreground py-8">{emptyMessage}</p>;
+  }
+
+  return (
+    <>
+      <div className="divide-y rounded-md border">
+        {items.map((item) => {
+          const Icon = item.fileType.startsWith('video/') ? FileVideo : FileImage;
+          return (
+            <div key={item.id} className="flex items-center gap-4 p-3">
+              {item.thumbnailUrl ? (
+                <img src={item.thumbnailUrl} alt="" className="h-12 w-12 rounded object-cover" />
+              ) : (
+                <div className="h-12 w-12 rounded bg-muted flex items-center justify-center">
+                  <Icon className="h-5 w-5 text-muted-foreground" />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{item.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {showClient && item.user && `${item.user.fullName} · `}
+                  {item.deletionReason
+                    ? `Retention rule: ${item.deletionReason}`
+                    : `Deleted${item.deletedByName ? ` by ${item.deletedByName}` : ''} ${formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })}`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Deleted permanently on {format(new Date(item.purgeAfter), 'MMM d, yyyy')}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => restoreMutation.mutate(item)}
+                disabled={restoreMutation.isPending}
+              >
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Restore
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setItemToPurge(item)}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete Now
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      <AlertDialog open={!!itemToPurge} onOpenChange={(open) => !open && setItemToPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{itemToPurge?.title}" and its thumbnails will be deleted for good. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => itemToPurge && purgeMutation.mutate(itemToPurge)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,14 +1,32 @@
 import { useState, useRef, useEffect } from 'react';
-import { Send, Paperclip, Image, FileText, X } from 'lucide-react';
+import { Send, Paperclip, Image, FileText, Film, Mic, Square, Loader2, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { DoNotSayAlert } from '@/components/ui/do-not-say-alert';
 import { useAuth } from '@/hooks/use-auth';
 import { useMessaging } from '@/lib/context/MessagingProvider';
 import { Message } from '@/hooks/use-real-time-messaging';
+import { DoNotSayError } from '@/lib/do-not-say';
+import {
+  ATTACHMENT_ACCEPT,
+  MessageAttachmentInfo,
+  deleteMessageAttachment,
+  formatDuration,
+  uploadMessageAttachment,
+} from '@/lib/message-attachments';
+import { MessageAttachments } from './MessageAttachments';
 import { formatDistanceToNow } from 'date-fns';
 
+// A file picked or recorded for the next message, uploaded as soon as it's added
+interface PendingAttachment {
+  key: string;
+  file: File;
+  uploaded?: MessageAttachmentInfo;
+  error?: string;
+}
+
 interface ChatInterfaceProps {
   conversationId: number;
   recipientName: string;
@@ -19,12 +37,18 @@ export function ChatInterface({ conversationId, recipientName, recipientAvatar }
   const { user } = useAuth();
   const { messages, sendMessage, sendTypingIndicator, isTyping } = useMessaging();
   const [message, setMessage] = useState('');
-  const [isUploading, setIsUploading] = useState(false);
-  const [attachments, setAttachments] = useState<File[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [doNotSayError, setDoNotSayError] = useState<DoNotSayError | null>(null);
+  const [recordingSeconds, setRecordingSeconds] = useState<number | null>(null);
   const endOfMessagesRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
   const conversationMessages = messages[conversationId] || [];
   const isRecipientTyping = isTyping[conversationId];
+  const isUploading = attachments.some(attachment => !attachment.uploaded && !attachment.error);
+  const uploadedIds = attachments.flatMap(attachment => attachment.uploaded ? [attachment.uploaded.id] : []);
+  const canSend = (!!message.trim() || uploadedIds.length > 0) && !isUploading && !isSending;
 
   // Scroll to bottom on new message
   useEffect(() => {
@@ -33,37 +57,35 @@ export function ChatInterface({ conversationId, recipientName, recipientAvatar }
     }
   }, [conversationMessages]);
 
+  // Stop a recording in progress when leaving the conversation
+  useEffect(() => {
+    return () => recorderRef.current?.stop();
+  }, [conversationId]);
+
+  // Count up while a voice note is recorded
+  useEffect(() => {
+    if (recordingSeconds === null) return;
+    const timer = setTimeout(() => setRecordingSeconds(seconds => seconds === null ? null : seconds + 1), 1000);
+    return () => clearTimeout(timer);
+  }, [recordingSeconds]);
+
   // Handle sending message
-  const handleSendMessage = async () => {
-    if ((!message.trim() && attachments.length === 0) || !user) {
+  const handleSendMessage = async (doNotSayOverrideReason?: string, doNotSayAcknowledged?: boolean) => {
+    if (!canSend || !user) {
       return;
     }
 
-    // Handle file uploads if any
-    let attachmentData = null;
-    if (attachments.length > 0) {
-      setIsUploading(true);
-      try {
-        // In a real implementation, you'd upload files to storage here
-        // For now, we'll just include the filenames
-        attachmentData = attachments.map(file => ({
-          name: file.name,
-          type: file.type,
-          size: file.size
-        }));
-      } catch (error) {
-        console.error('Error uploading files:', error);
-      } finally {
-        setIsUploading(false);
-      }
-    }
-
-    // Send the message
-    const success = await sendMessage(conversationId, message, attachmentData);
+    // Attachments were uploaded when they were added, the message refers to them by ID
+    setIsSending(true);
+    const result = await sendMessage(conversationId, message, uploadedIds, doNotSayOverrideReason, doNotSayAcknowledged);
+    setIsSending(false);
     
-    if (success) {
+    if (result.success) {
       setMessage('');
       setAttachments([]);
+      setDoNotSayError(null);
+    } else if (result.doNotSay) {
+      setDoNotSayError(result.doNotSay);
     }
   };
 
@@ -74,16 +96,72 @@ export function ChatInterface({ conversationId, recipientName, recipientAvatar }
     sendTypingIndicator(conversationId, true);
   };
 
+  // Upload files as soon as they're added, so sending the message is quick
+  const addAttachments = (files: File[]) => {
+    const pending = files.map(file => ({ key: `${file.name}-${Date.now()}-${Math.random()}`, file }));
+    setAttachments(prev => [...prev, ...pending]);
+
+    for (const { key, file } of pending) {
+      uploadMessageAttachment(conversationId, file)
+        .then(uploaded => {
+          setAttachments(prev => prev.map(attachment => attachment.key === key ? { ...attachment, uploaded } : attachment));
+        })
+        .catch((error: Error) => {
+          setAttachments(prev => prev.map(attachment => attachment.key === key ? { ...attachment, error: error.message } : attachment));
+        });
+    }
+  };
+
   // Handle file selection
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      setAttachments(prev => [...prev, ...Array.from(e.target.files!)]);
+      addAttachments(Array.from(e.target.files));
     }
+    // Allow picking the same file again after removing it
+    e.target.value = '';
   };
 
-  // Remove an attachment
-  const removeAttachment = (index: number) => {
-    setAttachments(prev => prev.filter((_, i) => i !== index));
+  // Remove an attachment, deleting the upload since it won't be sent
+  const removeAttachment = (key: string) => {
+    const attachment = attachments.find(pending => pending.key === key);
+    if (attachment?.uploaded) {
+      deleteMessageAttachment(attachment.uploaded.id);
+    }
+    setAttachments(prev => prev.filter(pending => pending.key !== key));
+  };
+
+  // Record a voice note with the microphone, added as an attachment when stopped
+  const toggleRecording = async () => {
+    if (recorderRef.current) {
+      recorderRef.current.stop();
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (event) => chunks.push(event.data);
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        recorderRef.current = null;
+        setRecordingSeconds(null);
+
+        const type = recorder.mimeType || 'audio/webm';
+        const extension = type.includes('mp4') ? 'm4a' : type.includes('ogg') ? 'ogg' : 'webm';
+        const blob = new Blob(chunks, { type });
+        if (blob.size > 0) {
+          addAttachments([new File([blob], `voice-note-${Date.now()}.${extension}`, { type: type.split(';')[0].replace('video/', 'audio/') })]);
+        }
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setRecordingSeconds(0);
+    } catch (error) {
+      console.error('Error recording voice note:', error);
+    }
   };
 
   // Handle key press (Enter to send, Shift+Enter for new line)
@@ -189,22 +267,11 @@ export function ChatInterface({ conversationId, recipientName, recipientAvatar }
                           }
                         `}
                       >
-                        <p className="whitespace-pre-wrap break-words">{msg.content}</p>
+                        {msg.content && <p className="whitespace-pre-wrap break-words">{msg.content}</p>}
                         
                         {/* Attachments if any */}
-                        {msg.attachments && Array.isArray(msg.attachments) && msg.attachments.length > 0 && (
-                          <div className="mt-2 space-y-1">
-                            {msg.attachments.map((attachment, i) => (
-                              <div key={i} className="flex items-center gap-1 text-xs">
-                                {attachment.type?.startsWith('image/') ? (
-                                  <Image className="h-4 w-4" />
-                                ) : (
-                                  <FileText className="h-4 w-4" />
-                                )}
-                                <span className="truncate max-w-[200px]">{attachment.name}</span>
-                              </div>
-                            ))}
-                          </div>
+                        {msg.attachments && msg.attachments.length > 0 && (
+                          <MessageAttachments attachments={msg.attachments} />
                         )}
                         
                         <div 
@@ -243,22 +310,31 @@ export function ChatInterface({ conversationId, recipientName, recipientAvatar }
       {attachments.length > 0 && (
         <div className="px-4 py-2 border-t">
           <div className="flex flex-wrap gap-2">
-            {attachments.map((file, index) => (
+            {attachments.map(({ key, file, uploaded, error }) => (
               <div 
-                key={index} 
-                className="flex items-center gap-1 bg-secondary rounded px-2 py-1"
+                key={key} 
+                className={`flex items-center gap-1 rounded px-2 py-1 ${error ? 'bg-destructive/10 text-destructive' : 'bg-secondary'}`}
+                title={error}
               >
-                {file.type.startsWith('image/') ? (
+                {!uploaded && !error ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : file.type.startsWith('image/') ? (
                   <Image className="h-3 w-3" />
+                ) : file.type.startsWith('video/') ? (
+                  <Film className="h-3 w-3" />
+                ) : file.type.startsWith('audio/') ? (
+                  <Mic className="h-3 w-3" />
                 ) : (
                   <FileText className="h-3 w-3" />
                 )}
                 <span className="text-xs truncate max-w-[100px]">
                   {file.name}
                 </span>
+                {error && <span className="text-xs">Failed</span>}
                 <button 
-                  onClick={() => removeAttachment(index)}
+                  onClick={() => removeAttachment(key)}
                   className="text-muted-foreground hover:text-foreground"
+                  aria-label={`Remove ${file.name}`}
                 >
                   <X className="h-3 w-3" />
                 </button>
@@ -270,12 +346,22 @@ export function ChatInterface({ conversationId, recipientName, recipientAvatar }
 
       {/* Message input */}
       <div className="p-3 sm:p-4 border-t">
+        {doNotSayError && (
+          <DoNotSayAlert
+            className="mb-3"
+            error={doNotSayError}
+            onOverride={(reason) => handleSendMessage(reason)}
+            onAcknowledge={() => handleSendMessage(undefined, true)}
+          />
+        )}
+        
         <div className="flex gap-2">
           <input
             type="file"
             ref={fileInputRef}
             onChange={handleFileSelect}
             className="hidden"
+            accept={ATTACHMENT_ACCEPT}
             multiple
           />
           
@@ -284,26 +370,36 @@ export function ChatInterface({ conversationId, recipientName, recipientAvatar }
             variant="ghost"
             onClick={() => fileInputRef.current?.click()}
             className="shrink-0 h-10 w-10"
-            disabled={isUploading}
+disabled={recordingSeconds !== null}
             aria-label="Attach files"
           >
             <Paperclip className="h-5 w-5" />
           </Button>
           
+          <Button 
+            size="icon" 
+            variant={recordingSeconds !== null ? 'destructive' : 'ghost'}
+            onClick={toggleRecording}
+            className="shrink-0 h-10 w-10"
+            aria-label={recordingSeconds !== null ? 'Stop recording' : 'Record a voice note'}
+          >
+            {recordingSeconds !== null ? <Square className="h-4 w-4" /> : <Mic className="h-5 w-5" />}
+          </Button>
+          
           <Textarea
             value={message}
             onChange={handleInputChange}
             onKeyDown={handleKeyDown}
-            placeholder="Type a message..."
+            placeholder={recordingSeconds !== null ? `Recording ${formatDuration(recordingSeconds)}...` : 'Type a message...'}
             className="min-h-[2.5rem] max-h-32 flex-1 py-2"
-            disabled={isUploading}
+            disabled={isSending}
           />
           
           <Button 
             size="icon" 
-            onClick={handleSendMessage}
+            onClick={() => handleSendMessage()}
             className="shrink-0 h-10 w-10"
-            disabled={(!message.trim() && attachments.length === 0) || isUploading}
+            disabled={!canSend}
             aria-label="Send message"
           >
             <Send className="h-5 w-5" />
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Download, FileText, Mic } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { formatBytes } from '@/components/billing/UsageMeter';
+import { MessageAttachmentInfo, formatDuration } from '@/lib/message-attachments';
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachmentInfo[];
+}
+
+// Inline previews of a message's attachments: images open full size, PDFs open in a viewer,
+// videos and voice notes play in place
+export function MessageAttachments({ attachments }: MessageAttachmentsProps) {
+  const [viewing, setViewing] = useState<MessageAttachmentInfo | null>(null);
+
+  return (
+    <div className="mt-2 space-y-2">
+      {attachments.map((attachment) => {
+        switch (attachment.kind) {
+          case 'image':
+            return (
+              <button
+                key={attachment.id}
+                type="button"
+                onClick={() => setViewing(attachment)}
+                className="block overflow-hidden rounded-md"
+                aria-label={`View ${attachment.fileName}`}
+              >
+                <img
+                  src={attachment.thumbnailUrl ?? attachment.url}
+                  alt={attachment.fileName}
+                  loading="lazy"
+                  className="max-h-60 max-w-full object-cover"
+                />
+              </button>
+            );
+          case 'video':
+            return (
+              <video
+                key={attachment.id}
+                src={attachment.url}
+                poster={attachment.thumbnailUrl ?? undefined}
+                controls
+                preload="none"
+                className="max-h-72 max-w-full rounded-md bg-black"
+              />
+            );
+          case 'audio':
+            return (
+              <div key={attachment.id} className="flex items-center gap-2">
+                <Mic className="h-4 w-4 shrink-0" />
+                <audio src={attachment.url} controls preload="none" className="h-10 max-w-[240px]" />
+                {attachment.duration !== null && (
+                  <span className="text-xs opacity-70">{formatDuration(attachment.duration)}</span>
+                )}
+              </div>
+            );
+          default:
+            return (
+              <button
+                key={attachment.id}
+                type="button"
+                onClick={() => setViewing(attachment)}
+                className="flex items-center gap-2 rounded-md bg-black/10 px-3 py-2 text-left text-sm"
+              >
+                <FileText className="h-5 w-5 shrink-0" />
+                <span className="min-w-0">
+                  <span className="block truncate max-w-[200px]">{attachment.fileName}</span>
+                  <span className="block text-xs opacity-70">{formatBytes(attachment.fileSize)}</span>
+                </span>
+              </button>
+            );
+        }
+      })}
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 pr-6">
+              <span className="truncate">{viewing?.fileName}</span>
+              {viewing && (
+                <a
+                  href={viewing.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-muted-foreground hover:text-foreground"
+                  aria-label="Open in a new tab"
+                >
+                  <Download className="h-4 w-4" />
+                </a>
+              )}
+            </DialogTitle>
+          </DialogHeader>
+          {viewing?.kind === 'image' && (
+            <img src={viewing.url} alt={viewing.fileName} className="max-h-[75vh] w-full object-contain" />
+          )}
+          {viewing?.kind === 'pdf' && (
+            <iframe src={viewing.url} title={viewing.fileName} className="h-[75vh] w-full rounded-md border" />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
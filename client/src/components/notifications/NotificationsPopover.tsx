@@ -26,13 +26,14 @@ export interface Notification {
 export function NotificationsPopover() {
   const [, navigate] = useLocation();
   const { user } = useAuth();
+  const { latestNotification } = useMessaging();
   const [open, setOpen] = useState(false);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState(false);
 
-  // Fetch notifications
+  // Fetch notifications, again whenever one is pushed over the WebSocket
   useEffect(() => {
     if (!user) return;
     
@@ -69,7 +70,7 @@ export function NotificationsPopover() {
     const intervalId = setInterval(fetchNotifications, 30000);
     
     return () => clearInterval(intervalId);
-  }, [user]);
+  }, [user, latestNotification]);
 
   // Mark notification as read
   const handleNotificationClick = async (notification: Notification) => {
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DoNotSayError, highlightViolations } from '@/lib/do-not-say';
+import { cn } from '@/lib/utils';
+import { AlertTriangle, Ban } from 'lucide-react';
+
+interface DoNotSayAlertProps {
+  error: DoNotSayError;
+  onOverride?: (reason: string) => void;
+  onAcknowledge?: () => void;
+  isSubmitting?: boolean;
+  className?: string;
+}
+
+// Shows which words broke the client's do-not-say list, with an override for managers.
+// Near-misses only warn, and can be sent anyway by anyone.
+export function DoNotSayAlert({ error, onOverride, onAcknowledge, isSubmitting, className }: DoNotSayAlertProps) {
+  const [reason, setReason] = useState('');
+
+  const flaggedFields = Object.entries(error.fields).filter(
+    ([field, text]) => text && error.violations.some(violation => violation.field === field)
+  );
+  const terms = Array.from(new Set(error.violations.map(violation => violation.term)));
+
+  return (
+    <Alert variant={error.canAcknowledge ? 'default' : 'destructive'} className={cn('space-y-3', className)}>
+      {error.canAcknowledge ? <AlertTriangle className="h-4 w-4" /> : <Ban className="h-4 w-4" />}
+      <AlertTitle>{error.canAcknowledge ? 'Possible do-not-say terms' : 'Do-not-say terms found'}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          {error.message}: {terms.map(term => `"${term}"`).join(', ')}
+        </p>
+
+        {flaggedFields.map(([field, text]) => (
+          <div key={field}>
+            <p className="text-xs uppercase tracking-wide opacity-70 mb-1">{field}</p>
+            <p className="whitespace-pre-wrap rounded-md border border-destructive/30 p-2">
+              {highlightViolations(text!, error.violations.filter(violation => violation.field === field)).map((segment, index) =>
+                segment.violation ? (
+                  <mark
+                    key={index}
+                    className="bg-destructive/30 text-inherit rounded px-0.5"
+                    title={segment.violation.fuzzy ? `Close to "${segment.violation.term}"` : `"${segment.violation.term}"`}
+                  >
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{segment.text}</span>
+                )
+              )}
+            </p>
+          </div>
+        ))}
+
+        {error.canAcknowledge && onAcknowledge ? (
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs opacity-70">Check the highlighted words are what you meant.</p>
+            <Button type="button" size="sm" variant="outline" onClick={onAcknowledge} disabled={isSubmitting}>
+              Send anyway
+            </Button>
+          </div>
+        ) : error.canOverride && onOverride ? (
+          <div className="flex items-center gap-2">
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason for sending anyway"
+              className="h-8"
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="destructive"
+              onClick={() => onOverride(reason.trim())}
+              disabled={!reason.trim() || isSubmitting}
+            >
+              Override
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs opacity-70">Edit the highlighted words and try again.</p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -6,6 +6,7 @@ import {
   UserPlus,
   CreditCard,
   Calendar,
+  CalendarDays,
   MessageSquare,
   Upload,
   Target,
@@ -18,6 +19,9 @@ import {
   FileText,
   History,
   SendHorizontal,
+  FolderOpen,
+  Trash2,
+  Inbox,
 } from "lucide-react";
 // We'll replace Clerk's UserButton with our own user dropdown
 import { ChevronDown } from "lucide-react";
@@ -70,11 +74,31 @@ export function Sidebar({
       path: "/admin/appointments",
       icon: <Calendar className="w-5 h-5 mr-3" />,
     },
+    {
+      name: "Booking Requests",
+      path: "/admin/booking-requests",
+      icon: <Inbox className="w-5 h-5 mr-3" />,
+    },
     {
       name: "Content Viewer",
       path: "/admin/content-viewer",
       icon: <Upload className="w-5 h-5 mr-3" />,
     },
+    {
+      name: "Collections",
+      path: "/admin/collections",
+      icon: <FolderOpen className="w-5 h-5 mr-3" />,
+    },
+    {
+      name: "Content Calendar",
+      path: "/admin/content-calendar",
+      icon: <CalendarDays className="w-5 h-5 mr-3" />,
+    },
+    {
+      name: "Trash",
+      path: "/admin/trash",
+      icon: <Trash2 className="w-5 h-5 mr-3" />,
+    },
     {
       name: "Verification Queue",
       path: "/admin/verification-queue",
@@ -131,6 +155,16 @@ export function Sidebar({
       path: "/content-upload",
       icon: <Upload className="w-5 h-5 mr-3" />,
     },
+    {
+      name: "Content Calendar",
+      path: "/content-calendar",
+      icon: <CalendarDays className="w-5 h-5 mr-3" />,
+    },
+    {
+      name: "Collections",
+      path: "/collections",
+      icon: <FolderOpen className="w-5 h-5 mr-3" />,
+    },
     {
       name: "Billing",
       path: "/billing",
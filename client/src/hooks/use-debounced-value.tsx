@@ -0,0 +1,13 @@
+import { useState, useEffect } from "react";
+
+// The value once it has stopped changing for `delay` ms, e.g. to search after typing pauses
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debouncedValue;
+}
@@ -1,18 +1,25 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/hooks/use-auth';
 import { queryClient } from '@/lib/queryClient';
-import { supabase } from '@/lib/supabase';
+import { DoNotSayError } from '@/lib/do-not-say';
+import { MessageAttachmentInfo } from '@/lib/message-attachments';
+import { invalidateAppointmentQueries } from '@/components/appointments/AppointmentNegotiation';
 
 export interface Message {
   id: number;
   conversationId: number;
   senderId: number;
   content: string;
-  attachments?: any[];
+  attachments?: MessageAttachmentInfo[] | null;
   isRead: boolean;
   createdAt: string;
 }
 
+export interface SendMessageResult {
+  success: boolean;
+  doNotSay?: DoNotSayError; // set when the message used a recipient's do-not-say terms
+}
+
 interface Conversation {
   id: number;
   lastMessageAt: string;
@@ -26,6 +33,31 @@ interface Conversation {
   }[];
 }
 
+// Events pushed by the server's WebSocket gateway at /ws
+type RealtimeEventType = 'message' | 'notification' | 'status' | 'typing' | 'read' | 'appointment';
+
+interface RealtimeEvent {
+  type: RealtimeEventType;
+  data: any;
+  sender: { id: number; username: string } | null;
+  timestamp: number;
+}
+
+export interface RealtimeNotification {
+  id: number;
+  recipientId: number;
+  type: string;
+  title: string;
+  content: string;
+  link?: string | null;
+  isRead: boolean;
+  createdAt: string;
+}
+
+// Reconnect after 1s, doubling up to 30s while the server stays unreachable
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
 export function useRealTimeMessaging() {
   const { user } = useAuth();
   const [messages, setMessages] = useState<Record<number, Message[]>>({});
@@ -33,12 +65,14 @@ export function useRealTimeMessaging() {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [latestNotification, setLatestNotification] = useState<RealtimeNotification | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  const typingTimeouts = useRef<Record<number, ReturnType<typeof setTimeout>>>({});
 
-  // Initialize Supabase real-time connection
+  // Load the conversations and their messages
   useEffect(() => {
     if (!user) return;
 
-    // Fetch conversations
     const fetchConversations = async () => {
       try {
         const response = await fetch('/api/conversations');
@@ -48,13 +82,6 @@ export function useRealTimeMessaging() {
         const data = await response.json();
         setConversations(data);
         
-        // Initialize messages state with empty arrays for each conversation
-        const initialMessages: Record<number, Message[]> = {};
-        data.forEach((conversation: Conversation) => {
-          initialMessages[conversation.id] = [];
-        });
-        setMessages(initialMessages);
-        
         // Fetch messages for each conversation
         data.forEach((conversation: Conversation) => {
           fetchMessages(conversation.id);
@@ -66,87 +93,129 @@ export function useRealTimeMessaging() {
     };
     
     fetchConversations();
-    
-    // Subscribe to real-time updates
-    const setupRealtime = async () => {
-      try {
-        // Subscribe to new messages channel
-        const messageSubscription = supabase
-          .channel('messages')
-          .on('postgres_changes', {
-            event: 'INSERT',
-            schema: 'public',
-            table: 'messages'
-          }, (payload) => {
-            const newMessage = payload.new as Message;
-            // Only process messages for conversations we're tracking
-            if (messages[newMessage.conversationId]) {
-              setMessages(prev => ({
-                ...prev,
-                [newMessage.conversationId]: [
-                  ...prev[newMessage.conversationId],
-                  newMessage
-                ]
-              }));
-              
-              // If the message is from someone else, mark typing as false
-              if (newMessage.senderId !== user.id) {
-                setIsTyping(prev => ({
-                  ...prev,
-                  [newMessage.conversationId]: false
-                }));
-              }
-              
-              // Invalidate conversations query to refresh the list
-              queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
-            }
-          })
-          .subscribe();
-        
-        // Subscribe to typing indicators channel
-        const typingSubscription = supabase
-          .channel('typing')
-          .on('broadcast', { event: 'typing' }, (payload) => {
-            if (payload.conversationId && payload.senderId !== user.id) {
-              setIsTyping(prev => ({
-                ...prev,
-                [payload.conversationId]: payload.isTyping
-              }));
-              
-              // Clear typing indicator after a few seconds
-              if (payload.isTyping) {
-                setTimeout(() => {
-                  setIsTyping(prev => ({
-                    ...prev,
-                    [payload.conversationId]: false
-                  }));
-                }, 3000);
-              }
-            }
-          })
-          .subscribe();
-        
+  }, [user]);
+
+  // Connect to the WebSocket gateway, reconnecting with backoff until the user signs out
+  useEffect(() => {
+    if (!user) return;
+
+    let closed = false;
+    let reconnectDelay = MIN_RECONNECT_DELAY;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleEvent = (event: RealtimeEvent) => {
+      switch (event.type) {
+        case 'message': {
+          const newMessage = event.data as Message;
+          setMessages(prev => {
+            const existing = prev[newMessage.conversationId] ?? [];
+            if (existing.some(message => message.id === newMessage.id)) return prev;
+            return { ...prev, [newMessage.conversationId]: [...existing, newMessage] };
+          });
+          
+          // A message ends the sender's typing indicator
+          if (newMessage.senderId !== user.id) {
+            setIsTyping(prev => ({ ...prev, [newMessage.conversationId]: false }));
+          }
+          
+          // Invalidate conversations query to refresh the list
+          queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+          break;
+        }
+        case 'typing': {
+          const { conversationId, isTyping: typing } = event.data as { conversationId: number; isTyping: boolean };
+          setIsTyping(prev => ({ ...prev, [conversationId]: typing }));
+          
+          // Clear typing indicator after a few seconds in case the stop never arrives
+          clearTimeout(typingTimeouts.current[conversationId]);
+          if (typing) {
+            typingTimeouts.current[conversationId] = setTimeout(() => {
+              setIsTyping(prev => ({ ...prev, [conversationId]: false }));
+            }, 3000);
+          }
+          break;
+        }
+        case 'read':
+          updateMessage(event.data.messageId, { isRead: true });
+          break;
+        case 'notification':
+          setLatestNotification(event.data as RealtimeNotification);
+          queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+          break;
+        case 'appointment':
+          invalidateAppointmentQueries(queryClient);
+          queryClient.invalidateQueries({ queryKey: ['/api/client/appointments'] });
+          break;
+      }
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        reconnectDelay = MIN_RECONNECT_DELAY;
         setIsConnected(true);
-        
-        // Cleanup function
-        return () => {
-          supabase.removeChannel(messageSubscription);
-          supabase.removeChannel(typingSubscription);
-        };
-      } catch (error) {
-        console.error('Error setting up real-time:', error);
-        setError('Failed to connect to real-time messaging');
+        setError(null);
+      };
+      socket.onmessage = (message) => {
+        try {
+          handleEvent(JSON.parse(message.data));
+        } catch (error) {
+          console.error('Error handling real-time event:', error);
+        }
+      };
+      socket.onclose = () => {
         setIsConnected(false);
-      }
+        if (socketRef.current === socket) {
+          socketRef.current = null;
+        }
+        if (closed) return;
+        
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+      Object.values(typingTimeouts.current).forEach(clearTimeout);
+      typingTimeouts.current = {};
     };
-    
-    setupRealtime();
   }, [user]);
 
+  // Apply a change to a message in whichever conversation holds it
+  const updateMessage = (messageId: number, changes: Partial<Message>) => {
+    setMessages(prev => {
+      for (const conversationId in prev) {
+        const conversationMessages = prev[conversationId];
+        const messageIndex = conversationMessages.findIndex(msg => msg.id === messageId);
+        
+        if (messageIndex !== -1) {
+          return {
+            ...prev,
+            [conversationId]: [
+              ...conversationMessages.slice(0, messageIndex),
+              { ...conversationMessages[messageIndex], ...changes },
+              ...conversationMessages.slice(messageIndex + 1)
+            ]
+          };
+        }
+      }
+      return prev;
+    });
+  };
+
   // Fetch messages for a specific conversation
   const fetchMessages = async (conversationId: number) => {
     try {
-      const response = await fetch(`/api/conversations/${conversationId}/messages`);
+      const response = await fetch(`/api/messages/conversation/${conversationId}`);
       if (!response.ok) {
         throw new Error('Failed to fetch messages');
       }
@@ -164,65 +233,60 @@ export function useRealTimeMessaging() {
   const sendMessage = async (
     conversationId: number, 
     content: string,
-    attachments?: any
-  ): Promise<boolean> => {
-    if (!user) return false;
+    attachmentIds?: number[],
+    doNotSayOverrideReason?: string,
+    doNotSayAcknowledged?: boolean
+  ): Promise<SendMessageResult> => {
+    if (!user) return { success: false };
     
     try {
-      const response = await fetch(`/api/conversations/${conversationId}/messages`, {
+      const response = await fetch('/api/messages', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
+          conversationId,
           content,
-          attachments
+          attachmentIds,
+          doNotSayOverrideReason,
+          doNotSayAcknowledged
         })
       });
       
+      // Blocked by the recipient's do-not-say list, the caller shows what to change
+      if (response.status === 422) {
+        return { success: false, doNotSay: await response.json() };
+      }
+      
       if (!response.ok) {
         throw new Error('Failed to send message');
       }
       
-      return true;
+      return { success: true };
     } catch (error) {
       console.error('Error sending message:', error);
-      return false;
+      return { success: false };
     }
   };
 
-  // Send typing indicator
+  // Send typing indicator, relayed by the server to the conversation's other participants
   const sendTypingIndicator = async (
     conversationId: number,
     isTyping: boolean
   ): Promise<boolean> => {
-    if (!user || !isConnected) return false;
+    const socket = socketRef.current;
+    if (!user || !socket || socket.readyState !== WebSocket.OPEN) return false;
     
-    try {
-      await supabase
-        .channel('typing')
-        .send({
-          type: 'broadcast',
-          event: 'typing',
-          payload: {
-            conversationId,
-            senderId: user.id,
-            isTyping
-          }
-        });
-      
-      return true;
-    } catch (error) {
-      console.error('Error sending typing indicator:', error);
-      return false;
-    }
+    socket.send(JSON.stringify({ type: 'typing', data: { conversationId, isTyping } }));
+    return true;
   };
 
   // Mark message as read
   const markMessageAsRead = async (messageId: number): Promise<boolean> => {
     try {
       const response = await fetch(`/api/messages/${messageId}/read`, {
-        method: 'POST'
+        method: 'PATCH'
       });
       
       if (!response.ok) {
@@ -230,26 +294,7 @@ export function useRealTimeMessaging() {
       }
       
       // Update local state
-      setMessages(prev => {
-        const updatedMessages = { ...prev };
-        
-        // Find which conversation contains this message
-        for (const conversationId in updatedMessages) {
-          const conversationMessages = updatedMessages[conversationId];
-          const messageIndex = conversationMessages.findIndex(msg => msg.id === messageId);
-          
-          if (messageIndex !== -1) {
-            updatedMessages[conversationId] = [
-              ...conversationMessages.slice(0, messageIndex),
-              { ...conversationMessages[messageIndex], isRead: true },
-              ...conversationMessages.slice(messageIndex + 1)
-            ];
-            break;
-          }
-        }
-        
-        return updatedMessages;
-      });
+      updateMessage(messageId, { isRead: true });
       
       return true;
     } catch (error) {
@@ -295,6 +340,7 @@ export function useRealTimeMessaging() {
     conversations,
     isConnected,
     error,
+    latestNotification,
     sendMessage,
     sendTypingIndicator,
     markMessageAsRead,
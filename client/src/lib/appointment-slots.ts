@@ -0,0 +1,72 @@
+// Open slots from /api/appointments/availability, times are ISO strings
+export interface SlotAvailability {
+  timezone: string;
+  hasSchedule: boolean;
+  bufferMinutes: number;
+  slots: { start: string; end: string }[];
+}
+
+// Body of the 409 response returned when an appointment time doesn't work for the client
+export interface SlotConflictError {
+  message: string;
+  code: 'IN_THE_PAST' | 'OUTSIDE_AVAILABILITY' | 'DOUBLE_BOOKED';
+  appointmentId?: number;
+}
+
+/**
+ * Pick the conflict details out of an error thrown by apiRequest
+ * @param error The caught error, whose message is "<status>: <body>"
+ * @returns SlotConflictError | null The details, or null for any other error
+ */
+export function getSlotConflictError(error: unknown): SlotConflictError | null {
+  if (!(error instanceof Error) || !error.message.startsWith('409: ')) {
+    return null;
+  }
+
+  try {
+    const body = JSON.parse(error.message.slice(5));
+    return ['IN_THE_PAST', 'OUTSIDE_AVAILABILITY', 'DOUBLE_BOOKED'].includes(body?.code) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+// Body of the 409 response returned when some appointments of a standing booking don't work for the client
+export interface SeriesConflictError {
+  message: string;
+  code: 'SERIES_CONFLICT';
+  conflicts: { start: string; appointmentId?: number; conflict: SlotConflictError }[];
+}
+
+/**
+ * Pick the per-appointment conflicts out of an error thrown by apiRequest for a standing booking
+ * @param error The caught error, whose message is "<status>: <body>"
+ * @returns SeriesConflictError | null The details, or null for any other error
+ */
+export function getSeriesConflictError(error: unknown): SeriesConflictError | null {
+  if (!(error instanceof Error) || !error.message.startsWith('409: ')) {
+    return null;
+  }
+
+  try {
+    const body = JSON.parse(error.message.slice(5));
+    return body?.code === 'SERIES_CONFLICT' ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A time as the client sees it in their own timezone, e.g. "11:00 AM EDT"
+ * @param date The time
+ * @param timezone IANA timezone of the client
+ * @returns string The formatted time
+ */
+export function formatClientTime(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(date);
+}
@@ -0,0 +1,141 @@
+import { apiRequest } from './queryClient';
+
+// Attempts per chunk before the upload is reported as failed
+const MAX_CHUNK_ATTEMPTS = 4;
+
+export interface UploadSessionInfo {
+  id: number;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  fingerprint: string;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  status: 'uploading' | 'completing' | 'completed' | 'cancelled';
+  mediaFileId: number | null;
+  createdAt: string;
+}
+
+export interface UploadMetadata {
+  title?: string;
+  description?: string;
+  platform?: string;
+  caption?: string;
+  tags?: string[];
+  replacesMediaId?: number;
+  doNotSayAcknowledged?: boolean; // send a caption with near-misses of do-not-say terms anyway
+}
+
+/**
+ * Identify a file across page reloads, so an interrupted upload can be matched when it is selected again
+ * @param file File chosen by the user
+ */
+export function getFileFingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+/**
+ * Number of bytes the server already holds for an upload session
+ * @param session Upload session returned by the API
+ */
+export function getUploadedBytes(session: UploadSessionInfo): number {
+  return session.receivedChunks.reduce((total, index) => {
+    const isLastChunk = index === session.totalChunks - 1;
+    return total + (isLastChunk ? session.fileSize - index * session.chunkSize : session.chunkSize);
+  }, 0);
+}
+
+async function sha256Hex(data: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function sendChunk(session: UploadSessionInfo, index: number, chunk: Blob): Promise<UploadSessionInfo> {
+  const checksum = await sha256Hex(chunk);
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= MAX_CHUNK_ATTEMPTS; attempt++) {
+    if (attempt > 1) {
+      // Back off before retrying, flaky connections often recover within a few seconds
+      await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** (attempt - 2)));
+    }
+
+    let res: Response;
+    try {
+      res = await fetch(`/api/content/uploads/${session.id}/chunks/${index}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'X-Chunk-Checksum': checksum,
+        },
+        body: chunk,
+        credentials: 'include',
+      });
+    } catch (error) {
+      lastError = error;
+      continue;
+    }
+
+    if (res.ok) {
+      return await res.json();
+    }
+
+    // Client errors other than a corrupted chunk won't be fixed by retrying
+    const text = (await res.text()) || res.statusText;
+    lastError = new Error(`${res.status}: ${text}`);
+    if (res.status < 500 && res.status !== 422) {
+      throw lastError;
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Upload a file in checksummed chunks, resuming any unfinished upload of the same file
+ * @param file File to upload
+ * @param metadata Details applied to the media file created once the upload completes
+ * @param onProgress Called with the number of bytes the server holds after each chunk
+ * @returns Promise<UploadSessionInfo> The completed upload session
+ */
+export async function uploadFileInChunks(
+  file: File,
+  metadata: UploadMetadata,
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void
+): Promise<UploadSessionInfo> {
+  const initResponse = await apiRequest('POST', '/api/content/uploads', {
+    fileName: file.name,
+    fileSize: file.size,
+    mimeType: file.type,
+    fingerprint: getFileFingerprint(file),
+    ...metadata,
+  });
+  let session: UploadSessionInfo = await initResponse.json();
+  onProgress?.(getUploadedBytes(session), file.size);
+
+  for (let index = 0; index < session.totalChunks; index++) {
+    if (session.receivedChunks.includes(index)) {
+      continue;
+    }
+
+    const start = index * session.chunkSize;
+    const chunk = file.slice(start, Math.min(start + session.chunkSize, file.size));
+    session = await sendChunk(session, index, chunk);
+    onProgress?.(getUploadedBytes(session), file.size);
+  }
+
+  const completeResponse = await apiRequest('POST', `/api/content/uploads/${session.id}/complete`);
+  const result = await completeResponse.json();
+  return result.session;
+}
+
+/**
+ * Abandon an unfinished upload and discard the chunks already sent
+ * @param sessionId ID of the upload session
+ */
+export async function cancelUpload(sessionId: number): Promise<void> {
+  await apiRequest('DELETE', `/api/content/uploads/${sessionId}`);
+}
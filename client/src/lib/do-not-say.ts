@@ -0,0 +1,71 @@
+// A match of a client's do-not-say term, start and end are character offsets into the field
+export interface DoNotSayViolation {
+  clientId: number;
+  field: string;
+  term: string;
+  match: string;
+  start: number;
+  end: number;
+  fuzzy: boolean; // a near-miss by a typo or two, only a warning
+}
+
+// Body of the 422 response returned when text is blocked, or only has near-misses to acknowledge
+export interface DoNotSayError {
+  message: string;
+  code: 'DO_NOT_SAY';
+  fields: Record<string, string | null>; // the text as checked, which the violation offsets refer to
+  violations: DoNotSayViolation[];
+  canOverride: boolean;
+  canAcknowledge: boolean; // every violation is fuzzy, send again with doNotSayAcknowledged
+}
+
+export interface HighlightSegment {
+  text: string;
+  violation?: DoNotSayViolation;
+}
+
+/**
+ * Pick the do-not-say details out of an error thrown by apiRequest
+ * @param error The caught error, whose message is "<status>: <body>"
+ * @returns DoNotSayError | null The details, or null for any other error
+ */
+export function getDoNotSayError(error: unknown): DoNotSayError | null {
+  if (!(error instanceof Error) || !error.message.startsWith('422: ')) {
+    return null;
+  }
+
+  try {
+    const body = JSON.parse(error.message.slice(5));
+    return body?.code === 'DO_NOT_SAY' ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split a field into plain and flagged segments for display
+ * @param text The text that was checked
+ * @param violations Violations for this field
+ * @returns HighlightSegment[] Segments in order, covering the whole text
+ */
+export function highlightViolations(text: string, violations: DoNotSayViolation[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+
+  for (const violation of [...violations].sort((a, b) => a.start - b.start)) {
+    // The same words can match several terms or clients, only highlight them once
+    if (violation.start < position) continue;
+
+    if (violation.start > position) {
+      segments.push({ text: text.slice(position, violation.start) });
+    }
+    segments.push({ text: text.slice(violation.start, violation.end), violation });
+    position = violation.end;
+  }
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position) });
+  }
+
+  return segments;
+}
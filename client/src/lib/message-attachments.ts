@@ -0,0 +1,61 @@
+export type AttachmentKind = 'image' | 'video' | 'pdf' | 'audio';
+
+// As saved on a message and returned by /api/messages/attachments
+export interface MessageAttachmentInfo {
+  id: number;
+  kind: AttachmentKind;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  url: string;
+  thumbnailUrl: string | null;
+}
+
+// File types the attach button offers, the server accepts the same
+export const ATTACHMENT_ACCEPT = 'image/jpeg,image/png,image/webp,image/gif,video/*,audio/*,application/pdf';
+
+/**
+ * Upload a file as an attachment for a message to a conversation
+ * @param conversationId The conversation the message is for
+ * @param file The file
+ * @returns Promise<MessageAttachmentInfo> The stored attachment, to pass by ID when sending the message
+ */
+export async function uploadMessageAttachment(conversationId: number, file: File): Promise<MessageAttachmentInfo> {
+  const formData = new FormData();
+  formData.append('conversationId', String(conversationId));
+  formData.append('file', file);
+
+  const response = await fetch('/api/messages/attachments', {
+    method: 'POST',
+    body: formData,
+    credentials: 'include',
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.message || 'Failed to upload attachment');
+  }
+  return body;
+}
+
+/**
+ * Remove an attachment that hasn't been sent yet
+ * @param attachmentId The attachment
+ */
+export async function deleteMessageAttachment(attachmentId: number): Promise<void> {
+  await fetch(`/api/messages/attachments/${attachmentId}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+}
+
+/**
+ * Format a duration in seconds as m:ss
+ * @param seconds The duration
+ */
+export function formatDuration(seconds: number): string {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+}
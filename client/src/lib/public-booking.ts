@@ -0,0 +1,56 @@
+export interface ScreeningQuestion {
+  id: string;
+  label: string;
+  type: 'confirm' | 'choice' | 'text';
+  options?: string[];
+  required: boolean;
+}
+
+// As returned by /api/public/booking/:slug
+export interface PublicBookingPage {
+  slug: string;
+  services: string[];
+  minimumRate: string | null;
+  geographicAvailability: string | null;
+  timezone: string;
+  requirements: string[];
+  questions: ScreeningQuestion[];
+}
+
+export interface BookingChallenge {
+  question: string;
+  token: string;
+}
+
+// Labels for the service ids saved from the Rent.Men settings
+export const SERVICE_LABELS: Record<string, string> = {
+  'massage': 'Massage',
+  'companionship': 'Companionship',
+  'dinner-date': 'Dinner Date',
+  'travel-companion': 'Travel Companion',
+  'coaching': 'Coaching/Training',
+  'custom': 'Custom Experience',
+};
+
+/**
+ * The message to show for an error thrown by apiRequest on the public booking page
+ * @param error The caught error, whose message is "<status>: <body>"
+ * @returns { status: number; message: string } The status and the server's message, or a generic one
+ */
+export function getPublicBookingError(error: unknown): { status: number; message: string } {
+  const match = error instanceof Error ? /^(\d{3}): ([\s\S]*)$/.exec(error.message) : null;
+  if (!match) {
+    return { status: 0, message: 'Something went wrong, please try again' };
+  }
+
+  const status = Number(match[1]);
+  if (status === 429) {
+    return { status, message: 'Too many requests, please try again later' };
+  }
+  try {
+    const body = JSON.parse(match[2]);
+    return { status, message: body?.message ?? 'Something went wrong, please try again' };
+  } catch {
+    return { status, message: 'Something went wrong, please try again' };
+  }
+}
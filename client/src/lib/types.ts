@@ -55,6 +55,12 @@ export interface MediaFileInfo {
   fileType: string;
   storagePath: string;
   thumbnailPath?: string;
+  previewPath?: string;
+  processingStatus: 'pending' | 'processing' | 'ready' | 'failed';
+  width?: number;
+  height?: number;
+  duration?: number;
+  codec?: string;
   status: 'pending' | 'approved' | 'rejected';
   uploadDate: Date;
   scheduledDate?: Date;
@@ -140,12 +146,17 @@ export interface RentMenSettingsInfo {
   geographicAvailability?: string;
   minimumRate?: string;
   clientScreeningPreferences?: string;
+  screeningRequirements?: ('name' | 'email' | 'phone' | 'references')[];
   servicesOffered?: string[];
   approvalProcess?: 'auto' | 'manual';
   bookingSummaryPreferences?: string[];
   availabilityTimes?: AvailabilityTimeInfo[];
+  bufferMinutes?: number;
+  reminderMinutes?: number[];
   receiveBookingAlerts?: boolean;
   showOnlyVerifiedClients?: boolean;
+  publicBookingEnabled?: boolean;
+  publicBookingSlug?: string | null;
 }
 
 export interface AvailabilityTimeInfo {
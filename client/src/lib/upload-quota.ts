@@ -0,0 +1,26 @@
+import { UsageSummary } from '@/components/billing/UsageMeter';
+
+// Body of the 413/403 response returned when an upload doesn't fit the plan
+export interface UploadQuotaError {
+  message: string;
+  code: 'FILE_TOO_LARGE' | 'STORAGE_QUOTA' | 'MONTHLY_UPLOAD_LIMIT';
+  usage?: UsageSummary;
+}
+
+/**
+ * Pick the quota details out of an error thrown by apiRequest or the chunked uploader
+ * @param error The caught error, whose message is "<status>: <body>"
+ * @returns UploadQuotaError | null The details, or null for any other error
+ */
+export function getUploadQuotaError(error: unknown): UploadQuotaError | null {
+  if (!(error instanceof Error) || !/^(403|413): /.test(error.message)) {
+    return null;
+  }
+
+  try {
+    const body = JSON.parse(error.message.slice(5));
+    return ['FILE_TOO_LARGE', 'STORAGE_QUOTA', 'MONTHLY_UPLOAD_LIMIT'].includes(body?.code) ? body : null;
+  } catch {
+    return null;
+  }
+}
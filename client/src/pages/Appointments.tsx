@@ -25,6 +25,7 @@ import { Input } from "@/components/ui/input";
 import { Loader2, Search, Calendar } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { AppointmentProposalCard } from "@/components/client/AppointmentProposalCard";
+import { CalendarFeedDialog } from "@/components/appointments/CalendarFeedDialog";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
 export default function Appointments() {
@@ -85,9 +86,9 @@ export default function Appointments() {
     return 0;
   });
 
-  // Group appointments by status
+  // Group appointments by status, counter-proposals and reschedules are still being agreed
   const pendingAppointments = sortedAppointments.filter(
-    (a: any) => a.status === "pending"
+    (a: any) => ["pending", "countered", "rescheduled"].includes(a.status)
   );
   const approvedAppointments = sortedAppointments.filter(
     (a: any) => a.status === "approved"
@@ -95,6 +96,7 @@ export default function Appointments() {
   const pastAppointments = sortedAppointments.filter(
     (a: any) =>
       a.status === "completed" ||
+      a.status === "no_show" ||
       a.status === "declined" ||
       a.status === "cancelled"
   );
@@ -117,6 +119,7 @@ export default function Appointments() {
               View and respond to your appointment proposals
             </p>
           </div>
+          <CalendarFeedDialog />
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-12 gap-4 mb-6">
@@ -141,8 +144,11 @@ export default function Appointments() {
               <SelectContent>
                 <SelectItem value="all">All Statuses</SelectItem>
                 <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="countered">Counter-Proposal</SelectItem>
                 <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="rescheduled">Reschedule Requested</SelectItem>
                 <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="no_show">No-show</SelectItem>
                 <SelectItem value="declined">Declined</SelectItem>
                 <SelectItem value="cancelled">Cancelled</SelectItem>
               </SelectContent>
@@ -233,7 +239,7 @@ export default function Appointments() {
                 <Alert>
                   <AlertTitle>No pending appointments</AlertTitle>
                   <AlertDescription>
-                    You don't have any appointments waiting for your response.
+                    You don't have any appointments being negotiated.
                   </AlertDescription>
                 </Alert>
               )}
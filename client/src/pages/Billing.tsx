@@ -9,6 +9,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { UpdatePaymentModal } from "@/components/billing/UpdatePaymentModal";
+import { UsageMeter, UsageSummary } from "@/components/billing/UsageMeter";
 import {
   CreditCard,
   Check,
@@ -119,6 +120,11 @@ export default function Billing() {
     },
   });
 
+  // Storage and uploads used against the plan's quotas
+  const { data: usage } = useQuery<UsageSummary>({
+    queryKey: ["/api/usage"],
+  });
+
   const handleDownloadInvoice = (invoiceId: string) => {
     toast({
       title: "Invoice downloaded",
@@ -225,6 +231,21 @@ export default function Billing() {
         </CardContent>
       </Card>
 
+      {/* Plan Usage */}
+      {usage && (
+        <Card className="mb-8 bg-background-card border-background-lighter">
+          <CardHeader>
+            <CardTitle className="text-white">Plan Usage</CardTitle>
+            <CardDescription>
+              Storage and uploads included in your plan, upload limits reset at the start of each month
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <UsageMeter usage={usage} className="text-white" />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Payment Method */}
       <Card className="mb-8 bg-background-card border-background-lighter">
         <CardHeader>
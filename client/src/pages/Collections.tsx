@@ -0,0 +1,16 @@
+import { CollectionsBrowser } from '@/components/content/CollectionsBrowser';
+
+export default function CollectionsPage() {
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold text-white">Collections</h1>
+        <p className="text-gray-400 mt-1">Group your content into sets and bundles, or let smart albums collect it by tag and status.</p>
+      </div>
+
+      <div className="bg-background-card rounded-xl shadow-md p-6 text-white">
+        <CollectionsBrowser />
+      </div>
+    </div>
+  );
+}
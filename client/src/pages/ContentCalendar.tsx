@@ -0,0 +1,16 @@
+import { ContentCalendar } from '@/components/content/ContentCalendar';
+
+export default function ContentCalendarPage() {
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold text-white">Content Calendar</h1>
+        <p className="text-gray-400 mt-1">See when your content goes out on each platform and drag posts to reschedule them.</p>
+      </div>
+
+      <div className="bg-background-card rounded-xl shadow-md p-6 text-white">
+        <ContentCalendar />
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,18 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { ContentUploader } from '@/components/content/ContentUploader';
+import { ContentReviewPanel, ContentStatus, contentStatusLabels } from '@/components/content/ContentReviewPanel';
 import { ContentCard, ContentItem } from '@/components/content/ContentCard';
+import {
+  ContentSearchParams,
+  SearchPagination,
+  contentSearchQueryKey,
+  facetCount,
+  fetchContentSearch,
+} from '@/components/content/ContentSearch';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
 import {
   Dialog,
   DialogContent,
@@ -13,22 +23,49 @@ import {
 } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { apiRequest, queryClient } from '@/lib/queryClient';
-import { useQuery } from '@tanstack/react-query';
-import { Loader2 } from 'lucide-react';
+import { UploadSessionInfo } from '@/lib/chunked-upload';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { Loader2, Search, Trash2 } from 'lucide-react';
+import { TrashList } from '@/components/content/TrashList';
+
+const UPLOADS_PAGE_SIZE = 12;
+
+// Review states a client can narrow their uploads to
+const statusFilters: ContentStatus[] = ['pending', 'changes_requested', 'approved', 'rejected'];
 
 export default function ContentUpload() {
   const [showUploader, setShowUploader] = useState(false);
   const [viewingContent, setViewingContent] = useState<ContentItem | null>(null);
   const [contentToDelete, setContentToDelete] = useState<ContentItem | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [contentToReplace, setContentToReplace] = useState<ContentItem | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedStatus, setSelectedStatus] = useState<ContentStatus | null>(null);
+  const [page, setPage] = useState(1);
+  const previewVideoRef = useRef<HTMLVideoElement>(null);
   const { toast } = useToast();
+  const debouncedSearchTerm = useDebouncedValue(searchTerm.trim());
+
+  // Back to the first page whenever the search changes
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearchTerm, selectedStatus]);
+
+  const searchParams: ContentSearchParams = {
+    q: debouncedSearchTerm,
+    status: selectedStatus ?? undefined,
+    sort: debouncedSearchTerm ? 'relevance' : 'newest',
+    page,
+    pageSize: UPLOADS_PAGE_SIZE,
+  };
+  const isFiltered = !!debouncedSearchTerm || !!selectedStatus;
 
-  // Fetch user's uploaded content using React Query
-  const { data: userContent, isLoading, isError, error } = useQuery({
-    queryKey: ['/api/content'],
+  // Search the user's uploaded content, newest first until they type something
+  const { data: search, isLoading, isError, error } = useQuery({
+    queryKey: contentSearchQueryKey(searchParams),
     queryFn: async () => {
-      const response = await apiRequest('GET', '/api/content');
-      const data = await response.json();
-      return data.map((item: any) => ({
+      const data = await fetchContentSearch<any>(searchParams);
+      const items: ContentItem[] = data.items.map((item: any) => ({
         id: item.id.toString(),
         title: item.title,
         description: item.description || '',
@@ -36,12 +73,32 @@ export default function ContentUpload() {
         uploadedAt: new Date(item.uploadDate),
         scheduledDate: item.scheduledDate ? new Date(item.scheduledDate) : undefined,
         thumbnailUrl: item.thumbnailUrl || '/placeholder-image.png', // Fallback image
+        previewUrl: item.previewUrl,
         fileType: item.fileType,
+        version: item.version,
         url: item.url
       }));
+      return { ...data, items };
+    },
+    placeholderData: keepPreviousData,
+  });
+  const userContent = search?.items;
+
+  // Reopen the uploader after a reload if uploads were left unfinished
+  const { data: unfinishedUploads } = useQuery<UploadSessionInfo[]>({
+    queryKey: ['/api/content/uploads'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/content/uploads');
+      return response.json();
     },
   });
 
+  useEffect(() => {
+    if (unfinishedUploads && unfinishedUploads.length > 0) {
+      setShowUploader(true);
+    }
+  }, [unfinishedUploads]);
+
   // Handler for content deletion
   const handleDeleteContent = async () => {
     if (!contentToDelete) return;
@@ -52,10 +109,11 @@ export default function ContentUpload() {
       
       // Invalidate the content query to refresh the data
       queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/usage'] });
       
       toast({
-        title: "Content deleted",
-        description: "The content has been successfully deleted.",
+        title: "Moved to trash",
+        description: "You can restore it from the trash until it's deleted permanently.",
       });
       
       // Close the dialog
@@ -76,6 +134,16 @@ export default function ContentUpload() {
     setShowUploader(false);
   };
 
+  // A new version replaces the reviewed item, so close its dialogs and refresh
+  const onNewVersionUploaded = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/content'] });
+    setContentToReplace(null);
+    setViewingContent(null);
+  };
+
+  const canUploadNewVersion = (content: ContentItem) =>
+    content.status === 'changes_requested' || content.status === 'rejected';
+
   return (
     <div>
       <div className="mb-6 flex items-center justify-between">
@@ -83,9 +151,15 @@ export default function ContentUpload() {
           <h1 className="text-2xl font-semibold text-white">Content Upload</h1>
           <p className="text-gray-400 mt-1">Upload and manage your content for review.</p>
         </div>
-        <Button onClick={() => setShowUploader(!showUploader)}>
-          {showUploader ? 'Hide Upload Form' : '+ New Upload'}
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowTrash(true)}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Trash
+          </Button>
+          <Button onClick={() => setShowUploader(!showUploader)}>
+            {showUploader ? 'Hide Upload Form' : '+ New Upload'}
+          </Button>
+        </div>
       </div>
 
       {/* Content Upload Form (togglable) */}
@@ -93,7 +167,42 @@ export default function ContentUpload() {
 
       {/* Uploaded Content */}
       <div className="bg-background-card rounded-xl shadow-md p-6">
-        <h2 className="text-xl font-semibold text-white mb-6">Recent Uploads</h2>
+        <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <h2 className="text-xl font-semibold text-white">Recent Uploads</h2>
+          <div className="relative md:w-72">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-400" />
+            <Input
+              type="search"
+              placeholder="Search your uploads..."
+              className="pl-8"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {/* Review status filter with the number of matching uploads */}
+        {search && (
+          <div className="mb-6 flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              variant={selectedStatus ? 'outline' : 'default'}
+              onClick={() => setSelectedStatus(null)}
+            >
+              All
+            </Button>
+            {statusFilters.map((status) => (
+              <Button
+                key={status}
+                size="sm"
+                variant={selectedStatus === status ? 'default' : 'outline'}
+                onClick={() => setSelectedStatus(selectedStatus === status ? null : status)}
+              >
+                {contentStatusLabels[status]} ({facetCount(search.facets.status, status)})
+              </Button>
+            ))}
+          </div>
+        )}
         
         {isLoading ? (
           <div className="flex justify-center items-center p-10">
@@ -128,6 +237,10 @@ export default function ContentUpload() {
               />
             ))}
           </div>
+        ) : isFiltered ? (
+          <div className="text-center p-10 border border-dashed border-gray-700 rounded-lg">
+            <p className="text-gray-400">No uploads match your search.</p>
+          </div>
         ) : (
           <div className="text-center p-10 border border-dashed border-gray-700 rounded-lg">
             <p className="text-gray-400 mb-4">You haven't uploaded any content yet.</p>
@@ -135,31 +248,60 @@ export default function ContentUpload() {
           </div>
         )}
         
-        {userContent && userContent.length > 0 && (
-          <div className="mt-6 text-center">
-            <Button variant="link" className="text-primary">
-              View All Uploads
-            </Button>
-          </div>
+        {search && (
+          <SearchPagination
+            className="mt-6 text-gray-400"
+            page={search.page}
+            pageSize={search.pageSize}
+            total={search.total}
+            onPageChange={setPage}
+          />
         )}
       </div>
 
       {/* Content Viewing Dialog */}
       <Dialog open={!!viewingContent} onOpenChange={(open) => !open && setViewingContent(null)}>
         {viewingContent && (
-          <DialogContent className="sm:max-w-3xl">
+          <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-auto">
             <DialogHeader>
               <DialogTitle>{viewingContent.title}</DialogTitle>
               <DialogDescription>{viewingContent.description}</DialogDescription>
             </DialogHeader>
             <div className="py-4">
-              <img 
-                src={viewingContent.thumbnailUrl} 
-                alt={viewingContent.title} 
-                className="w-full h-auto rounded-lg"
-              />
+              {viewingContent.fileType === 'video' && viewingContent.url ? (
+                // Review comments point at frames of the original, so play it rather than the short preview clip
+                <video
+                  ref={previewVideoRef}
+                  src={viewingContent.url}
+                  poster={viewingContent.thumbnailUrl}
+                  controls
+                  preload="metadata"
+                  className="w-full h-auto rounded-lg"
+                />
+              ) : (
+                <img 
+                  src={viewingContent.previewUrl || viewingContent.thumbnailUrl} 
+                  alt={viewingContent.title} 
+                  className="w-full h-auto rounded-lg"
+                />
+              )}
             </div>
+            <ContentReviewPanel
+              mediaFileId={parseInt(viewingContent.id)}
+              getCurrentTime={viewingContent.fileType === 'video' ? () => previewVideoRef.current?.currentTime ?? null : undefined}
+              onSeek={(seconds) => {
+                if (previewVideoRef.current) {
+                  previewVideoRef.current.currentTime = seconds;
+                  previewVideoRef.current.pause();
+                }
+              }}
+            />
             <DialogFooter>
+              {canUploadNewVersion(viewingContent) && (
+                <Button className="mr-auto" onClick={() => setContentToReplace(viewingContent)}>
+                  Upload New Version
+                </Button>
+              )}
               <Button variant="outline" onClick={() => setViewingContent(null)}>
                 Close
               </Button>
@@ -168,14 +310,45 @@ export default function ContentUpload() {
         )}
       </Dialog>
 
+      {/* New Version Dialog */}
+      <Dialog open={!!contentToReplace} onOpenChange={(open) => !open && setContentToReplace(null)}>
+        {contentToReplace && (
+          <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-auto">
+            <DialogHeader>
+              <DialogTitle>Upload a new version</DialogTitle>
+              <DialogDescription>
+                The new file replaces "{contentToReplace.title}" and goes back to your manager for review.
+              </DialogDescription>
+            </DialogHeader>
+            <ContentUploader
+              replacesMediaId={parseInt(contentToReplace.id)}
+              onUploadSuccess={onNewVersionUploaded}
+            />
+          </DialogContent>
+        )}
+      </Dialog>
+
+      {/* Trash Dialog */}
+      <Dialog open={showTrash} onOpenChange={setShowTrash}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-auto">
+          <DialogHeader>
+            <DialogTitle>Trash</DialogTitle>
+            <DialogDescription>
+              Deleted content is kept here before it's deleted permanently.
+            </DialogDescription>
+          </DialogHeader>
+          {showTrash && <TrashList />}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!contentToDelete} onOpenChange={(open) => !open && setContentToDelete(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogTitle>Move to trash?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the content
-              from your account.
+              The content is removed from your uploads and cancelled on the calendar. It can be
+              restored from the trash for 30 days before it's deleted permanently.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
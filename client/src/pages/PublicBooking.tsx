@@ -0,0 +1,567 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addDays, format, startOfDay } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { SlotAvailability, formatClientTime } from "@/lib/appointment-slots";
+import {
+  BookingChallenge,
+  PublicBookingPage,
+  SERVICE_LABELS,
+  getPublicBookingError,
+} from "@/lib/public-booking";
+import { CalendarCheck, CheckCircle, DollarSign, Loader2, MapPin, ShieldCheck } from "lucide-react";
+
+const durationOptions = [60, 90, 120, 180, 240];
+
+const requestSchema = z.object({
+  service: z.string().optional(),
+  date: z.string().min(1, { message: "Pick a date" }),
+  time: z.string().min(1, { message: "Pick a time" }),
+  duration: z.string(),
+  location: z.string().optional(),
+  offeredRate: z.string().optional(),
+  bookerName: z.string().min(1, { message: "Enter your name" }),
+  bookerEmail: z.string().email({ message: "Enter a valid email" }),
+  bookerPhone: z.string().optional(),
+  bookerReferences: z.string().optional(),
+  message: z.string().max(2000).optional(),
+  answers: z.record(z.union([z.string(), z.boolean()])),
+  challengeAnswer: z.string().regex(/^\d+$/, { message: "Answer with a number" }),
+  website: z.string().optional(),
+});
+
+type RequestValues = z.infer<typeof requestSchema>;
+
+// The picked "yyyy-MM-dd" day at the picked "HH:mm", in the visitor's own timezone
+function toRequestedDate(date: string, time: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+}
+
+export default function PublicBooking() {
+  const { slug } = useParams<{ slug: string }>();
+  const { toast } = useToast();
+  const [submitted, setSubmitted] = useState(false);
+
+  const { data: page, isLoading, error } = useQuery<PublicBookingPage>({
+    queryKey: [`/api/public/booking/${slug}`],
+  });
+
+  // A new check is fetched after every attempt, each one can only be answered once
+  const { data: challenge, refetch: refetchChallenge } = useQuery<BookingChallenge>({
+    queryKey: [`/api/public/booking/${slug}/challenge`],
+    enabled: !!page,
+  });
+
+  const form = useForm<RequestValues>({
+    resolver: zodResolver(requestSchema),
+    defaultValues: {
+      service: "",
+      date: "",
+      time: "",
+      duration: "60",
+      location: "",
+      offeredRate: "",
+      bookerName: "",
+      bookerEmail: "",
+      bookerPhone: "",
+      bookerReferences: "",
+      message: "",
+      answers: {},
+      challengeAnswer: "",
+      website: "",
+    },
+  });
+
+  // Open times on the picked day, from the creator's availability and bookings
+  const [date, duration] = form.watch(["date", "duration"]);
+  const { data: availability, isFetching: isLoadingSlots } = useQuery<SlotAvailability>({
+    queryKey: [`/api/public/booking/${slug}/slots`, date, duration],
+    queryFn: async () => {
+      const from = startOfDay(toRequestedDate(date, "00:00"));
+      const query = new URLSearchParams({
+        from: from.toISOString(),
+        to: addDays(from, 1).toISOString(),
+        duration,
+      });
+      const res = await apiRequest("GET", `/api/public/booking/${slug}/slots?${query}`);
+      return res.json();
+    },
+    enabled: !!page && !!date,
+  });
+  const openSlots = availability?.hasSchedule ? availability.slots : null;
+
+  const requestMutation = useMutation({
+    mutationFn: async (values: RequestValues) => {
+      const res = await apiRequest("POST", `/api/public/booking/${slug}/requests`, {
+        service: values.service || undefined,
+        requestedDate: toRequestedDate(values.date, values.time).toISOString(),
+        duration: Number(values.duration),
+        location: values.location || undefined,
+        offeredRate: values.offeredRate || undefined,
+        bookerName: values.bookerName,
+        bookerEmail: values.bookerEmail,
+        bookerPhone: values.bookerPhone || undefined,
+        bookerReferences: values.bookerReferences || undefined,
+        message: values.message || undefined,
+        answers: values.answers,
+        challengeToken: challenge?.token,
+        challengeAnswer: Number(values.challengeAnswer),
+        website: values.website || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      setSubmitted(true);
+    },
+    onError: (error: Error) => {
+      const { message } = getPublicBookingError(error);
+      form.setValue("challengeAnswer", "");
+      refetchChallenge();
+      toast({
+        title: "Your request wasn't sent",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !page) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background px-4">
+        <Card className="w-full max-w-md bg-background-card border-background-lighter">
+          <CardHeader>
+            <CardTitle>Booking page not found</CardTitle>
+            <CardDescription>This booking page doesn't exist or isn't taking requests right now.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (submitted) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background px-4">
+        <Card className="w-full max-w-md bg-background-card border-background-lighter">
+          <CardHeader className="text-center">
+            <CheckCircle className="h-10 w-10 mx-auto mb-2 text-green-400" />
+            <CardTitle>Request sent</CardTitle>
+            <CardDescription>
+              Your request will be reviewed and you'll hear back by email if it can go ahead.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const requirementLabels: Record<string, string> = { phone: "phone number", references: "references" };
+  const required = page.requirements.filter((requirement) => requirementLabels[requirement]);
+
+  return (
+    <div className="min-h-screen bg-background px-4 py-10">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-white">Book {page.slug}</h1>
+          <p className="text-gray-400 mt-1">Send a booking request, it's reviewed before anything is confirmed</p>
+        </div>
+
+        <Card className="bg-background-card border-background-lighter">
+          <CardContent className="pt-6 grid gap-4 sm:grid-cols-3 text-sm">
+            {page.geographicAvailability && (
+              <div className="flex items-start space-x-2">
+                <MapPin className="h-4 w-4 mt-0.5 text-primary" />
+                <span className="text-white">{page.geographicAvailability}</span>
+              </div>
+            )}
+            {page.minimumRate && (
+              <div className="flex items-start space-x-2">
+                <DollarSign className="h-4 w-4 mt-0.5 text-primary" />
+                <span className="text-white">From {page.minimumRate}</span>
+              </div>
+            )}
+            {page.services.length > 0 && (
+              <div className="flex items-start space-x-2">
+                <CalendarCheck className="h-4 w-4 mt-0.5 text-primary" />
+                <span className="text-white">{page.services.map((service) => SERVICE_LABELS[service] ?? service).join(", ")}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-background-card border-background-lighter">
+          <CardHeader>
+            <CardTitle>Booking Request</CardTitle>
+            <CardDescription>Times are shown in your timezone</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((values) => requestMutation.mutate(values))} className="space-y-6">
+                {page.services.length > 0 && (
+                  <FormField
+                    control={form.control}
+                    name="service"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Service</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Choose a service" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {page.services.map((service) => (
+                              <SelectItem key={service} value={service}>
+                                {SERVICE_LABELS[service] ?? service}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <FormField
+                    control={form.control}
+                    name="date"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Date</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="date"
+                            min={format(new Date(), "yyyy-MM-dd")}
+                            {...field}
+                            onChange={(e) => {
+                              field.onChange(e);
+                              form.setValue("time", "");
+                            }}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="duration"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Length</FormLabel>
+                        <Select
+                          onValueChange={(value) => {
+                            field.onChange(value);
+                            form.setValue("time", "");
+                          }}
+                          value={field.value}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {durationOptions.map((minutes) => (
+                              <SelectItem key={minutes} value={String(minutes)}>
+                                {minutes < 120 ? `${minutes} minutes` : `${minutes / 60} hours`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="time"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Time</FormLabel>
+                        {openSlots && availability ? (
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder={isLoadingSlots ? "Finding open times..." : "Choose a time"} />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {openSlots.length > 0 ? (
+                                openSlots.map((slot) => (
+                                  <SelectItem key={slot.start} value={format(new Date(slot.start), "HH:mm")}>
+                                    {format(new Date(slot.start), "h:mm a")}
+                                  </SelectItem>
+                                ))
+                              ) : (
+                                <div className="p-2 text-sm text-muted-foreground">No open times on this date</div>
+                              )}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <FormControl>
+                            <Input type="time" disabled={!date} {...field} />
+                          </FormControl>
+                        )}
+                        {availability && field.value && date && (
+                          <FormDescription>
+                            {formatClientTime(toRequestedDate(date, field.value), availability.timezone)} their time
+                          </FormDescription>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="location"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Location</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Hotel, neighborhood or city" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="offeredRate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Your offer</FormLabel>
+                        <FormControl>
+                          <Input placeholder={page.minimumRate ?? ""} {...field} />
+                        </FormControl>
+                        {page.minimumRate && <FormDescription>At least {page.minimumRate}</FormDescription>}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <Separator className="bg-background-lighter" />
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="bookerName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Full name</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="bookerEmail"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input type="email" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="bookerPhone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Phone</FormLabel>
+                        <FormControl>
+                          <Input type="tel" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="bookerReferences"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>References</FormLabel>
+                      <FormControl>
+                        <Textarea rows={2} placeholder="Other providers who can vouch for you" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {required.length > 0 && (
+                  <p className="text-sm text-gray-400">
+                    Requests without your {required.map((requirement) => requirementLabels[requirement]).join(" and ")} take
+                    longer to review.
+                  </p>
+                )}
+                <FormField
+                  control={form.control}
+                  name="message"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Anything else</FormLabel>
+                      <FormControl>
+                        <Textarea rows={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Separator className="bg-background-lighter" />
+
+                {/* Screening questionnaire */}
+                <div className="space-y-4">
+                  <div className="flex items-center space-x-3">
+                    <ShieldCheck className="h-5 w-5 text-primary" />
+                    <h3 className="text-lg font-medium text-white">Screening</h3>
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="answers"
+                    render={({ field }) => (
+                      <div className="space-y-4">
+                        {page.questions.map((question) => (
+                          <FormItem key={question.id}>
+                            {question.type === "confirm" ? (
+                              <div className="flex items-center space-x-3">
+                                <FormControl>
+                                  <Checkbox
+                                    checked={field.value[question.id] === true}
+                                    onCheckedChange={(checked) => field.onChange({ ...field.value, [question.id]: checked === true })}
+                                  />
+                                </FormControl>
+                                <FormLabel className="font-normal text-white">{question.label}</FormLabel>
+                              </div>
+                            ) : question.type === "choice" ? (
+                              <>
+                                <FormLabel className="text-white">{question.label}</FormLabel>
+                                <FormControl>
+                                  <RadioGroup
+                                    className="flex space-x-4"
+                                    value={(field.value[question.id] as string) ?? ""}
+                                    onValueChange={(value) => field.onChange({ ...field.value, [question.id]: value })}
+                                  >
+                                    {question.options?.map((option) => (
+                                      <div key={option} className="flex items-center space-x-2">
+                                        <RadioGroupItem value={option} id={`${question.id}-${option}`} />
+                                        <label htmlFor={`${question.id}-${option}`} className="text-sm text-white">{option}</label>
+                                      </div>
+                                    ))}
+                                  </RadioGroup>
+                                </FormControl>
+                              </>
+                            ) : (
+                              <>
+                                <FormLabel className="text-white">
+                                  {question.label}{!question.required && " (optional)"}
+                                </FormLabel>
+                                <FormControl>
+                                  <Input
+                                    value={(field.value[question.id] as string) ?? ""}
+                                    onChange={(e) => field.onChange({ ...field.value, [question.id]: e.target.value })}
+                                  />
+                                </FormControl>
+                              </>
+                            )}
+                          </FormItem>
+                        ))}
+                      </div>
+                    )}
+                  />
+                </div>
+
+                {/* Hidden from people, only bots fill it in */}
+                <FormField
+                  control={form.control}
+                  name="website"
+                  render={({ field }) => (
+                    <input type="text" tabIndex={-1} autoComplete="off" aria-hidden="true" className="hidden" {...field} />
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="challengeAnswer"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{challenge?.question ?? "Loading a quick check..."}</FormLabel>
+                      <FormControl>
+                        <Input inputMode="numeric" className="max-w-[120px]" {...field} />
+                      </FormControl>
+                      <FormDescription>A quick check that you're a person</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" className="w-full" disabled={requestMutation.isPending || !challenge}>
+                  {requestMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Send Request
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -30,14 +30,16 @@ import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
+import { getPublicBookingError } from "@/lib/public-booking";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { CalendarCheck, Clock, DollarSign, MapPin, ShieldCheck, Users } from "lucide-react";
+import { CalendarCheck, Clock, DollarSign, Globe, MapPin, ShieldCheck, Users } from "lucide-react";
 
 // Define Rent.Men concierge schema
 const rentMenSchema = z.object({
   geographicAvailability: z.string().min(1, { message: "Please enter your geographic availability" }),
   minimumRate: z.string().min(1, { message: "Please enter your minimum rate" }),
   clientScreeningPreferences: z.string().min(1, { message: "Please describe your screening preferences" }),
+  screeningRequirements: z.array(z.string()),
   servicesOffered: z.array(z.string()).min(1, { message: "Select at least one service" }),
   approvalProcess: z.enum(["auto", "manual"], { required_error: "Please select an approval process" }),
   bookingSummaryPreferences: z.array(z.string()).min(1, { message: "Select at least one booking summary preference" }),
@@ -47,8 +49,14 @@ const rentMenSchema = z.object({
     endTime: z.string().optional(),
     available: z.boolean().default(false),
   })),
+  bufferMinutes: z.coerce.number().int().min(0, { message: "Buffer can't be negative" }).max(240, { message: "Buffer can be at most 240 minutes" }),
+  reminderMinutes: z.array(z.number().int().positive()),
   receiveBookingAlerts: z.boolean().default(true),
   showOnlyVerifiedClients: z.boolean().default(true),
+  publicBookingEnabled: z.boolean().default(false),
+  publicBookingSlug: z.string().regex(/^([a-z0-9][a-z0-9-]{2,39})?$/, {
+    message: "Use 3 to 40 lowercase letters, numbers and dashes",
+  }),
 });
 
 type RentMenValues = z.infer<typeof rentMenSchema>;
@@ -77,6 +85,7 @@ export default function RentMen() {
       geographicAvailability: "",
       minimumRate: "",
       clientScreeningPreferences: "",
+      screeningRequirements: [],
       servicesOffered: [],
       approvalProcess: "manual",
       bookingSummaryPreferences: [],
@@ -89,8 +98,12 @@ export default function RentMen() {
         { day: "Saturday", available: false },
         { day: "Sunday", available: false },
       ],
+      bufferMinutes: 30,
+      reminderMinutes: [1440, 120],
       receiveBookingAlerts: true,
       showOnlyVerifiedClients: true,
+      publicBookingEnabled: false,
+      publicBookingSlug: "",
     },
   });
 
@@ -104,6 +117,14 @@ export default function RentMen() {
     { id: "custom", label: "Custom Experience" },
   ];
 
+  // Booker details a booking has to come with to pass screening
+  const screeningRequirementOptions = [
+    { id: "name", label: "Full name" },
+    { id: "email", label: "Email address" },
+    { id: "phone", label: "Phone number" },
+    { id: "references", label: "Provider references" },
+  ];
+
   // Booking summary preferences options
   const bookingSummaryOptions = [
     { id: "photos", label: "Client photos" },
@@ -113,6 +134,15 @@ export default function RentMen() {
     { id: "history", label: "Booking history" },
   ];
 
+  // Automatic reminder options, in minutes before the appointment
+  const reminderOptions = [
+    { minutes: 7 * 24 * 60, label: "1 week before" },
+    { minutes: 2 * 24 * 60, label: "2 days before" },
+    { minutes: 24 * 60, label: "24 hours before" },
+    { minutes: 2 * 60, label: "2 hours before" },
+    { minutes: 30, label: "30 minutes before" },
+  ];
+
   // Fetch Rent.Men profile data
   const { data: profileData, isLoading } = useQuery({
     queryKey: ["/api/rent-men/profile"],
@@ -131,10 +161,12 @@ export default function RentMen() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/rent-men/profile"] });
     },
-    onError: () => {
+    onError: (error: Error) => {
+      // A booking page address that's taken or invalid is worth saying, anything else isn't
+      const { status, message } = getPublicBookingError(error);
       toast({
         title: "Update failed",
-        description: "There was a problem updating your profile.",
+        description: status === 400 || status === 409 ? message : "There was a problem updating your profile.",
         variant: "destructive",
       });
     },
@@ -419,6 +451,22 @@ export default function RentMen() {
                         />
                       ))}
                     </div>
+                    <FormField
+                      control={form.control}
+                      name="bufferMinutes"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-white">Buffer between bookings (minutes)</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={0} max={240} className="w-32 bg-background-lighter" {...field} />
+                          </FormControl>
+                          <FormDescription className="text-gray-400">
+                            Time kept free before and after each appointment. Times are in the timezone on your profile.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   </div>
 
                   <Separator className="bg-background-lighter" />
@@ -450,6 +498,47 @@ export default function RentMen() {
                       )}
                     />
 
+                    <FormField
+                      control={form.control}
+                      name="screeningRequirements"
+                      render={() => (
+                        <FormItem>
+                          <FormLabel>Required Booker Details</FormLabel>
+                          <FormDescription>
+                            Bookings without these details, below your minimum rate, or from someone who didn't show up
+                            before are held for your review
+                          </FormDescription>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+                            {screeningRequirementOptions.map((option) => (
+                              <FormField
+                                key={option.id}
+                                control={form.control}
+                                name="screeningRequirements"
+                                render={({ field }) => (
+                                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 bg-background-lighter p-4 rounded-md">
+                                    <FormControl>
+                                      <Checkbox
+                                        checked={field.value?.includes(option.id)}
+                                        onCheckedChange={(checked) => {
+                                          return checked
+                                            ? field.onChange([...field.value, option.id])
+                                            : field.onChange(field.value?.filter((value) => value !== option.id));
+                                        }}
+                                      />
+                                    </FormControl>
+                                    <FormLabel className="font-normal text-white">
+                                      {option.label}
+                                    </FormLabel>
+                                  </FormItem>
+                                )}
+                              />
+                            ))}
+                          </div>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
                     <FormField
                       control={form.control}
                       name="showOnlyVerifiedClients"
@@ -458,7 +547,7 @@ export default function RentMen() {
                           <div className="space-y-0.5">
                             <FormLabel className="text-white">Verified Clients Only</FormLabel>
                             <FormDescription>
-                              Only show booking requests from verified clients
+                              Hold bookings for review unless the booker's ID has been verified
                             </FormDescription>
                           </div>
                           <FormControl>
@@ -497,7 +586,7 @@ export default function RentMen() {
                                   <RadioGroupItem value="auto" />
                                 </FormControl>
                                 <FormLabel className="font-normal text-white">
-                                  Auto-confirm bookings that meet my criteria
+                                  Auto-confirm bookings that meet my screening criteria
                                 </FormLabel>
                               </FormItem>
                               <FormItem className="flex items-center space-x-3 space-y-0 bg-background-lighter p-4 rounded-md">
@@ -564,6 +653,46 @@ export default function RentMen() {
                       )}
                     />
 
+                    <FormField
+                      control={form.control}
+                      name="reminderMinutes"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-white">Appointment Reminders</FormLabel>
+                          <FormDescription>
+                            Sent automatically before approved appointments over your preferred contact method
+                          </FormDescription>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+                            {reminderOptions.map((option) => (
+                              <FormItem
+                                key={option.minutes}
+                                className="flex flex-row items-start space-x-3 space-y-0 bg-background-lighter p-4 rounded-md"
+                              >
+                                <FormControl>
+                                  <Checkbox
+                                    checked={field.value?.includes(option.minutes)}
+                                    onCheckedChange={(checked) => {
+                                      return checked
+                                        ? field.onChange([...field.value, option.minutes])
+                                        : field.onChange(
+                                            field.value?.filter(
+                                              (value) => value !== option.minutes
+                                            )
+                                          );
+                                    }}
+                                  />
+                                </FormControl>
+                                <FormLabel className="font-normal text-white">
+                                  {option.label}
+                                </FormLabel>
+                              </FormItem>
+                            ))}
+                          </div>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
                     <FormField
                       control={form.control}
                       name="receiveBookingAlerts"
@@ -585,6 +714,56 @@ export default function RentMen() {
                       )}
                     />
                   </div>
+
+                  <Separator className="bg-background-lighter" />
+
+                  {/* Public Booking Page */}
+                  <div className="space-y-4">
+                    <div className="flex items-center space-x-3">
+                      <Globe className="h-5 w-5 text-primary" />
+                      <h3 className="text-lg font-medium text-white">Public Booking Page</h3>
+                    </div>
+                    <FormField
+                      control={form.control}
+                      name="publicBookingEnabled"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between p-4 bg-background-lighter rounded-md">
+                          <div className="space-y-0.5">
+                            <FormLabel className="text-white">Take Booking Requests</FormLabel>
+                            <FormDescription>
+                              Anyone with the link can request a booking. It shows your services, minimum rate, area and open
+                              times, never your name, and every request is screened by your manager before it reaches you.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    {form.watch("publicBookingEnabled") && (
+                      <FormField
+                        control={form.control}
+                        name="publicBookingSlug"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Page Address</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Your username" className="bg-background-lighter" {...field} />
+                            </FormControl>
+                            <FormDescription>
+                              {window.location.origin}/book/{field.value || "your-username"}
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
                 </form>
               </Form>
             </CardContent>
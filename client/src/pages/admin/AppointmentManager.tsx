@@ -19,6 +19,7 @@ import {
 } from "@/components/ui/card";
 import { AppointmentWidget } from "@/components/admin/AppointmentWidget";
 import { AppointmentCard } from "@/components/admin/AppointmentCard";
+import { CalendarFeedDialog } from "@/components/appointments/CalendarFeedDialog";
 import { Calendar, Plus, SearchIcon, Loader2 } from "lucide-react";
 import {
   Pagination,
@@ -77,7 +78,7 @@ export default function AppointmentManager() {
 
   // Group appointments by status
   const groupedAppointments = {
-    pending: filteredAppointments.filter((a: any) => a.status === "pending"),
+    pending: filteredAppointments.filter((a: any) => ["pending", "countered", "rescheduled"].includes(a.status)),
     approved: filteredAppointments.filter((a: any) => a.status === "approved"),
     completed: filteredAppointments.filter((a: any) => a.status === "completed"),
     declined: filteredAppointments.filter((a: any) => a.status === "declined"),
@@ -99,13 +100,16 @@ export default function AppointmentManager() {
             Create and manage appointment proposals for clients
           </p>
         </div>
-        <Button
-          className="flex items-center gap-2"
-          onClick={() => setIsAppointmentWidgetOpen(true)}
-        >
-          <Plus className="h-4 w-4" />
-          New Appointment
-        </Button>
+        <div className="flex items-center gap-2">
+          <CalendarFeedDialog />
+          <Button
+            className="flex items-center gap-2"
+            onClick={() => setIsAppointmentWidgetOpen(true)}
+          >
+            <Plus className="h-4 w-4" />
+            New Appointment
+          </Button>
+        </div>
       </div>
 
       <div className="flex flex-col md:flex-row gap-4 mb-8">
@@ -135,8 +139,11 @@ export default function AppointmentManager() {
             <SelectContent>
               <SelectItem value="all">All Appointments</SelectItem>
               <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="countered">Counter-Proposal</SelectItem>
               <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="rescheduled">Reschedule Requested</SelectItem>
               <SelectItem value="completed">Completed</SelectItem>
+              <SelectItem value="no_show">No-show</SelectItem>
               <SelectItem value="declined">Declined</SelectItem>
               <SelectItem value="cancelled">Cancelled</SelectItem>
             </SelectContent>
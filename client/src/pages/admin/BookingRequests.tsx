@@ -0,0 +1,294 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { AppointmentWidget, BookingRequestPrefill } from '@/components/admin/AppointmentWidget';
+import { Ban, CalendarPlus, Inbox, Loader2, RotateCcw, XCircle } from 'lucide-react';
+
+type BookingRequestStatus = 'new' | 'proposed' | 'rejected' | 'spam';
+
+interface ScreeningQuestion {
+  id: string;
+  label: string;
+  type: 'confirm' | 'choice' | 'text';
+}
+
+// As returned by /api/admin/booking-requests
+interface BookingRequestInfo extends BookingRequestPrefill {
+  status: BookingRequestStatus;
+  screeningAnswers: Record<string, string | boolean> | null;
+  appointmentId: number | null;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  creator: { id: number; username: string; fullName: string } | null;
+  bookingPageSlug: string | null;
+  notes: string[];
+}
+
+interface BookingRequestList {
+  requests: BookingRequestInfo[];
+  counts: Record<BookingRequestStatus, number>;
+  questions: ScreeningQuestion[];
+}
+
+const statusLabels: Record<BookingRequestStatus, string> = {
+  new: 'New',
+  proposed: 'Proposed',
+  rejected: 'Rejected',
+  spam: 'Spam',
+};
+
+function formatAnswer(answer: string | boolean | undefined) {
+  if (answer === true) return 'Yes';
+  if (answer === false || answer === undefined || answer === '') return 'No answer';
+  return answer;
+}
+
+export default function BookingRequests() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<BookingRequestStatus>('new');
+  const [proposing, setProposing] = useState<BookingRequestInfo | undefined>();
+  const [triage, setTriage] = useState<{ request: BookingRequestInfo; status: 'rejected' | 'spam' } | null>(null);
+  const [note, setNote] = useState('');
+
+  const { data, isLoading } = useQuery<BookingRequestList>({
+    queryKey: [`/api/admin/booking-requests?status=${status}`],
+  });
+
+  const triageMutation = useMutation({
+    mutationFn: async ({ id, status, note }: { id: number; status: 'new' | 'rejected' | 'spam'; note?: string }) => {
+      const res = await apiRequest('PATCH', `/api/admin/booking-requests/${id}`, { status, note });
+      return res.json();
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/admin/booking-requests'),
+      });
+      toast({
+        title: updated.status === 'new' ? 'Back in the queue' : `Request marked as ${statusLabels[updated.status as BookingRequestStatus].toLowerCase()}`,
+      });
+      setTriage(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to update the request', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const openTriage = (request: BookingRequestInfo, triageStatus: 'rejected' | 'spam') => {
+    setNote('');
+    setTriage({ request, status: triageStatus });
+  };
+
+  const questionLabel = (id: string) => data?.questions.find((question) => question.id === id)?.label ?? id;
+
+  return (
+    <div className="container mx-auto py-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Booking Requests</h1>
+          <p className="text-muted-foreground">Requests sent through creators' public booking pages</p>
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as BookingRequestStatus)}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(statusLabels) as BookingRequestStatus[]).map((option) => (
+              <SelectItem key={option} value={option}>
+                {statusLabels[option]}{data ? ` (${data.counts[option] ?? 0})` : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : !data?.requests.length ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <Inbox className="h-10 w-10 mx-auto mb-3" />
+            <p>No {statusLabels[status].toLowerCase()} booking requests.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {data.requests.map((request) => (
+            <Card key={request.id}>
+              <CardHeader>
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-lg">
+                      {request.bookerName} for {request.creator?.fullName ?? 'an unknown creator'}
+                    </CardTitle>
+                    <CardDescription>
+                      Received {format(new Date(request.createdAt), 'PPp')}
+                      {request.bookingPageSlug && ` · /book/${request.bookingPageSlug}`}
+                    </CardDescription>
+                  </div>
+                  <Badge variant={request.status === 'new' ? 'default' : 'outline'}>{statusLabels[request.status]}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4 text-sm">
+                {request.notes.length > 0 && (
+                  <ul className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800 space-y-1 list-disc list-inside">
+                    {request.notes.map((reason) => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <p className="font-medium text-muted-foreground">Requested time</p>
+                    <p>{format(new Date(request.requestedDate), 'PPp')}</p>
+                  </div>
+                  <div>
+                    <p className="font-medium text-muted-foreground">Duration</p>
+                    <p>{request.duration} minutes</p>
+                  </div>
+                  <div>
+                    <p className="font-medium text-muted-foreground">Service</p>
+                    <p>{request.service || 'Not given'}</p>
+                  </div>
+                  <div>
+                    <p className="font-medium text-muted-foreground">Offered rate</p>
+                    <p>{request.offeredRate || 'Not given'}</p>
+                  </div>
+                  <div>
+                    <p className="font-medium text-muted-foreground">Location</p>
+                    <p>{request.location || 'Not given'}</p>
+                  </div>
+                  <div className="col-span-2">
+                    <p className="font-medium text-muted-foreground">Contact</p>
+                    <p>{[request.bookerEmail, request.bookerPhone].filter(Boolean).join(' · ')}</p>
+                  </div>
+                </div>
+
+                {request.bookerReferences && (
+                  <div>
+                    <p className="font-medium text-muted-foreground">References</p>
+                    <p className="whitespace-pre-wrap">{request.bookerReferences}</p>
+                  </div>
+                )}
+                {request.message && (
+                  <div>
+                    <p className="font-medium text-muted-foreground">Message</p>
+                    <p className="whitespace-pre-wrap">{request.message}</p>
+                  </div>
+                )}
+                {request.screeningAnswers && (
+                  <div>
+                    <p className="font-medium text-muted-foreground">Questionnaire</p>
+                    <ul className="space-y-1">
+                      {Object.entries(request.screeningAnswers).map(([id, answer]) => (
+                        <li key={id}>
+                          {questionLabel(id)}: <span className="font-medium">{formatAnswer(answer)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {request.reviewNote && (
+                  <p className="text-muted-foreground italic">Note: {request.reviewNote}</p>
+                )}
+                {request.status === 'proposed' && request.appointmentId && (
+                  <p className="text-muted-foreground">Appointment #{request.appointmentId} was proposed from this request.</p>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  {request.status === 'new' && (
+                    <>
+                      <Button size="sm" onClick={() => setProposing(request)}>
+                        <CalendarPlus className="mr-2 h-4 w-4" />
+                        Propose Appointment
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openTriage(request, 'rejected')}>
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Reject
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openTriage(request, 'spam')}>
+                        <Ban className="mr-2 h-4 w-4" />
+                        Mark as Spam
+                      </Button>
+                    </>
+                  )}
+                  {(request.status === 'rejected' || request.status === 'spam') && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => triageMutation.mutate({ id: request.id, status: 'new' })}
+                      disabled={triageMutation.isPending}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Back to Queue
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <AppointmentWidget
+        isOpen={!!proposing}
+        onClose={() => setProposing(undefined)}
+        bookingRequest={proposing}
+      />
+
+      <Dialog open={!!triage} onOpenChange={(open) => !open && setTriage(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{triage?.status === 'spam' ? 'Mark as Spam' : 'Reject Request'}</DialogTitle>
+            <DialogDescription>
+              The booker isn't told. {triage?.status === 'spam' && 'Later requests from the same email are flagged.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="triage-note">Note (optional)</Label>
+            <Textarea id="triage-note" rows={3} value={note} onChange={(e) => setNote(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTriage(null)} disabled={triageMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => triage && triageMutation.mutate({ id: triage.request.id, status: triage.status, note: note || undefined })}
+              disabled={triageMutation.isPending}
+            >
+              {triageMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {triage?.status === 'spam' ? 'Mark as Spam' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
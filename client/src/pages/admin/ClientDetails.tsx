@@ -13,7 +13,10 @@ import { ArrowLeft, UserCog, FileBadge, CreditCard, CheckCircle, XCircle } from
 import { Link } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { User, Profile, PlatformAccount } from "@shared/schema";
+import { User, Profile, PlatformAccount, DoNotSayOverride } from "@shared/schema";
+import WatermarkSettingsCard from "@/components/admin/WatermarkSettingsCard";
+import RetentionRulesCard from "@/components/admin/RetentionRulesCard";
+import { UsageMeter, UsageSummary } from "@/components/billing/UsageMeter";
 
 export default function ClientDetails() {
   const [, params] = useRoute("/admin/client-management/:id");
@@ -49,6 +52,22 @@ export default function ClientDetails() {
     enabled: !!clientId,
   });
 
+  // Fetch times managers sent text despite the do-not-say list
+  const {
+    data: doNotSayOverrides,
+  } = useQuery<(DoNotSayOverride & { adminName: string })[]>({
+    queryKey: [`/api/do-not-say/overrides?clientId=${clientId}`],
+    enabled: !!clientId,
+  });
+
+  // Fetch storage and upload usage against the client's plan
+  const {
+    data: usage,
+  } = useQuery<UsageSummary>({
+    queryKey: [`/api/admin/clients/${clientId}/usage`],
+    enabled: !!clientId,
+  });
+
   // Mutations
   const updateClientMutation = useMutation({
     mutationFn: async (clientData: Partial<User>) => {
@@ -247,6 +266,14 @@ export default function ClientDetails() {
                     {client.stripeCustomerId || "Not linked"}
                   </div>
                 </div>
+                <div className="space-y-2">
+                  <Label>Plan Usage</Label>
+                  {usage ? (
+                    <UsageMeter usage={usage} />
+                  ) : (
+                    <div className="text-sm text-muted-foreground">Loading usage...</div>
+                  )}
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -256,6 +283,9 @@ export default function ClientDetails() {
               <TabsTrigger value="profile" className="flex-1">Profile Details</TabsTrigger>
               <TabsTrigger value="platform-accounts" className="flex-1">Platform Accounts</TabsTrigger>
               <TabsTrigger value="documents" className="flex-1">Documents</TabsTrigger>
+              <TabsTrigger value="do-not-say" className="flex-1">Do-Not-Say Overrides</TabsTrigger>
+              <TabsTrigger value="watermark" className="flex-1">Watermark</TabsTrigger>
+              <TabsTrigger value="retention" className="flex-1">Retention</TabsTrigger>
             </TabsList>
 
             <TabsContent value="profile" className="mt-4">
@@ -367,6 +397,57 @@ export default function ClientDetails() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="do-not-say" className="mt-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Do-Not-Say Overrides</CardTitle>
+                  <CardDescription>
+                    Captions and messages sent despite the client's do-not-say list
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {!doNotSayOverrides || doNotSayOverrides.length === 0 ? (
+                    <div className="text-center text-muted-foreground py-4">
+                      No overrides recorded
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      {doNotSayOverrides.map((override) => (
+                        <div key={override.id} className="border p-4 rounded-lg space-y-2">
+                          <div className="flex justify-between items-center">
+                            <div className="flex items-center gap-2">
+                              <Badge variant="outline" className="capitalize">{override.context}</Badge>
+                              <span className="text-sm text-muted-foreground">
+                                by {override.adminName} on {new Date(override.createdAt).toLocaleString()}
+                              </span>
+                            </div>
+                            <div className="flex flex-wrap gap-1">
+                              {Array.from(new Set((override.violations as { term: string }[]).map(violation => violation.term))).map(term => (
+                                <Badge key={term} variant="destructive">{term}</Badge>
+                              ))}
+                            </div>
+                          </div>
+                          <div className="space-y-1">
+                            <Label>Reason</Label>
+                            <div className="font-medium">{override.reason}</div>
+                          </div>
+                          <div className="bg-muted p-3 rounded-md whitespace-pre-wrap text-sm">{override.text}</div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="watermark" className="mt-4">
+              <WatermarkSettingsCard clientId={clientId} />
+            </TabsContent>
+
+            <TabsContent value="retention" className="mt-4">
+              <RetentionRulesCard clientId={clientId} />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
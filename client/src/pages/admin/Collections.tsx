@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CollectionsBrowser } from '@/components/content/CollectionsBrowser';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface UserSummary {
+  id: number;
+  username: string;
+  fullName: string;
+  role: string;
+}
+
+export default function AdminCollections() {
+  const [selectedClient, setSelectedClient] = useState<string>('');
+
+  const { data: users = [] } = useQuery<UserSummary[]>({
+    queryKey: ['/api/admin/clients'],
+    staleTime: 300000, // 5 minutes
+  });
+
+  const clients = users.filter(user => user.role !== 'admin');
+
+  return (
+    <div className="container mx-auto py-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Collections</h1>
+          <p className="text-muted-foreground">Assemble drops and bundles from a client's vault</p>
+        </div>
+        <Select value={selectedClient} onValueChange={setSelectedClient}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="Choose a client" />
+          </SelectTrigger>
+          <SelectContent>
+            {clients.map(client => (
+              <SelectItem key={client.id} value={client.id.toString()}>
+                {client.fullName || client.username}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {selectedClient
+              ? clients.find(client => client.id.toString() === selectedClient)?.fullName
+              : 'No client selected'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {selectedClient ? (
+            <CollectionsBrowser clientId={parseInt(selectedClient)} />
+          ) : (
+            <p className="text-center text-muted-foreground py-12">Choose a client to see their collections.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ContentCalendar } from '@/components/content/ContentCalendar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface UserSummary {
+  id: number;
+  username: string;
+  fullName: string;
+  role: string;
+}
+
+export default function AdminContentCalendar() {
+  const [selectedClient, setSelectedClient] = useState<string>('all');
+
+  // Fetch all users for the client filter and the manager picker
+  const { data: users = [] } = useQuery<UserSummary[]>({
+    queryKey: ['/api/admin/clients'],
+    staleTime: 300000, // 5 minutes
+  });
+
+  const clients = users.filter(user => user.role !== 'admin');
+  const managers = users.filter(user => user.role === 'admin');
+
+  return (
+    <div className="container mx-auto py-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Content Calendar</h1>
+          <p className="text-muted-foreground">Scheduled posts across client platforms</p>
+        </div>
+        <Select value={selectedClient} onValueChange={setSelectedClient}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="Filter by client" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Clients</SelectItem>
+            {clients.map(client => (
+              <SelectItem key={client.id} value={client.id.toString()}>
+                {client.fullName || client.username}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {selectedClient === 'all'
+              ? 'All Clients'
+              : clients.find(client => client.id.toString() === selectedClient)?.fullName}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ContentCalendar
+            clientId={selectedClient === 'all' ? undefined : parseInt(selectedClient)}
+            managers={managers}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,10 +1,23 @@
-import { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useState, useEffect, useRef } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { ContentReviewPanel, ContentStatus, contentStatusLabels } from '@/components/content/ContentReviewPanel';
+import { PostingPlanEditor } from '@/components/content/PostingPlanEditor';
+import { DuplicateCompareDialog, DuplicateMatch, duplicateMatchLabels } from '@/components/content/DuplicateCompare';
+import {
+  ContentSearchParams,
+  SearchPagination,
+  contentSearchQueryKey,
+  facetCount,
+  fetchContentSearch,
+} from '@/components/content/ContentSearch';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { Textarea } from '@/components/ui/textarea';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
 import { 
   Image, FileText, Video, Package, Search,
-  User, Calendar, Filter, ExternalLink
+  User, Calendar, Filter, ExternalLink, CheckCircle, XCircle, MessageSquareWarning, Download
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -28,14 +41,34 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 
 interface MediaFile {
   id: number;
   title: string;
   description: string | null;
   fileType: string;
-  storagePath: string;
-  thumbnailPath: string | null;
+  url: string;
+  thumbnailUrl: string | null;
+  previewUrl: string | null;
+  originalUrl: string | null; // upload as received, before its metadata was removed
+  metadataScrubbed: boolean;
+  processingStatus: 'pending' | 'processing' | 'ready' | 'failed';
+  status: ContentStatus;
+  version: number;
+  parentMediaId: number | null;
+  duplicateOfId: number | null;
+  duplicateMatch: DuplicateMatch | null;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  codec: string | null;
   scheduledDate: string | null;
   tags: string[] | null;
   userId: number;
@@ -47,22 +80,73 @@ interface MediaFile {
   createdAt: string;
 }
 
+const SEARCH_PAGE_SIZE = 48;
+
+// Start of a day picked in a date input, in the browser's time zone
+const startOfDay = (date: string, addDays = 0) => {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + addDays);
+  return day.toISOString();
+};
+
 export default function ContentViewer() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedClient, setSelectedClient] = useState<string>('all');
   const [selectedType, setSelectedType] = useState<string>('all');
+  const [selectedStatus, setSelectedStatus] = useState<string>('current');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [uploadedFrom, setUploadedFrom] = useState('');
+  const [uploadedTo, setUploadedTo] = useState('');
+  const [sort, setSort] = useState<NonNullable<ContentSearchParams['sort']>>('relevance');
+  const [page, setPage] = useState(1);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [selectedContent, setSelectedContent] = useState<MediaFile | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
+  const [reviewAction, setReviewAction] = useState<'request-changes' | 'reject' | null>(null);
+  const [reviewReason, setReviewReason] = useState('');
+  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [compareMediaId, setCompareMediaId] = useState<number | null>(null);
+  const reviewVideoRef = useRef<HTMLVideoElement>(null);
+
+  const debouncedSearchTerm = useDebouncedValue(searchTerm.trim());
 
-  // Fetch all media files
+  // Back to the first page whenever the search changes
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearchTerm, selectedClient, selectedType, selectedStatus, selectedTags, uploadedFrom, uploadedTo, sort]);
+
+  const searchParams: ContentSearchParams = {
+    q: debouncedSearchTerm,
+    clientId: selectedClient === 'all' ? undefined : selectedClient,
+    type: selectedType === 'all' ? undefined : selectedType,
+    status: selectedStatus === 'current' ? undefined : selectedStatus,
+    tag: selectedTags,
+    // Whole days, the end date is included
+    from: uploadedFrom ? startOfDay(uploadedFrom) : undefined,
+    to: uploadedTo ? startOfDay(uploadedTo, 1) : undefined,
+    // Relevance only means something with search words, newest first otherwise
+    sort: sort === 'relevance' && !debouncedSearchTerm ? 'newest' : sort,
+    page,
+    pageSize: SEARCH_PAGE_SIZE,
+  };
+
+  // Search media files, keeping the current page on screen while the next one loads
   const {
-    data: mediaFiles = [],
+    data: search,
     isLoading,
     error,
-  } = useQuery<MediaFile[]>({
+  } = useQuery({
+    queryKey: contentSearchQueryKey(searchParams),
+    queryFn: () => fetchContentSearch<MediaFile>(searchParams),
+    placeholderData: keepPreviousData,
+    staleTime: 60000, // 1 minute
+  });
+  const searchResults = search?.items ?? [];
+
+  // Fetch all media files, used to switch between versions of an item
+  const { data: mediaFiles = [] } = useQuery<MediaFile[]>({
     queryKey: ['/api/admin/media-files'],
     staleTime: 60000, // 1 minute
   });
@@ -73,23 +157,9 @@ export default function ContentViewer() {
     staleTime: 300000, // 5 minutes
   });
 
-  // Apply filters and search
-  const filteredContent = mediaFiles.filter((item) => {
-    // Filter by search term
-    const matchesSearch =
-      searchTerm === '' ||
-      item.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (item.description?.toLowerCase().includes(searchTerm.toLowerCase()) ?? false) ||
-      (item.tags?.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase())) ?? false);
-
-    // Filter by client
-    const matchesClient = selectedClient === 'all' || item.userId.toString() === selectedClient;
-
-    // Filter by file type
-    const matchesType = selectedType === 'all' || item.fileType === selectedType;
-
-    return matchesSearch && matchesClient && matchesType;
-  });
+  const toggleTag = (tag: string) => {
+    setSelectedTags((tags) => (tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag]));
+  };
 
   // Helper to get file type icon
   const getFileTypeIcon = (fileType: string) => {
@@ -105,6 +175,13 @@ export default function ContentViewer() {
     }
   };
 
+  // Format video duration as m:ss
+  const formatDuration = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainder = Math.round(seconds % 60);
+    return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+  };
+
   // Format date
   const formatDate = (dateString: string | null) => {
     if (!dateString) return 'Not scheduled';
@@ -120,6 +197,61 @@ export default function ContentViewer() {
     setIsDetailModalOpen(true);
   };
 
+  // Switch the modal to another version of the same item
+  const handleSelectVersion = (mediaFileId: number) => {
+    const version = mediaFiles.find((file) => file.id === mediaFileId);
+    if (version) {
+      setSelectedContent(version);
+    }
+  };
+
+  // Approve, request changes or reject the selected content
+  const updateReviewStatus = async (action: 'approve' | 'request-changes' | 'reject', reason?: string) => {
+    if (!selectedContent) return;
+
+    setIsUpdatingStatus(true);
+    try {
+      await apiRequest('PUT', `/api/admin/content/${selectedContent.id}/${action}`, { reason });
+
+      const statusByAction: Record<typeof action, ContentStatus> = {
+        approve: 'approved',
+        'request-changes': 'changes_requested',
+        reject: 'rejected',
+      };
+      setSelectedContent({ ...selectedContent, status: statusByAction[action] });
+      setReviewAction(null);
+      setReviewReason('');
+
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/media-files'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/content', 'search'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/content/${selectedContent.id}/review`] });
+
+      toast({
+        title: 'Review saved',
+        description: `"${selectedContent.title}" is now ${contentStatusLabels[statusByAction[action]].toLowerCase()}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'There was a problem updating the review status.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdatingStatus(false);
+    }
+  };
+
+  const getStatusBadgeVariant = (status: ContentStatus) => {
+    switch (status) {
+      case 'approved':
+        return 'default';
+      case 'rejected':
+        return 'destructive';
+      default:
+        return 'outline';
+    }
+  };
+
   // Handle any errors
   useEffect(() => {
     if (error) {
@@ -134,9 +266,43 @@ export default function ContentViewer() {
   return (
     <div className="container mx-auto">
       <div className="flex flex-col space-y-6">
-        <div className="flex flex-col space-y-2">
-          <h1 className="text-2xl font-bold">Content Viewer</h1>
-          <p className="text-muted-foreground">View and browse client content</p>
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div className="flex flex-col space-y-2">
+            <h1 className="text-2xl font-bold">Content Viewer</h1>
+            <p className="text-muted-foreground">View and browse client content</p>
+          </div>
+          <div className="flex gap-2">
+            {/* The posting schedule is exported per client */}
+            {selectedClient !== 'all' && (
+              <Button variant="outline" asChild>
+                <a href={`/api/posting-plans/export?userId=${selectedClient}&format=csv`} download>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export Posting Schedule
+                </a>
+              </Button>
+            )}
+            {/* The results on this page, with a manifest of titles, captions, tags and dates */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={searchResults.length === 0}>
+                  <Package className="h-4 w-4 mr-2" />
+                  Download ZIP ({searchResults.length})
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem asChild>
+                  <a href={`/api/content/export?status=all&ids=${searchResults.map(item => item.id).join(',')}`} download>
+                    Without watermark
+                  </a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={`/api/content/export?status=all&watermark=1&ids=${searchResults.map(item => item.id).join(',')}`} download>
+                    With client watermarks
+                  </a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
 
         {/* Filters and search */}
@@ -163,21 +329,49 @@ export default function ContentViewer() {
                 <SelectItem value="all">All Clients</SelectItem>
                 {clients.map((client) => (
                   <SelectItem key={client.id} value={client.id.toString()}>
-                    {client.fullName}
+                    {client.fullName} ({facetCount(search?.facets.client, client.id.toString())})
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
 
+            <Select value={selectedStatus} onValueChange={setSelectedStatus}>
+              <SelectTrigger className="md:w-[180px]">
+                <SelectValue placeholder="Filter by status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="current">Current Versions</SelectItem>
+                <SelectItem value="pending">Pending Review ({facetCount(search?.facets.status, 'pending')})</SelectItem>
+                <SelectItem value="changes_requested">
+                  Changes Requested ({facetCount(search?.facets.status, 'changes_requested')})
+                </SelectItem>
+                <SelectItem value="approved">Approved ({facetCount(search?.facets.status, 'approved')})</SelectItem>
+                <SelectItem value="rejected">Rejected ({facetCount(search?.facets.status, 'rejected')})</SelectItem>
+                <SelectItem value="all">All Versions</SelectItem>
+              </SelectContent>
+            </Select>
+
             <Select value={selectedType} onValueChange={setSelectedType}>
               <SelectTrigger className="md:w-[180px]">
                 <SelectValue placeholder="Filter by type" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Types</SelectItem>
-                <SelectItem value="image">Images</SelectItem>
-                <SelectItem value="video">Videos</SelectItem>
-                <SelectItem value="document">Documents</SelectItem>
+                <SelectItem value="image">Images ({facetCount(search?.facets.fileType, 'image')})</SelectItem>
+                <SelectItem value="video">Videos ({facetCount(search?.facets.fileType, 'video')})</SelectItem>
+                <SelectItem value="document">Documents ({facetCount(search?.facets.fileType, 'document')})</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={sort} onValueChange={(value) => setSort(value as typeof sort)}>
+              <SelectTrigger className="md:w-[160px]">
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="relevance">Best Match</SelectItem>
+                <SelectItem value="newest">Newest First</SelectItem>
+                <SelectItem value="oldest">Oldest First</SelectItem>
+                <SelectItem value="title">Title</SelectItem>
               </SelectContent>
             </Select>
 
@@ -232,6 +426,47 @@ export default function ContentViewer() {
           </div>
         </div>
 
+        {/* Upload date range and the most common tags among the results */}
+        <div className="flex flex-col md:flex-row gap-4 md:items-center">
+          <div className="flex items-center gap-2">
+            <Calendar className="h-4 w-4 text-muted-foreground" />
+            <Input
+              type="date"
+              className="w-[160px]"
+              value={uploadedFrom}
+              onChange={(e) => setUploadedFrom(e.target.value)}
+              aria-label="Uploaded from"
+            />
+            <span className="text-muted-foreground">to</span>
+            <Input
+              type="date"
+              className="w-[160px]"
+              value={uploadedTo}
+              onChange={(e) => setUploadedTo(e.target.value)}
+              aria-label="Uploaded to"
+            />
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {selectedTags
+              .filter((tag) => !search?.facets.tag.some((facet) => facet.value === tag))
+              .map((tag) => (
+                <Badge key={tag} className="cursor-pointer" onClick={() => toggleTag(tag)}>
+                  {tag} <XCircle className="h-3 w-3 ml-1" />
+                </Badge>
+              ))}
+            {search?.facets.tag.map((facet) => (
+              <Badge
+                key={facet.value}
+                variant={selectedTags.includes(facet.value) ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => toggleTag(facet.value)}
+              >
+                {facet.value} ({facet.count})
+              </Badge>
+            ))}
+          </div>
+        </div>
+
         {/* Content display */}
         <Card>
           <CardContent className="p-6">
@@ -239,7 +474,7 @@ export default function ContentViewer() {
               <div className="flex justify-center items-center h-64">
                 <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full"></div>
               </div>
-            ) : filteredContent.length === 0 ? (
+            ) : searchResults.length === 0 ? (
               <div className="flex flex-col items-center justify-center h-64">
                 <Package className="h-16 w-16 text-muted-foreground opacity-50 mb-4" />
                 <h3 className="text-lg font-medium">No content found</h3>
@@ -249,28 +484,59 @@ export default function ContentViewer() {
               </div>
             ) : viewMode === 'grid' ? (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                {filteredContent.map((content) => (
+                {searchResults.map((content) => (
                   <div
                     key={content.id}
                     className="flex flex-col overflow-hidden rounded-lg border bg-background shadow-sm hover:shadow-md transition-shadow cursor-pointer"
                     onClick={() => handleContentClick(content)}
                   >
                     <div className="relative h-48 bg-muted flex items-center justify-center">
-                      {content.thumbnailPath ? (
+                      {content.thumbnailUrl ? (
                         <img
-                          src={content.thumbnailPath}
+                          src={content.thumbnailUrl}
                           alt={content.title}
+                          loading="lazy"
                           className="h-full w-full object-cover"
                         />
                       ) : (
                         <div className="flex items-center justify-center h-full w-full bg-muted">
                           {getFileTypeIcon(content.fileType)}
-                          <span className="ml-2 text-muted-foreground">{content.fileType}</span>
+                          <span className="ml-2 text-muted-foreground">
+                            {content.processingStatus === 'pending' || content.processingStatus === 'processing'
+                              ? 'Generating preview...'
+                              : content.fileType}
+                          </span>
                         </div>
                       )}
                       <div className="absolute top-2 right-2">
                         <Badge variant="secondary">{content.fileType}</Badge>
                       </div>
+                      <div className="absolute top-2 left-2 flex gap-1">
+                        <Badge variant={getStatusBadgeVariant(content.status)} className="bg-background/80">
+                          {contentStatusLabels[content.status] ?? content.status}
+                        </Badge>
+                        {content.version > 1 && <Badge variant="secondary">v{content.version}</Badge>}
+                      </div>
+                      {content.duplicateOfId && (
+                        <div className="absolute bottom-2 left-2">
+                          <Badge
+                            variant="destructive"
+                            className="cursor-pointer"
+                            title={content.duplicateMatch ? duplicateMatchLabels[content.duplicateMatch] : undefined}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setCompareMediaId(content.id);
+                            }}
+                          >
+                            Possible duplicate of #{content.duplicateOfId}
+                          </Badge>
+                        </div>
+                      )}
+                      {content.duration != null && (
+                        <div className="absolute bottom-2 right-2">
+                          <Badge variant="secondary">{formatDuration(content.duration)}</Badge>
+                        </div>
+                      )}
                     </div>
                     <div className="flex flex-col p-4">
                       <h3 className="font-medium line-clamp-1" title={content.title}>
@@ -304,17 +570,18 @@ export default function ContentViewer() {
               </div>
             ) : (
               <div className="divide-y">
-                {filteredContent.map((content) => (
+                {searchResults.map((content) => (
                   <div
                     key={content.id}
                     className="flex items-center py-4 px-2 hover:bg-muted/50 rounded-md cursor-pointer"
                     onClick={() => handleContentClick(content)}
                   >
                     <div className="h-12 w-12 rounded bg-muted flex items-center justify-center mr-4">
-                      {content.thumbnailPath ? (
+                      {content.thumbnailUrl ? (
                         <img
-                          src={content.thumbnailPath}
+                          src={content.thumbnailUrl}
                           alt={content.title}
+                          loading="lazy"
                           className="h-full w-full object-cover rounded"
                         />
                       ) : (
@@ -336,13 +603,37 @@ export default function ContentViewer() {
                         </span>
                       </div>
                     </div>
-                    <div className="ml-4 flex-shrink-0">
+                    <div className="ml-4 flex-shrink-0 flex gap-2">
+                      {content.duplicateOfId && (
+                        <Badge
+                          variant="destructive"
+                          className="cursor-pointer"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setCompareMediaId(content.id);
+                          }}
+                        >
+                          Possible duplicate of #{content.duplicateOfId}
+                        </Badge>
+                      )}
+                      <Badge variant={getStatusBadgeVariant(content.status)}>
+                        {contentStatusLabels[content.status] ?? content.status}
+                      </Badge>
                       <Badge variant="secondary">{content.fileType}</Badge>
                     </div>
                   </div>
                 ))}
               </div>
             )}
+            {search && (
+              <SearchPagination
+                className="mt-6"
+                page={search.page}
+                pageSize={search.pageSize}
+                total={search.total}
+                onPageChange={setPage}
+              />
+            )}
           </CardContent>
         </Card>
       </div>
@@ -353,7 +644,18 @@ export default function ContentViewer() {
           {selectedContent && (
             <>
               <DialogHeader>
-                <DialogTitle>{selectedContent.title}</DialogTitle>
+                <DialogTitle className="flex items-center gap-2">
+                  {selectedContent.title}
+                  {selectedContent.version > 1 && <Badge variant="secondary">v{selectedContent.version}</Badge>}
+                  <Badge variant={getStatusBadgeVariant(selectedContent.status)}>
+                    {contentStatusLabels[selectedContent.status] ?? selectedContent.status}
+                  </Badge>
+                  {selectedContent.duplicateOfId && (
+                    <Button variant="outline" size="sm" onClick={() => setCompareMediaId(selectedContent.id)}>
+                      Compare with #{selectedContent.duplicateOfId}
+                    </Button>
+                  )}
+                </DialogTitle>
                 <DialogDescription>
                   Uploaded by {selectedContent.user.fullName} on{' '}
                   {formatDate(selectedContent.createdAt)}
@@ -363,31 +665,65 @@ export default function ContentViewer() {
               <Tabs defaultValue="preview" className="mt-4">
                 <TabsList>
                   <TabsTrigger value="preview">Preview</TabsTrigger>
+                  <TabsTrigger value="review">Review</TabsTrigger>
+                  <TabsTrigger value="posting-plan">Posting Plan</TabsTrigger>
                   <TabsTrigger value="details">Details</TabsTrigger>
                 </TabsList>
+                <TabsContent value="review" className="mt-4 space-y-4">
+                  {selectedContent.fileType === 'video' && (
+                    // Review comments point at frames of the original, so play it rather than the short preview clip
+                    <video
+                      ref={reviewVideoRef}
+                      src={selectedContent.url}
+                      poster={selectedContent.thumbnailUrl ?? undefined}
+                      controls
+                      preload="metadata"
+                      className="max-h-[360px] w-full rounded-md bg-black"
+                    />
+                  )}
+                  <ContentReviewPanel
+                    mediaFileId={selectedContent.id}
+                    getCurrentTime={selectedContent.fileType === 'video' ? () => reviewVideoRef.current?.currentTime ?? null : undefined}
+                    onSeek={(seconds) => {
+                      if (reviewVideoRef.current) {
+                        reviewVideoRef.current.currentTime = seconds;
+                        reviewVideoRef.current.pause();
+                      }
+                    }}
+                    onSelectVersion={handleSelectVersion}
+                  />
+                </TabsContent>
+                <TabsContent value="posting-plan" className="mt-4">
+                  <PostingPlanEditor mediaFileId={selectedContent.id} />
+                </TabsContent>
                 <TabsContent value="preview" className="mt-4">
                   <div className="flex items-center justify-center bg-muted rounded-lg p-4 min-h-[300px]">
-                    {selectedContent.fileType === 'image' ? (
+                    {selectedContent.fileType === 'image' && selectedContent.previewUrl ? (
                       <img
-                        src={selectedContent.storagePath}
+                        src={selectedContent.previewUrl}
                         alt={selectedContent.title}
                         className="max-h-[500px] rounded-md object-contain"
                       />
-                    ) : selectedContent.fileType === 'video' ? (
+                    ) : selectedContent.fileType === 'video' && selectedContent.previewUrl ? (
                       <video
-                        src={selectedContent.storagePath}
+                        src={selectedContent.previewUrl}
+                        poster={selectedContent.thumbnailUrl ?? undefined}
                         controls
+                        loop
+                        muted
                         className="max-h-[500px] rounded-md"
                       />
                     ) : (
                       <div className="flex flex-col items-center justify-center">
                         {getFileTypeIcon(selectedContent.fileType)}
                         <span className="mt-2 text-muted-foreground">
-                          Preview not available for this file type
+                          {selectedContent.processingStatus === 'failed' || selectedContent.fileType === 'document'
+                            ? 'Preview not available for this file'
+                            : 'Preview is still being generated'}
                         </span>
                         <Button className="mt-4" asChild>
                           <a
-                            href={selectedContent.storagePath}
+                            href={selectedContent.url}
                             target="_blank"
                             rel="noopener noreferrer"
                           >
@@ -424,6 +760,26 @@ export default function ContentViewer() {
                             <dt className="text-muted-foreground">Type:</dt>
                             <dd className="font-medium">{selectedContent.fileType}</dd>
                           </div>
+                          {selectedContent.width && selectedContent.height && (
+                            <div className="flex justify-between">
+                              <dt className="text-muted-foreground">Dimensions:</dt>
+                              <dd className="font-medium">
+                                {selectedContent.width} × {selectedContent.height}
+                              </dd>
+                            </div>
+                          )}
+                          {selectedContent.duration != null && (
+                            <div className="flex justify-between">
+                              <dt className="text-muted-foreground">Duration:</dt>
+                              <dd className="font-medium">{formatDuration(selectedContent.duration)}</dd>
+                            </div>
+                          )}
+                          {selectedContent.codec && (
+                            <div className="flex justify-between">
+                              <dt className="text-muted-foreground">Codec:</dt>
+                              <dd className="font-medium">{selectedContent.codec}</dd>
+                            </div>
+                          )}
                           <div className="flex justify-between">
                             <dt className="text-muted-foreground">Created:</dt>
                             <dd className="font-medium">{formatDate(selectedContent.createdAt)}</dd>
@@ -469,7 +825,7 @@ export default function ContentViewer() {
                   className="mr-auto"
                 >
                   <a
-                    href={selectedContent.storagePath}
+                    href={selectedContent.url}
                     target="_blank"
                     rel="noopener noreferrer"
                   >
@@ -477,6 +833,63 @@ export default function ContentViewer() {
                     Open Original
                   </a>
                 </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline">
+                      <Download className="mr-2 h-4 w-4" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/content/${selectedContent.id}/export?watermark=1`} download>
+                        With watermark
+                      </a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/content/${selectedContent.id}/export?watermark=0`} download>
+                        Without watermark
+                      </a>
+                    </DropdownMenuItem>
+                    {selectedContent.originalUrl && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem asChild>
+                          <a href={selectedContent.originalUrl} target="_blank" rel="noopener noreferrer">
+                            Original with metadata
+                          </a>
+                        </DropdownMenuItem>
+                      </>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                {selectedContent.status !== 'superseded' && (
+                  <>
+                    <Button
+                      variant="outline"
+                      onClick={() => setReviewAction('request-changes')}
+                      disabled={isUpdatingStatus}
+                    >
+                      <MessageSquareWarning className="mr-2 h-4 w-4" />
+                      Request Changes
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      onClick={() => setReviewAction('reject')}
+                      disabled={isUpdatingStatus || selectedContent.status === 'rejected'}
+                    >
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Reject
+                    </Button>
+                    <Button
+                      onClick={() => updateReviewStatus('approve')}
+                      disabled={isUpdatingStatus || selectedContent.status === 'approved'}
+                    >
+                      <CheckCircle className="mr-2 h-4 w-4" />
+                      Approve
+                    </Button>
+                  </>
+                )}
                 <Button variant="outline" onClick={() => setIsDetailModalOpen(false)}>
                   Close
                 </Button>
@@ -485,6 +898,48 @@ export default function ContentViewer() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Side-by-side compare of a possible duplicate */}
+      <DuplicateCompareDialog
+        mediaFileId={compareMediaId}
+        onOpenChange={(open) => !open && setCompareMediaId(null)}
+        onDismissed={() => {
+          queryClient.invalidateQueries({ queryKey: ['/api/admin/media-files'] });
+          setSelectedContent(prev => prev && prev.id === compareMediaId ? { ...prev, duplicateOfId: null, duplicateMatch: null } : prev);
+        }}
+      />
+
+      {/* Reason for requesting changes or rejecting */}
+      <Dialog open={!!reviewAction} onOpenChange={(open) => !open && setReviewAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{reviewAction === 'reject' ? 'Reject Content' : 'Request Changes'}</DialogTitle>
+            <DialogDescription>
+              {reviewAction === 'reject'
+                ? 'Let the client know why this content was rejected.'
+                : 'Describe what the client should change before resubmitting.'}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={reviewReason}
+            onChange={(e) => setReviewReason(e.target.value)}
+            placeholder={reviewAction === 'reject' ? 'Reason for rejection...' : 'Requested changes...'}
+            rows={4}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewAction === 'reject' ? 'destructive' : 'default'}
+              onClick={() => reviewAction && updateReviewStatus(reviewAction, reviewReason)}
+              disabled={isUpdatingStatus || (reviewAction === 'request-changes' && !reviewReason.trim())}
+            >
+              {reviewAction === 'reject' ? 'Reject' : 'Request Changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
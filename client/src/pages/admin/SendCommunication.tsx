@@ -13,11 +13,15 @@ import { useCallback, useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { CommunicationTemplate } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { DoNotSayAlert } from "@/components/ui/do-not-say-alert";
+import { DoNotSayError, getDoNotSayError } from "@/lib/do-not-say";
 
 interface FormValues {
   templateId: string;
   recipientId: string;
   customParams: Record<string, string>;
+  doNotSayOverrideReason?: string;
+  doNotSayAcknowledged?: boolean;
 }
 
 export default function SendCommunication() {
@@ -46,6 +50,9 @@ export default function SendCommunication() {
   // State to store the selected template
   const [selectedTemplate, setSelectedTemplate] = useState<CommunicationTemplate | null>(null);
   
+  // Set when the rendered message uses the recipient's do-not-say terms
+  const [doNotSayError, setDoNotSayError] = useState<DoNotSayError | null>(null);
+  
   // Form setup
   const form = useForm<FormValues>({
     defaultValues: {
@@ -103,6 +110,7 @@ export default function SendCommunication() {
       return response.json();
     },
     onSuccess: (data) => {
+      setDoNotSayError(null);
       toast({
         title: "Communication sent",
         description: data.message,
@@ -111,6 +119,11 @@ export default function SendCommunication() {
       queryClient.invalidateQueries({ queryKey: ["/api/communication-history"] });
     },
     onError: (error: Error) => {
+      const blocked = getDoNotSayError(error);
+      if (blocked) {
+        setDoNotSayError(blocked);
+        return;
+      }
       toast({
         title: "Failed to send communication",
         description: error.message,
@@ -305,6 +318,15 @@ export default function SendCommunication() {
                 </div>
               )}
               
+              {doNotSayError && (
+                <DoNotSayAlert
+                  error={doNotSayError}
+                  onOverride={(reason) => mutation.mutate({ ...form.getValues(), doNotSayOverrideReason: reason })}
+                  onAcknowledge={() => mutation.mutate({ ...form.getValues(), doNotSayAcknowledged: true })}
+                  isSubmitting={mutation.isPending}
+                />
+              )}
+              
               <div className="flex justify-end">
                 <Button 
                   type="submit" 
@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { TrashList } from '@/components/content/TrashList';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface UserSummary {
+  id: number;
+  username: string;
+  fullName: string;
+  role: string;
+}
+
+export default function AdminTrash() {
+  const [selectedClient, setSelectedClient] = useState<string>('all');
+
+  const { data: users = [] } = useQuery<UserSummary[]>({
+    queryKey: ['/api/admin/clients'],
+    staleTime: 300000, // 5 minutes
+  });
+
+  const clients = users.filter(user => user.role !== 'admin');
+
+  return (
+    <div className="container mx-auto py-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Trash</h1>
+          <p className="text-muted-foreground">Deleted content waiting to be purged</p>
+        </div>
+        <Select value={selectedClient} onValueChange={setSelectedClient}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="All clients" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All clients</SelectItem>
+            {clients.map(client => (
+              <SelectItem key={client.id} value={client.id.toString()}>
+                {client.fullName || client.username}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pending Purge</CardTitle>
+          <CardDescription>
+            Content deleted by clients, managers or a retention rule. The file, its original and its thumbnails are
+            removed for good on the purge date unless the content is restored.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TrashList
+            clientId={selectedClient === 'all' ? undefined : parseInt(selectedClient)}
+            showClient={selectedClient === 'all'}
+            emptyMessage="Nothing is waiting to be purged."
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import * as pg from 'pg';
+import * as dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import path from 'path';
+import fs from 'fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+dotenv.config({ path: join(__dirname, '..', '.env') });
+
+// Loaded after dotenv so the backend picks up STORAGE_BACKEND / S3_* settings
+const { createObjectStorage, buildStorageKey, UPLOAD_ROOT } = await import('../server/utils/object-storage');
+
+const { Pool } = pg;
+
+const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+});
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const targetBackend = args.find(arg => arg.startsWith('--to='))?.split('=')[1] || process.env.STORAGE_BACKEND || 'local';
+
+const target = createObjectStorage(targetBackend);
+
+// Sources that were already moved in this run, so shared paths (legacy image thumbnails) are only moved once
+const movedSources = new Map();
+
+/**
+ * Work out where a stored path currently lives on disk and which key it should get
+ */
+function planMove(userId, storedPath) {
+  if (path.isAbsolute(storedPath)) {
+    const relative = path.relative(UPLOAD_ROOT, storedPath);
+    const insideUploadRoot = !relative.startsWith('..') && !path.isAbsolute(relative);
+    return {
+      source: storedPath,
+      key: insideUploadRoot
+        ? relative.split(path.sep).join('/')
+        : buildStorageKey(userId, path.basename(storedPath), 'legacy'),
+    };
+  }
+
+  // Already a storage key; it only needs moving when it is still on the local disk
+  return { source: path.join(UPLOAD_ROOT, storedPath), key: storedPath };
+}
+
+async function migratePath(userId, storedPath) {
+  if (!storedPath) return storedPath;
+
+  const { source, key } = planMove(userId, storedPath);
+
+  if (movedSources.has(source)) {
+    return movedSources.get(source);
+  }
+
+  if (!fs.existsSync(source)) {
+    // Nothing on local disk: either already migrated or the file is missing
+    if (!path.isAbsolute(storedPath)) return storedPath;
+    console.warn(`  Missing file, leaving row untouched: ${storedPath}`);
+    return storedPath;
+  }
+
+  if (targetBackend === 'local' && path.resolve(source) === path.join(UPLOAD_ROOT, key)) {
+    movedSources.set(source, key);
+    return key;
+  }
+
+  console.log(`  ${source} -> ${target.name}:${key}`);
+  if (!dryRun) {
+    await target.storeFile(key, source);
+  }
+
+  movedSources.set(source, key);
+  return key;
+}
+
+async function migrateMediaFiles(client) {
+  const { rows } = await client.query(
+    'SELECT id, user_id, storage_path, thumbnail_path, preview_path FROM media_files ORDER BY id'
+  );
+  console.log(`Migrating ${rows.length} media files...`);
+
+  for (const row of rows) {
+    const storagePath = await migratePath(row.user_id, row.storage_path);
+    const thumbnailPath = await migratePath(row.user_id, row.thumbnail_path);
+    const previewPath = await migratePath(row.user_id, row.preview_path);
+
+    if (
+      !dryRun &&
+      (storagePath !== row.storage_path || thumbnailPath !== row.thumbnail_path || previewPath !== row.preview_path)
+    ) {
+      await client.query(
+        'UPDATE media_files SET storage_path = $1, thumbnail_path = $2, preview_path = $3 WHERE id = $4',
+        [storagePath, thumbnailPath, previewPath, row.id]
+      );
+    }
+  }
+}
+
+async function migrateVerificationDocuments(client) {
+  const { rows } = await client.query(
+    'SELECT id, user_id, storage_path FROM verification_documents ORDER BY id'
+  );
+  console.log(`Migrating ${rows.length} verification documents...`);
+
+  for (const row of rows) {
+    const storagePath = await migratePath(row.user_id, row.storage_path);
+
+    if (!dryRun && storagePath !== row.storage_path) {
+      await client.query(
+        'UPDATE verification_documents SET storage_path = $1 WHERE id = $2',
+        [storagePath, row.id]
+      );
+    }
+  }
+}
+
+async function migrateObjectStorage() {
+  console.log(`Moving stored files to the ${targetBackend} backend${dryRun ? ' (dry run)' : ''}`);
+  const client = await pool.connect();
+
+  try {
+    await migrateMediaFiles(client);
+    await migrateVerificationDocuments(client);
+    console.log('Object storage migration completed');
+  } catch (error) {
+    console.error('Object storage migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+migrateObjectStorage();
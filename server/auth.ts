@@ -11,6 +11,7 @@ import bcrypt from "bcryptjs";
 import connectPgSimple from "connect-pg-simple";
 import db from './db';
 import { sendWelcomeEmail } from "./utils/email";
+import { disconnectSession } from "./utils/realtime";
 
 declare global {
   namespace Express {
@@ -35,6 +36,13 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  // Passport keeps the signed-in user's ID in the session
+  interface SessionData {
+    passport?: { user?: number };
+  }
+}
+
 // Session store configuration - use PostgreSQL in production, memory store in development
 const MemoryStore = createMemoryStore(session);
 const PgStore = connectPgSimple(session);
@@ -97,7 +105,8 @@ export function setupAuth(app: Express) {
   // Log which session store we're using
   console.log(`Session store: ${process.env.DATABASE_URL ? 'PostgreSQL' : 'Memory'}`);
   
-  app.use(session(sessionOptions));
+  const sessionParser = session(sessionOptions);
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -280,10 +289,14 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/auth/logout", (req: Request, res: Response) => {
+    // Logging out regenerates the session, so its ID is read first
+    const sessionId = req.sessionID;
     req.logout((err) => {
       if (err) {
         return res.status(500).json({ message: "Logout failed" });
       }
+      // Tabs of this session stop receiving the account's messages and notifications
+      disconnectSession(sessionId);
       res.json({ message: "Logged out successfully" });
     });
   });
@@ -298,8 +311,9 @@ export function setupAuth(app: Express) {
     res.json(safeUserData);
   });
 
-  // Export middleware functions for route-specific auth
+  // Export middleware functions for route-specific auth, and the session parser for the WebSocket gateway
   return {
+    sessionParser,
     isAuthenticated: (req: Request, res: Response, next: NextFunction) => {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Unauthorized" });
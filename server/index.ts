@@ -1,8 +1,23 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { registerJob, startScheduler } from "./utils/scheduler";
+import { processPublishingQueue, PUBLISHING_QUEUE_INTERVAL_MS } from "./utils/publishing-queue";
+import { processRetention, RETENTION_INTERVAL_MS } from "./utils/retention";
+import { processAppointmentReminders, REMINDER_INTERVAL_MS } from "./utils/appointment-reminders";
+import { processAnalyticsRollup, ANALYTICS_ROLLUP_INTERVAL_MS } from "./utils/appointment-analytics";
+import { purgeUnsentAttachments, ATTACHMENT_CLEANUP_INTERVAL_MS } from "./utils/message-attachments";
 
 const app = express();
+
+// Behind the hosting proxy, TRUST_PROXY makes req.ip come from X-Forwarded-For instead of being the proxy's own
+// address. It's the number of proxy hops, or the proxies' addresses (e.g. "loopback, 10.0.0.0/8"). Left unset,
+// the header isn't trusted since any client could send it.
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy) {
+  app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
+
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: false, limit: '50mb' }));
 
@@ -66,5 +81,13 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Background jobs start once the server is accepting requests
+    registerJob("publishing-queue", PUBLISHING_QUEUE_INTERVAL_MS, processPublishingQueue);
+    registerJob("media-retention", RETENTION_INTERVAL_MS, processRetention);
+    registerJob("appointment-reminders", REMINDER_INTERVAL_MS, processAppointmentReminders);
+    registerJob("analytics-rollup", ANALYTICS_ROLLUP_INTERVAL_MS, processAnalyticsRollup);
+    registerJob("message-attachment-cleanup", ATTACHMENT_CLEANUP_INTERVAL_MS, purgeUnsentAttachments);
+    startScheduler();
   });
 })();
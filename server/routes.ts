@@ -4,7 +4,6 @@ import { storage } from "./storage";
 import { setupAuth, hashPassword } from "./auth";
 import { insertUserSchema, insertProfileSchema, insertPlatformAccountSchema, insertContentStrategySchema, insertMediaFileSchema, insertVerificationDocumentSchema, insertAppointmentSchema, insertMessageSchema, insertRentMenSettingsSchema, insertAnalyticsSchema, insertCommunicationTemplateSchema, insertCommunicationHistorySchema } from "@shared/schema";
 import { z } from "zod";
-import Stripe from "stripe";
 import bcrypt from "bcryptjs";
 import multer from "multer";
 import path from "path";
@@ -13,20 +12,45 @@ import { Resend } from "resend";
 import { handleUpdateOnboardingStep, getOnboardingProgress } from "./routes/onboarding";
 import adminRoutes from './routes/admin';
 import appointmentsRoutes from './routes/appointments';
-import { WebSocketServer, WebSocket } from 'ws';
-import twilio from 'twilio';
+import calendarFeedRoutes from './routes/calendar-feed';
+import publicBookingRoutes from './routes/public-booking';
+import bookingRequestRoutes from './routes/booking-requests';
+import uploadsRoutes from './routes/uploads';
+import contentReviewRoutes from './routes/content-review';
+import calendarRoutes from './routes/calendar';
+import postingPlanRoutes from './routes/posting-plans';
 import { supabase } from './supabase';
 import passport from 'passport';
 import { sendEmail } from './utils/email';
-
-// Initialize Stripe if API key exists
-const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
-let stripe: Stripe | undefined;
-if (stripeSecretKey) {
-  stripe = new Stripe(stripeSecretKey, {
-    apiVersion: "2023-10-16" as any,
-  });
-}
+import { sendSmsNotification } from './utils/sms';
+import { stripe as stripeClient } from './utils/stripe';
+import { enqueueMediaProcessing } from './utils/media-processing';
+import { objectStorage, verifyLocalSignedUrl, UPLOAD_ROOT } from './utils/object-storage';
+import { buildUploadFileName } from './utils/chunked-upload';
+import { changeContentStatus, recordSubmission } from './utils/content-review';
+import { queueScheduledPost } from './utils/publishing-queue';
+import { createInitialVariant } from './utils/posting-plans';
+import { enforceDoNotSay } from './utils/do-not-say';
+import { computeMediaHashes, flagDuplicate } from './utils/media-hashing';
+import { storeScrubbedUpload, MetadataScrubError } from './utils/metadata-scrubbing';
+import { MAX_PLAN_FILE_SIZE, enforceUploadQuota, formatBytes, getUsageSummary, recordUploadUsage } from './utils/plan-quotas';
+import { moveToTrash } from './utils/retention';
+import { enforceSlotAvailability } from './utils/availability';
+import { recordProposal } from './utils/appointment-negotiation';
+import { createAppointmentIcsAttachment } from './utils/ical';
+import { depositPolicyFields, depositPolicySchema, formatCents } from './utils/appointment-payments';
+import { rollupClientAnalytics, withoutRollupFields } from './utils/appointment-analytics';
+import { recurrenceRuleSchema } from './utils/recurrence';
+import { createSeries, enforceSeriesAvailability, getSeriesPlanError, planSeries } from './utils/appointment-series';
+import { bookerDetailsFields, bookerDetailsSchema, screenAppointment } from './utils/appointment-screening';
+import { enforceMessageAttachments, serializeAttachment } from './utils/message-attachments';
+import { attachRealtimeGateway, publishAppointmentUpdate, publishMessage, publishReadReceipt } from './utils/realtime';
+import doNotSayRoutes from './routes/do-not-say';
+import contentExportRoutes from './routes/content-export';
+import collectionRoutes from './routes/collections';
+import searchRoutes from './routes/search';
+import trashRoutes from './routes/trash';
+import messageAttachmentRoutes from './routes/message-attachments';
 
 // Initialize Resend if API key exists
 const resendApiKey = process.env.RESEND_API_KEY;
@@ -35,25 +59,9 @@ if (resendApiKey) {
   resend = new Resend(resendApiKey);
 }
 
-// Initialize Twilio if API keys exist
-const twilioAccountSid = process.env.TWILIO_ACCOUNT_SID;
-const twilioAuthToken = process.env.TWILIO_AUTH_TOKEN;
-const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER;
-let twilioClient: twilio.Twilio | undefined;
-
-if (twilioAccountSid && twilioAuthToken && twilioAccountSid.startsWith('AC')) {
-  try {
-    twilioClient = twilio(twilioAccountSid, twilioAuthToken);
-    console.log("Twilio client initialized");
-  } catch (error) {
-    console.error("Error initializing Twilio client:", error);
-  }
-} else {
-  console.warn("Twilio credentials missing or invalid. SMS functionality will be unavailable.");
-}
-
 // Configure file uploads with personalized user directories
-const baseUploadDir = path.join(process.cwd(), "uploads");
+// Files land here first and are then handed to the configured object storage backend
+const baseUploadDir = UPLOAD_ROOT;
 if (!fs.existsSync(baseUploadDir)) {
   fs.mkdirSync(baseUploadDir, { recursive: true });
 }
@@ -74,14 +82,41 @@ const storage_multer = multer.diskStorage({
   },
   filename: function (req, file, cb) {
     // Create a secure filename with content type prefix for better organization
-    const contentTypePrefix = file.mimetype.startsWith('image/') ? 'img' : 'vid';
-    const sanitizedOriginalName = file.originalname.replace(/[^a-zA-Z0-9.]/g, '_');
-    const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
-    cb(null, `${contentTypePrefix}-${uniqueSuffix}-${sanitizedOriginalName}`);
+    cb(null, buildUploadFileName(file.originalname, file.mimetype));
   },
 });
 
-const upload = multer({ storage: storage_multer });
+// File types a browser would run scripts in if they were opened from the app's origin
+const ACTIVE_CONTENT_EXTENSIONS = [".svg", ".svgz", ".html", ".htm", ".xhtml", ".xml"];
+
+// Rejected by the upload file filter, answered with a 400
+class UnsupportedUploadError extends Error {}
+
+const upload = multer({
+  storage: storage_multer,
+  // The plan's own file size limit is checked once the user's usage is loaded
+  limits: { fileSize: MAX_PLAN_FILE_SIZE },
+  fileFilter: function (req, file, cb) {
+    if (file.mimetype.startsWith("image/") || file.mimetype.startsWith("video/")) {
+      cb(null, true);
+    } else {
+      cb(new UnsupportedUploadError(`${file.originalname} is not an image or video`));
+    }
+  },
+});
+
+// Receive uploaded files, answering oversized and unsupported files with a client error
+const receiveUploadFiles = (req: Request, res: Response, next: NextFunction) => {
+  upload.array("files")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+      return res.status(413).json({ message: `Files can be at most ${formatBytes(MAX_PLAN_FILE_SIZE)}`, code: "FILE_TOO_LARGE" });
+    }
+    if (error instanceof multer.MulterError || error instanceof UnsupportedUploadError) {
+      return res.status(400).json({ message: error.message });
+    }
+    next(error);
+  });
+};
 
 // Session validation middleware
 const validateSession = (req: Request, res: Response, next: NextFunction) => {
@@ -101,80 +136,55 @@ const validateAdmin = async (req: any, res: any, next: any) => {
   next();
 };
 
-// Utility to format phone number for Twilio
-function formatPhoneNumber(phoneNumber: string): string {
-  // Remove all non-numeric characters
-  const digitsOnly = phoneNumber.replace(/\D/g, '');
-  
-  // Ensure it has country code, add +1 (US) if needed
-  if (digitsOnly.length === 10) {
-    return `+1${digitsOnly}`;
-  } else if (digitsOnly.length > 10 && !phoneNumber.startsWith('+')) {
-    return `+${digitsOnly}`;
-  }
-  
-  // If already has +, just return the cleaned version
-  return phoneNumber.startsWith('+') ? phoneNumber : `+${digitsOnly}`;
-}
-
-// Function to send SMS notifications
-async function sendSmsNotification(to: string, message: string): Promise<boolean> {
-  if (!twilioClient || !twilioPhoneNumber) {
-    console.warn("Twilio not configured. SMS not sent.");
-    return false;
-  }
-
-  try {
-    // Format the phone number for Twilio
-    const formattedNumber = formatPhoneNumber(to);
-    
-    const result = await twilioClient.messages.create({
-      body: message,
-      from: twilioPhoneNumber,
-      to: formattedNumber
-    });
-    
-    console.log(`SMS sent successfully: ${result.sid}`);
-    return true;
-  } catch (error) {
-    console.error("Error sending SMS:", error);
-    return false;
-  }
-}
-
-// WebSocket clients store
-interface WSClient {
-  userId: number;
-  username: string;
-  role: string;
-  connection: WebSocket;
-}
-
-let wsClients: WSClient[] = [];
-
-// WebSocket message types
-type WSMessageType = 'message' | 'notification' | 'status' | 'typing' | 'read' | 'appointment';
-
-interface WSMessage {
-  type: WSMessageType;
-  data: any;
-  sender: {
-    id: number;
-    username: string;
-  };
-  timestamp: number;
-}
-
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication with Passport
   const authMiddleware = setupAuth(app);
   
+  // Register booking request triage routes
+  app.use('/api/admin/booking-requests', authMiddleware.isAdmin, bookingRequestRoutes);
+  
   // Register admin routes
   app.use('/api/admin', authMiddleware.isAdmin, adminRoutes);
   
   // Register appointments routes
   app.use('/api/appointments', validateSession, appointmentsRoutes);
   
+  // Register iCal feed routes, calendar apps authenticate with the feed's token instead of a session
+  app.use('/api/calendar-feed', calendarFeedRoutes);
+  
+  // Register public booking page routes, open to anyone and rate limited instead
+  app.use('/api/public/booking', publicBookingRoutes);
+  
+  // Register resumable upload routes
+  app.use('/api/content/uploads', validateSession, uploadsRoutes);
+  
+  // Register content search routes
+  app.use('/api/content/search', validateSession, searchRoutes);
+
+  // Register trash routes (restore and purge of deleted content)
+  app.use('/api/content/trash', validateSession, trashRoutes);
+
+  // Register content review routes (comments, versions, status history)
+  app.use('/api/content', validateSession, contentReviewRoutes);
+  
+  // Register content export routes (metadata-free and watermarked downloads)
+  app.use('/api/content', validateSession, contentExportRoutes);
+  
+  // Register vault collection and smart album routes
+  app.use('/api/collections', validateSession, collectionRoutes);
+  
+  // Register content calendar routes
+  app.use('/api/calendar', validateSession, calendarRoutes);
+  
+  // Register posting plan routes (per-platform variants and schedule export)
+  app.use('/api/posting-plans', validateSession, postingPlanRoutes);
+  
+  // Register do-not-say routes (caption/message checks and override audit)
+  app.use('/api/do-not-say', validateSession, doNotSayRoutes);
+  
+  // Register message attachment routes (uploads and participant-only downloads)
+  app.use('/api/messages/attachments', validateSession, messageAttachmentRoutes);
+  
   // Legacy Admin API Routes
   app.get("/api/admin/users", authMiddleware.isAdmin, async (req, res) => {
     try {
@@ -922,7 +932,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/onboarding/progress", validateSession, getOnboardingProgress);
 
   // Content upload and management routes
-  app.post("/api/content/upload", validateSession, upload.array("files"), async (req, res) => {
+  app.post("/api/content/upload", validateSession, receiveUploadFiles, async (req, res) => {
     try {
       const files = req.files as Express.Multer.File[];
       const { contentType, platform, caption, tags, scheduled, scheduledDate } = req.body;
@@ -931,35 +941,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No files uploaded" });
       }
       
+      // The whole batch has to fit the plan's storage and monthly upload quotas
+      if (!(await enforceUploadQuota(res, req.user!, files.map(file => file.size)))) {
+        files.forEach(file => fs.unlink(file.path, () => {}));
+        return;
+      }
+      
+      // Captions are checked against the client's do-not-say list before anything is stored
+      if (!(await enforceDoNotSay(req, res, [req.user!.id], { caption }, "caption"))) {
+        files.forEach(file => fs.unlink(file.path, () => {}));
+        return;
+      }
+      
       const uploadedFiles = [];
+      const rejectedFiles: { fileName: string; message: string }[] = [];
+      
+      // Scheduled uploads go straight onto the content calendar for the chosen platform
+      const scheduledFor = scheduled && scheduledDate ? new Date(scheduledDate) : undefined;
+      const platformAccount = scheduledFor && platform
+        ? await storage.getPlatformAccountByUserIdAndType(req.user!.id, platform)
+        : undefined;
       
       for (const file of files) {
         const fileType = file.mimetype.startsWith("image/") ? "image" : "video";
         
-        // Store the path to the uploaded file in the user's specific directory
-        const storagePath = file.path;
+        // Hashed while the file is still on local disk, to spot re-uploads of earlier content
+        const hashes = await computeMediaHashes(file.path, fileType);
         
-        // Generate a thumbnail path for images (in a real app, you would generate thumbnails)
-        const thumbnailPath = file.mimetype.startsWith("image/") 
-          ? storagePath 
-          : undefined;
+        // Move the upload into object storage under the user's folder, without its location and device metadata.
+        // Files whose metadata can't be removed are left out of the batch.
+        let stored;
+        try {
+          stored = await storeScrubbedUpload(req.user!.id, file.filename, file.path, file.mimetype, fileType);
+        } catch (error) {
+          if (!(error instanceof MetadataScrubError)) throw error;
+          rejectedFiles.push({ fileName: file.originalname, message: error.message });
+          continue;
+        }
         
         // Create the media file record with user-specific path
-        const mediaFile = await storage.createMediaFile({
+        // Thumbnails and previews are generated in the background once the record exists
+        const createdFile = await storage.createMediaFile({
           userId: req.user.id,
           title: caption || file.originalname,
           description: caption || "",
           fileType,
-          storagePath,
-          thumbnailPath,
+          ...stored,
+          fileSize: file.size,
           status: "pending",
-          scheduledDate: scheduled && scheduledDate ? new Date(scheduledDate) : undefined,
-          tags: tags ? (typeof tags === 'string' ? JSON.parse(tags) : tags) : []
+          processingStatus: "pending",
+          scheduledDate: scheduledFor,
+          tags: tags ? (typeof tags === 'string' ? JSON.parse(tags) : tags) : [],
+          ...hashes
         });
+        const mediaFile = await flagDuplicate(createdFile);
+        await recordUploadUsage(mediaFile);
         
+        enqueueMediaProcessing(mediaFile.id);
+        await recordSubmission(mediaFile, req.user!.id);
+        await createInitialVariant(mediaFile, platform, caption, req.user!.id);
+        if (scheduledFor && platformAccount) {
+          await queueScheduledPost(mediaFile, platformAccount, scheduledFor, req.user!.id);
+        }
         uploadedFiles.push(mediaFile);
       }
       
+      if (uploadedFiles.length === 0) {
+        return res.status(422).json({ message: rejectedFiles[0].message, code: "METADATA_NOT_REMOVED", rejected: rejectedFiles });
+      }
+      
       // Create a notification for admins about new content uploaded
       const admins = await storage.getAllUsers().then(users => users.filter(user => user.role === 'admin'));
       for (const admin of admins) {
@@ -974,7 +1024,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.status(201).json({
         message: "Files uploaded successfully",
-        files: uploadedFiles
+        files: uploadedFiles,
+        // Likely re-uploads of earlier content, so the uploader can check before review
+        duplicates: uploadedFiles
+          .filter(file => file.duplicateOfId)
+          .map(file => ({ mediaFileId: file.id, duplicateOfId: file.duplicateOfId, match: file.duplicateMatch })),
+        rejected: rejectedFiles
       });
     } catch (error) {
       console.error("Content upload error:", error);
@@ -988,18 +1043,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const mediaFiles = await storage.getMediaFilesByUserId(req.user.id);
       
       // Map to safe URLs and exclude sensitive path information
-      const safeMediaFiles = mediaFiles.map(file => ({
+      // Replaced versions are only shown in the review history of their latest version
+      const safeMediaFiles = mediaFiles.filter(file => file.status !== "superseded").map(file => ({
         id: file.id,
         title: file.title,
         description: file.description,
         fileType: file.fileType,
         status: file.status,
+        version: file.version,
+        parentMediaId: file.parentMediaId,
+        duplicateOfId: file.duplicateOfId,
+        duplicateMatch: file.duplicateMatch,
         uploadDate: file.uploadDate,
         scheduledDate: file.scheduledDate,
         tags: file.tags,
+        processingStatus: file.processingStatus,
+        width: file.width,
+        height: file.height,
+        duration: file.duration,
         // Create web-accessible URLs instead of filesystem paths
         url: `/api/content/file/${file.id}`,
-        thumbnailUrl: file.thumbnailPath ? `/api/content/thumbnail/${file.id}` : undefined
+        thumbnailUrl: file.thumbnailPath ? `/api/content/thumbnail/${file.id}` : undefined,
+        previewUrl: file.previewPath ? `/api/content/preview/${file.id}` : undefined
       }));
       
       res.json(safeMediaFiles);
@@ -1015,7 +1080,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const fileId = parseInt(req.params.id);
       const mediaFile = await storage.getMediaFile(fileId);
       
-      if (!mediaFile) {
+      // Trashed content is only served to admins until it's restored
+      if (!mediaFile || (mediaFile.deletedAt && req.user!.role !== 'admin')) {
         return res.status(404).json({ message: "File not found" });
       }
       
@@ -1024,8 +1090,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Unauthorized access to this file" });
       }
       
-      // Serve the file
-      res.sendFile(mediaFile.storagePath);
+      // Hand out a short-lived signed URL instead of streaming through the app server
+      res.redirect(await objectStorage.getSignedUrl(mediaFile.storagePath));
       
     } catch (error) {
       console.error("Serve content file error:", error);
@@ -1033,13 +1099,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // The upload as received, still carrying its EXIF/device metadata, admins only
+  app.get("/api/content/original/:id", validateSession, validateAdmin, async (req, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const mediaFile = await storage.getMediaFile(fileId);
+      
+      if (!mediaFile) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      // Uploads from before metadata scrubbing have no separate original, the stored file is the upload as received
+      res.redirect(await objectStorage.getSignedUrl(mediaFile.originalPath ?? mediaFile.storagePath));
+      
+    } catch (error) {
+      console.error("Serve original file error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
   // Secure thumbnail serving
   app.get("/api/content/thumbnail/:id", validateSession, async (req, res) => {
     try {
       const fileId = parseInt(req.params.id);
       const mediaFile = await storage.getMediaFile(fileId);
       
-      if (!mediaFile || !mediaFile.thumbnailPath) {
+      // Trashed content is only served to admins until it's restored
+      if (!mediaFile || !mediaFile.thumbnailPath || (mediaFile.deletedAt && req.user!.role !== 'admin')) {
         return res.status(404).json({ message: "Thumbnail not found" });
       }
       
@@ -1049,13 +1135,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Serve the thumbnail
-      res.sendFile(mediaFile.thumbnailPath);
+      res.redirect(await objectStorage.getSignedUrl(mediaFile.thumbnailPath));
       
     } catch (error) {
       console.error("Serve thumbnail error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
+  
+  // Secure preview serving (resized image or short video clip)
+  app.get("/api/content/preview/:id", validateSession, async (req, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const mediaFile = await storage.getMediaFile(fileId);
+      
+      // Trashed content is only served to admins until it's restored
+      if (!mediaFile || !mediaFile.previewPath || (mediaFile.deletedAt && req.user!.role !== 'admin')) {
+        return res.status(404).json({ message: "Preview not found" });
+      }
+      
+      // Access control: Only allow access to user's own files or admin access
+      if (mediaFile.userId !== req.user!.id && req.user!.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized access to this preview" });
+      }
+      
+      // Serve the preview
+      res.redirect(await objectStorage.getSignedUrl(mediaFile.previewPath));
+      
+    } catch (error) {
+      console.error("Serve preview error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Signed download URLs for the local disk storage backend
+  // No session check here: the signature was issued after the access check and expires quickly
+  app.get("/api/storage/local", async (req, res) => {
+    try {
+      const { key, expires, signature } = req.query;
+      const filePath = verifyLocalSignedUrl(String(key || ""), parseInt(String(expires || "0")), String(signature || ""));
+      
+      if (!filePath) {
+        return res.status(403).json({ message: "Invalid or expired download link" });
+      }
+      
+      if (!fs.existsSync(filePath)) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      // Files are served from the app's own origin, so nothing may be sniffed or rendered as a page:
+      // markup such as SVG originals is downloaded instead of shown
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      if (ACTIVE_CONTENT_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) {
+        res.attachment(path.basename(filePath));
+      }
+      res.sendFile(filePath);
+    } catch (error) {
+      console.error("Serve signed file error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
   app.get("/api/content/user/:userId", validateSession, async (req, res) => {
     try {
@@ -1067,7 +1206,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const mediaFiles = await storage.getMediaFilesByUserId(userId);
-      res.json(mediaFiles);
+      // Where the unscrubbed original is kept is only shown to admins
+      res.json(req.user!.role === "admin" ? mediaFiles : mediaFiles.map(({ originalPath, ...file }) => file));
     } catch (error) {
       console.error("Get content error:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -1088,21 +1228,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      await storage.deleteMediaFile(mediaId);
-      
-      // Delete the actual file (in a real app this would be from a storage service)
-      if (fs.existsSync(mediaFile.storagePath)) {
-        fs.unlinkSync(mediaFile.storagePath);
+      if (mediaFile.deletedAt) {
+        return res.status(409).json({ message: "File is already in the trash" });
       }
       
-      res.json({ message: "File deleted successfully" });
+      // The file stays restorable from the trash until the retention job purges it
+      const trashedFile = await moveToTrash(mediaFile, req.user!.id);
+      
+      res.json({ message: "File moved to trash", purgeAfter: trashedFile.purgeAfter });
     } catch (error) {
       console.error("Delete content error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Payment routes (Stripe)
+  // Storage and upload usage against the user's plan
+  app.get("/api/usage", validateSession, async (req, res) => {
+    try {
+      res.json(await getUsageSummary(req.user!));
+    } catch (error) {
+      console.error("Get usage error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Payment routes (Stripe), a local binding so the check below holds inside the handlers
+  const stripe = stripeClient;
   if (stripe) {
     app.post("/api/create-payment-intent", validateSession, async (req, res) => {
       try {
@@ -1242,8 +1393,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
             price: planId,
           }],
           payment_behavior: 'default_incomplete',
-          expand: ['latest_invoice.payment_intent'],
+          expand: ['latest_invoice.confirmation_secret'],
         });
+        // Billing periods are kept per subscription item
+        const [subscriptionItem] = subscription.items.data;
         
         // Update user with subscription ID
         await storage.updateUser(req.user.id, {
@@ -1256,13 +1409,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           planType: getPlanTypeFromPriceId(planId),
           stripeSubscriptionId: subscription.id,
           status: subscription.status,
-          startDate: new Date(subscription.current_period_start * 1000),
-          endDate: new Date(subscription.current_period_end * 1000)
+          startDate: new Date(subscriptionItem.current_period_start * 1000),
+          endDate: new Date(subscriptionItem.current_period_end * 1000)
         });
         
         res.json({
           subscriptionId: subscription.id,
-          clientSecret: (subscription.latest_invoice as any)?.payment_intent?.client_secret,
+          clientSecret: typeof subscription.latest_invoice === 'object'
+            ? subscription.latest_invoice?.confirmation_secret?.client_secret
+            : undefined,
         });
       } catch (error: any) {
         console.error("Create subscription error:", error);
@@ -1299,7 +1454,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             const enhancedSubscription = {
               ...subscription,
               status: stripeSubscription.status,
-              currentPeriodEnd: new Date(stripeSubscription.current_period_end * 1000),
+              currentPeriodEnd: new Date(stripeSubscription.items.data[0].current_period_end * 1000),
               defaultPaymentMethod: paymentMethod ? {
                 brand: paymentMethod.card.brand,
                 last4: paymentMethod.card.last4,
@@ -1400,7 +1555,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/analytics/:userId", validateSession, validateAdmin, async (req, res) => {
     try {
       const { userId } = req.params;
-      const analyticsData = req.body;
+      const analyticsData = withoutRollupFields(req.body);
       
       // Validate input data
       const validatedData = insertAnalyticsSchema.parse({
@@ -1421,10 +1576,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Recompute a client's appointment figures now instead of waiting for the rollup job
+  app.post("/api/analytics/:userId/rollup", validateSession, validateAdmin, async (req, res) => {
+    try {
+      const analytics = await rollupClientAnalytics(parseInt(req.params.userId));
+      res.json(analytics);
+    } catch (error) {
+      console.error("Analytics rollup error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
   app.put("/api/analytics/:id", validateSession, validateAdmin, async (req, res) => {
     try {
       const { id } = req.params;
-      const analyticsData = req.body;
+      const analyticsData = withoutRollupFields(req.body);
       
       // Verify analytics record exists
       const existingAnalytics = await storage.getAnalytics(parseInt(id));
@@ -1453,18 +1619,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Client not found" });
       }
       
-      // Create appointment proposal with date and time combined
-      const appointment = await storage.createAppointment({
+      const startsAt = new Date(appointmentDate);
+      if (isNaN(startsAt.getTime()) || !(Number(duration) > 0)) {
+        return res.status(400).json({ message: "A valid appointment date and duration are required" });
+      }
+      
+      const depositPolicy = depositPolicySchema.safeParse(req.body);
+      if (!depositPolicy.success) {
+        return res.status(400).json({ message: "Invalid deposit or cancellation policy", errors: depositPolicy.error.format() });
+      }
+      
+      // A standing booking repeats weekly or every other week, each occurrence becomes its own appointment
+      const recurrence = req.body.recurrence ? recurrenceRuleSchema.safeParse(req.body.recurrence) : null;
+      if (recurrence && !recurrence.success) {
+        return res.status(400).json({ message: "Invalid recurrence", errors: recurrence.error.format() });
+      }
+      
+      // Who is booking the client, screened against the client's rules once the appointment exists
+      const booker = bookerDetailsSchema.safeParse(req.body);
+      if (!booker.success) {
+        return res.status(400).json({ message: "Invalid booker details", errors: booker.error.format() });
+      }
+      
+      // Proposed from a request sent through the client's public booking page
+      const bookingRequest = req.body.bookingRequestId ? await storage.getBookingRequest(parseInt(req.body.bookingRequestId)) : undefined;
+      if (req.body.bookingRequestId && (!bookingRequest || bookingRequest.clientId !== client.id)) {
+        return res.status(404).json({ message: "Booking request not found" });
+      }
+      if (bookingRequest && bookingRequest.status !== 'new') {
+        return res.status(409).json({ message: `The booking request is already ${bookingRequest.status}` });
+      }
+      
+      const proposal = {
         adminId: req.user.id,
         clientId: parseInt(clientId),
-        appointmentDate: new Date(appointmentDate),
         duration,
         location,
         details,
         amount,
         photoUrl,
-        notificationMethod
-      });
+        notificationMethod,
+        ...depositPolicyFields(depositPolicy.data),
+        ...bookerDetailsFields(booker.data)
+      };
+      
+      let created;
+      let seriesDescription = '';
+      if (recurrence) {
+        // Every occurrence has to fit the client's availability, not just the first
+        const plan = await planSeries(client.id, startsAt, Number(duration), recurrence.data);
+        const planError = getSeriesPlanError(plan, startsAt);
+        if (planError) {
+          return res.status(400).json({ message: planError });
+        }
+        if (!enforceSeriesAvailability(res, plan.occurrences)) {
+          return;
+        }
+        
+        created = await createSeries(proposal, recurrence.data, plan);
+        seriesDescription = plan.description;
+      } else {
+        // Don't double-book the client or propose a time outside their availability
+        if (!(await enforceSlotAvailability(res, client.id, startsAt, Number(duration)))) {
+          return;
+        }
+        
+        // Create appointment proposal with date and time combined
+        const appointment = await storage.createAppointment({ ...proposal, appointmentDate: new Date(appointmentDate) });
+        
+        // First entry of the negotiation history
+        await recordProposal(appointment);
+        created = { series: null, appointments: [appointment] };
+      }
+      
+      if (bookingRequest) {
+        await storage.updateBookingRequest(bookingRequest.id, {
+          status: 'proposed',
+          appointmentId: created.appointments[0].id,
+          reviewedBy: req.user!.id,
+          reviewedAt: new Date()
+        });
+      }
+      
+      // Apply the client's screening rules, approving what passes if they approve automatically
+      const screenings = [];
+      for (const createdAppointment of created.appointments) {
+        screenings.push(await screenAppointment(createdAppointment));
+      }
+      const autoApproved = screenings.every(screening => screening.autoApproved);
+      const appointment = screenings[0].appointment;
+      const reviewReasons = screenings.find(screening => !screening.autoApproved)?.appointment.screeningReasons as string[] | undefined;
+      publishAppointmentUpdate(screenings.map(screening => screening.appointment));
       
       // Format appointment details for notifications
       const formattedDate = new Date(appointmentDate).toLocaleDateString('en-US', {
@@ -1476,26 +1721,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         minute: 'numeric'
       });
       
-      const appointmentSummary = `New appointment proposal for ${formattedDate} at ${location}. Duration: ${duration} minutes. Amount: $${amount}.`;
+      const appointmentSummary = (created.series
+        ? `New standing appointment proposal: ${seriesDescription}, starting ${formattedDate} at ${location}.`
+        : `New appointment proposal for ${formattedDate} at ${location}.`) +
+        ` Duration: ${duration} minutes. Amount: $${amount}.` +
+        (appointment.depositCents
+          ? ` A ${formatCents(appointment.depositCents)} deposit is due when you approve${created.series ? ' each appointment' : ''}.`
+          : '') +
+        (autoApproved
+          ? ' It meets your screening rules and was approved automatically.'
+          : reviewReasons?.length ? ` Needs your review: ${reviewReasons.join('; ')}.` : '');
+      const nextStep = autoApproved
+        ? 'Log in to your account to view the appointment.'
+        : 'Please log in to your account to approve or decline this appointment.';
       
       // Send notifications based on selected methods
       if (notificationMethod === 'email' || notificationMethod === 'all') {
         // Implement email notification with SendGrid
         try {
-          await sendEmail({
-            to: client.email,
-            from: 'appointments@managethefans.com',
-            subject: 'New Appointment Proposal',
-            text: `${appointmentSummary}\n\nPlease log in to your account to approve or decline this appointment.`,
-            html: `
+          // Tentative in the client's calendar until they accept
+          const invitation = await createAppointmentIcsAttachment(created.series ? created.appointments : appointment, client.id, 'REQUEST');
+          await sendEmail(
+            client.email,
+            'New Appointment Proposal',
+            `${appointmentSummary}\n\n${nextStep}`,
+            `
               <div style="font-family: Arial, sans-serif; color: #333;">
                 <h2>New Appointment Proposal</h2>
                 <p>${appointmentSummary}</p>
-                <p>Please log in to your account to approve or decline this appointment.</p>
+                <p>${nextStep}</p>
                 <a href="${process.env.APP_URL || 'http://localhost:5000'}/appointments" style="background-color: #0ea5e9; color: white; padding: 10px 15px; text-decoration: none; border-radius: 4px; display: inline-block; margin-top: 15px;">View Appointment</a>
               </div>
-            `
-          });
+            `,
+            [invitation]
+          );
           
           console.log(`Email notification sent to ${client.email} about appointment ${appointment.id}`);
         } catch (emailError) {
@@ -1546,9 +1805,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       // Mark notification as sent
-      await storage.updateAppointment(appointment.id, { notificationSent: true });
+      const notified = await Promise.all(
+        created.appointments.map(({ id }) => storage.updateAppointment(id, { notificationSent: true }))
+      );
       
-      res.status(201).json(appointment);
+      res.status(201).json(created.series ? { series: created.series, appointments: notified } : notified[0]);
     } catch (error) {
       console.error("Create appointment proposal error:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -1622,44 +1883,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Client responds to appointment proposal (approve/decline)
-  app.put("/api/appointments/:id/respond", validateSession, async (req, res) => {
-    try {
-      const appointmentId = parseInt(req.params.id);
-      const { status } = req.body;
-      
-      if (status !== 'approved' && status !== 'declined') {
-        return res.status(400).json({ message: "Status must be 'approved' or 'declined'" });
-      }
-      
-      const appointment = await storage.getAppointment(appointmentId);
-      
-      if (!appointment) {
-        return res.status(404).json({ message: "Appointment not found" });
-      }
-      
-      // Only allow the client to respond to their own appointment proposals
-      if (appointment.clientId !== req.user.id) {
-        return res.status(403).json({ message: "Forbidden" });
-      }
-      
-      const updatedAppointment = await storage.updateAppointment(appointmentId, { status });
-      
-      // Notify admin about the client's response
-      await storage.createNotification({
-        userId: appointment.adminId,
-        type: 'appointment',
-        content: `Client ${req.user.fullName} has ${status} your appointment proposal.`,
-        deliveryMethod: 'in-app'
-      });
-      
-      res.json(updatedAppointment);
-    } catch (error) {
-      console.error("Respond to appointment error:", error);
-      res.status(500).json({ message: "Internal server error" });
-    }
-  });
-
   // Get a specific appointment
   app.get("/api/appointments/:id", validateSession, async (req, res) => {
     try {
@@ -1755,7 +1978,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 // Messages routes
   app.post("/api/messages", validateSession, async (req, res) => {
     try {
-      const { conversationId, content, attachments } = req.body;
+      const { conversationId, content = "", attachmentIds } = req.body;
       
       // Check if user is part of the conversation
       const isParticipant = await storage.isUserInConversation(req.user.id, parseInt(conversationId));
@@ -1764,18 +1987,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You are not part of this conversation" });
       }
       
+      // Attachments are uploaded first, the message claims them by ID
+      const attachments = await enforceMessageAttachments(res, req.user!.id, parseInt(conversationId), attachmentIds);
+      if (!attachments) {
+        return;
+      }
+      if (typeof content !== "string" || (!content.trim() && attachments.length === 0)) {
+        return res.status(400).json({ message: "A message needs text or an attachment" });
+      }
+      
+      // Messages must respect the do-not-say lists of everyone else in the conversation
+      const recipientIds = (await storage.getConversationParticipantIds(parseInt(conversationId)))
+        .filter(id => id !== req.user!.id);
+      if (!(await enforceDoNotSay(req, res, recipientIds, { content }, "message", parseInt(conversationId)))) {
+        return;
+      }
+      
       const message = await storage.createMessage({
         conversationId: parseInt(conversationId),
         senderId: req.user.id,
         content,
-        attachments
+        attachments: attachments.length > 0 ? attachments.map(serializeAttachment) : null
       });
+      for (const attachment of attachments) {
+        await storage.updateMessageAttachment(attachment.id, { messageId: message.id });
+      }
       
       // Update the conversation with the last message preview
+      const preview = content || (attachments.length === 1 ? `Sent ${attachments[0].fileName}` : `Sent ${attachments.length} attachments`);
       await storage.updateConversation(parseInt(conversationId), {
-        lastMessagePreview: content.substring(0, 50) + (content.length > 50 ? "..." : "")
+        lastMessagePreview: preview.substring(0, 50) + (preview.length > 50 ? "..." : "")
       });
       
+      await publishMessage(message, req.user!);
+      
       res.status(201).json(message);
     } catch (error) {
       console.error("Create message error:", error);
@@ -1822,6 +2067,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Only mark as read if the user is not the sender
       if (message.senderId !== req.user.id) {
         await storage.markMessageAsRead(messageId);
+        await publishReadReceipt(message, req.user!);
       }
       
       res.json({ success: true });
@@ -2029,15 +2275,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "File not found" });
       }
       
-      await storage.updateMediaFile(mediaId, { status: "approved" });
+      if (mediaFile.status === "superseded") {
+        return res.status(409).json({ message: "A newer version of this content has been uploaded" });
+      }
       
-      // Notify the user
-      await storage.createNotification({
-        userId: mediaFile.userId,
-        type: "content",
-        content: `Your content "${mediaFile.title}" has been approved.`,
-        deliveryMethod: "in-app"
-      });
+      // Records the status history and notifies the user
+      await changeContentStatus(mediaFile, "approved", req.user!.id);
       
       res.json({ message: "Content approved successfully" });
     } catch (error) {
@@ -2046,6 +2289,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put("/api/admin/content/:id/request-changes", validateSession, validateAdmin, async (req, res) => {
+    try {
+      const mediaId = parseInt(req.params.id);
+      const { reason } = req.body;
+      
+      if (!reason || !reason.trim()) {
+        return res.status(400).json({ message: "Describe the changes you need" });
+      }
+      
+      const mediaFile = await storage.getMediaFile(mediaId);
+      
+      if (!mediaFile) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      if (mediaFile.status === "superseded") {
+        return res.status(409).json({ message: "A newer version of this content has been uploaded" });
+      }
+      
+      await changeContentStatus(mediaFile, "changes_requested", req.user!.id, reason.trim());
+      
+      res.json({ message: "Changes requested successfully" });
+    } catch (error) {
+      console.error("Request content changes error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   app.put("/api/admin/content/:id/reject", validateSession, validateAdmin, async (req, res) => {
     try {
       const mediaId = parseInt(req.params.id);
@@ -2057,15 +2328,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "File not found" });
       }
       
-      await storage.updateMediaFile(mediaId, { status: "rejected" });
+      if (mediaFile.status === "superseded") {
+        return res.status(409).json({ message: "A newer version of this content has been uploaded" });
+      }
       
-      // Notify the user
-      await storage.createNotification({
-        userId: mediaFile.userId,
-        type: "content",
-        content: `Your content "${mediaFile.title}" has been rejected. Reason: ${reason || "No reason provided."}`,
-        deliveryMethod: "in-app"
-      });
+      await changeContentStatus(mediaFile, "rejected", req.user!.id, reason);
       
       res.json({ message: "Content rejected successfully" });
     } catch (error) {
@@ -2096,6 +2363,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const existingSettings = await storage.getRentMenSettingsByUserId(req.user.id);
       
+      // The public booking page's address, the username unless the client picks one
+      if (rentMenData.publicBookingEnabled || rentMenData.publicBookingSlug) {
+        const slug = String(rentMenData.publicBookingSlug || existingSettings?.publicBookingSlug || req.user!.username).trim().toLowerCase();
+        if (!/^[a-z0-9][a-z0-9-]{2,39}$/.test(slug)) {
+          return res.status(400).json({ message: "The booking page address can use 3 to 40 letters, numbers and dashes" });
+        }
+        const taken = await storage.getRentMenSettingsByPublicSlug(slug);
+        if (taken && taken.userId !== req.user!.id) {
+          return res.status(409).json({ message: "That booking page address is taken" });
+        }
+        rentMenData.publicBookingSlug = slug;
+      }
+      
       if (existingSettings) {
         const updatedSettings = await storage.updateRentMenSettings(existingSettings.id, rentMenData);
         res.json(updatedSettings);
@@ -2644,6 +2924,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           .replace(/{{time}}/g, new Date().toLocaleTimeString());
       }
       
+      // Check the rendered text, placeholders can bring in terms the template itself doesn't contain
+      if (!(await enforceDoNotSay(req, res, [recipient.id], { subject, content }, "template", template.id))) {
+        return;
+      }
+      
       // Send the communication based on template type
       let status = "failed";
       let statusMessage = null;
@@ -2721,5 +3006,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  
+  // Real-time messages, typing indicators, read receipts, notifications and appointment updates
+  attachRealtimeGateway(httpServer, authMiddleware.sessionParser);
+  
   return httpServer;
 }
@@ -1,10 +1,19 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
 import { sendWelcomeEmail, sendVerificationEmail } from '../utils/email';
+import { sendSmsNotification } from '../utils/sms';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
 import { insertUserSchema } from '@shared/schema';
-import twilio from 'twilio';
+import multer from 'multer';
+import sharp from 'sharp';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { objectStorage, buildStorageKey } from '../utils/object-storage';
+import { DEFAULT_WATERMARK, WATERMARK_POSITIONS } from '../utils/media-export';
+import { getUsageSummary } from '../utils/plan-quotas';
+import { RETENTION_STATUSES } from '../utils/retention';
 
 // Initialize router
 const router = Router();
@@ -20,6 +29,30 @@ function ensureAdmin(req: Request, res: Response, next: Function) {
 // Apply admin check to all routes in this router
 router.use(ensureAdmin);
 
+// Watermark logos are small, they're kept in memory and converted to PNG before storing
+const logoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    cb(null, file.mimetype.startsWith('image/'));
+  }
+});
+
+const watermarkSettingsSchema = z.object({
+  enabled: z.boolean(),
+  type: z.enum(['text', 'logo']),
+  text: z.string().trim().max(100).nullable().optional(),
+  position: z.enum(WATERMARK_POSITIONS),
+  opacity: z.number().min(0.05).max(1),
+  scale: z.number().min(0.05).max(0.9),
+});
+
+const retentionRuleSchema = z.object({
+  status: z.enum(RETENTION_STATUSES),
+  afterDays: z.number().int().min(1).max(3650),
+  enabled: z.boolean().optional(),
+});
+
 // Get all users
 router.get('/users', async (req: Request, res: Response) => {
   try {
@@ -217,15 +250,229 @@ router.get('/invoices', async (req: Request, res: Response) => {
 // Get all media files
 router.get('/media-files', async (req: Request, res: Response) => {
   try {
-    // This endpoint would get all media files from the database
-    // For now, we'll return an empty array as a placeholder
-    res.json([]);
+    const users = await storage.getAllUsers();
+    const mediaByUser = await Promise.all(
+      users.map(async user => {
+        const files = await storage.getMediaFilesByUserId(user.id);
+        return files.map(({ storagePath, originalPath, thumbnailPath, previewPath, contentHash, perceptualHash, ...file }) => ({
+          ...file,
+          createdAt: file.uploadDate,
+          user: {
+            id: user.id,
+            username: user.username,
+            fullName: user.fullName
+          },
+          // Lightweight derived assets for browsing, the original is only fetched on demand
+          url: `/api/content/file/${file.id}`,
+          thumbnailUrl: thumbnailPath ? `/api/content/thumbnail/${file.id}` : null,
+          previewUrl: previewPath ? `/api/content/preview/${file.id}` : null,
+          originalUrl: originalPath ? `/api/content/original/${file.id}` : null
+        }));
+      })
+    );
+    
+    res.json(mediaByUser.flat());
   } catch (error) {
     console.error('Error fetching media files:', error);
     res.status(500).json({ message: 'Error fetching media files' });
   }
 });
 
+// Get a client's watermark settings, or the defaults if none were saved yet
+router.get('/clients/:id/watermark', async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.id);
+    const settings = await storage.getWatermarkSettingsByUserId(clientId);
+
+    res.json(settings ?? { ...DEFAULT_WATERMARK, userId: clientId });
+  } catch (error) {
+    console.error('Error fetching watermark settings:', error);
+    res.status(500).json({ message: 'Error fetching watermark settings' });
+  }
+});
+
+// Save a client's watermark settings
+router.put('/clients/:id/watermark', async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.id);
+    const client = await storage.getUser(clientId);
+    if (!client) {
+      return res.status(404).json({ message: 'Client not found' });
+    }
+
+    const result = watermarkSettingsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid watermark settings', errors: result.error.format() });
+    }
+
+    const existing = await storage.getWatermarkSettingsByUserId(clientId);
+    if (result.data.enabled && result.data.type === 'text' && !result.data.text) {
+      return res.status(400).json({ message: 'Enter the watermark text' });
+    }
+    if (result.data.enabled && result.data.type === 'logo' && !existing?.logoPath) {
+      return res.status(400).json({ message: 'Upload a logo before using it as the watermark' });
+    }
+
+    const data = { ...result.data, text: result.data.text || null, updatedBy: req.user!.id };
+    const settings = existing
+      ? await storage.updateWatermarkSettings(existing.id, data)
+      : await storage.createWatermarkSettings({ ...data, userId: clientId });
+
+    res.json(settings);
+  } catch (error) {
+    console.error('Error saving watermark settings:', error);
+    res.status(500).json({ message: 'Error saving watermark settings' });
+  }
+});
+
+// Upload the logo used as a client's watermark
+router.post('/clients/:id/watermark/logo', logoUpload.single('logo'), async (req: Request, res: Response) => {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mtf-logo-'));
+  try {
+    const clientId = parseInt(req.params.id);
+    const client = await storage.getUser(clientId);
+    if (!client) {
+      return res.status(404).json({ message: 'Client not found' });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ message: 'Upload an image file' });
+    }
+
+    // Stored as PNG so transparency is kept and no metadata from the original file comes along
+    const fileName = `logo-${Date.now()}.png`;
+    const logoFile = path.join(workDir, fileName);
+    try {
+      await sharp(req.file.buffer).rotate().png().toFile(logoFile);
+    } catch (error) {
+      return res.status(400).json({ message: 'The logo could not be read as an image' });
+    }
+
+    const logoPath = buildStorageKey(clientId, fileName, 'watermark');
+    await objectStorage.storeFile(logoPath, logoFile, 'image/png');
+
+    const existing = await storage.getWatermarkSettingsByUserId(clientId);
+    const settings = existing
+      ? await storage.updateWatermarkSettings(existing.id, { logoPath, type: 'logo', updatedBy: req.user!.id })
+      : await storage.createWatermarkSettings({ userId: clientId, type: 'logo', logoPath, updatedBy: req.user!.id });
+
+    if (existing?.logoPath) {
+      await objectStorage.delete(existing.logoPath);
+    }
+
+    res.json(settings);
+  } catch (error) {
+    console.error('Error uploading watermark logo:', error);
+    res.status(500).json({ message: 'Error uploading watermark logo' });
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+});
+
+// Preview of a client's watermark logo
+router.get('/clients/:id/watermark/logo', async (req: Request, res: Response) => {
+  try {
+    const settings = await storage.getWatermarkSettingsByUserId(parseInt(req.params.id));
+    if (!settings?.logoPath) {
+      return res.status(404).json({ message: 'No logo uploaded' });
+    }
+
+    res.redirect(await objectStorage.getSignedUrl(settings.logoPath));
+  } catch (error) {
+    console.error('Error serving watermark logo:', error);
+    res.status(500).json({ message: 'Error serving watermark logo' });
+  }
+});
+
+// A client's storage and upload usage against their plan
+router.get('/clients/:id/usage', async (req: Request, res: Response) => {
+  try {
+    const client = await storage.getUser(parseInt(req.params.id));
+    if (!client) {
+      return res.status(404).json({ message: 'Client not found' });
+    }
+
+    res.json(await getUsageSummary(client));
+  } catch (error) {
+    console.error('Error fetching storage usage:', error);
+    res.status(500).json({ message: 'Error fetching storage usage' });
+  }
+});
+
+// Get a client's retention rules
+router.get('/clients/:id/retention-rules', async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.getRetentionRulesByUserId(parseInt(req.params.id)));
+  } catch (error) {
+    console.error('Error fetching retention rules:', error);
+    res.status(500).json({ message: 'Error fetching retention rules' });
+  }
+});
+
+// Add a rule that moves a client's content to the trash after it has had a status for some days
+router.post('/clients/:id/retention-rules', async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.id);
+    const client = await storage.getUser(clientId);
+    if (!client) {
+      return res.status(404).json({ message: 'Client not found' });
+    }
+
+    const result = retentionRuleSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid retention rule', errors: result.error.format() });
+    }
+
+    // One rule per status keeps it clear which one applies
+    const rules = await storage.getRetentionRulesByUserId(clientId);
+    if (rules.some(rule => rule.status === result.data.status)) {
+      return res.status(409).json({ message: 'This client already has a rule for that status' });
+    }
+
+    const rule = await storage.createRetentionRule({ ...result.data, userId: clientId, createdBy: req.user!.id });
+    res.status(201).json(rule);
+  } catch (error) {
+    console.error('Error creating retention rule:', error);
+    res.status(500).json({ message: 'Error creating retention rule' });
+  }
+});
+
+// Change how long a retention rule waits, or turn it on or off
+router.patch('/retention-rules/:id', async (req: Request, res: Response) => {
+  try {
+    const rule = await storage.getRetentionRule(parseInt(req.params.id));
+    if (!rule) {
+      return res.status(404).json({ message: 'Retention rule not found' });
+    }
+
+    const result = retentionRuleSchema.omit({ status: true }).partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid retention rule', errors: result.error.format() });
+    }
+
+    res.json(await storage.updateRetentionRule(rule.id, result.data));
+  } catch (error) {
+    console.error('Error updating retention rule:', error);
+    res.status(500).json({ message: 'Error updating retention rule' });
+  }
+});
+
+// Remove a retention rule, content it already trashed stays in the trash
+router.delete('/retention-rules/:id', async (req: Request, res: Response) => {
+  try {
+    const rule = await storage.getRetentionRule(parseInt(req.params.id));
+    if (!rule) {
+      return res.status(404).json({ message: 'Retention rule not found' });
+    }
+
+    await storage.deleteRetentionRule(rule.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting retention rule:', error);
+    res.status(500).json({ message: 'Error deleting retention rule' });
+  }
+});
+
 // Send welcome email to client
 router.post('/send-welcome-email', async (req: Request, res: Response) => {
   try {
@@ -270,22 +517,6 @@ router.post('/send-verification-email', async (req: Request, res: Response) => {
   }
 });
 
-// Function to format phone number for Twilio
-function formatPhoneNumber(phoneNumber: string): string {
-  // Remove all non-numeric characters
-  const digitsOnly = phoneNumber.replace(/\D/g, '');
-  
-  // Ensure it has country code, add +1 (US) if needed
-  if (digitsOnly.length === 10) {
-    return `+1${digitsOnly}`;
-  } else if (digitsOnly.length > 10 && !phoneNumber.startsWith('+')) {
-    return `+${digitsOnly}`;
-  }
-  
-  // If already has +, just return the cleaned version
-  return phoneNumber.startsWith('+') ? phoneNumber : `+${digitsOnly}`;
-}
-
 // Send SMS notification to client
 router.post('/send-sms', async (req: Request, res: Response) => {
   try {
@@ -295,28 +526,9 @@ router.post('/send-sms', async (req: Request, res: Response) => {
       return res.status(400).json({ message: 'Phone number and message are required' });
     }
     
-    // Initialize Twilio client
-    const twilioAccountSid = process.env.TWILIO_ACCOUNT_SID;
-    const twilioAuthToken = process.env.TWILIO_AUTH_TOKEN;
-    const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER;
-    
-    if (!twilioAccountSid || !twilioAuthToken || !twilioPhoneNumber) {
-      console.warn("Twilio not configured. SMS not sent.");
-      return res.status(500).json({ success: false, message: 'Twilio not configured' });
+    if (!(await sendSmsNotification(phone, message))) {
+      return res.status(500).json({ success: false, message: 'Error sending SMS' });
     }
-    
-    const twilioClient = twilio(twilioAccountSid, twilioAuthToken);
-    
-    // Format the phone number for Twilio
-    const formattedNumber = formatPhoneNumber(phone);
-    
-    const result = await twilioClient.messages.create({
-      body: message,
-      from: twilioPhoneNumber,
-      to: formattedNumber
-    });
-    
-    console.log(`SMS sent successfully: ${result.sid}`);
     res.json({ success: true, message: 'SMS sent successfully' });
   } catch (error) {
     console.error("Error sending SMS:", error);
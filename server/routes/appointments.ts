@@ -2,69 +2,798 @@ import { Router, Request, Response } from "express";
 import { storage } from "../storage";
 import { z } from "zod";
 import { format } from "date-fns";
-import twilio from "twilio";
-import { InsertCommunicationHistory } from "@shared/schema";
+import { Appointment, AppointmentRevision, AppointmentSeries, InsertCommunicationHistory } from "@shared/schema";
+import { checkSlotAvailability, enforceSlotAvailability, findOpenSlots } from "../utils/availability";
+import { recurrenceRuleSchema } from "../utils/recurrence";
+import {
+  applySeriesChanges,
+  describeSeries,
+  enforceSeriesAvailability,
+  getCancellableOccurrences,
+  getSeriesPlanError,
+  planSeries,
+  planSeriesChanges,
+} from "../utils/appointment-series";
+import { sendEmail } from "../utils/email";
+import { sendSmsNotification } from "../utils/sms";
+import { stripe } from "../utils/stripe";
+import {
+  describeSettlement,
+  formatCents,
+  getCancellationTerms,
+  getDepositPaymentIntent,
+  isDepositOutstanding,
+  settleDeposit,
+  syncDepositPayment,
+} from "../utils/appointment-payments";
+import { AppointmentOutcome, getOutcomeError, recordAppointmentOutcome, rollupClientAnalytics } from "../utils/appointment-analytics";
+import { IcsMethod, createAppointmentIcsAttachment, getOrCreateCalendarFeed, regenerateCalendarFeed } from "../utils/ical";
+import { bookerDetailsFields, bookerDetailsSchema, screenAppointment } from "../utils/appointment-screening";
+import {
+  AppointmentParty,
+  AppointmentStatus,
+  AppointmentTerms,
+  CANCELLABLE_STATUSES,
+  acceptRevision,
+  canCounter,
+  cancelAppointment,
+  declineRevision,
+  describeTerms,
+  getAppointmentParty,
+  getAwaitingParty,
+  getOpenRevision,
+  otherParty,
+  proposeRevision,
+  termsOf,
+} from "../utils/appointment-negotiation";
+import { publishAppointmentUpdate, sendNotification } from "../utils/realtime";
 
 const router = Router();
 
-// Initialize Twilio if API keys exist
-const twilioAccountSid = process.env.TWILIO_ACCOUNT_SID;
-const twilioAuthToken = process.env.TWILIO_AUTH_TOKEN;
-const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER;
-let twilioClient: twilio.Twilio | undefined;
+// Longest range of open slots returned at once
+const MAX_SLOT_RANGE_DAYS = 31;
 
-if (twilioAccountSid && twilioAuthToken && twilioAccountSid.startsWith('AC')) {
-  try {
-    twilioClient = twilio(twilioAccountSid, twilioAuthToken);
-    console.log("Twilio client initialized in appointments routes");
-  } catch (error) {
-    console.error("Error initializing Twilio client:", error);
+const availabilityQuerySchema = z.object({
+  clientId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  duration: z.coerce.number().int().min(15).max(24 * 60).default(60),
+  step: z.coerce.number().int().min(5).max(240).optional(),
+  excludeAppointmentId: z.coerce.number().int().positive().optional(),
+}).refine(query => query.to > query.from, { message: "The range must end after it starts", path: ["to"] })
+  .refine(query => query.to.getTime() - query.from.getTime() <= MAX_SLOT_RANGE_DAYS * 24 * 60 * 60 * 1000, {
+    message: `The range can be at most ${MAX_SLOT_RANGE_DAYS} days`,
+    path: ["to"],
+  });
+
+const respondSchema = z.object({
+  status: z.enum(["approved", "declined"]),
+});
+
+const counterSchema = z.object({
+  appointmentDate: z.coerce.date().optional(),
+  duration: z.coerce.number().int().min(15).max(24 * 60).optional(),
+  location: z.string().trim().min(1).optional(),
+  amount: z.coerce.string().trim().optional(),
+  note: z.string().trim().max(1000).optional(),
+});
+
+const seriesPreviewSchema = z.object({
+  clientId: z.coerce.number().int().positive(),
+  appointmentDate: z.coerce.date(),
+  duration: z.coerce.number().int().min(15).max(24 * 60),
+  recurrence: recurrenceRuleSchema,
+});
+
+const seriesChangesSchema = z.object({
+  time: z.string().regex(/^([01]?\d|2[0-3]):[0-5]\d$/, "Enter the time as HH:mm").optional(),
+  duration: z.coerce.number().int().min(15).max(24 * 60).optional(),
+  location: z.string().trim().min(1).optional(),
+  amount: z.coerce.string().trim().optional(),
+  note: z.string().trim().max(1000).optional(),
+});
+
+const outcomeSchema = z.object({
+  actualDuration: z.coerce.number().int().min(0).max(24 * 60).optional(),
+  amountCollectedCents: z.coerce.number().int().min(0).optional(),
+  notes: z.string().trim().max(2000).optional(),
+});
+
+// Tell one side of an appointment about the other side's move: in-app always, then email and SMS
+// as chosen when the appointment was proposed. Emails carry an .ics update when the calendar event changes.
+// A move on a standing booking passes every appointment it changed. Both sides' open pages reload them.
+async function notifyAppointmentParty(
+  appointments: Appointment | Appointment[],
+  party: AppointmentParty,
+  title: string,
+  content: string,
+  calendarMethod?: IcsMethod
+) {
+  const appointment = Array.isArray(appointments) ? appointments[0] : appointments;
+  const recipientId = party === "admin" ? appointment.adminId : appointment.clientId;
+  publishAppointmentUpdate(appointments);
+  const recipient = await storage.getUser(recipientId);
+  if (!recipient) return;
+
+  await sendNotification({
+    recipientId,
+    type: "appointment",
+    title,
+    content,
+    link: party === "admin" ? "/admin/appointments" : "/appointments",
+  });
+
+  const method = appointment.notificationMethod;
+  if ((method === "email" || method === "all") && recipient.email) {
+    const attachments = calendarMethod ? [await createAppointmentIcsAttachment(appointments, recipientId, calendarMethod)] : undefined;
+    await sendEmail(recipient.email, title, `${content}\n\nPlease log in to your account to respond.`, undefined, attachments);
+  }
+  if ((method === "sms" || method === "all") && recipient.phone) {
+    await sendSmsNotification(recipient.phone, `ManageTheFans: ${content}`);
   }
-} else {
-  console.warn("Twilio credentials missing or invalid in appointments routes. SMS functionality will be unavailable.");
 }
 
-// Utility to format phone number for Twilio
-function formatPhoneNumber(phoneNumber: string): string {
-  // Remove all non-numeric characters
-  const digitsOnly = phoneNumber.replace(/\D/g, '');
-  
-  // Ensure it has country code, add +1 (US) if needed
-  if (digitsOnly.length === 10) {
-    return `+1${digitsOnly}`;
-  } else if (digitsOnly.length > 10 && !phoneNumber.startsWith('+')) {
-    return `+${digitsOnly}`;
-  }
-  
-  // If already has +, just return the cleaned version
-  return phoneNumber.startsWith('+') ? phoneNumber : `+${digitsOnly}`;
+// Load an appointment the current user is part of, or respond with an error
+async function getNegotiableAppointment(req: Request, res: Response): Promise<{ appointment: Appointment; party: AppointmentParty } | undefined> {
+  const appointment = await storage.getAppointment(parseInt(req.params.id));
+  if (!appointment) {
+    res.status(404).json({ message: "Appointment not found" });
+    return undefined;
+  }
+
+  const party = getAppointmentParty(appointment, req.user!.id);
+  if (!party) {
+    res.status(403).json({ message: "Forbidden" });
+    return undefined;
+  }
+
+  return { appointment, party };
 }
 
-// Function to send SMS notifications
-async function sendSmsNotification(to: string, message: string): Promise<boolean> {
-  if (!twilioClient || !twilioPhoneNumber) {
-    console.warn("Twilio not configured. SMS not sent.");
-    return false;
+// Load a standing booking the current user is part of, or respond with an error
+async function getSeriesForParty(req: Request, res: Response): Promise<{ series: AppointmentSeries; party: AppointmentParty } | undefined> {
+  const series = await storage.getAppointmentSeries(parseInt(req.params.id));
+  if (!series) {
+    res.status(404).json({ message: "Standing booking not found" });
+    return undefined;
+  }
+
+  const party: AppointmentParty | null = series.adminId === req.user!.id ? "admin" : series.clientId === req.user!.id ? "client" : null;
+  if (!party) {
+    res.status(403).json({ message: "Forbidden" });
+    return undefined;
+  }
+
+  return { series, party };
+}
+
+// Whether accepting a revision would move the appointment to a different time
+function revisionMovesTime(appointment: Appointment, revision: AppointmentRevision): boolean {
+  return new Date(revision.appointmentDate).getTime() !== new Date(appointment.appointmentDate).getTime() ||
+    revision.duration !== appointment.duration;
+}
+
+// Accept or decline the terms waiting on the current user
+async function respondToAppointment(req: Request, res: Response, status: "approved" | "declined") {
+  const negotiable = await getNegotiableAppointment(req, res);
+  if (!negotiable) return;
+
+  const { appointment, party } = negotiable;
+  const openRevision = await getOpenRevision(appointment.id);
+  const awaitingParty = getAwaitingParty(appointment, openRevision);
+  if (!awaitingParty) {
+    return res.status(409).json({ message: `This appointment is ${appointment.status} and has nothing waiting for an answer` });
+  }
+  if (awaitingParty !== party) {
+    return res.status(409).json({ message: `This appointment is waiting on the ${awaitingParty}` });
   }
 
+  const name = req.user!.fullName;
+  if (status === "approved") {
+    // The deposit is paid through /:id/deposit, it has to have gone through before the booking is agreed
+    const current = await syncDepositPayment(appointment);
+    if (isDepositOutstanding(current)) {
+      const deposit = formatCents(current.depositCents!);
+      return res.status(402).json({
+        code: "DEPOSIT_REQUIRED",
+        message: party === "client"
+          ? `Pay the ${deposit} deposit to approve this appointment`
+          : `The client has to pay the ${deposit} deposit before the appointment can be approved`,
+        depositCents: current.depositCents,
+      });
+    }
+
+    // The slot may have been taken since the new time was proposed
+    if (openRevision && revisionMovesTime(current, openRevision) && !(await enforceSlotAvailability(
+      res, current.clientId, new Date(openRevision.appointmentDate), openRevision.duration, current.id
+    ))) {
+      return;
+    }
+
+    const updatedAppointment = await acceptRevision(current, req.user!.id);
+    await notifyAppointmentParty(
+      updatedAppointment,
+      otherParty(party),
+      "Appointment approved",
+      `${name} accepted the appointment on ${describeTerms(termsOf(updatedAppointment))}.`,
+      "REQUEST"
+    );
+    return res.json(updatedAppointment);
+  }
+
+  // A deposit paid while the terms were being worked out goes back in full
+  const current = appointment.status === "rescheduled" ? appointment : await syncDepositPayment(appointment);
+  const refund = appointment.status === "rescheduled" ? null : getCancellationTerms(current, "admin");
+  if (refund?.refundCents && !stripe) {
+    return res.status(503).json({ message: "The deposit can't be refunded because payments are not configured" });
+  }
+  const settledAppointment = refund ? await settleDeposit(current, refund) : current;
+
+  const updatedAppointment = await declineRevision(settledAppointment, req.user!.id);
+  await notifyAppointmentParty(
+    updatedAppointment,
+    otherParty(party),
+    appointment.status === "rescheduled" ? "Reschedule declined" : "Appointment declined",
+    appointment.status === "rescheduled"
+      ? `${name} declined the new terms. The appointment stays on ${describeTerms(termsOf(updatedAppointment))}.`
+      : `${name} declined the appointment on ${describeTerms(openRevision ? termsOf(openRevision) : termsOf(appointment))}.` +
+        describeSettlement(refund!),
+    appointment.status === "rescheduled" ? undefined : "CANCEL"
+  );
+  res.json(updatedAppointment);
+}
+
+function calendarFeedUrls(req: Request, token: string) {
+  const url = `${process.env.APP_URL || `${req.protocol}://${req.get("host")}`}/api/calendar-feed/${token}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:/, "webcal:") };
+}
+
+// The current user's iCal feed URL, created the first time it's asked for
+router.get("/calendar-feed", async (req: Request, res: Response) => {
   try {
-    // Format the phone number for Twilio
-    const formattedNumber = formatPhoneNumber(to);
-    
-    const result = await twilioClient.messages.create({
-      body: message,
-      from: twilioPhoneNumber,
-      to: formattedNumber
+    const feed = await getOrCreateCalendarFeed(req.user!.id);
+    res.json({ ...calendarFeedUrls(req, feed.token), updatedAt: feed.updatedAt });
+  } catch (error) {
+    console.error("Error fetching calendar feed:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// New feed URL for the current user, calendars subscribed to the old one stop updating
+router.post("/calendar-feed/regenerate", async (req: Request, res: Response) => {
+  try {
+    const feed = await regenerateCalendarFeed(req.user!.id);
+    res.json({ ...calendarFeedUrls(req, feed.token), updatedAt: feed.updatedAt });
+  } catch (error) {
+    console.error("Error regenerating calendar feed:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Open slots for a client in a date range, from their weekly availability, timezone and existing bookings.
+// Managers look up any client, clients their own slots.
+router.get("/availability", async (req: Request, res: Response) => {
+  try {
+    const result = availabilityQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid availability query", errors: result.error.format() });
+    }
+
+    const { clientId, from, to, duration, step, excludeAppointmentId } = result.data;
+    if (clientId && clientId !== req.user!.id && req.user!.role !== "admin") {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const targetId = clientId ?? req.user!.id;
+    if (!(await storage.getUser(targetId))) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+
+    res.json(await findOpenSlots(targetId, { from, to, duration, stepMinutes: step, excludeAppointmentId }));
+  } catch (error) {
+    console.error("Error finding open slots:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Every appointment a standing booking would expand to and whether the client can take each, before proposing it
+router.post("/series/preview", async (req: Request, res: Response) => {
+  try {
+    if (req.user!.role !== "admin") {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const result = seriesPreviewSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid standing booking", errors: result.error.format() });
+    }
+
+    const { clientId, appointmentDate, duration, recurrence } = result.data;
+    if (!(await storage.getUser(clientId))) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+
+    const plan = await planSeries(clientId, appointmentDate, duration, recurrence);
+    res.json({ ...plan, error: getSeriesPlanError(plan, appointmentDate) });
+  } catch (error) {
+    console.error("Error previewing appointment series:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// A standing booking and all its appointments, oldest first
+router.get("/series/:id", async (req: Request, res: Response) => {
+  try {
+    const found = await getSeriesForParty(req, res);
+    if (!found) return;
+
+    const { series } = found;
+    const appointments = await storage.getAppointmentsBySeriesId(series.id);
+    res.json({ ...series, description: describeSeries(series), appointments });
+  } catch (error) {
+    console.error("Error fetching appointment series:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Change every upcoming appointment of a standing booking. Appointments changed on their own keep their terms,
+// the rest go to the other party as counter-proposals or reschedules.
+router.patch("/series/:id", async (req: Request, res: Response) => {
+  try {
+    const result = seriesChangesSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid change to the standing booking", errors: result.error.format() });
+    }
+
+    const found = await getSeriesForParty(req, res);
+    if (!found) return;
+
+    const { series, party } = found;
+    if (series.status !== "active") {
+      return res.status(409).json({ message: "This standing booking has been cancelled" });
+    }
+
+    const { note, ...changes } = result.data;
+    const planned = await planSeriesChanges(series, changes);
+    if (planned.length === 0) {
+      return res.status(400).json({ message: "None of the upcoming appointments would change" });
+    }
+
+    const checks = planned.map(change => ({ start: change.terms.appointmentDate, appointmentId: change.appointment.id, conflict: change.conflict }));
+    if (!enforceSeriesAvailability(res, checks)) {
+      return;
+    }
+
+    const updated = await applySeriesChanges(series, changes, planned, req.user!.id, note);
+    await notifyAppointmentParty(
+      updated.appointments,
+      otherParty(party),
+      "Standing booking change requested",
+      `${req.user!.fullName} asked to change ${updated.appointments.length} upcoming appointments of the standing booking ` +
+        `(${describeSeries(updated.series)}), starting with ${describeTerms(planned[0].terms)}.` +
+        (note ? ` Note: ${note}` : "")
+    );
+    res.json(updated);
+  } catch (error) {
+    console.error("Error changing appointment series:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Accept every upcoming appointment of a standing booking that's waiting on the current user. Ones with a
+// deposit still to pay are skipped, the deposit is paid per appointment, and so are ones moving to a time
+// that's no longer free.
+router.post("/series/:id/accept", async (req: Request, res: Response) => {
+  try {
+    const found = await getSeriesForParty(req, res);
+    if (!found) return;
+
+    const { series, party } = found;
+    const now = new Date();
+    const accepted: Appointment[] = [];
+    const skipped: { appointmentId: number; message: string }[] = [];
+    for (const appointment of await storage.getAppointmentsBySeriesId(series.id)) {
+      const openRevision = await getOpenRevision(appointment.id);
+      if (new Date(appointment.appointmentDate) <= now || getAwaitingParty(appointment, openRevision) !== party) continue;
+
+      const current = await syncDepositPayment(appointment);
+      if (isDepositOutstanding(current)) {
+        skipped.push({ appointmentId: current.id, message: `The ${formatCents(current.depositCents!)} deposit has to be paid first` });
+        continue;
+      }
+      if (openRevision && revisionMovesTime(current, openRevision)) {
+        const conflict = await checkSlotAvailability(current.clientId, new Date(openRevision.appointmentDate), openRevision.duration, current.id);
+        if (conflict) {
+          skipped.push({ appointmentId: current.id, message: conflict.message });
+          continue;
+        }
+      }
+      accepted.push(await acceptRevision(current, req.user!.id));
+    }
+
+    if (accepted.length === 0 && skipped.length === 0) {
+      return res.status(409).json({ message: "Nothing in this standing booking is waiting on you" });
+    }
+
+    if (accepted.length > 0) {
+      await notifyAppointmentParty(
+        accepted,
+        otherParty(party),
+        "Standing booking approved",
+        `${req.user!.fullName} accepted ${accepted.length} appointments of the standing booking (${describeSeries(series)}).`,
+        "REQUEST"
+      );
+    }
+    res.json({ accepted, skipped });
+  } catch (error) {
+    console.error("Error accepting appointment series:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// End a standing booking: every upcoming appointment is cancelled, including ones changed on their own, and
+// deposits are settled as for a single cancellation
+router.patch("/series/:id/cancel", async (req: Request, res: Response) => {
+  try {
+    const found = await getSeriesForParty(req, res);
+    if (!found) return;
+
+    const { series, party } = found;
+    if (series.status !== "active") {
+      return res.status(409).json({ message: "This standing booking has already been cancelled" });
+    }
+
+    // Work out every refund before touching any, so missing payments leave the whole series as it was
+    const settlements = [];
+    for (const appointment of await getCancellableOccurrences(series)) {
+      const current = await syncDepositPayment(appointment);
+      settlements.push({ appointment: current, terms: getCancellationTerms(current, party) });
+    }
+    if (settlements.some(({ terms }) => terms.refundCents > 0) && !stripe) {
+      return res.status(503).json({ message: "Deposits can't be refunded because payments are not configured" });
+    }
+
+    const cancelled: Appointment[] = [];
+    for (const { appointment, terms } of settlements) {
+      cancelled.push(await cancelAppointment(await settleDeposit(appointment, terms), req.user!.id));
+    }
+    const updatedSeries = await storage.updateAppointmentSeries(series.id, { status: "cancelled" });
+
+    if (cancelled.length > 0) {
+      const total = settlements.reduce(
+        (sum, { terms }) => ({ ...sum, feeCents: sum.feeCents + terms.feeCents, refundCents: sum.refundCents + terms.refundCents }),
+        { feeCents: 0, refundCents: 0, freeUntil: null }
+      );
+      await notifyAppointmentParty(
+        cancelled,
+        otherParty(party),
+        "Standing booking cancelled",
+        `${req.user!.fullName} cancelled the standing booking (${describeSeries(series)}) and its ` +
+          `${cancelled.length} upcoming appointments.` + describeSettlement(total),
+        "CANCEL"
+      );
+    }
+    res.json({ series: updatedSeries, cancelled });
+  } catch (error) {
+    console.error("Error cancelling appointment series:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Every set of terms put forward for an appointment, oldest first, and whose turn it is
+router.get("/:id/revisions", async (req: Request, res: Response) => {
+  try {
+    const negotiable = await getNegotiableAppointment(req, res);
+    if (!negotiable) return;
+
+    const { appointment } = negotiable;
+    const revisions = await storage.getAppointmentRevisionsByAppointmentId(appointment.id);
+    const openRevision = revisions.filter(revision => revision.status === "open").pop();
+    res.json({ revisions, awaitingParty: getAwaitingParty(appointment, openRevision) });
+  } catch (error) {
+    console.error("Error fetching appointment revisions:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Either party answers a proposal with different terms, or moves an approved appointment
+router.post("/:id/counter", async (req: Request, res: Response) => {
+  try {
+    const result = counterSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid counter-proposal", errors: result.error.format() });
+    }
+
+    const negotiable = await getNegotiableAppointment(req, res);
+    if (!negotiable) return;
+
+    const { appointment, party } = negotiable;
+    const openRevision = await getOpenRevision(appointment.id);
+    if (!canCounter(appointment, party, openRevision)) {
+      const awaitingParty = getAwaitingParty(appointment, openRevision);
+      return res.status(409).json({
+        message: awaitingParty
+          ? `This appointment is waiting on the ${awaitingParty}`
+          : `A ${appointment.status} appointment can't be changed`,
+      });
+    }
+
+    // Counter against whatever is on the table, the agreed terms when rescheduling
+    const { note, ...changes } = result.data;
+    const current = termsOf(openRevision ?? appointment);
+    const terms: AppointmentTerms = {
+      appointmentDate: changes.appointmentDate ?? current.appointmentDate,
+      duration: changes.duration ?? current.duration,
+      location: changes.location ?? current.location,
+      amount: changes.amount ?? current.amount,
+    };
+
+    const unchanged = terms.appointmentDate.getTime() === current.appointmentDate.getTime() &&
+      terms.duration === current.duration && terms.location === current.location && terms.amount === current.amount;
+    if (unchanged) {
+      return res.status(400).json({ message: "Change the date, duration, location or amount to make a counter-proposal" });
+    }
+
+    const movesTime = terms.appointmentDate.getTime() !== current.appointmentDate.getTime() || terms.duration !== current.duration;
+    if (movesTime && !(await enforceSlotAvailability(res, appointment.clientId, terms.appointmentDate, terms.duration, appointment.id))) {
+      return;
+    }
+
+    // Changing one appointment of a standing booking leaves it out of later changes to the whole series
+    const target = appointment.seriesId && !appointment.detachedFromSeries
+      ? await storage.updateAppointment(appointment.id, { detachedFromSeries: true })
+      : appointment;
+    const { appointment: updatedAppointment, revision } = await proposeRevision(target, req.user!.id, terms, note);
+
+    const isReschedule = revision.kind === "reschedule";
+    await notifyAppointmentParty(
+      updatedAppointment,
+      otherParty(party),
+      isReschedule ? "Appointment reschedule requested" : "Appointment counter-proposal",
+      `${req.user!.fullName} ${isReschedule ? "asked to move the appointment to" : "proposed"} ${describeTerms(terms)}.` +
+        (note ? ` Note: ${note}` : "")
+    );
+
+    res.status(201).json({ appointment: updatedAppointment, revision });
+  } catch (error) {
+    console.error("Error countering appointment:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Accept the terms waiting on the current user
+router.post("/:id/accept", async (req: Request, res: Response) => {
+  try {
+    await respondToAppointment(req, res, "approved");
+  } catch (error) {
+    console.error("Error accepting appointment:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Decline the terms waiting on the current user, a declined reschedule keeps the agreed booking
+router.post("/:id/decline", async (req: Request, res: Response) => {
+  try {
+    await respondToAppointment(req, res, "declined");
+  } catch (error) {
+    console.error("Error declining appointment:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Start or resume paying an appointment's deposit, the client confirms the payment intent with Stripe Elements
+router.post("/:id/deposit", async (req: Request, res: Response) => {
+  try {
+    const negotiable = await getNegotiableAppointment(req, res);
+    if (!negotiable) return;
+
+    const { appointment, party } = negotiable;
+    if (party !== "client") {
+      return res.status(403).json({ message: "Only the client pays the deposit" });
+    }
+    if (!isDepositOutstanding(appointment)) {
+      return res.status(409).json({ message: appointment.depositCents ? "The deposit has already been paid" : "This appointment doesn't need a deposit" });
+    }
+    if (!["pending", "countered"].includes(appointment.status)) {
+      return res.status(409).json({ message: `This appointment is ${appointment.status} and can't take a deposit` });
+    }
+    if (!stripe) {
+      return res.status(503).json({ message: "Payments are not configured" });
+    }
+
+    const client = await storage.getUser(appointment.clientId);
+    const paymentIntent = await getDepositPaymentIntent(appointment, client!);
+    res.json({
+      clientSecret: paymentIntent.client_secret,
+      paymentIntentStatus: paymentIntent.status,
+      depositCents: appointment.depositCents,
+    });
+  } catch (error) {
+    console.error("Error creating appointment deposit:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// What cancelling now would cost the current user, to show before they confirm
+router.get("/:id/cancellation", async (req: Request, res: Response) => {
+  try {
+    const negotiable = await getNegotiableAppointment(req, res);
+    if (!negotiable) return;
+
+    const appointment = await syncDepositPayment(negotiable.appointment);
+    res.json({
+      ...getCancellationTerms(appointment, negotiable.party),
+      paymentStatus: appointment.paymentStatus,
+      depositCents: appointment.depositCents,
+      cancellationFeeCents: appointment.cancellationFeeCents,
     });
-    
-    console.log(`SMS sent successfully: ${result.sid}`);
-    return true;
   } catch (error) {
-    console.error("Error sending SMS:", error);
-    return false;
+    console.error("Error fetching cancellation terms:", error);
+    res.status(500).json({ message: "Internal server error" });
   }
+});
+
+// Call off an appointment, either party can while it's being negotiated or once it's agreed
+router.patch("/:id/cancel", async (req: Request, res: Response) => {
+  try {
+    const negotiable = await getNegotiableAppointment(req, res);
+    if (!negotiable) return;
+
+    const { appointment, party } = negotiable;
+    if (!CANCELLABLE_STATUSES.includes(appointment.status as AppointmentStatus)) {
+      return res.status(409).json({ message: `This appointment is ${appointment.status} and can no longer be cancelled` });
+    }
+
+    // Refund first, so a failed refund leaves the appointment as it was. A deposit paid but not yet
+    // recorded counts too.
+    const current = await syncDepositPayment(appointment);
+    const terms = getCancellationTerms(current, party);
+    if (terms.refundCents > 0 && !stripe) {
+      return res.status(503).json({ message: "The deposit can't be refunded because payments are not configured" });
+    }
+    const settledAppointment = await settleDeposit(current, terms);
+
+    const updatedAppointment = await cancelAppointment(settledAppointment, req.user!.id);
+    await notifyAppointmentParty(
+      updatedAppointment,
+      otherParty(party),
+      "Appointment cancelled",
+      `${req.user!.fullName} cancelled the appointment on ${describeTerms(termsOf(updatedAppointment))}.` +
+        describeSettlement(terms),
+      "CANCEL"
+    );
+    res.json({ ...updatedAppointment, cancellation: terms });
+  } catch (error) {
+    console.error("Error cancelling appointment:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Record that an appointment went ahead or that the client didn't turn up, admin only. Recording it again
+// corrects it.
+async function recordOutcome(req: Request, res: Response, outcome: AppointmentOutcome) {
+  const negotiable = await getNegotiableAppointment(req, res);
+  if (!negotiable) return;
+
+  const { appointment, party } = negotiable;
+  if (party !== "admin") {
+    return res.status(403).json({ message: "Only the admin records how an appointment went" });
+  }
+
+  const result = outcomeSchema.safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ message: "Invalid outcome", errors: result.error.format() });
+  }
+
+  const outcomeError = getOutcomeError(appointment);
+  if (outcomeError) {
+    return res.status(409).json({ message: outcomeError });
+  }
+
+  const updatedAppointment = await recordAppointmentOutcome(appointment, outcome, result.data, req.user!.id);
+  await rollupClientAnalytics(updatedAppointment.clientId);
+  res.json(updatedAppointment);
 }
 
+router.post("/:id/complete", async (req: Request, res: Response) => {
+  try {
+    await recordOutcome(req, res, "completed");
+  } catch (error) {
+    console.error("Error completing appointment:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.post("/:id/no-show", async (req: Request, res: Response) => {
+  try {
+    await recordOutcome(req, res, "no_show");
+  } catch (error) {
+    console.error("Error recording no-show:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// How an appointment fared against the client's screening rules, and the rules it was checked against
+router.get("/:id/screening", async (req: Request, res: Response) => {
+  try {
+    const negotiable = await getNegotiableAppointment(req, res);
+    if (!negotiable) return;
+
+    const { appointment } = negotiable;
+    const settings = await storage.getRentMenSettingsByUserId(appointment.clientId);
+    res.json({
+      status: appointment.screeningStatus,
+      reasons: appointment.screeningReasons ?? [],
+      screenedAt: appointment.screenedAt,
+      rules: {
+        approvalProcess: settings?.approvalProcess ?? "manual",
+        requirements: settings?.screeningRequirements ?? [],
+        verifiedOnly: !!settings && settings.showOnlyVerifiedClients !== false,
+        minimumRate: settings?.minimumRate ?? null,
+        preferences: settings?.clientScreeningPreferences ?? null,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching appointment screening:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Fill in or correct who is booking the client, admin only. The appointment is screened again and, if the
+// client approves automatically, approved once it passes.
+router.put("/:id/booker", async (req: Request, res: Response) => {
+  try {
+    const negotiable = await getNegotiableAppointment(req, res);
+    if (!negotiable) return;
+
+    const { appointment, party } = negotiable;
+    if (party !== "admin") {
+      return res.status(403).json({ message: "Only the admin records who is booking" });
+    }
+
+    const result = bookerDetailsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid booker details", errors: result.error.format() });
+    }
+
+    if (!CANCELLABLE_STATUSES.includes(appointment.status as AppointmentStatus)) {
+      return res.status(409).json({ message: `This appointment is ${appointment.status} and can't be screened again` });
+    }
+
+    const updatedAppointment = await storage.updateAppointment(appointment.id, bookerDetailsFields(result.data));
+    const { appointment: screenedAppointment, autoApproved } = await screenAppointment(updatedAppointment);
+    if (autoApproved) {
+      await notifyAppointmentParty(
+        screenedAppointment,
+        "client",
+        "Appointment approved",
+        `The appointment on ${describeTerms(termsOf(screenedAppointment))} meets your screening rules and was approved automatically.`,
+        "REQUEST"
+      );
+    }
+
+    res.json({ ...screenedAppointment, autoApproved });
+  } catch (error) {
+    console.error("Error updating appointment booker:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Approve or decline, kept for the original client response
+router.put("/:id/respond", async (req: Request, res: Response) => {
+  try {
+    const result = respondSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Status must be 'approved' or 'declined'" });
+    }
+
+    await respondToAppointment(req, res, result.data.status);
+  } catch (error) {
+    console.error("Respond to appointment error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
 // Send notification for appointment
 router.post("/:id/notification", async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,83 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { BookingRequestStatus, SCREENING_QUESTIONS, getTriageNotes } from "../utils/public-booking";
+
+const router = Router();
+
+const BOOKING_REQUEST_STATUSES: BookingRequestStatus[] = ["new", "proposed", "rejected", "spam"];
+
+const listQuerySchema = z.object({
+  status: z.enum(["new", "proposed", "rejected", "spam"]).optional(),
+});
+
+// Proposing happens through the appointment proposal, which marks the request itself
+const triageSchema = z.object({
+  status: z.enum(["new", "rejected", "spam"]),
+  note: z.string().trim().max(1000).optional(),
+});
+
+// Requests from the creators' public booking pages, newest first, with what to look out for
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const result = listQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid query", errors: result.error.format() });
+    }
+
+    const allRequests = await storage.getBookingRequests();
+    const requests = allRequests.filter(request => !result.data.status || request.status === result.data.status);
+
+    const counts = Object.fromEntries(BOOKING_REQUEST_STATUSES.map(status =>
+      [status, allRequests.filter(request => request.status === status).length]));
+
+    const triaged = await Promise.all(requests.map(async request => {
+      const [creator, settings] = await Promise.all([
+        storage.getUser(request.clientId),
+        storage.getRentMenSettingsByUserId(request.clientId),
+      ]);
+      return {
+        ...request,
+        creator: creator ? { id: creator.id, username: creator.username, fullName: creator.fullName } : null,
+        bookingPageSlug: settings?.publicBookingSlug ?? null,
+        notes: request.status === "new" ? await getTriageNotes(request, settings, allRequests) : [],
+      };
+    }));
+
+    res.json({ requests: triaged, counts, questions: SCREENING_QUESTIONS });
+  } catch (error) {
+    console.error("Error fetching booking requests:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Reject a request, mark it as spam, or put it back in the queue
+router.patch("/:id", async (req: Request, res: Response) => {
+  try {
+    const request = await storage.getBookingRequest(parseInt(req.params.id));
+    if (!request) {
+      return res.status(404).json({ message: "Booking request not found" });
+    }
+
+    const result = triageSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid request", errors: result.error.format() });
+    }
+    if (request.status === "proposed") {
+      return res.status(409).json({ message: "An appointment was already proposed from this request" });
+    }
+
+    const updated = await storage.updateBookingRequest(request.id, {
+      status: result.data.status,
+      reviewNote: result.data.note || null,
+      reviewedBy: result.data.status === "new" ? null : req.user!.id,
+      reviewedAt: result.data.status === "new" ? null : new Date(),
+    });
+    res.json(updated);
+  } catch (error) {
+    console.error("Error triaging booking request:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
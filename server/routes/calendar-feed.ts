@@ -0,0 +1,27 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { buildCalendarFeed } from "../utils/ical";
+
+const router = Router();
+
+// A user's appointments for calendar apps to subscribe to. There's no session here, the secret token in
+// the URL is what authenticates the request.
+router.get("/:token.ics", async (req: Request, res: Response) => {
+  try {
+    const feed = await storage.getCalendarFeedByToken(req.params.token);
+    if (!feed) {
+      return res.status(404).json({ message: "Calendar feed not found" });
+    }
+
+    const calendar = await buildCalendarFeed(feed.userId);
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", 'inline; filename="appointments.ics"');
+    res.setHeader("Cache-Control", "private, max-age=300");
+    res.send(calendar);
+  } catch (error) {
+    console.error("Error serving calendar feed:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
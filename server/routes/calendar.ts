@@ -0,0 +1,307 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { z } from "zod";
+import { MediaFile, ScheduledPost, User } from "@shared/schema";
+import { queueScheduledPost, syncMediaScheduledDate } from "../utils/publishing-queue";
+import { syncVariantWithPost } from "../utils/posting-plans";
+
+const router = Router();
+
+// Content in these review states can't be put on the calendar
+const UNSCHEDULABLE_STATUSES = ["rejected", "superseded"];
+
+const rangeSchema = z.object({
+  start: z.coerce.date(),
+  end: z.coerce.date(),
+  userId: z.coerce.number().int().positive().optional(),
+});
+
+const createPostSchema = z.object({
+  mediaFileId: z.number().int().positive(),
+  platformAccountId: z.number().int().positive(),
+  scheduledFor: z.coerce.date(),
+  assignedManagerId: z.number().int().positive().nullable().optional(),
+});
+
+const reschedulePostSchema = z.object({
+  scheduledFor: z.coerce.date(),
+  platformAccountId: z.number().int().positive().optional(),
+});
+
+const updateStatusSchema = z.object({
+  status: z.enum(["posted", "cancelled"]).optional(),
+  assignedManagerId: z.number().int().positive().nullable().optional(),
+});
+
+// Clients only ever see their own calendar, admins can look at any client's
+function resolveClientId(req: Request, requestedUserId?: number): number | undefined {
+  return req.user!.role === "admin" ? requestedUserId : req.user!.id;
+}
+
+// Load a calendar entry the current user may change
+async function getEditablePost(req: Request, res: Response): Promise<ScheduledPost | undefined> {
+  const postId = parseInt(req.params.id);
+  const post = isNaN(postId) ? undefined : await storage.getScheduledPost(postId);
+
+  if (!post || (post.userId !== req.user!.id && req.user!.role !== "admin")) {
+    res.status(404).json({ message: "Scheduled post not found" });
+    return undefined;
+  }
+
+  return post;
+}
+
+// Posts can only be assigned to a manager, or respond with 400
+async function enforceAssignableManager(res: Response, managerId: number | null | undefined): Promise<boolean> {
+  if (!managerId) {
+    return true;
+  }
+
+  const manager = await storage.getUser(managerId);
+  if (!manager || manager.role !== "admin") {
+    res.status(400).json({ message: "Posts can only be assigned to a manager" });
+    return false;
+  }
+  return true;
+}
+
+// Calendar entries with the details needed to render them
+async function serializePosts(posts: ScheduledPost[]) {
+  const mediaFiles = new Map<number, MediaFile | undefined>();
+  const users = new Map<number, User | undefined>();
+
+  for (const post of posts) {
+    if (!mediaFiles.has(post.mediaFileId)) {
+      mediaFiles.set(post.mediaFileId, await storage.getMediaFile(post.mediaFileId));
+    }
+    for (const userId of [post.userId, post.assignedManagerId]) {
+      if (userId && !users.has(userId)) {
+        users.set(userId, await storage.getUser(userId));
+      }
+    }
+  }
+
+  return posts.map(post => {
+    const mediaFile = mediaFiles.get(post.mediaFileId);
+    const client = users.get(post.userId);
+    const manager = post.assignedManagerId ? users.get(post.assignedManagerId) : undefined;
+
+    return {
+      id: post.id,
+      mediaFileId: post.mediaFileId,
+      userId: post.userId,
+      platformAccountId: post.platformAccountId,
+      platform: post.platform,
+      scheduledFor: post.scheduledFor,
+      status: post.status,
+      postedAt: post.postedAt,
+      media: mediaFile ? {
+        title: mediaFile.title,
+        fileType: mediaFile.fileType,
+        status: mediaFile.status,
+        thumbnailUrl: mediaFile.thumbnailPath ? `/api/content/thumbnail/${mediaFile.id}` : null,
+      } : null,
+      client: client ? { id: client.id, fullName: client.fullName } : null,
+      assignedManager: manager ? { id: manager.id, fullName: manager.fullName } : null,
+    };
+  });
+}
+
+// Calendar entries between start (inclusive) and end (exclusive)
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const result = rangeSchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid date range", errors: result.error.format() });
+    }
+
+    const { start, end, userId } = result.data;
+    const posts = await storage.getScheduledPostsInRange(start, end, resolveClientId(req, userId));
+
+    res.json(await serializePosts(posts));
+  } catch (error) {
+    console.error("Error fetching calendar:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// One lane per platform account the client has connected
+router.get("/slots", async (req: Request, res: Response) => {
+  try {
+    const clientId = resolveClientId(req, req.query.userId ? parseInt(req.query.userId as string) : undefined);
+    if (!clientId) {
+      return res.status(400).json({ message: "A client is required" });
+    }
+
+    const accounts = await storage.getPlatformAccountsByUserId(clientId);
+    res.json(accounts.map(account => ({
+      platformAccountId: account.id,
+      platform: account.platformType,
+      username: account.username,
+    })));
+  } catch (error) {
+    console.error("Error fetching calendar slots:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Content that can still be dropped onto the calendar
+router.get("/content", async (req: Request, res: Response) => {
+  try {
+    const clientId = resolveClientId(req, req.query.userId ? parseInt(req.query.userId as string) : undefined);
+    if (!clientId) {
+      return res.status(400).json({ message: "A client is required" });
+    }
+
+    const mediaFiles = await storage.getMediaFilesByUserId(clientId);
+    res.json(mediaFiles
+      .filter(file => !UNSCHEDULABLE_STATUSES.includes(file.status))
+      .map(file => ({
+        id: file.id,
+        title: file.title,
+        fileType: file.fileType,
+        status: file.status,
+        scheduledDate: file.scheduledDate,
+        thumbnailUrl: file.thumbnailPath ? `/api/content/thumbnail/${file.id}` : null,
+      })));
+  } catch (error) {
+    console.error("Error fetching schedulable content:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Put content on the calendar for one of the client's platform accounts
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const result = createPostSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid scheduled post", errors: result.error.format() });
+    }
+
+    const { mediaFileId, platformAccountId, scheduledFor, assignedManagerId } = result.data;
+
+    const mediaFile = await storage.getMediaFile(mediaFileId);
+    if (!mediaFile || mediaFile.deletedAt || (mediaFile.userId !== req.user!.id && req.user!.role !== "admin")) {
+      return res.status(404).json({ message: "File not found" });
+    }
+
+    if (UNSCHEDULABLE_STATUSES.includes(mediaFile.status)) {
+      return res.status(409).json({ message: `Content that is ${mediaFile.status} can't be scheduled` });
+    }
+
+    const platformAccount = await storage.getPlatformAccount(platformAccountId);
+    if (!platformAccount || platformAccount.userId !== mediaFile.userId) {
+      return res.status(400).json({ message: "Platform account not found for this client" });
+    }
+
+    // Only admins pick who publishes a post
+    if (req.user!.role === "admin" && !(await enforceAssignableManager(res, assignedManagerId))) return;
+    const post = await queueScheduledPost(
+      mediaFile,
+      platformAccount,
+      scheduledFor,
+      req.user!.id,
+      req.user!.role === "admin" ? assignedManagerId : null
+    );
+
+    const [serializedPost] = await serializePosts([post]);
+    res.status(201).json(serializedPost);
+  } catch (error) {
+    console.error("Error scheduling post:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Move an entry to another time and optionally another platform lane (drag and drop)
+router.patch("/:id/reschedule", async (req: Request, res: Response) => {
+  try {
+    const post = await getEditablePost(req, res);
+    if (!post) return;
+
+    const result = reschedulePostSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid reschedule", errors: result.error.format() });
+    }
+
+    if (post.status === "posted" || post.status === "cancelled") {
+      return res.status(409).json({ message: `A ${post.status} post can't be rescheduled` });
+    }
+
+    const { scheduledFor, platformAccountId } = result.data;
+    const updates: Partial<ScheduledPost> = { scheduledFor };
+
+    if (platformAccountId && platformAccountId !== post.platformAccountId) {
+      const platformAccount = await storage.getPlatformAccount(platformAccountId);
+      if (!platformAccount || platformAccount.userId !== post.userId) {
+        return res.status(400).json({ message: "Platform account not found for this client" });
+      }
+      updates.platformAccountId = platformAccount.id;
+      updates.platform = platformAccount.platformType;
+    }
+
+    // Moving a due or missed post into the future puts it back in the queue
+    if (scheduledFor > new Date()) {
+      updates.status = "queued";
+      updates.dueNotifiedAt = null;
+    }
+
+    const updatedPost = await storage.updateScheduledPost(post.id, updates);
+    await syncMediaScheduledDate(post.mediaFileId);
+    await syncVariantWithPost(updatedPost);
+
+    const [serializedPost] = await serializePosts([updatedPost]);
+    res.json(serializedPost);
+  } catch (error) {
+    console.error("Error rescheduling post:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Mark an entry as posted or cancelled, or assign the manager who publishes it
+router.patch("/:id/status", async (req: Request, res: Response) => {
+  try {
+    const post = await getEditablePost(req, res);
+    if (!post) return;
+
+    const result = updateStatusSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid status update", errors: result.error.format() });
+    }
+
+    const { status, assignedManagerId } = result.data;
+    const isAdmin = req.user!.role === "admin";
+
+    if ((status === "posted" || assignedManagerId !== undefined) && !isAdmin) {
+      return res.status(403).json({ message: "Only managers can publish or assign posts" });
+    }
+
+    if (status && (post.status === "posted" || post.status === "cancelled")) {
+      return res.status(409).json({ message: `Post is already ${post.status}` });
+    }
+
+    if (!(await enforceAssignableManager(res, assignedManagerId))) return;
+
+    const updates: Partial<ScheduledPost> = {};
+    if (status) {
+      updates.status = status;
+      if (status === "posted") {
+        updates.postedAt = new Date();
+      }
+    }
+    if (assignedManagerId !== undefined) {
+      updates.assignedManagerId = assignedManagerId;
+    }
+
+    const updatedPost = await storage.updateScheduledPost(post.id, updates);
+    await syncMediaScheduledDate(post.mediaFileId);
+    await syncVariantWithPost(updatedPost);
+
+    const [serializedPost] = await serializePosts([updatedPost]);
+    res.json(serializedPost);
+  } catch (error) {
+    console.error("Error updating scheduled post:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,328 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { z } from "zod";
+import { Collection, MediaFile } from "@shared/schema";
+import { getCollectionMedia, smartAlbumRulesSchema } from "../utils/collections";
+
+const router = Router();
+
+const createCollectionSchema = z.object({
+  userId: z.number().int().positive().optional(), // managers create collections for a client
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  type: z.enum(["manual", "smart"]).default("manual"),
+  rules: smartAlbumRulesSchema.optional(),
+});
+
+const updateCollectionSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100).optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  rules: smartAlbumRulesSchema.optional(),
+  coverMediaId: z.number().int().positive().nullable().optional(),
+});
+
+const mediaFileIdsSchema = z.object({
+  mediaFileIds: z.array(z.number().int().positive()).min(1, "Select at least one file"),
+});
+
+const previewSchema = z.object({
+  userId: z.number().int().positive().optional(),
+  rules: smartAlbumRulesSchema,
+});
+
+// Load a collection the current user may see: their own, or any collection for admins
+async function getAccessibleCollection(req: Request, res: Response): Promise<Collection | undefined> {
+  const collectionId = parseInt(req.params.id);
+  const collection = isNaN(collectionId) ? undefined : await storage.getCollection(collectionId);
+
+  if (!collection || (collection.userId !== req.user!.id && req.user!.role !== "admin")) {
+    res.status(404).json({ message: "Collection not found" });
+    return undefined;
+  }
+
+  return collection;
+}
+
+// Clients work on their own collections, managers pick the client
+function getTargetUserId(req: Request, requestedUserId: number | undefined): number {
+  return req.user!.role === "admin" && requestedUserId ? requestedUserId : req.user!.id;
+}
+
+// Web-accessible details of a media file, the same fields as GET /api/content
+function toCollectionMedia(file: MediaFile) {
+  return {
+    id: file.id,
+    title: file.title,
+    description: file.description,
+    fileType: file.fileType,
+    status: file.status,
+    version: file.version,
+    tags: file.tags,
+    uploadDate: file.uploadDate,
+    scheduledDate: file.scheduledDate,
+    processingStatus: file.processingStatus,
+    width: file.width,
+    height: file.height,
+    duration: file.duration,
+    url: `/api/content/file/${file.id}`,
+    thumbnailUrl: file.thumbnailPath ? `/api/content/thumbnail/${file.id}` : undefined,
+    previewUrl: file.previewPath ? `/api/content/preview/${file.id}` : undefined,
+  };
+}
+
+// Collection details for lists, with the number of files and a cover image
+async function summarizeCollection(collection: Collection) {
+  const media = await getCollectionMedia(collection);
+  const cover = media.find(file => file.id === collection.coverMediaId) ?? media[0];
+
+  return {
+    ...collection,
+    itemCount: media.length,
+    coverUrl: cover?.thumbnailPath ? `/api/content/thumbnail/${cover.id}` : null,
+  };
+}
+
+// List a client's collections and smart albums
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const requestedUserId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
+    const userId = getTargetUserId(req, requestedUserId);
+
+    const collections = await storage.getCollectionsByUserId(userId);
+    res.json(await Promise.all(collections.map(summarizeCollection)));
+  } catch (error) {
+    console.error("Error fetching collections:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Create a collection or smart album
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const result = createCollectionSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid collection", errors: result.error.format() });
+    }
+
+    const { userId: requestedUserId, rules, ...data } = result.data;
+    const userId = getTargetUserId(req, requestedUserId);
+    if (data.type === "smart" && !rules) {
+      return res.status(400).json({ message: "Smart albums need at least one rule" });
+    }
+
+    const collection = await storage.createCollection({
+      ...data,
+      userId,
+      rules: data.type === "smart" ? rules : null,
+      createdBy: req.user!.id,
+    });
+
+    res.status(201).json(await summarizeCollection(collection));
+  } catch (error) {
+    console.error("Error creating collection:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// A client's media that can be added to collections
+router.get("/media", async (req: Request, res: Response) => {
+  try {
+    const requestedUserId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
+    const mediaFiles = await storage.getMediaFilesByUserId(getTargetUserId(req, requestedUserId));
+
+    res.json(mediaFiles
+      .filter(file => file.status !== "superseded")
+      .sort((a, b) => b.uploadDate.getTime() - a.uploadDate.getTime())
+      .map(toCollectionMedia));
+  } catch (error) {
+    console.error("Error fetching collection media:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Try smart album rules before saving them
+router.post("/preview", async (req: Request, res: Response) => {
+  try {
+    const result = previewSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid rules", errors: result.error.format() });
+    }
+
+    const preview = {
+      id: 0,
+      userId: getTargetUserId(req, result.data.userId),
+      type: "smart",
+      rules: result.data.rules,
+    } as Collection;
+    const media = await getCollectionMedia(preview);
+
+    res.json({ itemCount: media.length, media: media.slice(0, 24).map(toCollectionMedia) });
+  } catch (error) {
+    console.error("Error previewing smart album:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// A collection with its media in display order
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const collection = await getAccessibleCollection(req, res);
+    if (!collection) return;
+
+    const media = await getCollectionMedia(collection);
+    res.json({ ...(await summarizeCollection(collection)), media: media.map(toCollectionMedia) });
+  } catch (error) {
+    console.error("Error fetching collection:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Rename a collection, change its rules or cover
+router.patch("/:id", async (req: Request, res: Response) => {
+  try {
+    const collection = await getAccessibleCollection(req, res);
+    if (!collection) return;
+
+    const result = updateCollectionSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid collection", errors: result.error.format() });
+    }
+
+    const { rules, ...data } = result.data;
+    if (rules && collection.type !== "smart") {
+      return res.status(400).json({ message: "Only smart albums have rules" });
+    }
+    if (data.coverMediaId) {
+      const cover = await storage.getMediaFile(data.coverMediaId);
+      if (!cover || cover.deletedAt || cover.userId !== collection.userId) {
+        return res.status(400).json({ message: "The cover must be one of the client's files" });
+      }
+    }
+
+    const updatedCollection = await storage.updateCollection(collection.id, {
+      ...data,
+      ...(rules ? { rules } : {}),
+    });
+    res.json(await summarizeCollection(updatedCollection));
+  } catch (error) {
+    console.error("Error updating collection:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Delete a collection, the media in it is kept
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const collection = await getAccessibleCollection(req, res);
+    if (!collection) return;
+
+    await storage.deleteCollection(collection.id);
+    res.json({ message: "Collection deleted" });
+  } catch (error) {
+    console.error("Error deleting collection:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Add media files to a collection, files already in it are skipped
+router.post("/:id/items", async (req: Request, res: Response) => {
+  try {
+    const collection = await getAccessibleCollection(req, res);
+    if (!collection) return;
+
+    if (collection.type === "smart") {
+      return res.status(400).json({ message: "Smart albums are filled by their rules" });
+    }
+
+    const result = mediaFileIdsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid selection", errors: result.error.format() });
+    }
+
+    // Only the collection owner's media can go in, which also covers the per-file access check
+    for (const mediaFileId of result.data.mediaFileIds) {
+      const mediaFile = await storage.getMediaFile(mediaFileId);
+      if (!mediaFile || mediaFile.deletedAt || mediaFile.userId !== collection.userId) {
+        return res.status(400).json({ message: `File ${mediaFileId} can't be added to this collection` });
+      }
+    }
+
+    const items = await storage.getCollectionItems(collection.id);
+    const existing = new Set(items.map(item => item.mediaFileId));
+    let position = items.reduce((max, item) => Math.max(max, item.position), -1);
+
+    for (const mediaFileId of Array.from(new Set(result.data.mediaFileIds))) {
+      if (existing.has(mediaFileId)) continue;
+      await storage.createCollectionItem({
+        collectionId: collection.id,
+        mediaFileId,
+        position: ++position,
+        addedBy: req.user!.id,
+      });
+    }
+
+    const media = await getCollectionMedia(collection);
+    res.json({ ...(await summarizeCollection(collection)), media: media.map(toCollectionMedia) });
+  } catch (error) {
+    console.error("Error adding to collection:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Change the order of the files in a collection
+router.put("/:id/items/order", async (req: Request, res: Response) => {
+  try {
+    const collection = await getAccessibleCollection(req, res);
+    if (!collection) return;
+
+    const result = mediaFileIdsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid order", errors: result.error.format() });
+    }
+
+    const items = await storage.getCollectionItems(collection.id);
+    const order = new Map(result.data.mediaFileIds.map((mediaFileId, index) => [mediaFileId, index]));
+    // Files missing from the new order keep their relative order after the listed ones
+    const sorted = [...items].sort((a, b) =>
+      (order.get(a.mediaFileId) ?? order.size + a.position) - (order.get(b.mediaFileId) ?? order.size + b.position)
+    );
+
+    for (const [position, item] of Array.from(sorted.entries())) {
+      if (item.position !== position) {
+        await storage.updateCollectionItem(item.id, { position });
+      }
+    }
+
+    const media = await getCollectionMedia(collection);
+    res.json({ ...(await summarizeCollection(collection)), media: media.map(toCollectionMedia) });
+  } catch (error) {
+    console.error("Error reordering collection:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Take a media file out of a collection
+router.delete("/:id/items/:mediaFileId", async (req: Request, res: Response) => {
+  try {
+    const collection = await getAccessibleCollection(req, res);
+    if (!collection) return;
+
+    const mediaFileId = parseInt(req.params.mediaFileId);
+    const item = (await storage.getCollectionItems(collection.id)).find(item => item.mediaFileId === mediaFileId);
+    if (!item) {
+      return res.status(404).json({ message: "File is not in this collection" });
+    }
+
+    await storage.deleteCollectionItem(item.id);
+    if (collection.coverMediaId === mediaFileId) {
+      await storage.updateCollection(collection.id, { coverMediaId: null });
+    }
+
+    res.json({ message: "Removed from collection" });
+  } catch (error) {
+    console.error("Error removing from collection:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
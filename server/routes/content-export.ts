@@ -0,0 +1,106 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { z } from "zod";
+import { exportMediaFile } from "../utils/media-export";
+import { MAX_BULK_EXPORT_FILES, selectExportFiles, writeExportArchive } from "../utils/bulk-export";
+
+const router = Router();
+
+const bulkExportSchema = z.object({
+  ids: z.string()
+    .transform(value => value.split(",").filter(Boolean).map(Number))
+    .refine(ids => ids.every(id => Number.isInteger(id) && id > 0), "IDs must be positive integers")
+    .optional(),
+  clientId: z.coerce.number().int().positive().optional(),
+  status: z.enum(["current", "all", "pending", "approved", "rejected", "changes_requested", "superseded"]).optional(),
+  tag: z.string().trim().min(1).optional(),
+  dateField: z.enum(["upload", "scheduled"]).default("upload"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  watermark: z.enum(["0", "1"]).default("0"),
+});
+
+// Download a ZIP of media files with a CSV/JSON manifest, filtered by client, status, tag and date
+router.get("/export", async (req: Request, res: Response) => {
+  try {
+    const result = bulkExportSchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid export options", errors: result.error.format() });
+    }
+
+    const { watermark, ...filters } = result.data;
+    // Clients can only export their own content
+    if (filters.clientId && filters.clientId !== req.user!.id && req.user!.role !== "admin") {
+      return res.status(403).json({ message: "Unauthorized access to this content" });
+    }
+
+    if (filters.ids && req.user!.role !== "admin") {
+      // Selecting someone else's file is refused rather than silently left out
+      const selected = await Promise.all(filters.ids.map(id => storage.getMediaFile(id)));
+      if (selected.some(file => file && file.userId !== req.user!.id)) {
+        return res.status(403).json({ message: "Unauthorized access to this file" });
+      }
+    }
+
+    const files = await selectExportFiles(req.user!, filters);
+    if (files.length === 0) {
+      return res.status(404).json({ message: "No content matches these filters" });
+    }
+    if (files.length > MAX_BULK_EXPORT_FILES) {
+      return res.status(400).json({
+        message: `Exports are limited to ${MAX_BULK_EXPORT_FILES} files, narrow the filters (${files.length} matched)`,
+      });
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", `attachment; filename="content-export-${date}.zip"`);
+
+    try {
+      await writeExportArchive(files, res, watermark === "1");
+    } catch (error) {
+      // Headers are already sent, all that can be done is cutting the download short
+      console.error("Error writing content export:", error);
+      res.destroy();
+    }
+  } catch (error) {
+    console.error("Error exporting content:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Download a media file without its metadata, watermarked with the owner's settings unless ?watermark=0
+router.get("/:id/export", async (req: Request, res: Response) => {
+  try {
+    const mediaId = parseInt(req.params.id);
+    const mediaFile = isNaN(mediaId) ? undefined : await storage.getMediaFile(mediaId);
+
+    // Trashed content is only served to admins until it's restored
+    if (!mediaFile || (mediaFile.deletedAt && req.user!.role !== "admin")) {
+      return res.status(404).json({ message: "File not found" });
+    }
+
+    if (mediaFile.userId !== req.user!.id && req.user!.role !== "admin") {
+      return res.status(403).json({ message: "Unauthorized access to this file" });
+    }
+
+    const watermark = req.query.watermark !== "0" && req.query.watermark !== "false";
+    const settings = watermark ? await storage.getWatermarkSettingsByUserId(mediaFile.userId) : undefined;
+    const exported = await exportMediaFile(mediaFile, settings, watermark);
+
+    res.setHeader("X-Watermarked", exported.watermarked ? "1" : "0");
+    res.type(exported.contentType);
+    res.download(exported.filePath, exported.fileName, async (error) => {
+      if (error && !res.headersSent) {
+        console.error("Error sending export:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+      await exported.cleanup();
+    });
+  } catch (error) {
+    console.error("Error exporting media file:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,235 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { z } from "zod";
+import { MediaFile, User } from "@shared/schema";
+import { sendNotification } from "../utils/realtime";
+
+const router = Router();
+
+const createCommentSchema = z.object({
+  body: z.string().trim().min(1, "Comment can't be empty"),
+  timecode: z.number().min(0).nullable().optional(),
+  parentCommentId: z.number().int().positive().nullable().optional(),
+});
+
+// Load a media file the current user may review: their own content, or any content for admins
+async function getReviewableFile(req: Request, res: Response): Promise<MediaFile | undefined> {
+  const mediaId = parseInt(req.params.id);
+  const mediaFile = isNaN(mediaId) ? undefined : await storage.getMediaFile(mediaId);
+
+  // Trashed content can only be reviewed by admins until it's restored
+  if (!mediaFile || (mediaFile.deletedAt && req.user!.role !== "admin")) {
+    res.status(404).json({ message: "File not found" });
+    return undefined;
+  }
+
+  if (mediaFile.userId !== req.user!.id && req.user!.role !== "admin") {
+    res.status(403).json({ message: "Unauthorized access to this file" });
+    return undefined;
+  }
+
+  return mediaFile;
+}
+
+// Public details of the users taking part in a review
+async function getParticipants(userIds: number[]): Promise<Map<number, Pick<User, "id" | "fullName" | "role">>> {
+  const participants = new Map<number, Pick<User, "id" | "fullName" | "role">>();
+  for (const userId of Array.from(new Set(userIds))) {
+    const user = await storage.getUser(userId);
+    if (user) {
+      participants.set(userId, { id: user.id, fullName: user.fullName, role: user.role });
+    }
+  }
+  return participants;
+}
+
+// Everything the review panel shows: versions, comment thread and status history
+router.get("/:id/review", async (req: Request, res: Response) => {
+  try {
+    const mediaFile = await getReviewableFile(req, res);
+    if (!mediaFile) return;
+
+    const versions = await storage.getMediaFileVersions(mediaFile.parentMediaId ?? mediaFile.id);
+    // Comments on earlier versions stay visible so the client can check they were addressed
+    const comments = (await Promise.all(
+      versions.map(version => storage.getReviewCommentsByMediaFileId(version.id))
+    )).flat();
+    const history = await storage.getStatusHistoryByMediaFileIds(versions.map(version => version.id));
+
+    const participants = await getParticipants([
+      ...comments.map(comment => comment.authorId),
+      ...history.map(entry => entry.changedBy),
+    ]);
+    const versionNumbers = new Map(versions.map(version => [version.id, version.version]));
+
+    res.json({
+      mediaFileId: mediaFile.id,
+      status: mediaFile.status,
+      version: mediaFile.version,
+      versions: versions.map(version => ({
+        id: version.id,
+        version: version.version,
+        title: version.title,
+        status: version.status,
+        uploadDate: version.uploadDate,
+      })),
+      comments: comments.map(comment => ({
+        ...comment,
+        version: versionNumbers.get(comment.mediaFileId),
+        author: participants.get(comment.authorId) || null,
+      })),
+      history: history.map(entry => ({
+        ...entry,
+        version: versionNumbers.get(entry.mediaFileId),
+        changedBy: participants.get(entry.changedBy) || null,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching content review:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Add a review comment or a reply to one
+router.post("/:id/comments", async (req: Request, res: Response) => {
+  try {
+    const mediaFile = await getReviewableFile(req, res);
+    if (!mediaFile) return;
+
+    const result = createCommentSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid comment", errors: result.error.format() });
+    }
+
+    const { body, timecode, parentCommentId } = result.data;
+
+    if (parentCommentId) {
+      const parent = await storage.getReviewComment(parentCommentId);
+      if (!parent || parent.mediaFileId !== mediaFile.id) {
+        return res.status(400).json({ message: "Replied-to comment not found" });
+      }
+    }
+
+    const comment = await storage.createReviewComment({
+      mediaFileId: mediaFile.id,
+      authorId: req.user!.id,
+      parentCommentId: parentCommentId || null,
+      body,
+      timecode: timecode ?? null,
+    });
+
+    // Admin comments go to the client, client replies go to the admins reviewing the item
+    let recipientIds: number[];
+    if (req.user!.id !== mediaFile.userId) {
+      recipientIds = [mediaFile.userId];
+    } else {
+      const comments = await storage.getReviewCommentsByMediaFileId(mediaFile.id);
+      const reviewerIds = Array.from(new Set(
+        comments.map(existing => existing.authorId).filter(authorId => authorId !== mediaFile.userId)
+      ));
+      recipientIds = reviewerIds.length > 0
+        ? reviewerIds
+        : (await storage.getAllUsers()).filter(user => user.role === "admin").map(user => user.id);
+    }
+
+    for (const recipientId of recipientIds) {
+      await sendNotification({
+        recipientId,
+        type: "content",
+        title: "New review comment",
+        content: `${req.user!.fullName} commented on "${mediaFile.title}": ${body.slice(0, 140)}`,
+        link: recipientId === mediaFile.userId ? "/content-upload" : "/admin/content-viewer",
+      });
+    }
+
+    res.status(201).json({
+      ...comment,
+      author: { id: req.user!.id, fullName: req.user!.fullName, role: req.user!.role },
+    });
+  } catch (error) {
+    console.error("Error creating review comment:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Mark a comment as resolved or reopen it
+router.patch("/:id/comments/:commentId", async (req: Request, res: Response) => {
+  try {
+    const mediaFile = await getReviewableFile(req, res);
+    if (!mediaFile) return;
+
+    const commentId = parseInt(req.params.commentId);
+    const comment = await storage.getReviewComment(commentId);
+    if (!comment || comment.mediaFileId !== mediaFile.id) {
+      return res.status(404).json({ message: "Comment not found" });
+    }
+
+    const updatedComment = await storage.updateReviewComment(commentId, {
+      resolved: Boolean(req.body.resolved),
+    });
+
+    res.json(updatedComment);
+  } catch (error) {
+    console.error("Error updating review comment:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// What the side-by-side compare shows of each file
+function toCompareFile(mediaFile: MediaFile) {
+  return {
+    id: mediaFile.id,
+    title: mediaFile.title,
+    fileType: mediaFile.fileType,
+    status: mediaFile.status,
+    version: mediaFile.version,
+    uploadDate: mediaFile.uploadDate,
+    width: mediaFile.width,
+    height: mediaFile.height,
+    duration: mediaFile.duration,
+    url: `/api/content/file/${mediaFile.id}`,
+    thumbnailUrl: mediaFile.thumbnailPath ? `/api/content/thumbnail/${mediaFile.id}` : undefined,
+    previewUrl: mediaFile.previewPath ? `/api/content/preview/${mediaFile.id}` : undefined,
+  };
+}
+
+// A flagged upload next to the earlier upload it looks like
+router.get("/:id/duplicate", async (req: Request, res: Response) => {
+  try {
+    const mediaFile = await getReviewableFile(req, res);
+    if (!mediaFile) return;
+
+    const original = mediaFile.duplicateOfId ? await storage.getMediaFile(mediaFile.duplicateOfId) : undefined;
+    if (!original) {
+      return res.status(404).json({ message: "This file isn't flagged as a duplicate" });
+    }
+
+    res.json({
+      match: mediaFile.duplicateMatch,
+      file: toCompareFile(mediaFile),
+      original: toCompareFile(original),
+    });
+  } catch (error) {
+    console.error("Error fetching duplicate comparison:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Clear the duplicate flag after a reviewer decided the files are different
+router.delete("/:id/duplicate", async (req: Request, res: Response) => {
+  try {
+    if (req.user!.role !== "admin") {
+      return res.status(403).json({ message: "Only reviewers can dismiss duplicate flags" });
+    }
+
+    const mediaFile = await getReviewableFile(req, res);
+    if (!mediaFile) return;
+
+    res.json(await storage.updateMediaFile(mediaFile.id, { duplicateOfId: null, duplicateMatch: null }));
+  } catch (error) {
+    console.error("Error dismissing duplicate flag:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,64 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { z } from "zod";
+import { findDoNotSayViolations, getDoNotSayTerms } from "../utils/do-not-say";
+
+const router = Router();
+
+const checkSchema = z.object({
+  userId: z.coerce.number().int().positive().optional(),
+  fields: z.record(z.string().nullable()).optional(),
+  text: z.string().optional(),
+});
+
+// Check text against a client's do-not-say list without saving anything, used for live hints
+router.post("/check", async (req: Request, res: Response) => {
+  try {
+    const result = checkSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid check", errors: result.error.format() });
+    }
+
+    // Clients can only check against their own list
+    const clientId = req.user!.role === "admin" ? result.data.userId ?? req.user!.id : req.user!.id;
+    const fields = result.data.fields ?? { text: result.data.text };
+
+    res.json({
+      terms: await getDoNotSayTerms(clientId),
+      violations: await findDoNotSayViolations([clientId], fields),
+    });
+  } catch (error) {
+    console.error("Error checking do-not-say terms:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Audit trail of admin overrides for a client, newest first
+router.get("/overrides", async (req: Request, res: Response) => {
+  try {
+    if (req.user!.role !== "admin") {
+      return res.status(403).json({ message: "Only managers can view overrides" });
+    }
+
+    const clientId = parseInt(req.query.clientId as string);
+    if (isNaN(clientId)) {
+      return res.status(400).json({ message: "A client is required" });
+    }
+
+    const overrides = await storage.getDoNotSayOverridesByClientId(clientId);
+    const admins = new Map<number, string>();
+    for (const override of overrides) {
+      if (!admins.has(override.adminId)) {
+        const admin = await storage.getUser(override.adminId);
+        admins.set(override.adminId, admin?.fullName ?? `Admin #${override.adminId}`);
+      }
+    }
+
+    res.json(overrides.map(override => ({ ...override, adminName: admins.get(override.adminId) })));
+  } catch (error) {
+    console.error("Error fetching do-not-say overrides:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
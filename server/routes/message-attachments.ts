@@ -0,0 +1,168 @@
+import { Router, Request, Response, NextFunction } from "express";
+import multer from "multer";
+import os from "os";
+import fs from "fs";
+import { z } from "zod";
+import { storage } from "../storage";
+import { MessageAttachment } from "@shared/schema";
+import { objectStorage } from "../utils/object-storage";
+import { formatBytes } from "../utils/plan-quotas";
+import { MetadataScrubError } from "../utils/metadata-scrubbing";
+import {
+  MAX_ATTACHMENT_SIZE,
+  deleteMessageAttachment,
+  getAttachmentKind,
+  serializeAttachment,
+  storeMessageAttachment,
+} from "../utils/message-attachments";
+
+const router = Router();
+
+// Rejected by the attachment file filter, answered with a 400
+class UnsupportedAttachmentError extends Error {}
+
+// Attachments are staged in the temp dir, then moved into object storage under the sender's folder
+const attachmentUpload = multer({
+  storage: multer.diskStorage({
+    destination: os.tmpdir(),
+    filename: (req, file, cb) => {
+      const sanitizedOriginalName = file.originalname.replace(/[^a-zA-Z0-9.]/g, "_");
+      cb(null, `att-${Date.now()}-${Math.round(Math.random() * 1e9)}-${sanitizedOriginalName}`);
+    },
+  }),
+  limits: { fileSize: MAX_ATTACHMENT_SIZE },
+  fileFilter: (req, file, cb) => {
+    if (getAttachmentKind(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new UnsupportedAttachmentError(`${file.originalname} is not a JPEG, PNG, WebP or GIF image, video, PDF or audio file`));
+    }
+  },
+});
+
+const uploadSchema = z.object({
+  conversationId: z.coerce.number().int().positive(),
+});
+
+// Receive one attachment, answering oversized and unsupported files with a client error
+const receiveAttachment = (req: Request, res: Response, next: NextFunction) => {
+  attachmentUpload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+      return res.status(413).json({ message: `Attachments can be at most ${formatBytes(MAX_ATTACHMENT_SIZE)}`, code: "FILE_TOO_LARGE" });
+    }
+    if (error instanceof multer.MulterError || error instanceof UnsupportedAttachmentError) {
+      return res.status(400).json({ message: error.message });
+    }
+    next(error);
+  });
+};
+
+// Load an attachment of a conversation the current user is in, or respond with an error.
+// Admins outside the conversation get no access either.
+async function getParticipantAttachment(req: Request, res: Response): Promise<MessageAttachment | undefined> {
+  const attachmentId = parseInt(req.params.id);
+  const attachment = isNaN(attachmentId) ? undefined : await storage.getMessageAttachment(attachmentId);
+
+  if (!attachment) {
+    res.status(404).json({ message: "Attachment not found" });
+    return undefined;
+  }
+  if (!(await storage.isUserInConversation(req.user!.id, attachment.conversationId))) {
+    res.status(403).json({ message: "You are not part of this conversation" });
+    return undefined;
+  }
+  // Unsent uploads are only visible to whoever uploaded them
+  if (attachment.messageId === null && attachment.uploaderId !== req.user!.id) {
+    res.status(404).json({ message: "Attachment not found" });
+    return undefined;
+  }
+
+  return attachment;
+}
+
+// Upload an attachment for a message that's about to be sent to a conversation
+router.post("/", receiveAttachment, async (req: Request, res: Response) => {
+  const file = req.file;
+  try {
+    if (!file) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+
+    const result = uploadSchema.safeParse(req.body);
+    if (!result.success) {
+      fs.unlink(file.path, () => {});
+      return res.status(400).json({ message: "Invalid request", errors: result.error.format() });
+    }
+
+    if (!(await storage.isUserInConversation(req.user!.id, result.data.conversationId))) {
+      fs.unlink(file.path, () => {});
+      return res.status(403).json({ message: "You are not part of this conversation" });
+    }
+
+    const attachment = await storeMessageAttachment(
+      req.user!.id,
+      result.data.conversationId,
+      file,
+      getAttachmentKind(file.mimetype)!
+    );
+    res.status(201).json(serializeAttachment(attachment));
+  } catch (error) {
+    if (file && fs.existsSync(file.path)) {
+      fs.unlink(file.path, () => {});
+    }
+    if (error instanceof MetadataScrubError) {
+      return res.status(422).json({ message: error.message, code: "METADATA_NOT_REMOVED" });
+    }
+    console.error("Error uploading message attachment:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// The attachment itself, through a short-lived signed URL
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const attachment = await getParticipantAttachment(req, res);
+    if (!attachment) return;
+
+    res.redirect(await objectStorage.getSignedUrl(attachment.storagePath));
+  } catch (error) {
+    console.error("Error serving message attachment:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Thumbnail of an image or video attachment
+router.get("/:id/thumbnail", async (req: Request, res: Response) => {
+  try {
+    const attachment = await getParticipantAttachment(req, res);
+    if (!attachment) return;
+
+    if (!attachment.thumbnailPath) {
+      return res.status(404).json({ message: "Thumbnail not found" });
+    }
+    res.redirect(await objectStorage.getSignedUrl(attachment.thumbnailPath));
+  } catch (error) {
+    console.error("Error serving message attachment thumbnail:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Remove an attachment before the message is sent
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const attachment = await getParticipantAttachment(req, res);
+    if (!attachment) return;
+
+    if (attachment.uploaderId !== req.user!.id || attachment.messageId !== null) {
+      return res.status(409).json({ message: "Sent attachments can't be removed" });
+    }
+
+    await deleteMessageAttachment(attachment);
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error removing message attachment:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,217 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { z } from "zod";
+import { MediaFile, InsertPostingVariant } from "@shared/schema";
+import {
+  POSTING_VARIANT_STATUSES,
+  PPV_PLATFORMS,
+  normalizeHashtags,
+  buildPostingSchedule,
+  postingScheduleToCsv,
+} from "../utils/posting-plans";
+import { enforceDoNotSay } from "../utils/do-not-say";
+
+const router = Router();
+
+const variantFields = {
+  caption: z.string().nullable().optional(),
+  hashtags: z.union([z.array(z.string()), z.string()]).nullable().optional(),
+  price: z.coerce.number().min(0).nullable().optional(),
+  targetDate: z.coerce.date().nullable().optional(),
+  status: z.enum(POSTING_VARIANT_STATUSES as [string, ...string[]]).optional(),
+};
+
+const createVariantSchema = z.object({
+  platform: z.string().trim().min(1, "Platform is required"),
+  ...variantFields,
+});
+
+const updateVariantSchema = z.object(variantFields);
+
+const exportSchema = z.object({
+  userId: z.coerce.number().int().positive().optional(),
+  format: z.enum(["csv", "json"]).default("csv"),
+  start: z.coerce.date().optional(),
+  end: z.coerce.date().optional(),
+});
+
+// Load a media file whose posting plan the current user may see
+async function getPlannedFile(mediaFileId: number, req: Request, res: Response): Promise<MediaFile | undefined> {
+  const mediaFile = isNaN(mediaFileId) ? undefined : await storage.getMediaFile(mediaFileId);
+
+  if (!mediaFile || (mediaFile.userId !== req.user!.id && req.user!.role !== "admin")) {
+    res.status(404).json({ message: "File not found" });
+    return undefined;
+  }
+
+  return mediaFile;
+}
+
+// Only managers edit posting plans
+function requireAdmin(req: Request, res: Response): boolean {
+  if (req.user!.role !== "admin") {
+    res.status(403).json({ message: "Only managers can edit posting plans" });
+    return false;
+  }
+  return true;
+}
+
+// Turn validated input into storage fields, price is kept as a fixed two decimal string
+function toVariantData(platform: string, data: z.infer<typeof updateVariantSchema>): Partial<InsertPostingVariant> | string {
+  if (data.price != null && !PPV_PLATFORMS.includes(platform)) {
+    return `Pay-per-view prices are only supported on ${PPV_PLATFORMS.join(", ")}`;
+  }
+
+  const variantData: Partial<InsertPostingVariant> = {};
+  if (data.caption !== undefined) variantData.caption = data.caption;
+  if (data.hashtags !== undefined) variantData.hashtags = normalizeHashtags(data.hashtags);
+  if (data.price !== undefined) variantData.price = data.price === null ? null : data.price.toFixed(2);
+  if (data.targetDate !== undefined) variantData.targetDate = data.targetDate;
+  if (data.status !== undefined) variantData.status = data.status;
+  return variantData;
+}
+
+// Text of a variant that goes out publicly, checked against the client's do-not-say list
+function variantText(data: Partial<InsertPostingVariant>): Record<string, string | null | undefined> {
+  return {
+    caption: data.caption,
+    hashtags: (data.hashtags as string[] | undefined)?.map(tag => `#${tag}`).join(" "),
+  };
+}
+
+// Export a client's posting schedule across all platforms
+router.get("/export", async (req: Request, res: Response) => {
+  try {
+    const result = exportSchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid export options", errors: result.error.format() });
+    }
+
+    const { format, start, end } = result.data;
+    // Clients can only export their own schedule
+    const userId = req.user!.role === "admin" ? result.data.userId : req.user!.id;
+    if (!userId) {
+      return res.status(400).json({ message: "A client is required" });
+    }
+
+    const rows = await buildPostingSchedule(userId, start, end);
+    if (format === "json") {
+      return res.json(rows);
+    }
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="posting-schedule-${userId}.csv"`);
+    res.send(postingScheduleToCsv(rows));
+  } catch (error) {
+    console.error("Error exporting posting schedule:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Platform variants of a media file
+router.get("/media/:mediaFileId", async (req: Request, res: Response) => {
+  try {
+    const mediaFile = await getPlannedFile(parseInt(req.params.mediaFileId), req, res);
+    if (!mediaFile) return;
+
+    res.json(await storage.getPostingVariantsByMediaFileId(mediaFile.id));
+  } catch (error) {
+    console.error("Error fetching posting variants:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Add a platform variant to a media file
+router.post("/media/:mediaFileId", async (req: Request, res: Response) => {
+  try {
+    if (!requireAdmin(req, res)) return;
+
+    const mediaFile = await getPlannedFile(parseInt(req.params.mediaFileId), req, res);
+    if (!mediaFile) return;
+
+    const result = createVariantSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid posting variant", errors: result.error.format() });
+    }
+
+    const { platform, ...fields } = result.data;
+    const existing = await storage.getPostingVariantsByMediaFileId(mediaFile.id);
+    if (existing.some(variant => variant.platform === platform)) {
+      return res.status(409).json({ message: `This content already has a ${platform} variant` });
+    }
+
+    const variantData = toVariantData(platform, fields);
+    if (typeof variantData === "string") {
+      return res.status(400).json({ message: variantData });
+    }
+
+    if (!(await enforceDoNotSay(req, res, [mediaFile.userId], variantText(variantData), "caption", mediaFile.id))) {
+      return;
+    }
+
+    const variant = await storage.createPostingVariant({
+      hashtags: [],
+      ...variantData,
+      mediaFileId: mediaFile.id,
+      userId: mediaFile.userId,
+      platform,
+      createdBy: req.user!.id,
+    });
+
+    res.status(201).json(variant);
+  } catch (error) {
+    console.error("Error creating posting variant:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Edit the caption, hashtags, price, target date or status of a variant
+router.patch("/:id", async (req: Request, res: Response) => {
+  try {
+    if (!requireAdmin(req, res)) return;
+
+    const variant = await storage.getPostingVariant(parseInt(req.params.id));
+    if (!variant) {
+      return res.status(404).json({ message: "Posting variant not found" });
+    }
+
+    const result = updateVariantSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid posting variant", errors: result.error.format() });
+    }
+
+    const variantData = toVariantData(variant.platform, result.data);
+    if (typeof variantData === "string") {
+      return res.status(400).json({ message: variantData });
+    }
+
+    if (!(await enforceDoNotSay(req, res, [variant.userId], variantText(variantData), "caption", variant.mediaFileId))) {
+      return;
+    }
+
+    res.json(await storage.updatePostingVariant(variant.id, variantData));
+  } catch (error) {
+    console.error("Error updating posting variant:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Remove a platform from the posting plan
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    if (!requireAdmin(req, res)) return;
+
+    const variant = await storage.getPostingVariant(parseInt(req.params.id));
+    if (!variant) {
+      return res.status(404).json({ message: "Posting variant not found" });
+    }
+
+    await storage.deletePostingVariant(variant.id);
+    res.json({ message: "Posting variant deleted" });
+  } catch (error) {
+    console.error("Error deleting posting variant:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
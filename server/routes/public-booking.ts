@@ -0,0 +1,189 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { RentMenSettings } from "@shared/schema";
+import { checkSlotAvailability, findOpenSlots, resolveTimeZone } from "../utils/availability";
+import {
+  SCREENING_QUESTIONS,
+  createBookingChallenge,
+  createRateLimiter,
+  enforceRateLimit,
+  getBookingRequestError,
+  hashSourceIp,
+  publicBookingRequestSchema,
+  verifyBookingChallenge,
+} from "../utils/public-booking";
+import { sendNotification } from "../utils/realtime";
+
+const router = Router();
+
+// Longest range of open slots returned at once
+const MAX_SLOT_RANGE_DAYS = 31;
+
+// Page views and slot lookups are cheap, requests reach an admin so they're limited harder.
+// Counts are kept in this process's memory, so they reset on restart and aren't shared between instances.
+const pageLimiter = createRateLimiter(60 * 1000, 60);
+const requestLimiter = createRateLimiter(60 * 60 * 1000, 5);
+const creatorRequestLimiter = createRateLimiter(24 * 60 * 60 * 1000, 30);
+
+const slotsQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  duration: z.coerce.number().int().min(30).max(12 * 60).default(60),
+}).refine(query => query.to > query.from, { message: "The range must end after it starts", path: ["to"] })
+  .refine(query => query.to.getTime() - query.from.getTime() <= MAX_SLOT_RANGE_DAYS * 24 * 60 * 60 * 1000, {
+    message: `The range can be at most ${MAX_SLOT_RANGE_DAYS} days`,
+    path: ["to"],
+  });
+
+// The creator behind a public booking page, or a 404 if there's no such page or it's switched off
+async function getPublicBookingPage(req: Request, res: Response): Promise<RentMenSettings | undefined> {
+  const settings = await storage.getRentMenSettingsByPublicSlug(req.params.slug.toLowerCase());
+  const creator = settings?.publicBookingEnabled ? await storage.getUser(settings.userId) : undefined;
+  if (!settings || !creator || creator.role !== "client") {
+    res.status(404).json({ message: "Booking page not found" });
+    return undefined;
+  }
+  return settings;
+}
+
+// A creator's public booking page. There's no session on these routes, so they only give out what the
+// creator chose to show: their services, rate, area and open times, never their name or bookings.
+router.get("/:slug", async (req: Request, res: Response) => {
+  try {
+    if (!enforceRateLimit(res, pageLimiter, req.ip ?? "")) return;
+
+    const settings = await getPublicBookingPage(req, res);
+    if (!settings) return;
+
+    const profile = await storage.getProfileByUserId(settings.userId);
+    res.json({
+      slug: settings.publicBookingSlug,
+      services: Array.isArray(settings.servicesOffered) ? settings.servicesOffered : [],
+      minimumRate: settings.minimumRate,
+      geographicAvailability: settings.geographicAvailability,
+      timezone: resolveTimeZone(profile?.timezone),
+      requirements: Array.isArray(settings.screeningRequirements) ? settings.screeningRequirements : [],
+      questions: SCREENING_QUESTIONS,
+    });
+  } catch (error) {
+    console.error("Error loading public booking page:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.get("/:slug/challenge", async (req: Request, res: Response) => {
+  try {
+    if (!enforceRateLimit(res, pageLimiter, req.ip ?? "")) return;
+
+    const settings = await getPublicBookingPage(req, res);
+    if (!settings) return;
+
+    res.setHeader("Cache-Control", "no-store");
+    res.json(createBookingChallenge());
+  } catch (error) {
+    console.error("Error creating booking challenge:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.get("/:slug/slots", async (req: Request, res: Response) => {
+  try {
+    if (!enforceRateLimit(res, pageLimiter, req.ip ?? "")) return;
+
+    const settings = await getPublicBookingPage(req, res);
+    if (!settings) return;
+
+    const result = slotsQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid query", errors: result.error.format() });
+    }
+
+    const { from, to, duration } = result.data;
+    const availability = await findOpenSlots(settings.userId, { from, to, duration });
+    res.json({
+      timezone: availability.timezone,
+      hasSchedule: availability.hasSchedule,
+      slots: availability.slots,
+    });
+  } catch (error) {
+    console.error("Error fetching public booking slots:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.post("/:slug/requests", async (req: Request, res: Response) => {
+  try {
+    const settings = await getPublicBookingPage(req, res);
+    if (!settings) return;
+
+    const result = publicBookingRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid booking request", errors: result.error.format() });
+    }
+    const request = result.data;
+
+    // Only complete requests count, so a visitor fixing a typo in the form isn't locked out
+    if (!enforceRateLimit(res, requestLimiter, req.ip ?? "")) return;
+
+    // Bots filling in the hidden field are told it worked, so they don't learn to skip it
+    if (request.website) {
+      return res.status(201).json({ received: true });
+    }
+
+    const challengeError = verifyBookingChallenge(request.challengeToken, request.challengeAnswer);
+    if (challengeError) {
+      return res.status(400).json({ code: "CHALLENGE_FAILED", message: challengeError });
+    }
+
+    const requestError = getBookingRequestError(request, settings);
+    if (requestError) {
+      return res.status(400).json({ message: requestError });
+    }
+
+    // Don't say what the time clashes with, that's the creator's business
+    const conflict = await checkSlotAvailability(settings.userId, request.requestedDate, request.duration);
+    if (conflict?.code === "IN_THE_PAST") {
+      return res.status(400).json({ message: "Choose a time in the future" });
+    }
+    if (conflict) {
+      return res.status(409).json({ message: "That time isn't available, please choose another" });
+    }
+
+    if (!enforceRateLimit(res, creatorRequestLimiter, String(settings.userId))) return;
+
+    const bookingRequest = await storage.createBookingRequest({
+      clientId: settings.userId,
+      bookerName: request.bookerName,
+      bookerEmail: request.bookerEmail.toLowerCase(),
+      bookerPhone: request.bookerPhone || null,
+      bookerReferences: request.bookerReferences || null,
+      service: request.service || null,
+      requestedDate: request.requestedDate,
+      duration: request.duration,
+      location: request.location || null,
+      offeredRate: request.offeredRate || null,
+      message: request.message || null,
+      screeningAnswers: request.answers,
+      sourceIpHash: hashSourceIp(req.ip),
+    });
+
+    const admins = (await storage.getAllUsers()).filter(user => user.role === "admin");
+    for (const admin of admins) {
+      await sendNotification({
+        recipientId: admin.id,
+        type: "appointment",
+        title: "New booking request",
+        content: `${bookingRequest.bookerName} sent a booking request through ${settings.publicBookingSlug}'s public page.`,
+        link: "/admin/booking-requests",
+      });
+    }
+
+    res.status(201).json({ received: true });
+  } catch (error) {
+    console.error("Error submitting public booking request:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,128 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { z } from "zod";
+import { MediaFile, User } from "@shared/schema";
+
+const router = Router();
+
+const MAX_PAGE_SIZE = 100;
+
+// Comma separated list in the query string, e.g. ?status=pending,approved
+const listParam = z.string()
+  .transform(value => value.split(",").map(item => item.trim()).filter(Boolean))
+  .optional();
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  status: listParam,
+  type: listParam,
+  tag: listParam,
+  clientId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sort: z.enum(["relevance", "newest", "oldest", "title"]).optional(),
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().positive().max(MAX_PAGE_SIZE).default(24),
+});
+
+// Web-accessible details of a media file, the same fields as GET /api/content
+function toSearchResult(file: MediaFile) {
+  return {
+    id: file.id,
+    title: file.title,
+    description: file.description,
+    fileType: file.fileType,
+    status: file.status,
+    version: file.version,
+    parentMediaId: file.parentMediaId,
+    duplicateOfId: file.duplicateOfId,
+    duplicateMatch: file.duplicateMatch,
+    uploadDate: file.uploadDate,
+    scheduledDate: file.scheduledDate,
+    tags: file.tags,
+    processingStatus: file.processingStatus,
+    width: file.width,
+    height: file.height,
+    duration: file.duration,
+    url: `/api/content/file/${file.id}`,
+    thumbnailUrl: file.thumbnailPath ? `/api/content/thumbnail/${file.id}` : undefined,
+    previewUrl: file.previewPath ? `/api/content/preview/${file.id}` : undefined,
+  };
+}
+
+// Search media by title, description and tags with status, type, tag, client and upload date filters.
+// Clients search their own content, managers search every client's.
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const result = searchQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid search", errors: result.error.format() });
+    }
+
+    const { q, status, type, tag, clientId, sort, ...options } = result.data;
+    const isAdmin = req.user!.role === "admin";
+    if (clientId && clientId !== req.user!.id && !isAdmin) {
+      return res.status(403).json({ message: "Unauthorized access to this content" });
+    }
+
+    // "all" lists every version, replaced ones included
+    const allVersions = status?.includes("all") ?? false;
+    const search = await storage.searchMediaFiles({
+      ...options,
+      text: q || undefined,
+      userId: isAdmin ? clientId : req.user!.id,
+      // Clients' facets only count their own content too
+      ownerId: isAdmin ? undefined : req.user!.id,
+      statuses: allVersions ? undefined : status,
+      includeSuperseded: allVersions,
+      fileTypes: type,
+      tags: tag,
+      sort: sort ?? (q ? "relevance" : "newest"),
+    });
+
+    if (!isAdmin) {
+      return res.json({ ...search, items: search.items.map(toSearchResult) });
+    }
+
+    // Managers get the same details as the admin media list, including who the file belongs to
+    const clientIds = Array.from(new Set([
+      ...search.items.map(file => file.userId),
+      ...search.facets.client.map(facet => Number(facet.value)),
+    ]));
+    const clients = new Map<number, User | undefined>(
+      await Promise.all(clientIds.map(async id => [id, await storage.getUser(id)] as const))
+    );
+
+    res.json({
+      ...search,
+      items: search.items.map(file => {
+        const client = clients.get(file.userId);
+        return {
+          ...toSearchResult(file),
+          userId: file.userId,
+          codec: file.codec,
+          metadataScrubbed: file.metadataScrubbed,
+          createdAt: file.uploadDate,
+          user: {
+            id: file.userId,
+            username: client?.username ?? "",
+            fullName: client?.fullName ?? `Client #${file.userId}`,
+          },
+          originalUrl: file.originalPath ? `/api/content/original/${file.id}` : null,
+        };
+      }),
+      facets: {
+        ...search.facets,
+        client: search.facets.client.map(facet => ({
+          ...facet,
+          label: clients.get(Number(facet.value))?.fullName ?? `Client #${facet.value}`,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Error searching content:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,112 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { z } from "zod";
+import { MediaFile, User } from "@shared/schema";
+import { purgeMediaFile, restoreFromTrash } from "../utils/retention";
+
+const router = Router();
+
+const trashQuerySchema = z.object({
+  clientId: z.coerce.number().int().positive().optional(),
+});
+
+// Only admins can load thumbnails of trashed content, clients see an icon until they restore it
+function toTrashItem(file: MediaFile, withThumbnail: boolean) {
+  return {
+    id: file.id,
+    userId: file.userId,
+    title: file.title,
+    fileType: file.fileType,
+    status: file.status,
+    version: file.version,
+    uploadDate: file.uploadDate,
+    deletedAt: file.deletedAt,
+    deletedBy: file.deletedBy,
+    deletionReason: file.deletionReason,
+    purgeAfter: file.purgeAfter,
+    fileSize: file.fileSize,
+    thumbnailUrl: withThumbnail && file.thumbnailPath ? `/api/content/thumbnail/${file.id}` : undefined,
+  };
+}
+
+// Load a trashed media file the current user may restore or purge, or respond with an error
+async function getTrashedFile(req: Request, res: Response): Promise<MediaFile | undefined> {
+  const mediaFile = await storage.getMediaFile(parseInt(req.params.id));
+  if (!mediaFile || !mediaFile.deletedAt) {
+    res.status(404).json({ message: "File not found in trash" });
+    return undefined;
+  }
+
+  if (mediaFile.userId !== req.user!.id && req.user!.role !== "admin") {
+    res.status(403).json({ message: "Forbidden" });
+    return undefined;
+  }
+
+  return mediaFile;
+}
+
+// Content waiting to be purged, soonest first. Clients see their own trash, managers every client's.
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const result = trashQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid trash query", errors: result.error.format() });
+    }
+
+    const isAdmin = req.user!.role === "admin";
+    const files = await storage.getTrashedMediaFiles(isAdmin ? result.data.clientId : req.user!.id);
+
+    if (!isAdmin) {
+      return res.json(files.map(file => toTrashItem(file, false)));
+    }
+
+    // Managers also see whose content it is and who deleted it
+    const userIds = Array.from(new Set(files.flatMap(file => file.deletedBy ? [file.userId, file.deletedBy] : [file.userId])));
+    const users = new Map<number, User | undefined>(
+      await Promise.all(userIds.map(async id => [id, await storage.getUser(id)] as const))
+    );
+
+    res.json(files.map(file => ({
+      ...toTrashItem(file, true),
+      user: {
+        id: file.userId,
+        username: users.get(file.userId)?.username ?? "",
+        fullName: users.get(file.userId)?.fullName ?? `Client #${file.userId}`,
+      },
+      deletedByName: file.deletedBy ? users.get(file.deletedBy)?.fullName ?? null : null,
+    })));
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Put trashed content back where it was
+router.post("/:id/restore", async (req: Request, res: Response) => {
+  try {
+    const mediaFile = await getTrashedFile(req, res);
+    if (!mediaFile) return;
+
+    const restoredFile = await restoreFromTrash(mediaFile);
+    res.json(toTrashItem(restoredFile, true));
+  } catch (error) {
+    console.error("Error restoring content:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Purge trashed content now instead of waiting for the retention job
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const mediaFile = await getTrashedFile(req, res);
+    if (!mediaFile) return;
+
+    await purgeMediaFile(mediaFile);
+    res.json({ message: "File deleted permanently" });
+  } catch (error) {
+    console.error("Error purging content:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,355 @@
+import express, { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { z } from "zod";
+import { UploadSession } from "@shared/schema";
+import { enqueueMediaProcessing } from "../utils/media-processing";
+import { getResubmissionTarget, getNextVersionFields, recordSubmission } from "../utils/content-review";
+import { createInitialVariant } from "../utils/posting-plans";
+import { computeMediaHashes, flagDuplicate } from "../utils/media-hashing";
+import { storeScrubbedUpload, MetadataScrubError } from "../utils/metadata-scrubbing";
+import { enforceDoNotSay } from "../utils/do-not-say";
+import { enforceUploadQuota, recordUploadUsage } from "../utils/plan-quotas";
+import {
+  DEFAULT_CHUNK_SIZE,
+  MAX_UPLOAD_SIZE,
+  buildUploadFileName,
+  sha256,
+  writeChunk,
+  assembleChunks,
+  removeChunks,
+} from "../utils/chunked-upload";
+import { sendNotification } from "../utils/realtime";
+
+const router = Router();
+
+const initUploadSchema = z.object({
+  fileName: z.string().min(1),
+  fileSize: z.number().int().positive().max(MAX_UPLOAD_SIZE),
+  mimeType: z.string().regex(/^(image|video)\//, "Only image and video uploads are supported"),
+  fingerprint: z.string().min(1),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  platform: z.string().optional(),
+  caption: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  replacesMediaId: z.number().int().positive().optional(), // set when uploading a new version after review
+});
+
+// Shape returned to the client, progress is derived from receivedChunks
+function serializeSession(session: UploadSession) {
+  return {
+    id: session.id,
+    fileName: session.fileName,
+    fileSize: session.fileSize,
+    mimeType: session.mimeType,
+    fingerprint: session.fingerprint,
+    chunkSize: session.chunkSize,
+    totalChunks: session.totalChunks,
+    receivedChunks: session.receivedChunks as number[],
+    status: session.status,
+    mediaFileId: session.mediaFileId,
+    createdAt: session.createdAt,
+  };
+}
+
+// Load a session and make sure it belongs to the current user
+async function getOwnSession(req: Request, res: Response): Promise<UploadSession | undefined> {
+  const sessionId = parseInt(req.params.id);
+  const session = isNaN(sessionId) ? undefined : await storage.getUploadSession(sessionId);
+
+  if (!session || session.userId !== req.user!.id) {
+    res.status(404).json({ message: "Upload session not found" });
+    return undefined;
+  }
+
+  return session;
+}
+
+// List unfinished uploads so the uploader can offer to resume them after a reload
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const sessions = await storage.getActiveUploadSessionsByUserId(req.user!.id);
+    res.json(sessions.map(serializeSession));
+  } catch (error) {
+    console.error("Error fetching upload sessions:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Start an upload, or resume the unfinished upload of the same file
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const result = initUploadSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid upload", errors: result.error.format() });
+    }
+
+    const { fileName, fileSize, mimeType, fingerprint, ...metadata } = result.data;
+
+    // Check the resubmission up front rather than after the whole file has been sent
+    if (metadata.replacesMediaId && !(await getResubmissionTarget(metadata.replacesMediaId, req.user!.id))) {
+      return res.status(409).json({ message: "This content can't be replaced with a new version" });
+    }
+
+    // Likewise the caption is checked before any chunks are sent
+    if (!(await enforceDoNotSay(req, res, [req.user!.id], { caption: metadata.caption }, "caption"))) {
+      return;
+    }
+
+    const activeSessions = await storage.getActiveUploadSessionsByUserId(req.user!.id);
+    const existing = activeSessions.find(
+      (session) => session.fingerprint === fingerprint && session.fileSize === fileSize
+    );
+    if (existing) {
+      return res.json(serializeSession(existing));
+    }
+
+    // Refuse files that don't fit the plan before any chunks are sent
+    if (!(await enforceUploadQuota(res, req.user!, [fileSize]))) {
+      return;
+    }
+
+    const session = await storage.createUploadSession({
+      userId: req.user!.id,
+      fileName,
+      fileSize,
+      mimeType,
+      fingerprint,
+      chunkSize: DEFAULT_CHUNK_SIZE,
+      totalChunks: Math.ceil(fileSize / DEFAULT_CHUNK_SIZE),
+      receivedChunks: [],
+      metadata,
+      status: "uploading",
+    });
+
+    res.status(201).json(serializeSession(session));
+  } catch (error) {
+    console.error("Error creating upload session:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Get the progress of an upload
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const session = await getOwnSession(req, res);
+    if (!session) return;
+
+    res.json(serializeSession(session));
+  } catch (error) {
+    console.error("Error fetching upload session:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Append a chunk. The body is the raw chunk and X-Chunk-Checksum its hex SHA-256 digest.
+router.put(
+  "/:id/chunks/:index",
+  express.raw({ type: "application/octet-stream", limit: DEFAULT_CHUNK_SIZE + 1024 }),
+  async (req: Request, res: Response) => {
+    try {
+      const session = await getOwnSession(req, res);
+      if (!session) return;
+
+      if (session.status !== "uploading") {
+        return res.status(409).json({ message: `Upload is already ${session.status}` });
+      }
+
+      const index = parseInt(req.params.index);
+      if (isNaN(index) || index < 0 || index >= session.totalChunks) {
+        return res.status(400).json({ message: "Invalid chunk index" });
+      }
+
+      const data = req.body;
+      if (!Buffer.isBuffer(data) || data.length === 0) {
+        return res.status(400).json({ message: "Chunk data is required" });
+      }
+
+      // Every chunk is full size except the last one
+      const expectedSize = index === session.totalChunks - 1
+        ? session.fileSize - index * session.chunkSize
+        : session.chunkSize;
+      if (data.length !== expectedSize) {
+        return res.status(400).json({ message: `Chunk ${index} should be ${expectedSize} bytes` });
+      }
+
+      const checksum = req.get("X-Chunk-Checksum");
+      if (!checksum || checksum.toLowerCase() !== sha256(data)) {
+        return res.status(422).json({ message: `Checksum mismatch for chunk ${index}` });
+      }
+
+      await writeChunk(session.id, index, data);
+
+      // Recorded in one update, chunks sent in parallel would otherwise drop each other's index
+      const updatedSession = await storage.addUploadSessionChunk(session.id, index);
+      if (!updatedSession) {
+        return res.status(409).json({ message: "Upload is no longer accepting chunks" });
+      }
+
+      res.json(serializeSession(updatedSession));
+    } catch (error) {
+      console.error("Error storing upload chunk:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  }
+);
+
+// Assemble the chunks into a media file once all of them have arrived
+router.post("/:id/complete", async (req: Request, res: Response) => {
+  try {
+    const session = await getOwnSession(req, res);
+    if (!session) return;
+
+    // Completing twice (e.g. a retried request) returns the media file created the first time
+    if (session.status === "completed" && session.mediaFileId) {
+      const mediaFile = await storage.getMediaFile(session.mediaFileId);
+      return res.json({ session: serializeSession(session), file: mediaFile });
+    }
+
+    if (session.status !== "uploading") {
+      return res.status(409).json({ message: `Upload is already ${session.status}` });
+    }
+
+    const metadata = (session.metadata || {}) as z.infer<typeof initUploadSchema>;
+    const previous = metadata.replacesMediaId
+      ? await getResubmissionTarget(metadata.replacesMediaId, session.userId)
+      : undefined;
+    if (metadata.replacesMediaId && !previous) {
+      return res.status(409).json({ message: "This content can't be replaced with a new version" });
+    }
+
+    const receivedChunks = session.receivedChunks as number[];
+    if (receivedChunks.length !== session.totalChunks) {
+      const missingChunks = Array.from({ length: session.totalChunks }, (_, index) => index)
+        .filter((index) => !receivedChunks.includes(index));
+      return res.status(400).json({ message: "Upload is incomplete", missingChunks });
+    }
+
+    // Checked again as other uploads may have used up the quota meanwhile, the chunks are
+    // kept so the upload can be completed once space is freed
+    if (!(await enforceUploadQuota(res, req.user!, [session.fileSize]))) {
+      return;
+    }
+
+    // Only one request assembles the file. One arriving meanwhile gets a 409, or the media file once it's done.
+    if (!(await storage.transitionUploadSession(session.id, "uploading", "completing"))) {
+      const current = await storage.getUploadSession(session.id);
+      if (current?.status === "completed" && current.mediaFileId) {
+        const mediaFile = await storage.getMediaFile(current.mediaFileId);
+        return res.json({ session: serializeSession(current), file: mediaFile });
+      }
+      return res.status(409).json({ message: `Upload is already ${current?.status ?? "gone"}` });
+    }
+
+    // From here on a failure puts the session back: uploading again while its chunks are there so completing
+    // can be retried, cancelled once they're gone. Either way the uploader isn't left with a stuck session.
+    let chunksRemoved = false;
+    let mediaFile;
+    let completedSession;
+    try {
+      const { filePath, size, checksum } = await assembleChunks(session.id, session.totalChunks);
+      if (size !== session.fileSize) {
+        await removeChunks(session.id);
+        await storage.updateUploadSession(session.id, { status: "cancelled" });
+        return res.status(400).json({ message: "Assembled file size does not match the upload" });
+      }
+
+      // The checksum of the assembled file doubles as the content hash for duplicate detection
+      const fileType = session.mimeType.startsWith("image/") ? "image" : "video";
+      const hashes = await computeMediaHashes(filePath, fileType, checksum);
+
+      // Location and device metadata is stripped before storing, the original is kept for admins.
+      // An upload it can't be stripped from is not stored at all.
+      let stored;
+      try {
+        stored = await storeScrubbedUpload(
+          session.userId,
+          buildUploadFileName(session.fileName, session.mimeType),
+          filePath,
+          session.mimeType,
+          fileType
+        );
+      } catch (error) {
+        if (!(error instanceof MetadataScrubError)) throw error;
+        await removeChunks(session.id);
+        await storage.updateUploadSession(session.id, { status: "cancelled" });
+        return res.status(422).json({ message: error.message, code: "METADATA_NOT_REMOVED" });
+      }
+      await removeChunks(session.id);
+      chunksRemoved = true;
+
+      // Thumbnails and previews are generated in the background once the record exists
+      const createdFile = await storage.createMediaFile({
+        userId: session.userId,
+        title: metadata.title || session.fileName,
+        description: metadata.description || "",
+        fileType,
+        ...stored,
+        fileSize: size,
+        processingStatus: "pending",
+        tags: metadata.tags || [],
+        ...hashes,
+        ...(previous ? await getNextVersionFields(previous) : {}),
+      });
+      mediaFile = await flagDuplicate(createdFile);
+      await recordUploadUsage(mediaFile);
+      enqueueMediaProcessing(mediaFile.id);
+      await recordSubmission(mediaFile, session.userId, previous);
+      await createInitialVariant(mediaFile, metadata.platform, metadata.caption, session.userId);
+
+      completedSession = await storage.updateUploadSession(session.id, {
+        status: "completed",
+        mediaFileId: mediaFile.id,
+      });
+      console.log(`Upload session ${session.id} assembled into media file ${mediaFile.id} (sha256 ${checksum})`);
+    } catch (error) {
+      if (chunksRemoved) {
+        await storage.transitionUploadSession(session.id, "completing", "cancelled");
+      } else {
+        await storage.transitionUploadSession(session.id, "completing", "uploading");
+      }
+      throw error;
+    }
+
+    // Let admins know there is new content to review
+    const admins = await storage.getAllUsers().then(users => users.filter(user => user.role === 'admin'));
+    for (const admin of admins) {
+      await sendNotification({
+        recipientId: admin.id,
+        type: "content",
+        title: previous ? "Content resubmitted" : "New content uploaded",
+        content: previous
+          ? `${req.user!.username} uploaded version ${mediaFile.version} of "${previous.title}" for review.`
+          : `New content uploaded by ${req.user!.username} for review.` +
+            (mediaFile.duplicateOfId ? ` It looks like a duplicate of #${mediaFile.duplicateOfId}.` : ""),
+        link: "/admin/content-viewer",
+      });
+    }
+
+    res.status(201).json({ session: serializeSession(completedSession), file: mediaFile });
+  } catch (error) {
+    console.error("Error completing upload:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Abandon an upload and discard its chunks
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const session = await getOwnSession(req, res);
+    if (!session) return;
+
+    // A completion that's still running fails once its chunks are gone and leaves the session cancelled
+    if (session.status === "uploading" || session.status === "completing") {
+      await removeChunks(session.id);
+      await storage.updateUploadSession(session.id, { status: "cancelled" });
+    }
+
+    res.json({ message: "Upload cancelled" });
+  } catch (error) {
+    console.error("Error cancelling upload:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
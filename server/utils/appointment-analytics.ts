@@ -0,0 +1,204 @@
+import { storage } from '../storage';
+import { Analytics, Appointment } from '@shared/schema';
+import { AppointmentStatus, getOpenRevision } from './appointment-negotiation';
+
+// How often the analytics rollup recomputes appointment figures
+export const ANALYTICS_ROLLUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export type AppointmentOutcome = 'completed' | 'no_show';
+
+export type RollupPeriod = 'weekly' | 'monthly' | 'all-time';
+
+export interface AppointmentOutcomeDetails {
+  actualDuration?: number; // in minutes, defaults to the booked duration when completed
+  amountCollectedCents?: number;
+  notes?: string;
+}
+
+// The analytics fields the rollup owns, they're computed from appointments and never entered by hand
+export interface AppointmentStats {
+  totalAppointments: number;
+  completedAppointments: number;
+  canceledAppointments: number;
+  noShowAppointments: number;
+  averageAppointmentDuration: number; // in minutes, of completed appointments
+  appointmentRevenueCents: number;
+}
+
+const ROLLUP_FIELDS: string[] = [
+  'totalAppointments',
+  'completedAppointments',
+  'canceledAppointments',
+  'noShowAppointments',
+  'averageAppointmentDuration',
+  'appointmentRevenueCents',
+  'appointmentsRolledUpAt',
+];
+
+interface PeriodRange {
+  period: RollupPeriod;
+  start: Date | null;
+  end: Date | null;
+}
+
+// Appointments that were booked at some point. Ones still being negotiated or declined never were.
+const BOOKED_STATUSES: AppointmentStatus[] = ['approved', 'rescheduled', 'completed', 'no_show', 'cancelled'];
+
+// An outcome can be recorded for an agreed booking, or corrected once it has been
+const OUTCOME_STATUSES: AppointmentStatus[] = ['approved', 'rescheduled', 'completed', 'no_show'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Drop the fields the rollup computes from manually entered analytics
+ * @param data Analytics from the request body
+ * @returns Record<string, unknown> The rest of the fields
+ */
+export function withoutRollupFields(data: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(data ?? {}).filter(([field]) => !ROLLUP_FIELDS.includes(field)));
+}
+
+/**
+ * Whether an outcome can be recorded for the appointment yet
+ * @param appointment The appointment
+ * @param now Current time
+ * @returns string | null Why it can't, or null
+ */
+export function getOutcomeError(appointment: Appointment, now: Date = new Date()): string | null {
+  if (!OUTCOME_STATUSES.includes(appointment.status as AppointmentStatus)) {
+    return `This appointment is ${appointment.status} and never went ahead`;
+  }
+  if (new Date(appointment.appointmentDate) > now) {
+    return "This appointment hasn't started yet";
+  }
+  return null;
+}
+
+/**
+ * Record how an appointment went. A reschedule still waiting for an answer is dropped, the appointment
+ * happened on its agreed terms.
+ * @param appointment The appointment
+ * @param outcome Completed, or a no-show
+ * @param details Actual duration, amount collected and notes
+ * @param recordedBy ID of the admin recording it
+ * @returns Promise<Appointment> The updated appointment
+ */
+export async function recordAppointmentOutcome(
+  appointment: Appointment,
+  outcome: AppointmentOutcome,
+  details: AppointmentOutcomeDetails,
+  recordedBy: number
+): Promise<Appointment> {
+  const openRevision = await getOpenRevision(appointment.id);
+  if (openRevision) {
+    await storage.updateAppointmentRevision(openRevision.id, { status: 'superseded', respondedBy: recordedBy, respondedAt: new Date() });
+  }
+
+  return storage.updateAppointment(appointment.id, {
+    status: outcome,
+    completedAt: new Date(),
+    actualDuration: outcome === 'completed' ? details.actualDuration ?? appointment.duration : null,
+    amountCollectedCents: details.amountCollectedCents ?? null,
+    outcomeNotes: details.notes || null,
+  });
+}
+
+/**
+ * Appointment figures for the appointments that start in a range
+ * @param appointments A client's appointments
+ * @param start Start of the range, null for no start
+ * @param end End of the range (exclusive), null for no end
+ * @returns AppointmentStats The figures
+ */
+export function summarizeAppointments(appointments: Appointment[], start: Date | null, end: Date | null): AppointmentStats {
+  const inRange = appointments.filter(appointment => {
+    const startsAt = new Date(appointment.appointmentDate);
+    return BOOKED_STATUSES.includes(appointment.status as AppointmentStatus) &&
+      (!start || startsAt >= start) &&
+      (!end || startsAt < end);
+  });
+
+  const completed = inRange.filter(appointment => appointment.status === 'completed');
+  const totalDuration = completed.reduce((sum, appointment) => sum + (appointment.actualDuration ?? appointment.duration), 0);
+  return {
+    totalAppointments: inRange.length,
+    completedAppointments: completed.length,
+    canceledAppointments: inRange.filter(appointment => appointment.status === 'cancelled').length,
+    noShowAppointments: inRange.filter(appointment => appointment.status === 'no_show').length,
+    averageAppointmentDuration: completed.length > 0 ? Math.round(totalDuration / completed.length) : 0,
+    appointmentRevenueCents: inRange.reduce((sum, appointment) => sum + (appointment.amountCollectedCents ?? 0), 0),
+  };
+}
+
+// This and last week (starting Monday) and month in UTC, and all time. The previous week and month are
+// included so outcomes recorded after they ended still count.
+function rollupPeriods(now: Date): PeriodRange[] {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const weekStart = today - ((now.getUTCDay() + 6) % 7) * DAY_MS;
+  const monthStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+
+  return [
+    { period: 'weekly', start: new Date(weekStart - 7 * DAY_MS), end: new Date(weekStart) },
+    { period: 'weekly', start: new Date(weekStart), end: new Date(weekStart + 7 * DAY_MS) },
+    { period: 'monthly', start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)), end: new Date(monthStart) },
+    { period: 'monthly', start: new Date(monthStart), end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)) },
+    { period: 'all-time', start: null, end: null },
+  ];
+}
+
+const sameInstant = (a: Date | null, b: Date | null) =>
+  (a === null && b === null) || (a !== null && b !== null && new Date(a).getTime() === new Date(b).getTime());
+
+/**
+ * Recompute a client's appointment analytics for the current and previous week and month and all time.
+ * Each period has one analytics record, only its appointment fields are touched.
+ * @param clientId ID of the client
+ * @param now Current time
+ * @returns Promise<Analytics[]> The records that were written
+ */
+export async function rollupClientAnalytics(clientId: number, now: Date = new Date()): Promise<Analytics[]> {
+  const [appointments, existing] = await Promise.all([
+    storage.getAppointmentsByClientId(clientId),
+    storage.getAnalyticsByUserId(clientId),
+  ]);
+
+  const records: Analytics[] = [];
+  for (const range of rollupPeriods(now)) {
+    const stats = { ...summarizeAppointments(appointments, range.start, range.end), appointmentsRolledUpAt: now };
+    const record = existing.find(analytics => analytics.period === range.period && sameInstant(analytics.periodStart, range.start));
+
+    // Nothing to report and nothing to correct
+    if (!record && stats.totalAppointments === 0) continue;
+
+    records.push(record
+      ? await storage.updateAnalytics(record.id, stats)
+      : await storage.createAnalytics({
+          ...stats,
+          userId: clientId,
+          period: range.period,
+          periodStart: range.start,
+          periodEnd: range.end,
+        }));
+  }
+  return records;
+}
+
+/**
+ * Scheduled job entry point, see ANALYTICS_ROLLUP_INTERVAL_MS
+ */
+export async function processAnalyticsRollup(): Promise<void> {
+  const clients = (await storage.getAllUsers()).filter(user => user.role !== 'admin');
+  let updatedCount = 0;
+
+  for (const client of clients) {
+    try {
+      updatedCount += (await rollupClientAnalytics(client.id)).length;
+    } catch (error) {
+      console.error(`Error rolling up analytics for user ${client.id}:`, error);
+    }
+  }
+
+  if (updatedCount > 0) {
+    console.log(`Analytics rollup: ${updatedCount} records updated`);
+  }
+}
@@ -0,0 +1,205 @@
+import { storage } from '../storage';
+import { Appointment, AppointmentRevision } from '@shared/schema';
+
+export type AppointmentStatus =
+  'pending' | 'countered' | 'approved' | 'rescheduled' | 'declined' | 'cancelled' | 'completed' | 'no_show';
+
+export type AppointmentParty = 'admin' | 'client';
+
+export interface AppointmentTerms {
+  appointmentDate: Date;
+  duration: number; // in minutes
+  location: string;
+  amount: string | null;
+}
+
+// Statuses where new terms are waiting on one party
+const NEGOTIATING_STATUSES: AppointmentStatus[] = ['pending', 'countered', 'rescheduled'];
+
+// An agreed booking can still be moved, which reopens the negotiation as a reschedule
+export const RESCHEDULABLE_STATUSES: AppointmentStatus[] = ['approved', 'rescheduled'];
+
+// Statuses an appointment can be cancelled from
+export const CANCELLABLE_STATUSES: AppointmentStatus[] = ['pending', 'countered', 'approved', 'rescheduled'];
+
+/**
+ * Which side of an appointment a user is on
+ * @param appointment The appointment
+ * @param userId ID of the user
+ * @returns AppointmentParty | null The user's side, or null if they aren't part of it
+ */
+export function getAppointmentParty(appointment: Appointment, userId: number): AppointmentParty | null {
+  if (appointment.adminId === userId) return 'admin';
+  if (appointment.clientId === userId) return 'client';
+  return null;
+}
+
+function partyOf(appointment: Appointment, userId: number): AppointmentParty {
+  return appointment.adminId === userId ? 'admin' : 'client';
+}
+
+export function otherParty(party: AppointmentParty): AppointmentParty {
+  return party === 'admin' ? 'client' : 'admin';
+}
+
+/**
+ * The terms waiting for an answer, if any
+ * @param appointmentId ID of the appointment
+ * @returns Promise<AppointmentRevision | undefined> The open revision
+ */
+export async function getOpenRevision(appointmentId: number): Promise<AppointmentRevision | undefined> {
+  const revisions = await storage.getAppointmentRevisionsByAppointmentId(appointmentId);
+  return revisions.filter(revision => revision.status === 'open').pop();
+}
+
+/**
+ * Whose turn it is to accept, decline or counter
+ * @param appointment The appointment
+ * @param openRevision The terms waiting for an answer
+ * @returns AppointmentParty | null The party expected to answer, or null when nothing is waiting
+ */
+export function getAwaitingParty(appointment: Appointment, openRevision?: AppointmentRevision): AppointmentParty | null {
+  if (!NEGOTIATING_STATUSES.includes(appointment.status as AppointmentStatus)) {
+    return null;
+  }
+
+  // Proposals made before revisions were kept are always waiting on the client
+  return openRevision ? otherParty(partyOf(appointment, openRevision.proposedBy)) : 'client';
+}
+
+/**
+ * Whether a party may put forward new terms: on their turn, or either party once the booking is agreed
+ * @param appointment The appointment
+ * @param party The party countering
+ * @param openRevision The terms waiting for an answer
+ * @returns boolean True if the party can counter
+ */
+export function canCounter(appointment: Appointment, party: AppointmentParty, openRevision?: AppointmentRevision): boolean {
+  return appointment.status === 'approved' || getAwaitingParty(appointment, openRevision) === party;
+}
+
+export function termsOf(source: Appointment | AppointmentRevision): AppointmentTerms {
+  return {
+    appointmentDate: new Date(source.appointmentDate),
+    duration: source.duration,
+    location: source.location,
+    amount: source.amount ?? null,
+  };
+}
+
+/**
+ * Keep the terms an appointment was proposed with as the first entry of its history
+ * @param appointment The new appointment
+ * @returns Promise<AppointmentRevision> The revision
+ */
+export async function recordProposal(appointment: Appointment): Promise<AppointmentRevision> {
+  return storage.createAppointmentRevision({
+    ...termsOf(appointment),
+    appointmentId: appointment.id,
+    proposedBy: appointment.adminId,
+    kind: 'proposal',
+    status: 'open',
+  });
+}
+
+/**
+ * Put forward new terms. While the booking isn't agreed this is a counter-proposal, afterwards a reschedule.
+ * The appointment keeps its terms until the other party accepts.
+ * @param appointment The appointment
+ * @param proposedBy ID of the user countering
+ * @param terms The new terms
+ * @param note Optional message to the other party
+ * @returns Promise<{ appointment: Appointment; revision: AppointmentRevision }> The updated appointment and the new revision
+ */
+export async function proposeRevision(
+  appointment: Appointment,
+  proposedBy: number,
+  terms: AppointmentTerms,
+  note?: string
+): Promise<{ appointment: Appointment; revision: AppointmentRevision }> {
+  const openRevision = await getOpenRevision(appointment.id);
+  if (openRevision) {
+    await storage.updateAppointmentRevision(openRevision.id, { status: 'superseded', respondedBy: proposedBy, respondedAt: new Date() });
+  }
+
+  const isReschedule = RESCHEDULABLE_STATUSES.includes(appointment.status as AppointmentStatus);
+  const revision = await storage.createAppointmentRevision({
+    ...terms,
+    appointmentId: appointment.id,
+    proposedBy,
+    kind: isReschedule ? 'reschedule' : 'counter',
+    note: note || null,
+    status: 'open',
+  });
+
+  const updatedAppointment = await storage.updateAppointment(appointment.id, {
+    status: isReschedule ? 'rescheduled' : 'countered',
+  });
+  return { appointment: updatedAppointment, revision };
+}
+
+/**
+ * Agree to the terms waiting for an answer, they become the appointment's terms
+ * @param appointment The appointment
+ * @param respondedBy ID of the user accepting
+ * @returns Promise<Appointment> The approved appointment
+ */
+export async function acceptRevision(appointment: Appointment, respondedBy: number): Promise<Appointment> {
+  const openRevision = await getOpenRevision(appointment.id);
+  if (!openRevision) {
+    return storage.updateAppointment(appointment.id, { status: 'approved' });
+  }
+
+  await storage.updateAppointmentRevision(openRevision.id, { status: 'accepted', respondedBy, respondedAt: new Date() });
+  return storage.updateAppointment(appointment.id, { ...termsOf(openRevision), status: 'approved' });
+}
+
+/**
+ * Turn down the terms waiting for an answer. A declined reschedule leaves the agreed booking in place,
+ * otherwise the appointment is declined.
+ * @param appointment The appointment
+ * @param respondedBy ID of the user declining
+ * @returns Promise<Appointment> The updated appointment
+ */
+export async function declineRevision(appointment: Appointment, respondedBy: number): Promise<Appointment> {
+  const openRevision = await getOpenRevision(appointment.id);
+  if (openRevision) {
+    await storage.updateAppointmentRevision(openRevision.id, { status: 'declined', respondedBy, respondedAt: new Date() });
+  }
+
+  return storage.updateAppointment(appointment.id, {
+    status: appointment.status === 'rescheduled' ? 'approved' : 'declined',
+  });
+}
+
+/**
+ * Call off an appointment. Any terms waiting for an answer are dropped.
+ * @param appointment The appointment
+ * @param cancelledBy ID of the user cancelling
+ * @returns Promise<Appointment> The cancelled appointment
+ */
+export async function cancelAppointment(appointment: Appointment, cancelledBy: number): Promise<Appointment> {
+  const openRevision = await getOpenRevision(appointment.id);
+  if (openRevision) {
+    await storage.updateAppointmentRevision(openRevision.id, { status: 'superseded', respondedBy: cancelledBy, respondedAt: new Date() });
+  }
+
+  return storage.updateAppointment(appointment.id, { status: 'cancelled' });
+}
+
+/**
+ * One line summary of appointment terms for notifications
+ * @param terms The terms
+ * @returns string e.g. "Monday, October 26, 2026 at 9:00 AM for 60 minutes at Downtown, $200"
+ */
+export function describeTerms(terms: AppointmentTerms): string {
+  const date = terms.appointmentDate.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  });
+  return `${date} for ${terms.duration} minutes at ${terms.location}${terms.amount ? `, $${terms.amount}` : ''}`;
+}
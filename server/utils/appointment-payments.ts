@@ -0,0 +1,194 @@
+import { z } from 'zod';
+import Stripe from 'stripe';
+import { storage } from '../storage';
+import { Appointment, User } from '@shared/schema';
+import { stripe } from './stripe';
+import { AppointmentParty } from './appointment-negotiation';
+
+export type AppointmentPaymentStatus = 'not_required' | 'unpaid' | 'paid' | 'refunded' | 'partially_refunded' | 'fee_retained';
+
+export interface CancellationTerms {
+  feeCents: number; // kept from the deposit
+  refundCents: number; // returned to the client
+  freeUntil: Date | null; // when cancelling stops being free, null if it always is
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Payment intents the client can still complete, anything else needs a new one
+const OPEN_INTENT_STATUSES: Stripe.PaymentIntent.Status[] = [
+  'requires_payment_method',
+  'requires_confirmation',
+  'requires_action',
+  'processing',
+];
+
+// Deposit and cancellation policy an admin proposes with, amounts in cents. The fee comes out of the deposit,
+// so it can't be more than it.
+export const depositPolicySchema = z.object({
+  depositCents: z.coerce.number().int().min(0).max(10_000_000).optional(),
+  cancellationFeeCents: z.coerce.number().int().min(0).optional(),
+  freeCancellationHours: z.coerce.number().int().min(0).max(30 * 24).optional(),
+}).refine(policy => !policy.cancellationFeeCents || (policy.depositCents ?? 0) >= policy.cancellationFeeCents, {
+  message: 'The cancellation fee is kept from the deposit and can be at most the deposit',
+  path: ['cancellationFeeCents'],
+});
+
+export type DepositPolicy = z.infer<typeof depositPolicySchema>;
+
+/**
+ * Columns to create an appointment with for a deposit policy
+ * @param policy The parsed policy
+ * @returns Partial<Appointment> Policy and initial payment status
+ */
+export function depositPolicyFields(policy: DepositPolicy) {
+  const depositCents = policy.depositCents || null;
+  return {
+    depositCents,
+    cancellationFeeCents: depositCents ? policy.cancellationFeeCents || null : null,
+    freeCancellationHours: depositCents ? policy.freeCancellationHours ?? null : null,
+    paymentStatus: depositCents ? 'unpaid' : 'not_required',
+  };
+}
+
+export function isDepositOutstanding(appointment: Appointment): boolean {
+  return !!appointment.depositCents && appointment.paymentStatus === 'unpaid';
+}
+
+export function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * A payment intent for an appointment's deposit. An unfinished one is reused so the client isn't charged twice.
+ * @param appointment The appointment, with a deposit outstanding
+ * @param client The client paying
+ * @returns Promise<Stripe.PaymentIntent> The payment intent to confirm on the client
+ */
+export async function getDepositPaymentIntent(appointment: Appointment, client: User): Promise<Stripe.PaymentIntent> {
+  if (!stripe) {
+    throw new Error('Stripe is not configured');
+  }
+
+  if (appointment.stripePaymentIntentId) {
+    const existing = await stripe.paymentIntents.retrieve(appointment.stripePaymentIntentId);
+    if (OPEN_INTENT_STATUSES.includes(existing.status) && existing.amount === appointment.depositCents) {
+      return existing;
+    }
+    if (existing.status === 'succeeded') {
+      await recordDepositPayment(appointment, existing);
+      return existing;
+    }
+  }
+
+  const paymentIntent = await stripe.paymentIntents.create({
+    amount: appointment.depositCents!,
+    currency: 'usd',
+    customer: client.stripeCustomerId ?? undefined,
+    receipt_email: client.email,
+    description: `Deposit for appointment #${appointment.id}`,
+    automatic_payment_methods: { enabled: true },
+    metadata: {
+      appointmentId: String(appointment.id),
+      clientId: String(appointment.clientId),
+    },
+  });
+  await storage.updateAppointment(appointment.id, { stripePaymentIntentId: paymentIntent.id });
+  return paymentIntent;
+}
+
+async function recordDepositPayment(appointment: Appointment, paymentIntent: Stripe.PaymentIntent): Promise<Appointment> {
+  return storage.updateAppointment(appointment.id, {
+    paymentStatus: 'paid',
+    stripePaymentIntentId: paymentIntent.id,
+    depositPaidAt: new Date(),
+  });
+}
+
+/**
+ * Check Stripe for the deposit's payment and record it if it went through
+ * @param appointment The appointment
+ * @returns Promise<Appointment> The appointment, marked paid if the deposit has been
+ */
+export async function syncDepositPayment(appointment: Appointment): Promise<Appointment> {
+  if (!stripe || !isDepositOutstanding(appointment) || !appointment.stripePaymentIntentId) {
+    return appointment;
+  }
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(appointment.stripePaymentIntentId);
+  const paid = paymentIntent.status === 'succeeded' && paymentIntent.amount_received >= appointment.depositCents!;
+  return paid ? recordDepositPayment(appointment, paymentIntent) : appointment;
+}
+
+/**
+ * What cancelling would cost. Managers always refund the whole deposit, clients pay the fee once the free
+ * cancellation window has passed.
+ * @param appointment The appointment
+ * @param party The party cancelling
+ * @param now Current time
+ * @returns CancellationTerms The fee and refund
+ */
+export function getCancellationTerms(appointment: Appointment, party: AppointmentParty, now: Date = new Date()): CancellationTerms {
+  const refundable = appointment.paymentStatus === 'paid' ? (appointment.depositCents ?? 0) - appointment.refundedCents : 0;
+  const freeUntil = appointment.cancellationFeeCents && appointment.freeCancellationHours !== null
+    ? new Date(new Date(appointment.appointmentDate).getTime() - appointment.freeCancellationHours * HOUR_MS)
+    : null;
+
+  const isLate = party === 'client' && freeUntil !== null && now >= freeUntil;
+  const feeCents = isLate ? Math.min(appointment.cancellationFeeCents ?? 0, refundable) : 0;
+  return { feeCents, refundCents: refundable - feeCents, freeUntil };
+}
+
+/**
+ * Refund the deposit less any fee and record it. Call before the appointment is cancelled or declined, so a
+ * refund that fails leaves it as it was.
+ * @param appointment The appointment
+ * @param terms The fee and refund, from getCancellationTerms
+ * @returns Promise<Appointment> The appointment with its payment settled
+ */
+export async function settleDeposit(appointment: Appointment, terms: CancellationTerms): Promise<Appointment> {
+  if (appointment.paymentStatus !== 'paid') {
+    return appointment;
+  }
+
+  if (terms.refundCents > 0) {
+    if (!stripe) {
+      throw new Error('Stripe is not configured');
+    }
+    await stripe.refunds.create({
+      payment_intent: appointment.stripePaymentIntentId!,
+      amount: terms.refundCents,
+      metadata: { appointmentId: String(appointment.id) },
+    }, {
+      // A retried cancellation must not refund twice
+      idempotencyKey: `appointment-${appointment.id}-refund-${appointment.refundedCents}`,
+    });
+  }
+
+  const paymentStatus: AppointmentPaymentStatus = terms.feeCents === 0
+    ? 'refunded'
+    : terms.refundCents > 0 ? 'partially_refunded' : 'fee_retained';
+  return storage.updateAppointment(appointment.id, {
+    paymentStatus,
+    refundedCents: appointment.refundedCents + terms.refundCents,
+    feeRetainedCents: appointment.feeRetainedCents + terms.feeCents,
+  });
+}
+
+/**
+ * How a settled deposit turned out, for notifications
+ * @param terms The fee and refund
+ * @returns string e.g. "The $50.00 deposit has been refunded." or an empty string without a deposit
+ */
+export function describeSettlement(terms: CancellationTerms): string {
+  if (terms.feeCents > 0 && terms.refundCents > 0) {
+    return ` A ${formatCents(terms.feeCents)} cancellation fee was kept and ${formatCents(terms.refundCents)} refunded.`;
+  }
+  if (terms.feeCents > 0) {
+    return ` The ${formatCents(terms.feeCents)} deposit was kept as the cancellation fee.`;
+  }
+  if (terms.refundCents > 0) {
+    return ` The ${formatCents(terms.refundCents)} deposit has been refunded.`;
+  }
+  return '';
+}
@@ -0,0 +1,226 @@
+import { storage } from '../storage';
+import { Appointment, AppointmentReminder, Profile, RentMenSettings, User } from '@shared/schema';
+import { formatInTimeZone, resolveTimeZone } from './availability';
+import { AppointmentStatus, RESCHEDULABLE_STATUSES } from './appointment-negotiation';
+import { sendEmail } from './email';
+import { sendSmsNotification } from './sms';
+import { sendNotification } from './realtime';
+
+// How often the reminder job looks for appointments coming up
+export const REMINDER_INTERVAL_MS = 5 * 60 * 1000;
+
+// Used when the client hasn't chosen their own, 24 and 2 hours before
+export const DEFAULT_REMINDER_MINUTES = [24 * 60, 2 * 60];
+
+// Reminders further ahead than this are ignored
+export const MAX_REMINDER_MINUTES = 7 * 24 * 60;
+
+export type ReminderChannel = 'email' | 'sms' | 'in-app';
+
+const MINUTE_MS = 60 * 1000;
+
+// profiles.preferredContactMethod values from onboarding and the client forms
+const CONTACT_METHOD_CHANNELS: Record<string, ReminderChannel[]> = {
+  email: ['email'],
+  sms: ['sms'],
+  call: ['sms'],
+  whatsapp: ['sms'],
+  both: ['email', 'sms'],
+  app: ['in-app'],
+};
+
+// appointments.notificationMethod values, chosen when the appointment was proposed
+const NOTIFICATION_METHOD_CHANNELS: Record<string, ReminderChannel[]> = {
+  email: ['email'],
+  sms: ['sms'],
+  'in-app': ['in-app'],
+  all: ['email', 'sms', 'in-app'],
+};
+
+/**
+ * Minutes before an appointment the client wants reminders, closest first
+ * @param settings The client's Rent.Men settings
+ * @returns number[] Offsets in minutes
+ */
+export function getReminderMinutes(settings?: RentMenSettings): number[] {
+  const configured = Array.isArray(settings?.reminderMinutes) ? settings!.reminderMinutes as unknown[] : DEFAULT_REMINDER_MINUTES;
+  const minutes = configured.filter((value): value is number =>
+    Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_REMINDER_MINUTES
+  );
+  return Array.from(new Set(minutes)).sort((a, b) => a - b);
+}
+
+/**
+ * Channels to remind a client over: their preferred contact method, otherwise how the appointment was proposed
+ * @param profile The client's profile
+ * @param appointment The appointment
+ * @returns ReminderChannel[] The channels
+ */
+export function getReminderChannels(profile: Profile | undefined, appointment: Appointment): ReminderChannel[] {
+  const preferred = profile?.preferredContactMethod?.toLowerCase();
+  if (preferred && CONTACT_METHOD_CHANNELS[preferred]) {
+    return CONTACT_METHOD_CHANNELS[preferred];
+  }
+  return NOTIFICATION_METHOD_CHANNELS[appointment.notificationMethod ?? ''] ?? ['in-app'];
+}
+
+function formatLeadTime(minutes: number): string {
+  if (minutes < 90) return `${Math.max(1, Math.round(minutes))} minutes`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)} hours`;
+  return `${Math.round(minutes / (24 * 60))} days`;
+}
+
+// Send the reminder over one channel and log it, returns whether it went out
+async function deliverReminder(
+  appointment: Appointment,
+  client: User,
+  channel: ReminderChannel,
+  subject: string,
+  content: string
+): Promise<boolean> {
+  let sent = false;
+  let statusMessage: string | null = null;
+
+  if (channel === 'email') {
+    sent = client.email ? await sendEmail(client.email, subject, content) : false;
+    statusMessage = client.email ? (sent ? null : 'Email could not be sent') : 'Client has no email address';
+  } else if (channel === 'sms') {
+    sent = client.phone ? await sendSmsNotification(client.phone, `ManageTheFans: ${content}`) : false;
+    statusMessage = client.phone ? (sent ? null : 'SMS could not be sent') : 'Client has no phone number';
+  } else {
+    await sendNotification({
+      recipientId: client.id,
+      type: 'appointment',
+      title: subject,
+      content,
+      link: '/appointments',
+    });
+    sent = true;
+  }
+
+  await storage.createCommunicationHistory({
+    recipientId: client.id,
+    senderId: appointment.adminId,
+    type: channel === 'in-app' ? 'notification' : channel,
+    subject: channel === 'email' ? subject : null,
+    content,
+    status: sent ? 'sent' : 'failed',
+    statusMessage,
+    templateId: null,
+  });
+  return sent;
+}
+
+/**
+ * Remind a client about an upcoming appointment over their channels, in-app if none of them work
+ * @param appointment The appointment
+ * @param client The client
+ * @param channels Channels to try
+ * @param timeZone IANA timezone the client sees times in
+ * @param now Current time
+ * @returns Promise<ReminderChannel[]> Channels the reminder went out over
+ */
+export async function sendAppointmentReminder(
+  appointment: Appointment,
+  client: User,
+  channels: ReminderChannel[],
+  timeZone: string,
+  now: Date = new Date()
+): Promise<ReminderChannel[]> {
+  const startsAt = new Date(appointment.appointmentDate);
+  const subject = 'Appointment Reminder';
+  const content = `Reminder: your appointment is in ${formatLeadTime((startsAt.getTime() - now.getTime()) / MINUTE_MS)}, ` +
+    `on ${formatInTimeZone(startsAt, timeZone)} at ${appointment.location}. Duration: ${appointment.duration} minutes.`;
+
+  const delivered: ReminderChannel[] = [];
+  for (const channel of channels) {
+    if (await deliverReminder(appointment, client, channel, subject, content)) {
+      delivered.push(channel);
+    }
+  }
+
+  if (delivered.length === 0 && !channels.includes('in-app')) {
+    await deliverReminder(appointment, client, 'in-app', subject, content);
+    delivered.push('in-app');
+  }
+  return delivered;
+}
+
+// Reminders already handled for the appointment's current start time
+function handledMinutes(reminders: AppointmentReminder[], startsAt: Date): Set<number> {
+  return new Set(
+    reminders
+      .filter(reminder => new Date(reminder.appointmentDate).getTime() === startsAt.getTime())
+      .map(reminder => reminder.minutesBefore)
+  );
+}
+
+/**
+ * Send the reminders that are due for booked appointments, including ones with a reschedule still being agreed since
+ * they keep their time until it's accepted. Each reminder is recorded before it's sent so it never goes out twice,
+ * and when several are due at once only the closest one is sent.
+ * @param now Current time
+ * @returns Promise<number> Number of reminders sent
+ */
+export async function sendDueReminders(now: Date = new Date()): Promise<number> {
+  const upcoming = await storage.getAppointmentsStartingBetween(now, new Date(now.getTime() + MAX_REMINDER_MINUTES * MINUTE_MS));
+  const settingsByClient = new Map<number, RentMenSettings | undefined>();
+  let sentCount = 0;
+
+  for (const appointment of upcoming.filter(appointment => RESCHEDULABLE_STATUSES.includes(appointment.status as AppointmentStatus))) {
+    if (!settingsByClient.has(appointment.clientId)) {
+      settingsByClient.set(appointment.clientId, await storage.getRentMenSettingsByUserId(appointment.clientId));
+    }
+
+    const startsAt = new Date(appointment.appointmentDate);
+    // Nothing further ahead than a reminder that was already handled, it would arrive after it
+    const handled = handledMinutes(await storage.getAppointmentRemindersByAppointmentId(appointment.id), startsAt);
+    const closestHandled = Math.min(...Array.from(handled));
+    const due = getReminderMinutes(settingsByClient.get(appointment.clientId))
+      .filter(minutes => minutes < closestHandled && startsAt.getTime() - minutes * MINUTE_MS <= now.getTime());
+    if (due.length === 0) continue;
+
+    // A reminder that's overdue because a closer one is due too would only repeat it
+    const [closest, ...overdue] = due;
+    for (const minutes of overdue) {
+      await storage.createAppointmentReminder({ appointmentId: appointment.id, minutesBefore: minutes, appointmentDate: startsAt, status: 'skipped' });
+    }
+
+    const reminder = await storage.createAppointmentReminder({ appointmentId: appointment.id, minutesBefore: closest, appointmentDate: startsAt, status: 'pending' });
+    try {
+      const [client, profile] = await Promise.all([
+        storage.getUser(appointment.clientId),
+        storage.getProfileByUserId(appointment.clientId),
+      ]);
+      if (!client) {
+        await storage.updateAppointmentReminder(reminder.id, { status: 'failed' });
+        continue;
+      }
+
+      const channels = await sendAppointmentReminder(
+        appointment,
+        client,
+        getReminderChannels(profile, appointment),
+        resolveTimeZone(profile?.timezone),
+        now
+      );
+      await storage.updateAppointmentReminder(reminder.id, { status: 'sent', channels, sentAt: new Date() });
+      sentCount++;
+    } catch (error) {
+      console.error(`Error sending reminder for appointment ${appointment.id}:`, error);
+      await storage.updateAppointmentReminder(reminder.id, { status: 'failed' });
+    }
+  }
+
+  return sentCount;
+}
+
+/**
+ * Scheduled job entry point, see REMINDER_INTERVAL_MS
+ */
+export async function processAppointmentReminders(): Promise<void> {
+  const sentCount = await sendDueReminders();
+  if (sentCount > 0) {
+    console.log(`Appointment reminders: ${sentCount} sent`);
+  }
+}
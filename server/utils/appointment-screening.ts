@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { Appointment, RentMenSettings } from '@shared/schema';
+import { acceptRevision } from './appointment-negotiation';
+import { isDepositOutstanding } from './appointment-payments';
+
+export type ScreeningStatus = 'not_screened' | 'passed' | 'needs_review';
+
+export type BookerDetail = 'name' | 'email' | 'phone' | 'references';
+
+export interface ScreeningResult {
+  status: Exclude<ScreeningStatus, 'not_screened'>;
+  reasons: string[]; // why it needs review, empty when it passed
+}
+
+// Who is booking the client, as collected by the admin when proposing
+export const bookerDetailsSchema = z.object({
+  bookerName: z.string().trim().max(200).optional(),
+  bookerEmail: z.union([z.string().trim().email(), z.literal('')]).optional(),
+  bookerPhone: z.string().trim().max(50).optional(),
+  bookerReferences: z.string().trim().max(2000).optional(),
+  bookerVerified: z.boolean().optional(),
+});
+
+export type BookerDetails = z.infer<typeof bookerDetailsSchema>;
+
+// What screening looks at, an appointment or a booking request that isn't one yet
+export type ScreeningCandidate = Pick<Appointment, 'bookerName' | 'bookerEmail' | 'bookerPhone' | 'bookerReferences' | 'bookerVerified' | 'amount'> & {
+  id?: number;
+};
+
+// Booker details a client can require, the appointment column each is kept in and how reasons name it
+const BOOKER_DETAILS: Record<BookerDetail, { field: keyof BookerDetails; label: string }> = {
+  name: { field: 'bookerName', label: 'full name' },
+  email: { field: 'bookerEmail', label: 'email' },
+  phone: { field: 'bookerPhone', label: 'phone number' },
+  references: { field: 'bookerReferences', label: 'references' },
+};
+
+/**
+ * Columns to store booker details with, empty values cleared
+ * @param details The parsed details
+ * @returns Partial<Appointment> The booker columns
+ */
+export function bookerDetailsFields(details: BookerDetails) {
+  return {
+    bookerName: details.bookerName || null,
+    bookerEmail: details.bookerEmail?.toLowerCase() || null,
+    bookerPhone: details.bookerPhone || null,
+    bookerReferences: details.bookerReferences || null,
+    bookerVerified: details.bookerVerified ?? false,
+  };
+}
+
+/**
+ * A rate as a number, they're free text in the settings, e.g. "$200/hr"
+ * @param value The rate
+ * @returns number | null The amount, or null if there's none
+ */
+export function parseRate(value: string | null | undefined): number | null {
+  const rate = parseFloat((value ?? '').replace(/[^0-9.]/g, ''));
+  return isNaN(rate) ? null : rate;
+}
+
+const phoneDigits = (phone: string | null) => (phone ?? '').replace(/\D/g, '');
+
+// Whether two appointments were booked by the same person, going by email or phone
+function sameBooker(a: ScreeningCandidate, b: Appointment): boolean {
+  if (a.bookerEmail && a.bookerEmail === b.bookerEmail) return true;
+  const digits = phoneDigits(a.bookerPhone);
+  return digits.length >= 7 && digits === phoneDigits(b.bookerPhone);
+}
+
+/**
+ * Check an appointment against the client's screening rules: the booker details they require, verified
+ * bookers only, their minimum rate, and how earlier bookings by the same person went
+ * @param appointment The appointment, or a booking request's details
+ * @param settings The client's Rent.Men settings, undefined if they have none
+ * @param history The client's other appointments
+ * @returns ScreeningResult Passed, or why it needs review
+ */
+export function evaluateScreening(
+  appointment: ScreeningCandidate,
+  settings: RentMenSettings | undefined,
+  history: Appointment[]
+): ScreeningResult {
+  const reasons: string[] = [];
+
+  const required = Array.isArray(settings?.screeningRequirements) ? settings!.screeningRequirements as BookerDetail[] : [];
+  const missing = required.filter(detail => BOOKER_DETAILS[detail] && !appointment[BOOKER_DETAILS[detail].field]);
+  if (missing.length > 0) {
+    reasons.push(`The booker's ${missing.map(detail => BOOKER_DETAILS[detail].label).join(', ')} ${missing.length > 1 ? 'are' : 'is'} missing`);
+  }
+
+  // Verified bookers only unless the client turned it off
+  if (settings && settings.showOnlyVerifiedClients !== false && !appointment.bookerVerified) {
+    reasons.push("The booker's ID hasn't been verified");
+  }
+
+  const minimumRate = parseRate(settings?.minimumRate);
+  const amount = parseRate(appointment.amount);
+  if (minimumRate !== null && amount !== null && amount < minimumRate) {
+    reasons.push(`The amount ($${amount}) is below the client's minimum rate ($${minimumRate})`);
+  }
+
+  const earlier = history.filter(other => other.id !== appointment.id && sameBooker(appointment, other));
+  const noShows = earlier.filter(other => other.status === 'no_show').length;
+  if (noShows > 0) {
+    reasons.push(`The booker didn't show up ${noShows === 1 ? 'once' : `${noShows} times`} before`);
+  }
+  if (earlier.some(other => other.status === 'declined')) {
+    reasons.push('The client declined this booker before');
+  }
+
+  return { status: reasons.length > 0 ? 'needs_review' : 'passed', reasons };
+}
+
+/**
+ * Screen an appointment and record the result on it. When the client approves automatically, a proposal
+ * that passes is approved on their behalf, unless a deposit is still to be paid. Anything else is left
+ * for them to review.
+ * @param appointment The appointment
+ * @returns Promise<{ appointment: Appointment; autoApproved: boolean }> The updated appointment and whether it was approved
+ */
+export async function screenAppointment(appointment: Appointment): Promise<{ appointment: Appointment; autoApproved: boolean }> {
+  const [settings, history] = await Promise.all([
+    storage.getRentMenSettingsByUserId(appointment.clientId),
+    storage.getAppointmentsByClientId(appointment.clientId),
+  ]);
+
+  const result = evaluateScreening(appointment, settings, history);
+  const screened = await storage.updateAppointment(appointment.id, {
+    screeningStatus: result.status,
+    screeningReasons: result.reasons,
+    screenedAt: new Date(),
+  });
+
+  const autoApproves = settings?.approvalProcess === 'auto' && result.status === 'passed' &&
+    screened.status === 'pending' && !isDepositOutstanding(screened);
+  if (!autoApproves) {
+    return { appointment: screened, autoApproved: false };
+  }
+  return { appointment: await acceptRevision(screened, screened.clientId), autoApproved: true };
+}
@@ -0,0 +1,262 @@
+import { Response } from 'express';
+import { storage } from '../storage';
+import { Appointment, AppointmentSeries, InsertAppointment } from '@shared/schema';
+import {
+  SlotConflict,
+  checkSlotsAvailability,
+  resolveTimeZone,
+  zonedParts,
+  zonedTimeToDate,
+} from './availability';
+import {
+  AppointmentStatus,
+  AppointmentTerms,
+  CANCELLABLE_STATUSES,
+  proposeRevision,
+  recordProposal,
+  termsOf,
+} from './appointment-negotiation';
+import {
+  MAX_OCCURRENCES,
+  RecurrenceRule,
+  describeRecurrence,
+  expandRecurrence,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+} from './recurrence';
+
+export interface SeriesOccurrence {
+  start: Date;
+  conflict: SlotConflict | null;
+}
+
+export interface SeriesPlan {
+  timezone: string; // the client's, days and the time of day are in it
+  description: string;
+  occurrences: SeriesOccurrence[];
+}
+
+// A change to every upcoming appointment of a standing booking
+export interface SeriesChanges {
+  time?: string; // HH:mm in the series' timezone
+  duration?: number; // in minutes
+  location?: string;
+  amount?: string;
+}
+
+export interface SeriesChange {
+  appointment: Appointment;
+  terms: AppointmentTerms;
+  conflict: SlotConflict | null;
+}
+
+// One appointment of a series and why its time doesn't work, if it doesn't
+interface OccurrenceCheck {
+  start: Date;
+  appointmentId?: number; // the series' own appointment, when changing an existing series
+  conflict: SlotConflict | null;
+}
+
+// Appointments a change to the series reaches, as long as they're upcoming and weren't changed on their own
+const EDITABLE_STATUSES: AppointmentStatus[] = ['pending', 'countered', 'approved', 'rescheduled'];
+
+async function getClientTimeZone(clientId: number): Promise<string> {
+  const profile = await storage.getProfileByUserId(clientId);
+  return resolveTimeZone(profile?.timezone);
+}
+
+/**
+ * A series' recurrence rule in words
+ * @param series The series
+ * @returns string e.g. "Weekly on Monday and Thursday, until December 31, 2026"
+ */
+export function describeSeries(series: AppointmentSeries): string {
+  return describeRecurrence(parseRecurrenceRule(series.recurrenceRule), series.timezone);
+}
+
+/**
+ * Expand a standing booking and check every appointment against the client's availability and bookings
+ * @param clientId The client being booked
+ * @param start The first appointment
+ * @param duration Length of each appointment in minutes
+ * @param rule The recurrence rule
+ * @returns Promise<SeriesPlan> Each appointment's start time and any conflict
+ */
+export async function planSeries(clientId: number, start: Date, duration: number, rule: RecurrenceRule): Promise<SeriesPlan> {
+  const timezone = await getClientTimeZone(clientId);
+  const starts = expandRecurrence(rule, start, timezone);
+  const conflicts = await checkSlotsAvailability(clientId, starts.map(occurrence => ({ start: occurrence, duration })));
+
+  return {
+    timezone,
+    description: describeRecurrence(rule, timezone),
+    occurrences: starts.map((occurrence, index) => ({ start: occurrence, conflict: conflicts[index] })),
+  };
+}
+
+/**
+ * Why a plan can't be proposed as it is, leaving out conflicts
+ * @param plan The plan
+ * @param start The first appointment it was planned from
+ * @returns string | null The problem, or null
+ */
+export function getSeriesPlanError(plan: SeriesPlan, start: Date): string | null {
+  if (plan.occurrences[0]?.start.getTime() !== start.getTime()) {
+    return 'The first appointment has to fall on one of the days the series repeats on';
+  }
+  if (plan.occurrences.length > MAX_OCCURRENCES) {
+    return `A standing booking can have at most ${MAX_OCCURRENCES} appointments, end it sooner`;
+  }
+  if (plan.occurrences.length < 2) {
+    return 'The series ends before its second appointment, propose a single appointment instead';
+  }
+  return null;
+}
+
+/**
+ * Propose a standing booking: the series and one pending appointment per occurrence, each negotiated on its own
+ * @param proposal The appointment fields every occurrence shares
+ * @param rule The recurrence rule
+ * @param plan The plan from planSeries, without conflicts
+ * @returns Promise<{ series: AppointmentSeries; appointments: Appointment[] }> The series and its appointments
+ */
+export async function createSeries(
+  proposal: Omit<InsertAppointment, 'appointmentDate'>,
+  rule: RecurrenceRule,
+  plan: SeriesPlan
+): Promise<{ series: AppointmentSeries; appointments: Appointment[] }> {
+  const series = await storage.createAppointmentSeries({
+    adminId: proposal.adminId,
+    clientId: proposal.clientId,
+    recurrenceRule: formatRecurrenceRule(rule),
+    timezone: plan.timezone,
+    startDate: plan.occurrences[0].start,
+    duration: proposal.duration,
+    location: proposal.location,
+    amount: proposal.amount ?? null,
+  });
+
+  const appointments: Appointment[] = [];
+  for (const occurrence of plan.occurrences) {
+    const appointment = await storage.createAppointment({
+      ...proposal,
+      appointmentDate: occurrence.start,
+      seriesId: series.id,
+      seriesOccurrence: occurrence.start,
+    });
+    await recordProposal(appointment);
+    appointments.push(appointment);
+  }
+  return { series, appointments };
+}
+
+/**
+ * Upcoming appointments of a series that haven't been called off, whether or not they were changed on their own
+ * @param series The series
+ * @param now Current time
+ * @returns Promise<Appointment[]> The appointments, in order
+ */
+export async function getCancellableOccurrences(series: AppointmentSeries, now: Date = new Date()): Promise<Appointment[]> {
+  const appointments = await storage.getAppointmentsBySeriesId(series.id);
+  return appointments.filter(appointment =>
+    new Date(appointment.appointmentDate) > now && CANCELLABLE_STATUSES.includes(appointment.status as AppointmentStatus));
+}
+
+/**
+ * New terms for each upcoming appointment of a series a change reaches, checked against the client's
+ * availability. Appointments changed on their own are left as they are.
+ * @param series The series
+ * @param changes The change
+ * @param now Current time
+ * @returns Promise<SeriesChange[]> The appointments with their new terms, only the ones that actually change
+ */
+export async function planSeriesChanges(series: AppointmentSeries, changes: SeriesChanges, now: Date = new Date()): Promise<SeriesChange[]> {
+  const appointments = (await storage.getAppointmentsBySeriesId(series.id)).filter(appointment =>
+    !appointment.detachedFromSeries &&
+    new Date(appointment.appointmentDate) > now &&
+    EDITABLE_STATUSES.includes(appointment.status as AppointmentStatus));
+
+  const [hours, minutes] = changes.time?.split(':').map(Number) ?? [];
+  const planned = appointments.map(appointment => {
+    const current = termsOf(appointment);
+    const terms: AppointmentTerms = {
+      // Same day as seen by the client, at the new time
+      appointmentDate: changes.time
+        ? zonedTimeToDate(zonedParts(current.appointmentDate, series.timezone), hours * 60 + minutes, series.timezone)
+        : current.appointmentDate,
+      duration: changes.duration ?? current.duration,
+      location: changes.location ?? current.location,
+      amount: changes.amount ?? current.amount,
+    };
+    const movesTime = terms.appointmentDate.getTime() !== current.appointmentDate.getTime() || terms.duration !== current.duration;
+    const unchanged = !movesTime && terms.location === current.location && terms.amount === current.amount;
+    return { appointment, terms, movesTime, unchanged };
+  }).filter(change => !change.unchanged);
+
+  // The series' own appointments make way for each other
+  const conflicts = await checkSlotsAvailability(
+    series.clientId,
+    planned.map(change => ({ start: change.terms.appointmentDate, duration: change.terms.duration })),
+    appointments.map(appointment => appointment.id)
+  );
+  return planned.map(({ appointment, terms, movesTime }, index) => ({
+    appointment,
+    terms,
+    conflict: movesTime ? conflicts[index] : null,
+  }));
+}
+
+/**
+ * Put the new terms forward on every appointment a change reaches. Each goes to the other party as a
+ * counter-proposal, or a reschedule once agreed, and the series takes the new terms for its description.
+ * @param series The series
+ * @param changes The change
+ * @param planned The appointments and terms from planSeriesChanges, without conflicts
+ * @param proposedBy ID of the user changing the series
+ * @param note Optional message to the other party
+ * @returns Promise<{ series: AppointmentSeries; appointments: Appointment[] }> The updated series and appointments
+ */
+export async function applySeriesChanges(
+  series: AppointmentSeries,
+  changes: SeriesChanges,
+  planned: SeriesChange[],
+  proposedBy: number,
+  note?: string
+): Promise<{ series: AppointmentSeries; appointments: Appointment[] }> {
+  const appointments: Appointment[] = [];
+  for (const { appointment, terms } of planned) {
+    appointments.push((await proposeRevision(appointment, proposedBy, terms, note)).appointment);
+  }
+
+  const [hours, minutes] = changes.time?.split(':').map(Number) ?? [];
+  const updatedSeries = await storage.updateAppointmentSeries(series.id, {
+    startDate: changes.time
+      ? zonedTimeToDate(zonedParts(new Date(series.startDate), series.timezone), hours * 60 + minutes, series.timezone)
+      : series.startDate,
+    duration: changes.duration ?? series.duration,
+    location: changes.location ?? series.location,
+    amount: changes.amount ?? series.amount,
+  });
+  return { series: updatedSeries, appointments };
+}
+
+/**
+ * Reject a series with appointments the client can't take. Responds with 409 and every conflict.
+ * @param res The response
+ * @param occurrences Each appointment's start time and conflict
+ * @returns boolean True if every appointment is free
+ */
+export function enforceSeriesAvailability(res: Response, occurrences: OccurrenceCheck[]): boolean {
+  const conflicts = occurrences.filter(occurrence => occurrence.conflict);
+  if (conflicts.length === 0) {
+    return true;
+  }
+
+  res.status(409).json({
+    code: 'SERIES_CONFLICT',
+    message: `${conflicts.length} of the ${occurrences.length} appointments don't work for the client. ` +
+      `The first: ${conflicts[0].conflict!.message}`,
+    conflicts,
+  });
+  return false;
+}
@@ -0,0 +1,371 @@
+import { Response } from 'express';
+import { storage } from '../storage';
+import { Appointment } from '@shared/schema';
+
+// Weekly schedule entry as saved from the Rent.Men settings, times are HH:mm in the client's timezone
+export interface AvailabilityTime {
+  day: string;
+  available: boolean;
+  startTime?: string;
+  endTime?: string;
+}
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface SlotSearchOptions {
+  from: Date;
+  to: Date;
+  duration: number; // in minutes
+  stepMinutes?: number;
+  excludeAppointmentId?: number; // e.g. the appointment being moved
+}
+
+export interface SlotAvailability {
+  timezone: string;
+  hasSchedule: boolean; // without a schedule every time is available unless it's booked
+  bufferMinutes: number;
+  slots: TimeRange[];
+}
+
+export type SlotConflictCode = 'IN_THE_PAST' | 'OUTSIDE_AVAILABILITY' | 'DOUBLE_BOOKED';
+
+export interface SlotConflict {
+  code: SlotConflictCode;
+  message: string;
+  appointmentId?: number;
+}
+
+// Bookings that hold their time, declined and cancelled ones free it up
+export const BLOCKING_APPOINTMENT_STATUSES = ['pending', 'countered', 'approved', 'rescheduled'];
+
+export const DEFAULT_BUFFER_MINUTES = 30;
+const DEFAULT_STEP_MINUTES = 30;
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Abbreviations offered during onboarding, the profile page saves IANA names
+const TIMEZONE_ALIASES: Record<string, string> = {
+  ET: 'America/New_York',
+  CT: 'America/Chicago',
+  MT: 'America/Denver',
+  PT: 'America/Los_Angeles',
+  GMT: 'Etc/GMT',
+  CET: 'Europe/Berlin',
+  IST: 'Asia/Kolkata',
+  JST: 'Asia/Tokyo',
+  AEST: 'Australia/Sydney',
+};
+
+/**
+ * Turn profiles.timezone into an IANA timezone, UTC if it's missing or unknown
+ * @param timezone The profile's timezone
+ * @returns string IANA timezone name
+ */
+export function resolveTimeZone(timezone: string | null | undefined): string {
+  if (!timezone) {
+    return 'UTC';
+  }
+
+  const name = TIMEZONE_ALIASES[timezone.toUpperCase()] ?? timezone;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: name });
+    return name;
+  } catch {
+    return 'UTC';
+  }
+}
+
+export interface ZonedDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 is Sunday
+}
+
+export function zonedParts(date: Date, timeZone: string): ZonedDate & { minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+  const year = part('year');
+  const month = part('month');
+  const day = part('day');
+  return {
+    year,
+    month,
+    day,
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+    minutes: part('hour') * 60 + part('minute'),
+  };
+}
+
+// The instant a wall clock time in the timezone happens, minutes past midnight may run into the next day
+export function zonedTimeToDate(date: ZonedDate, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, 0, minutes);
+  const offsetAt = (instant: number) => {
+    const parts = zonedParts(new Date(instant), timeZone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, 0, parts.minutes) - Math.floor(instant / MINUTE_MS) * MINUTE_MS;
+  };
+
+  // Check the offset again at the result in case a DST change falls in between
+  const offset = offsetAt(wallClock);
+  const adjustedOffset = offsetAt(wallClock - offset);
+  return new Date(wallClock - adjustedOffset);
+}
+
+export function addDays(date: ZonedDate, days: number): ZonedDate {
+  const next = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: next.getUTCFullYear(),
+    month: next.getUTCMonth() + 1,
+    day: next.getUTCDate(),
+    weekday: next.getUTCDay(),
+  };
+}
+
+// Minutes past midnight for an HH:mm time, or null if it isn't one
+function parseTime(time: string | undefined): number | null {
+  const match = time?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+function parseSchedule(availabilityTimes: unknown): Map<number, { start: number; end: number }> {
+  const schedule = new Map<number, { start: number; end: number }>();
+  if (!Array.isArray(availabilityTimes)) {
+    return schedule;
+  }
+
+  for (const entry of availabilityTimes as AvailabilityTime[]) {
+    const dayPrefix = typeof entry?.day === 'string' ? entry.day.trim().toLowerCase().slice(0, 3) : '';
+    const weekday = dayPrefix.length === 3 ? WEEKDAYS.findIndex(day => day.startsWith(dayPrefix)) : -1;
+    const start = parseTime(entry?.startTime);
+    const end = parseTime(entry?.endTime);
+    if (weekday === -1 || !entry.available || start === null || end === null) continue;
+
+    // An end at or before the start means the window runs past midnight
+    schedule.set(weekday, { start, end: end > start ? end : end + DAY_MINUTES });
+  }
+  return schedule;
+}
+
+/**
+ * Availability windows between two instants from a weekly schedule in a timezone
+ * @param availabilityTimes rentMenSettings.availabilityTimes
+ * @param timeZone IANA timezone the schedule is in
+ * @param from Start of the range
+ * @param to End of the range
+ * @returns TimeRange[] Windows clipped to the range, in order
+ */
+export function getAvailabilityWindows(availabilityTimes: unknown, timeZone: string, from: Date, to: Date): TimeRange[] {
+  const schedule = parseSchedule(availabilityTimes);
+  const windows: TimeRange[] = [];
+
+  // Start a day early for windows that run past midnight into the range
+  let day = addDays(zonedParts(from, timeZone), -1);
+  while (zonedTimeToDate(day, 0, timeZone) < to) {
+    const hours = schedule.get(day.weekday);
+    if (hours) {
+      const start = zonedTimeToDate(day, hours.start, timeZone);
+      const end = zonedTimeToDate(day, hours.end, timeZone);
+      if (end > from && start < to) {
+        windows.push({ start: start < from ? from : start, end: end > to ? to : end });
+      }
+    }
+    day = addDays(day, 1);
+  }
+  return windows;
+}
+
+// Time an appointment holds, including the buffer on either side
+function blockedRange(appointment: Appointment, bufferMinutes: number): TimeRange {
+  const start = new Date(appointment.appointmentDate);
+  return {
+    start: new Date(start.getTime() - bufferMinutes * MINUTE_MS),
+    end: new Date(start.getTime() + (appointment.duration + bufferMinutes) * MINUTE_MS),
+  };
+}
+
+const overlaps = (a: TimeRange, b: TimeRange) => a.start < b.end && b.start < a.end;
+
+async function loadBookingContext(clientId: number, excludeAppointmentIds: number[] = []) {
+  const [settings, profile, appointments] = await Promise.all([
+    storage.getRentMenSettingsByUserId(clientId),
+    storage.getProfileByUserId(clientId),
+    storage.getAppointmentsByClientId(clientId),
+  ]);
+
+  const bufferMinutes = settings?.bufferMinutes ?? DEFAULT_BUFFER_MINUTES;
+  return {
+    availabilityTimes: settings?.availabilityTimes,
+    hasSchedule: parseSchedule(settings?.availabilityTimes).size > 0,
+    timezone: resolveTimeZone(profile?.timezone),
+    bufferMinutes,
+    blocked: appointments
+      .filter(appointment => BLOCKING_APPOINTMENT_STATUSES.includes(appointment.status) && !excludeAppointmentIds.includes(appointment.id))
+      .map(appointment => ({ appointment, range: blockedRange(appointment, bufferMinutes) })),
+  };
+}
+
+/**
+ * Open appointment slots for a client: inside their weekly availability, in the future and clear of
+ * pending or approved appointments and their buffer
+ * @param clientId The client being booked
+ * @param options Range to search, appointment length and slot spacing
+ * @returns Promise<SlotAvailability> Open slots and the schedule they came from
+ */
+export async function findOpenSlots(clientId: number, options: SlotSearchOptions): Promise<SlotAvailability> {
+  const context = await loadBookingContext(clientId, options.excludeAppointmentId ? [options.excludeAppointmentId] : []);
+  const step = (options.stepMinutes ?? DEFAULT_STEP_MINUTES) * MINUTE_MS;
+  const length = options.duration * MINUTE_MS;
+  const now = Date.now();
+
+  const slots: TimeRange[] = [];
+  for (const window of getAvailabilityWindows(context.availabilityTimes, context.timezone, options.from, options.to)) {
+    for (let start = window.start.getTime(); start + length <= window.end.getTime(); start += step) {
+      if (start < now) continue;
+
+      const slot = { start: new Date(start), end: new Date(start + length) };
+      if (!context.blocked.some(({ range }) => overlaps(range, slot))) {
+        slots.push(slot);
+      }
+    }
+  }
+
+  return {
+    timezone: context.timezone,
+    hasSchedule: context.hasSchedule,
+    bufferMinutes: context.bufferMinutes,
+    slots,
+  };
+}
+
+/**
+ * A date and time as someone in the timezone sees it
+ * @param date The instant
+ * @param timeZone IANA timezone
+ * @returns string e.g. "Fri, Oct 23, 2:00 PM EDT"
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(date);
+}
+
+type BookingContext = Awaited<ReturnType<typeof loadBookingContext>>;
+
+function findSlotConflict(context: BookingContext, start: Date, duration: number): SlotConflict | null {
+  const slot = { start, end: new Date(start.getTime() + duration * MINUTE_MS) };
+
+  // Every booking path goes through here, so none of them can book a time that has already started
+  if (start.getTime() <= Date.now()) {
+    return {
+      code: 'IN_THE_PAST',
+      message: `${formatInTimeZone(start, context.timezone)} has already passed, choose a time in the future`,
+    };
+  }
+
+  const conflict = context.blocked.find(({ range }) => overlaps(range, slot));
+  if (conflict) {
+    return {
+      code: 'DOUBLE_BOOKED',
+      message: `This overlaps the ${conflict.appointment.status} appointment on ` +
+        `${formatInTimeZone(new Date(conflict.appointment.appointmentDate), context.timezone)}` +
+        (context.bufferMinutes > 0 ? ` or the ${context.bufferMinutes} minute buffer around it` : ''),
+      appointmentId: conflict.appointment.id,
+    };
+  }
+
+  if (context.hasSchedule) {
+    const windows = getAvailabilityWindows(context.availabilityTimes, context.timezone, slot.start, slot.end);
+    const covered = windows.some(window => window.start <= slot.start && window.end >= slot.end);
+    if (!covered) {
+      return {
+        code: 'OUTSIDE_AVAILABILITY',
+        message: `${formatInTimeZone(slot.start, context.timezone)} for ${duration} minutes is outside the client's availability`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check that a client can take an appointment at a time: in the future, inside their availability and not double booked
+ * @param clientId The client being booked
+ * @param start When the appointment starts
+ * @param duration Length in minutes
+ * @param excludeAppointmentId Appointment to ignore, e.g. the one being moved
+ * @returns Promise<SlotConflict | null> Why the time doesn't work, or null
+ */
+export async function checkSlotAvailability(
+  clientId: number,
+  start: Date,
+  duration: number,
+  excludeAppointmentId?: number
+): Promise<SlotConflict | null> {
+  const context = await loadBookingContext(clientId, excludeAppointmentId ? [excludeAppointmentId] : []);
+  return findSlotConflict(context, start, duration);
+}
+
+/**
+ * Check several appointment times for a client at once, e.g. every occurrence of a standing booking
+ * @param clientId The client being booked
+ * @param slots Start and length in minutes of each appointment
+ * @param excludeAppointmentIds Appointments to ignore, e.g. the ones being moved
+ * @returns Promise<(SlotConflict | null)[]> Why each time doesn't work, or null, in the same order
+ */
+export async function checkSlotsAvailability(
+  clientId: number,
+  slots: { start: Date; duration: number }[],
+  excludeAppointmentIds: number[] = []
+): Promise<(SlotConflict | null)[]> {
+  const context = await loadBookingContext(clientId, excludeAppointmentIds);
+  return slots.map(slot => findSlotConflict(context, slot.start, slot.duration));
+}
+
+/**
+ * Reject an appointment time the client can't take. Responds with 409 and the conflict.
+ * @param res The response
+ * @param clientId The client being booked
+ * @param start When the appointment starts
+ * @param duration Length in minutes
+ * @param excludeAppointmentId Appointment to ignore, e.g. the one being moved
+ * @returns Promise<boolean> True if the time is free
+ */
+export async function enforceSlotAvailability(
+  res: Response,
+  clientId: number,
+  start: Date,
+  duration: number,
+  excludeAppointmentId?: number
+): Promise<boolean> {
+  const conflict = await checkSlotAvailability(clientId, start, duration, excludeAppointmentId);
+  if (!conflict) {
+    return true;
+  }
+
+  res.status(409).json(conflict);
+  return false;
+}
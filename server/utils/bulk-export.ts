@@ -0,0 +1,226 @@
+import archiver from 'archiver';
+import path from 'path';
+import fs from 'fs';
+import { Writable } from 'stream';
+import { storage } from '../storage';
+import { objectStorage } from './object-storage';
+import { escapeCsv } from './posting-plans';
+import { exportMediaFile } from './media-export';
+import { MediaFile, User } from '@shared/schema';
+
+// Upper bound on the files in one archive, larger exports should be split by date range
+export const MAX_BULK_EXPORT_FILES = 500;
+
+export interface BulkExportFilters {
+  ids?: number[];
+  clientId?: number;
+  status?: string; // a review status, 'current' (default, everything but replaced versions) or 'all'
+  tag?: string;
+  dateField: 'upload' | 'scheduled';
+  from?: Date;
+  to?: Date;
+}
+
+export interface ManifestEntry {
+  mediaFileId: number;
+  fileName: string | null; // path inside the archive, null if the file couldn't be read
+  client: string;
+  title: string;
+  description: string;
+  status: string;
+  fileType: string;
+  version: number;
+  tags: string[];
+  captions: { platform: string; caption: string; hashtags: string[]; targetDate: Date | null }[];
+  scheduledDate: Date | null;
+  uploadDate: Date;
+  error?: string;
+}
+
+/**
+ * Media files matching an export request that the user is allowed to download.
+ * Clients only ever see their own files, the same as /api/content/file/:id.
+ * @param user The user requesting the export
+ * @param filters Selection and filters from the request
+ * @returns Promise<MediaFile[]> Matching files, oldest upload first
+ */
+export async function selectExportFiles(user: Pick<User, 'id' | 'role'>, filters: BulkExportFilters): Promise<MediaFile[]> {
+  let userIds: number[];
+  if (user.role !== 'admin') {
+    userIds = [user.id];
+  } else if (filters.clientId) {
+    userIds = [filters.clientId];
+  } else {
+    userIds = (await storage.getAllUsers()).map(client => client.id);
+  }
+
+  const files = (await Promise.all(userIds.map(userId => storage.getMediaFilesByUserId(userId)))).flat();
+  const ids = filters.ids ? new Set(filters.ids) : undefined;
+  const tag = filters.tag?.toLowerCase();
+
+  return files.filter(file => {
+    if (ids && !ids.has(file.id)) return false;
+    if (filters.clientId && file.userId !== filters.clientId) return false;
+
+    const status = filters.status ?? 'current';
+    if (status === 'current' ? file.status === 'superseded' : status !== 'all' && file.status !== status) return false;
+
+    if (tag && !((file.tags as string[] | null) ?? []).some(fileTag => fileTag.toLowerCase() === tag)) return false;
+
+    const date = filters.dateField === 'scheduled' ? file.scheduledDate : file.uploadDate;
+    if ((filters.from || filters.to) && !date) return false;
+    if (filters.from && date! < filters.from) return false;
+    if (filters.to && date! >= filters.to) return false;
+
+    return true;
+  }).sort((a, b) => a.uploadDate.getTime() - b.uploadDate.getTime());
+}
+
+function toFolderName(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'untitled';
+}
+
+/**
+ * Render the manifest as CSV, one row per file
+ * @param entries Entries written to the archive
+ * @returns string CSV with a header row
+ */
+export function manifestToCsv(entries: ManifestEntry[]): string {
+  const header = ['Media ID', 'File', 'Client', 'Title', 'Description', 'Status', 'Type', 'Version', 'Tags', 'Captions', 'Scheduled Date', 'Upload Date', 'Error'];
+  const lines = entries.map(entry => [
+    String(entry.mediaFileId),
+    entry.fileName ?? '',
+    entry.client,
+    entry.title,
+    entry.description,
+    entry.status,
+    entry.fileType,
+    String(entry.version),
+    entry.tags.join('; '),
+    entry.captions
+      .map(({ platform, caption, hashtags }) => `${platform}: ${[caption, ...hashtags.map(hashtag => `#${hashtag}`)].filter(Boolean).join(' ')}`)
+      .join('\n'),
+    entry.scheduledDate ? entry.scheduledDate.toISOString() : '',
+    entry.uploadDate.toISOString(),
+    entry.error ?? '',
+  ].map(escapeCsv).join(','));
+
+  return [header.join(','), ...lines].join('\r\n');
+}
+
+// Add a file to the archive and wait until it has been read, the local copy may be removed afterwards
+function appendFile(archive: archiver.Archiver, localPath: string, name: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onEntry = () => {
+      archive.off('error', onError);
+      resolve();
+    };
+    const onError = (error: Error) => {
+      archive.off('entry', onEntry);
+      reject(error);
+    };
+    archive.once('entry', onEntry);
+    archive.once('error', onError);
+    archive.append(fs.createReadStream(localPath), { name });
+  });
+}
+
+/**
+ * Stream a ZIP of media files with a manifest.csv and manifest.json describing them.
+ * Files are grouped in a folder per client. A file that can't be read is listed in the
+ * manifest with its error instead of failing the whole download.
+ * @param files Files from selectExportFiles
+ * @param output Where the archive is written, usually the response
+ * @param watermark Export through the watermarking step instead of copying the stored file
+ * @returns Promise<ManifestEntry[]> The manifest, once the archive is complete
+ */
+export async function writeExportArchive(files: MediaFile[], output: Writable, watermark: boolean): Promise<ManifestEntry[]> {
+  // Media is already compressed, storing it saves CPU without making the archive bigger
+  const archive = archiver('zip', { store: true });
+  let failure: Error | undefined;
+  archive.on('error', (error) => { failure = error; });
+  archive.on('warning', (error) => console.warn('Bulk export warning:', error));
+  // Stop reading files when the download is cancelled
+  output.on('close', () => {
+    if (!output.writableFinished) failure ??= new Error('Export download was cancelled');
+  });
+  archive.pipe(output);
+
+  const clients = new Map<number, User | undefined>();
+  const usedNames = new Set<string>();
+  const manifest: ManifestEntry[] = [];
+
+  for (const file of files) {
+    if (failure) throw failure;
+
+    if (!clients.has(file.userId)) {
+      clients.set(file.userId, await storage.getUser(file.userId));
+    }
+    const client = clients.get(file.userId);
+    const clientName = client?.fullName ?? `Client #${file.userId}`;
+    const variants = await storage.getPostingVariantsByMediaFileId(file.id);
+
+    const entry: ManifestEntry = {
+      mediaFileId: file.id,
+      fileName: null,
+      client: clientName,
+      title: file.title,
+      description: file.description ?? '',
+      status: file.status,
+      fileType: file.fileType,
+      version: file.version,
+      tags: (file.tags as string[] | null) ?? [],
+      captions: variants.map(variant => ({
+        platform: variant.platform,
+        caption: variant.caption ?? '',
+        hashtags: (variant.hashtags as string[] | null) ?? [],
+        targetDate: variant.targetDate,
+      })),
+      scheduledDate: file.scheduledDate,
+      uploadDate: file.uploadDate,
+    };
+
+    const folder = toFolderName(client ? `${client.fullName}-${client.id}` : `client-${file.userId}`);
+    try {
+      if (watermark) {
+        const settings = await storage.getWatermarkSettingsByUserId(file.userId);
+        const exported = await exportMediaFile(file, settings, true);
+        try {
+          entry.fileName = path.posix.join(folder, exported.fileName);
+          await appendFile(archive, exported.filePath, entry.fileName);
+        } finally {
+          await exported.cleanup();
+        }
+      } else {
+        const extension = path.posix.extname(file.storagePath);
+        let fileName = `${toFolderName(file.title)}-${file.id}${extension}`;
+        // Titles can repeat within a client, the ID keeps names unique but guard anyway
+        while (usedNames.has(path.posix.join(folder, fileName))) {
+          fileName = `_${fileName}`;
+        }
+        entry.fileName = path.posix.join(folder, fileName);
+        await objectStorage.withLocalFile(file.storagePath, (localPath) => appendFile(archive, localPath, entry.fileName!));
+      }
+      usedNames.add(entry.fileName);
+    } catch (error) {
+      console.error(`Could not add media file ${file.id} to export:`, error);
+      entry.fileName = null;
+      entry.error = 'File could not be read';
+    }
+
+    manifest.push(entry);
+  }
+
+  if (failure) throw failure;
+
+  archive.append(manifestToCsv(manifest), { name: 'manifest.csv' });
+  archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+  const finished = new Promise<void>((resolve, reject) => {
+    output.once('finish', resolve);
+    archive.once('error', reject);
+  });
+  await archive.finalize();
+  await finished;
+
+  return manifest;
+}
@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+import { finished } from 'stream/promises';
+import path from 'path';
+import fs from 'fs';
+import { UPLOAD_ROOT } from './object-storage';
+
+// Chunks are staged on local disk until the upload is complete, whatever the storage backend
+const CHUNK_ROOT = path.join(UPLOAD_ROOT, '.chunks');
+
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+export const MAX_UPLOAD_SIZE = 10 * 1024 * 1024 * 1024;
+
+/**
+ * Create the stored file name for an upload, prefixed by content type for better organization
+ * @param originalName File name supplied by the browser
+ * @param mimeType MIME type of the upload
+ */
+export function buildUploadFileName(originalName: string, mimeType: string): string {
+  const contentTypePrefix = mimeType.startsWith('image/') ? 'img' : 'vid';
+  const sanitizedOriginalName = originalName.replace(/[^a-zA-Z0-9.]/g, '_');
+  const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
+  return `${contentTypePrefix}-${uniqueSuffix}-${sanitizedOriginalName}`;
+}
+
+function getSessionDir(sessionId: number): string {
+  return path.join(CHUNK_ROOT, `session_${sessionId}`);
+}
+
+function getChunkPath(sessionId: number, index: number): string {
+  return path.join(getSessionDir(sessionId), `${index}.part`);
+}
+
+/**
+ * Hex encoded SHA-256 digest of a buffer
+ */
+export function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Store a chunk of an upload session. Re-sending a chunk replaces the previous copy.
+ * @param sessionId ID of the upload session
+ * @param index Zero based chunk index
+ * @param data Chunk contents
+ */
+export async function writeChunk(sessionId: number, index: number, data: Buffer): Promise<void> {
+  const chunkPath = getChunkPath(sessionId, index);
+  await fs.promises.mkdir(path.dirname(chunkPath), { recursive: true });
+
+  // Write to a temp file first so an interrupted request never leaves a partial chunk behind
+  const tempPath = `${chunkPath}.tmp`;
+  await fs.promises.writeFile(tempPath, data);
+  await fs.promises.rename(tempPath, chunkPath);
+}
+
+/**
+ * Concatenate the chunks of an upload session into a single file
+ * @param sessionId ID of the upload session
+ * @param totalChunks Number of chunks in the upload
+ * @returns Promise<{ filePath: string; size: number; checksum: string }> The assembled file with its size and SHA-256 digest
+ */
+export async function assembleChunks(
+  sessionId: number,
+  totalChunks: number
+): Promise<{ filePath: string; size: number; checksum: string }> {
+  const filePath = path.join(getSessionDir(sessionId), 'assembled');
+  const hash = createHash('sha256');
+  const output = fs.createWriteStream(filePath);
+  let size = 0;
+
+  try {
+    for (let index = 0; index < totalChunks; index++) {
+      const chunk = await fs.promises.readFile(getChunkPath(sessionId, index));
+      hash.update(chunk);
+      size += chunk.length;
+      if (!output.write(chunk)) {
+        await new Promise((resolve) => output.once('drain', resolve));
+      }
+    }
+  } finally {
+    output.end();
+  }
+
+  await finished(output);
+
+  return { filePath, size, checksum: hash.digest('hex') };
+}
+
+/**
+ * Delete every staged chunk of an upload session
+ * @param sessionId ID of the upload session
+ */
+export async function removeChunks(sessionId: number): Promise<void> {
+  await fs.promises.rm(getSessionDir(sessionId), { recursive: true, force: true });
+}
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { Collection, MediaFile } from '@shared/schema';
+
+export type CollectionType = 'manual' | 'smart';
+
+/**
+ * Rules of a smart album. Every rule that is set must match (AND), empty lists are ignored.
+ */
+export const smartAlbumRulesSchema = z.object({
+  tags: z.array(z.string().trim().min(1)).default([]), // has all of these tags
+  anyTags: z.array(z.string().trim().min(1)).default([]), // has at least one of these tags
+  excludeTags: z.array(z.string().trim().min(1)).default([]), // has none of these tags
+  statuses: z.array(z.enum(['pending', 'approved', 'rejected', 'changes_requested'])).default([]),
+  fileTypes: z.array(z.enum(['image', 'video'])).default([]),
+  posted: z.boolean().optional(), // true: went out on at least one platform, false: not posted anywhere yet
+  uploadedAfter: z.coerce.date().optional(),
+  uploadedBefore: z.coerce.date().optional(),
+});
+
+export type SmartAlbumRules = z.infer<typeof smartAlbumRulesSchema>;
+
+function lowerTags(file: MediaFile): Set<string> {
+  return new Set(((file.tags as string[] | null) ?? []).map(tag => tag.toLowerCase()));
+}
+
+/**
+ * Whether a media file has been posted, by a scheduled post or a posting variant marked as posted
+ * @param mediaFileId ID of the media file
+ * @returns Promise<boolean> True once it went out on any platform
+ */
+export async function isMediaFilePosted(mediaFileId: number): Promise<boolean> {
+  const posts = await storage.getScheduledPostsByMediaFileId(mediaFileId);
+  if (posts.some(post => post.status === 'posted')) {
+    return true;
+  }
+
+  const variants = await storage.getPostingVariantsByMediaFileId(mediaFileId);
+  return variants.some(variant => variant.status === 'posted');
+}
+
+/**
+ * Check a media file against smart album rules
+ * @param file The media file
+ * @param rules Parsed smart album rules
+ * @returns Promise<boolean> True if every rule matches
+ */
+export async function matchesSmartAlbumRules(file: MediaFile, rules: SmartAlbumRules): Promise<boolean> {
+  // Replaced versions are never shown in albums, their latest version is
+  if (file.status === 'superseded') return false;
+
+  const tags = lowerTags(file);
+  if (!rules.tags.every(tag => tags.has(tag.toLowerCase()))) return false;
+  if (rules.anyTags.length > 0 && !rules.anyTags.some(tag => tags.has(tag.toLowerCase()))) return false;
+  if (rules.excludeTags.some(tag => tags.has(tag.toLowerCase()))) return false;
+
+  if (rules.statuses.length > 0 && !rules.statuses.includes(file.status as SmartAlbumRules['statuses'][number])) return false;
+  if (rules.fileTypes.length > 0 && !rules.fileTypes.includes(file.fileType as SmartAlbumRules['fileTypes'][number])) return false;
+
+  if (rules.uploadedAfter && file.uploadDate < rules.uploadedAfter) return false;
+  if (rules.uploadedBefore && file.uploadDate >= rules.uploadedBefore) return false;
+
+  // Checked last as it needs the posting history
+  if (rules.posted !== undefined && (await isMediaFilePosted(file.id)) !== rules.posted) return false;
+
+  return true;
+}
+
+/**
+ * Media files currently in a collection, in display order. Members of manual collections
+ * are stored, smart albums are evaluated against the client's media on every call.
+ * @param collection The collection
+ * @returns Promise<MediaFile[]> The media files
+ */
+export async function getCollectionMedia(collection: Collection): Promise<MediaFile[]> {
+  if (collection.type === 'smart') {
+    const rules = smartAlbumRulesSchema.parse(collection.rules ?? {});
+    const files = await storage.getMediaFilesByUserId(collection.userId);
+    const matching: MediaFile[] = [];
+    for (const file of files) {
+      if (await matchesSmartAlbumRules(file, rules)) {
+        matching.push(file);
+      }
+    }
+    return matching.sort((a, b) => b.uploadDate.getTime() - a.uploadDate.getTime());
+  }
+
+  const items = await storage.getCollectionItems(collection.id);
+  const files = await Promise.all(items.map(item => storage.getMediaFile(item.mediaFileId)));
+  // Trashed files stay in the collection but are left out until they're restored
+  return files.filter((file): file is MediaFile => !!file && !file.deletedAt);
+}
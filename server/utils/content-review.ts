@@ -0,0 +1,114 @@
+import { storage } from '../storage';
+import { MediaFile } from '@shared/schema';
+import { moveScheduledPosts } from './publishing-queue';
+import { moveVariants } from './posting-plans';
+import { sendNotification } from './realtime';
+
+export type ContentStatus = 'pending' | 'approved' | 'rejected' | 'changes_requested' | 'superseded';
+
+// Statuses a client can answer by uploading a new version
+const RESUBMITTABLE_STATUSES: ContentStatus[] = ['changes_requested', 'rejected'];
+
+// Review outcomes the owner of the content is notified about
+const ownerNotifications: Partial<Record<ContentStatus, { title: string; content: (file: MediaFile, note?: string) => string }>> = {
+  approved: {
+    title: 'Content approved',
+    content: (file) => `Your content "${file.title}" has been approved.`,
+  },
+  rejected: {
+    title: 'Content rejected',
+    content: (file, note) => `Your content "${file.title}" has been rejected. Reason: ${note || "No reason provided."}`,
+  },
+  changes_requested: {
+    title: 'Changes requested',
+    content: (file, note) => `Changes were requested on "${file.title}": ${note || "See the review comments."}`,
+  },
+};
+
+/**
+ * Move a media item to a new review status, record it in the status history and notify the owner
+ * @param mediaFile The media file being reviewed
+ * @param toStatus New review status
+ * @param changedBy ID of the user making the change
+ * @param note Optional reason shown in the history and notification
+ * @returns Promise<MediaFile> The updated media file
+ */
+export async function changeContentStatus(
+  mediaFile: MediaFile,
+  toStatus: ContentStatus,
+  changedBy: number,
+  note?: string
+): Promise<MediaFile> {
+  const updatedFile = await storage.updateMediaFile(mediaFile.id, { status: toStatus });
+
+  await storage.createStatusHistoryEntry({
+    mediaFileId: mediaFile.id,
+    fromStatus: mediaFile.status,
+    toStatus,
+    changedBy,
+    note: note || null,
+  });
+
+  const notification = ownerNotifications[toStatus];
+  if (notification) {
+    await sendNotification({
+      recipientId: mediaFile.userId,
+      type: 'content',
+      title: notification.title,
+      content: notification.content(mediaFile, note),
+      link: '/content-upload',
+    });
+  }
+
+  return updatedFile;
+}
+
+/**
+ * Find the media item a client wants to replace with a new version
+ * @param mediaFileId ID of the version being replaced
+ * @param userId ID of the uploading client
+ * @returns Promise<MediaFile | undefined> The media file, or undefined if it can't be resubmitted by this user
+ */
+export async function getResubmissionTarget(mediaFileId: number, userId: number): Promise<MediaFile | undefined> {
+  const mediaFile = await storage.getMediaFile(mediaFileId);
+  if (!mediaFile || mediaFile.userId !== userId) {
+    return undefined;
+  }
+
+  return RESUBMITTABLE_STATUSES.includes(mediaFile.status as ContentStatus) ? mediaFile : undefined;
+}
+
+/**
+ * Version fields for a new upload that replaces an earlier version
+ * @param previous The version being replaced
+ */
+export async function getNextVersionFields(previous: MediaFile): Promise<{ parentMediaId: number; version: number }> {
+  const parentMediaId = previous.parentMediaId ?? previous.id;
+  const versions = await storage.getMediaFileVersions(parentMediaId);
+  const latestVersion = Math.max(previous.version, ...versions.map((file) => file.version));
+
+  return { parentMediaId, version: latestVersion + 1 };
+}
+
+/**
+ * Start the status history of a new upload, superseding the version it replaces
+ * @param mediaFile The newly uploaded media file
+ * @param userId ID of the uploading client
+ * @param previous The version this upload replaces, if it is a resubmission
+ */
+export async function recordSubmission(mediaFile: MediaFile, userId: number, previous?: MediaFile): Promise<void> {
+  if (previous) {
+    await changeContentStatus(previous, 'superseded', userId, `Replaced by version ${mediaFile.version}`);
+    // The new version keeps the calendar slots and posting plan of the one it replaces
+    await moveScheduledPosts(previous.id, mediaFile.id);
+    await moveVariants(previous.id, mediaFile.id);
+  }
+
+  await storage.createStatusHistoryEntry({
+    mediaFileId: mediaFile.id,
+    fromStatus: null,
+    toStatus: mediaFile.status,
+    changedBy: userId,
+    note: previous ? `Resubmitted as version ${mediaFile.version}` : 'Uploaded for review',
+  });
+}
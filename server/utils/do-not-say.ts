@@ -0,0 +1,294 @@
+import { Request, Response } from 'express';
+import { storage } from '../storage';
+
+export type DoNotSayContext = 'caption' | 'message' | 'template';
+
+export interface DoNotSayViolation {
+  clientId: number;
+  field: string;
+  term: string;
+  match: string;
+  start: number;
+  end: number;
+  fuzzy: boolean; // a near-miss by a typo or two, only a warning
+}
+
+// Characters commonly swapped in to dodge filters, e.g. "s3x" or "$ex"
+const LOOKALIKES: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  '$': 's',
+};
+
+// Letters including accented Latin, Greek and Cyrillic, digits, and the lookalike symbols
+const WORD_PATTERN = /[a-zA-Z0-9@$\u00c0-\u024f\u0370-\u03ff\u0400-\u04ff]+/g;
+
+interface Token {
+  text: string;
+  plain: string; // case and accent folded
+  folded: string; // plain with lookalike characters replaced
+  start: number;
+  end: number;
+}
+
+interface Term {
+  original: string;
+  words: string[];
+  plain: string; // words joined without spaces
+  folded: string;
+}
+
+function foldCase(value: string): string {
+  return value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function foldLookalikes(value: string): string {
+  return Array.from(value).map(char => LOOKALIKES[char] ?? char).join('');
+}
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(WORD_PATTERN)).map(match => {
+    const plain = foldCase(match[0]);
+    return {
+      text: match[0],
+      plain,
+      folded: foldLookalikes(plain),
+      start: match.index!,
+      end: match.index! + match[0].length,
+    };
+  });
+}
+
+// Typos allowed before a near-match is reported, short terms must match exactly
+function allowedDistance(length: number): number {
+  if (length >= 9) return 2;
+  if (length >= 5) return 1;
+  return 0;
+}
+
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Split a free-text do-not-say list as entered during onboarding into terms
+ * @param input Terms separated by commas, semicolons or new lines
+ * @returns string[] Unique terms
+ */
+export function parseDoNotSayTerms(input: string | null | undefined): string[] {
+  if (!input) {
+    return [];
+  }
+
+  const terms = input
+    .split(/[,;\n]+/)
+    .map(term => term.trim().replace(/^["']|["']$/g, '').trim())
+    .filter(Boolean);
+
+  return Array.from(new Map(terms.map(term => [foldCase(term), term])).values());
+}
+
+/**
+ * Check text against a list of do-not-say terms, ignoring case and accents. Lookalike
+ * characters (s3x), spelled out letters (s.e.x), joined words and small typos are also caught.
+ * @param text The text to check
+ * @param terms Terms from parseDoNotSayTerms
+ * @returns Violations with the character range of each match, without field or client set
+ */
+export function lintText(text: string, terms: string[]): Omit<DoNotSayViolation, 'clientId' | 'field'>[] {
+  const tokens = tokenize(text);
+  const violations: Omit<DoNotSayViolation, 'clientId' | 'field'>[] = [];
+
+  const parsedTerms: Term[] = terms
+    .map(original => {
+      const words = tokenize(original).map(token => token.plain);
+      const plain = words.join('');
+      return { original, words, plain, folded: foldLookalikes(plain) };
+    })
+    .filter(term => term.plain.length > 0);
+
+  for (const term of parsedTerms) {
+    const maxDistance = allowedDistance(term.folded.length);
+
+    for (let start = 0; start < tokens.length; start++) {
+      // Candidate windows: the same number of words as the term, a single joined word,
+      // a word split in two, or a run of single letters spelling the term out
+      const windowSizes = new Set([term.words.length, 1, term.words.length + 1]);
+      if (tokens[start].plain.length === 1) {
+        let run = start;
+        while (run < tokens.length && tokens[run].plain.length === 1) run++;
+        if (run - start >= term.plain.length) windowSizes.add(term.plain.length);
+      }
+
+      for (const size of Array.from(windowSizes)) {
+        const window = tokens.slice(start, start + size);
+        if (window.length < size) continue;
+
+        const plain = window.map(token => token.plain).join('');
+        const folded = window.map(token => token.folded).join('');
+
+        const exact = size === term.words.length && plain === term.plain;
+        const plural = folded === `${term.folded}s` || folded === `${term.folded}es`;
+        const near = !exact && !plural && maxDistance > 0 && editDistance(folded, term.folded, maxDistance) <= maxDistance;
+
+        if (exact || folded === term.folded || plural || near) {
+          // Lookalikes, spelled out letters, joined words and plurals are still the term, typos may be a different word
+          const matchStart = window[0].start;
+          const matchEnd = window[window.length - 1].end;
+          const overlaps = violations.some(
+            violation => violation.term === term.original && violation.start < matchEnd && matchStart < violation.end
+          );
+          if (!overlaps) {
+            violations.push({
+              term: term.original,
+              match: text.slice(matchStart, matchEnd),
+              start: matchStart,
+              end: matchEnd,
+              fuzzy: !exact && !plural && folded !== term.folded,
+            });
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  return violations.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * The do-not-say terms a client entered on their profile and content strategy
+ * @param clientId ID of the client
+ * @returns Promise<string[]> Unique terms from both lists
+ */
+export async function getDoNotSayTerms(clientId: number): Promise<string[]> {
+  const profile = await storage.getProfileByUserId(clientId);
+  const strategy = await storage.getContentStrategyByUserId(clientId);
+
+  return parseDoNotSayTerms([profile?.doNotSayTerms, strategy?.doNotSayTerms].filter(Boolean).join('\n'));
+}
+
+/**
+ * Check several pieces of text against the do-not-say lists of one or more clients
+ * @param clientIds Clients whose lists apply
+ * @param fields Text to check keyed by field name, e.g. { caption, hashtags }
+ * @returns Promise<DoNotSayViolation[]> Every match across all clients and fields
+ */
+export async function findDoNotSayViolations(
+  clientIds: number[],
+  fields: Record<string, string | null | undefined>
+): Promise<DoNotSayViolation[]> {
+  const violations: DoNotSayViolation[] = [];
+
+  for (const clientId of Array.from(new Set(clientIds))) {
+    const terms = await getDoNotSayTerms(clientId);
+    if (terms.length === 0) continue;
+
+    for (const [field, text] of Object.entries(fields)) {
+      if (!text) continue;
+      violations.push(...lintText(text, terms).map(violation => ({ ...violation, clientId, field })));
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Block text that uses a client's do-not-say terms. Admins can send it anyway by giving a
+ * reason in doNotSayOverrideReason, which is recorded in the audit trail.
+ * Near-misses alone (e.g. "bother" for "brother") are warnings, anyone can send the text
+ * once they've seen them by setting doNotSayAcknowledged.
+ * Responds with 422 and the violations when the text is blocked or has unacknowledged warnings.
+ * @param req The request, used for the current user and override reason
+ * @param res The response
+ * @param clientIds Clients whose lists apply
+ * @param fields Text to check keyed by field name
+ * @param context What kind of text this is, for the audit trail
+ * @param contextId Optional ID of the media file, conversation or template
+ * @returns Promise<boolean> True if the request can go ahead
+ */
+export async function enforceDoNotSay(
+  req: Request,
+  res: Response,
+  clientIds: number[],
+  fields: Record<string, string | null | undefined>,
+  context: DoNotSayContext,
+  contextId?: number | null
+): Promise<boolean> {
+  const violations = await findDoNotSayViolations(clientIds, fields);
+  if (violations.length === 0) {
+    return true;
+  }
+
+  const onlyWarnings = violations.every(violation => violation.fuzzy);
+  if (onlyWarnings) {
+    // Multipart forms send the flag as a string
+    const acknowledged = req.body?.doNotSayAcknowledged === true || req.body?.doNotSayAcknowledged === 'true';
+    if (acknowledged) {
+      return true;
+    }
+
+    res.status(422).json({
+      message: 'This text is close to terms the client has asked not to be used',
+      code: 'DO_NOT_SAY',
+      fields,
+      violations,
+      canOverride: false,
+      canAcknowledge: true,
+    });
+    return false;
+  }
+
+  const isAdmin = req.user!.role === 'admin';
+  const reason = typeof req.body?.doNotSayOverrideReason === 'string' ? req.body.doNotSayOverrideReason.trim() : '';
+
+  if (!isAdmin || !reason) {
+    res.status(422).json({
+      message: 'This text uses terms the client has asked not to be used',
+      code: 'DO_NOT_SAY',
+      fields,
+      violations,
+      canOverride: isAdmin,
+      canAcknowledge: false,
+    });
+    return false;
+  }
+
+  const text = Object.entries(fields)
+    .filter(([, value]) => value)
+    .map(([field, value]) => `${field}: ${value}`)
+    .join('\n');
+
+  for (const clientId of Array.from(new Set(violations.map(violation => violation.clientId)))) {
+    await storage.createDoNotSayOverride({
+      clientId,
+      adminId: req.user!.id,
+      context,
+      contextId: contextId ?? null,
+      text,
+      violations: violations.filter(violation => violation.clientId === clientId),
+      reason,
+    });
+  }
+
+  return true;
+}
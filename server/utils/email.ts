@@ -12,6 +12,13 @@ if (process.env.SENDGRID_API_KEY) {
   mailService.setApiKey(process.env.SENDGRID_API_KEY);
 }
 
+// File attached to an email, content is plain text and gets base64 encoded for SendGrid
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+  type: string; // MIME type, e.g. 'text/calendar; method=REQUEST'
+}
+
 // Email templates
 export const EMAIL_TEMPLATES = {
   WELCOME: {
@@ -121,13 +128,15 @@ The ManageTheFans Team
  * @param subject Email subject
  * @param text Plain text email content
  * @param html HTML email content (optional)
+ * @param attachments Files to attach (optional)
  * @returns Promise<boolean> True if email was sent successfully
  */
 export async function sendEmail(
   to: string, 
   subject: string, 
   text: string, 
-  html?: string
+  html?: string,
+  attachments?: EmailAttachment[]
 ): Promise<boolean> {
   if (!process.env.SENDGRID_API_KEY) {
     console.warn("SendGrid not configured. Email not sent.");
@@ -141,6 +150,12 @@ export async function sendEmail(
       subject,
       text,
       html: html || text,
+      attachments: attachments?.map(attachment => ({
+        filename: attachment.filename,
+        content: Buffer.from(attachment.content).toString('base64'),
+        type: attachment.type,
+        disposition: 'attachment',
+      })),
     });
     console.log(`Email sent successfully to: ${to}`);
     return true;
@@ -0,0 +1,234 @@
+import { randomBytes } from 'crypto';
+import { storage } from '../storage';
+import { Appointment, CalendarFeed, User } from '@shared/schema';
+import { EmailAttachment } from './email';
+
+// REQUEST adds or updates the event in the recipient's calendar, CANCEL removes it
+export type IcsMethod = 'REQUEST' | 'CANCEL';
+
+const PRODUCT_ID = '-//ManageTheFans//Appointments//EN';
+const UID_DOMAIN = 'managethefans.com';
+
+// Past appointments kept in feeds, so calendars don't lose recent history
+const FEED_HISTORY_DAYS = 90;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Appointment statuses as calendar event statuses. A reschedule waiting for an answer keeps the agreed booking.
+const EVENT_STATUSES: Record<string, string> = {
+  pending: 'TENTATIVE',
+  countered: 'TENTATIVE',
+  approved: 'CONFIRMED',
+  rescheduled: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  declined: 'CANCELLED',
+  cancelled: 'CANCELLED',
+  no_show: 'CONFIRMED',
+};
+
+// Stays the same for the life of the appointment so calendars update the event instead of adding a new one
+function eventUid(appointment: Appointment): string {
+  return `appointment-${appointment.id}@${UID_DOMAIN}`;
+}
+
+// Has to go up on every change for calendars to take the update, seconds since the appointment was created does
+function eventSequence(appointment: Appointment): number {
+  const created = new Date(appointment.createdAt).getTime();
+  const updated = new Date(appointment.updatedAt).getTime();
+  return Math.max(0, Math.floor((updated - created) / 1000));
+}
+
+// e.g. 20261023T140000Z
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines can be at most 75 octets, longer ones continue on the next line after a space
+function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    const limit = lines.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      lines.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+function serialize(lines: string[]): string {
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function calendarUser(property: string, user: User | undefined, params = ''): string[] {
+  if (!user?.email) return [];
+  // Parameter values are quoted and can't contain quotes themselves
+  return [`${property};CN="${user.fullName.replace(/"/g, '')}"${params}:mailto:${user.email}`];
+}
+
+function appointmentEvent(
+  appointment: Appointment,
+  viewerId: number,
+  users: Map<number, User>,
+  method?: IcsMethod
+): string[] {
+  const admin = users.get(appointment.adminId);
+  const client = users.get(appointment.clientId);
+  const other = viewerId === appointment.adminId ? client : admin;
+  const startsAt = new Date(appointment.appointmentDate);
+  const endsAt = new Date(startsAt.getTime() + appointment.duration * MINUTE_MS);
+  const status = method === 'CANCEL' ? 'CANCELLED' : EVENT_STATUSES[appointment.status] ?? 'TENTATIVE';
+
+  const description = [
+    appointment.details,
+    `Duration: ${appointment.duration} minutes`,
+    appointment.amount ? `Amount: $${appointment.amount}` : null,
+    appointment.status === 'rescheduled' ? 'A reschedule has been requested and is waiting for an answer.' : null,
+  ].filter(Boolean).join('\n');
+  const link = `${process.env.APP_URL || 'http://localhost:5000'}${viewerId === appointment.adminId ? '/admin/appointments' : '/appointments'}`;
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${eventUid(appointment)}`,
+    `SEQUENCE:${eventSequence(appointment)}`,
+    `DTSTAMP:${formatIcsDate(new Date())}`,
+    `LAST-MODIFIED:${formatIcsDate(new Date(appointment.updatedAt))}`,
+    `DTSTART:${formatIcsDate(startsAt)}`,
+    `DTEND:${formatIcsDate(endsAt)}`,
+    `SUMMARY:${escapeText(`Appointment with ${other?.fullName ?? 'ManageTheFans'}`)}`,
+    `LOCATION:${escapeText(appointment.location)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${link}`,
+    `STATUS:${status}`,
+    ...calendarUser('ORGANIZER', admin),
+    ...calendarUser('ATTENDEE', client, ';ROLE=REQ-PARTICIPANT'),
+    'END:VEVENT',
+  ];
+}
+
+async function loadParticipants(appointments: Appointment[]): Promise<Map<number, User>> {
+  const ids = Array.from(new Set(appointments.flatMap(appointment => [appointment.adminId, appointment.clientId])));
+  const users = await Promise.all(ids.map(id => storage.getUser(id)));
+  return new Map(users.filter((user): user is User => !!user).map(user => [user.id, user]));
+}
+
+/**
+ * An .ics invitation or cancellation to attach to emails
+ * @param appointment The appointment, or every appointment of a standing booking
+ * @param recipientId ID of the user the email goes to
+ * @param method REQUEST to add or update the events, CANCEL to remove them
+ * @returns Promise<string> The iCalendar text
+ */
+export async function createAppointmentIcs(
+  appointment: Appointment | Appointment[],
+  recipientId: number,
+  method: IcsMethod
+): Promise<string> {
+  const appointments = Array.isArray(appointment) ? appointment : [appointment];
+  const users = await loadParticipants(appointments);
+  return serialize([
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    ...appointments.flatMap(event => appointmentEvent(event, recipientId, users, method)),
+    'END:VCALENDAR',
+  ]);
+}
+
+/**
+ * An .ics file as an email attachment
+ * @param appointment The appointment, or every appointment of a standing booking
+ * @param recipientId ID of the user the email goes to
+ * @param method REQUEST to add or update the events, CANCEL to remove them
+ * @returns Promise<EmailAttachment> The attachment
+ */
+export async function createAppointmentIcsAttachment(
+  appointment: Appointment | Appointment[],
+  recipientId: number,
+  method: IcsMethod
+): Promise<EmailAttachment> {
+  const name = Array.isArray(appointment) ? 'appointments' : 'appointment';
+  return {
+    filename: method === 'CANCEL' ? `cancelled-${name}.ics` : `${name}.ics`,
+    content: await createAppointmentIcs(appointment, recipientId, method),
+    type: `text/calendar; method=${method}; charset=UTF-8`,
+  };
+}
+
+/**
+ * A user's appointments as a subscribable calendar: agreed ones confirmed, ones still being negotiated
+ * tentative, and declined or cancelled ones cancelled so calendars drop them
+ * @param userId ID of the user, as the admin or the client
+ * @returns Promise<string> The iCalendar text
+ */
+export async function buildCalendarFeed(userId: number): Promise<string> {
+  const [asAdmin, asClient] = await Promise.all([
+    storage.getAppointmentsByAdminId(userId),
+    storage.getAppointmentsByClientId(userId),
+  ]);
+
+  const since = Date.now() - FEED_HISTORY_DAYS * DAY_MS;
+  const appointments = Array.from(new Map([...asAdmin, ...asClient].map(appointment => [appointment.id, appointment])).values())
+    .filter(appointment => new Date(appointment.appointmentDate).getTime() >= since)
+    .sort((a, b) => new Date(a.appointmentDate).getTime() - new Date(b.appointmentDate).getTime());
+  const users = await loadParticipants(appointments);
+
+  return serialize([
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:ManageTheFans Appointments',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...appointments.flatMap(appointment => appointmentEvent(appointment, userId, users)),
+    'END:VCALENDAR',
+  ]);
+}
+
+function generateFeedToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+/**
+ * The user's calendar feed, created the first time it's asked for
+ * @param userId ID of the user
+ * @returns Promise<CalendarFeed> The feed
+ */
+export async function getOrCreateCalendarFeed(userId: number): Promise<CalendarFeed> {
+  const feed = await storage.getCalendarFeedByUserId(userId);
+  return feed ?? storage.createCalendarFeed({ userId, token: generateFeedToken() });
+}
+
+/**
+ * Replace the user's feed token, the old feed URL stops working
+ * @param userId ID of the user
+ * @returns Promise<CalendarFeed> The feed with its new token
+ */
+export async function regenerateCalendarFeed(userId: number): Promise<CalendarFeed> {
+  const feed = await storage.getCalendarFeedByUserId(userId);
+  if (!feed) {
+    return storage.createCalendarFeed({ userId, token: generateFeedToken() });
+  }
+  return storage.updateCalendarFeed(feed.id, { token: generateFeedToken() });
+}
@@ -0,0 +1,239 @@
+import sharp from 'sharp';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { objectStorage } from './object-storage';
+import { probeVideo, runCommand } from './media-processing';
+import { MediaFile, WatermarkSettings } from '@shared/schema';
+
+export const WATERMARK_POSITIONS = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'] as const;
+export type WatermarkPosition = typeof WATERMARK_POSITIONS[number];
+
+// Settings used for clients who haven't had a watermark configured yet
+export const DEFAULT_WATERMARK = {
+  enabled: true,
+  type: 'text',
+  text: null,
+  logoPath: null,
+  position: 'bottom-right',
+  opacity: 0.5,
+  scale: 0.25,
+} as const;
+
+// Where the watermark goes, as a sharp gravity and as an ffmpeg overlay offset
+const GRAVITY: Record<WatermarkPosition, string> = {
+  'top-left': 'northwest',
+  'top-right': 'northeast',
+  'bottom-left': 'southwest',
+  'bottom-right': 'southeast',
+  'center': 'centre',
+};
+
+const OVERLAY_POSITION: Record<WatermarkPosition, string> = {
+  'top-left': '0:0',
+  'top-right': 'W-w:0',
+  'bottom-left': '0:H-h',
+  'bottom-right': 'W-w:H-h',
+  'center': '(W-w)/2:(H-h)/2',
+};
+
+// Gap between the watermark and the edge of the media, as a fraction of its shorter side
+const WATERMARK_MARGIN = 0.02;
+
+// Image formats exported in their own format, anything else becomes a JPEG
+const EXPORT_IMAGE_FORMATS: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+type WatermarkOptions = Pick<WatermarkSettings, 'type' | 'text' | 'logoPath' | 'position' | 'opacity' | 'scale'>;
+
+export interface ExportedMedia {
+  filePath: string;
+  fileName: string;
+  contentType: string;
+  watermarked: boolean;
+  /** Remove the exported file once it has been sent */
+  cleanup: () => Promise<void>;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+async function renderTextMark(text: string, targetWidth: number, maxHeight: number): Promise<Buffer> {
+  // Glyphs of the default sans-serif font average about 0.6em wide
+  const fontSize = Math.max(8, Math.min(targetWidth / (0.6 * text.length), maxHeight / 1.3));
+  const width = Math.ceil(Math.min(targetWidth, fontSize * 0.62 * text.length + fontSize * 0.2));
+  const height = Math.ceil(fontSize * 1.3);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <text x="50%" y="50%" text-anchor="middle" dominant-baseline="central" font-family="sans-serif" font-weight="bold"
+    font-size="${fontSize.toFixed(1)}" fill="#ffffff" stroke="#000000" stroke-width="${(fontSize / 24).toFixed(1)}">${escapeXml(text)}</text>
+</svg>`;
+
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+/**
+ * Draw a client's watermark at the size it should appear on a piece of media
+ * @param settings The client's watermark settings
+ * @param mediaWidth Width of the media in pixels
+ * @param mediaHeight Height of the media in pixels
+ * @returns Promise<Buffer | null> Transparent PNG including the margin, or null if there is nothing to draw
+ */
+export async function renderWatermark(settings: WatermarkOptions, mediaWidth: number, mediaHeight: number): Promise<Buffer | null> {
+  const targetWidth = Math.max(1, Math.round(mediaWidth * settings.scale));
+  const margin = Math.round(Math.min(mediaWidth, mediaHeight) * WATERMARK_MARGIN);
+  const maxHeight = Math.max(1, mediaHeight - margin * 2);
+
+  let mark: Buffer;
+  if (settings.type === 'logo') {
+    if (!settings.logoPath) return null;
+    mark = await objectStorage.withLocalFile(settings.logoPath, (logoPath) =>
+      sharp(logoPath)
+        .resize({ width: targetWidth, height: maxHeight, fit: 'inside' })
+        .png()
+        .toBuffer()
+    );
+  } else {
+    const text = settings.text?.trim();
+    if (!text) return null;
+    mark = await renderTextMark(text, targetWidth, Math.min(maxHeight, mediaHeight * settings.scale));
+  }
+
+  // Scale the alpha channel by the opacity, then pad the mark so it sits off the edges
+  const alpha = Math.round(Math.min(Math.max(settings.opacity, 0), 1) * 255);
+  const faded = await sharp(mark)
+    .ensureAlpha()
+    .composite([{
+      input: Buffer.from([255, 255, 255, alpha]),
+      raw: { width: 1, height: 1, channels: 4 },
+      tile: true,
+      blend: 'dest-in',
+    }])
+    .png()
+    .toBuffer();
+
+  const padded = await sharp(faded)
+    .extend({ top: margin, bottom: margin, left: margin, right: margin, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .png()
+    .toBuffer();
+
+  // A composite larger than the image it's placed on is rejected
+  return sharp(padded)
+    .resize({ width: mediaWidth, height: mediaHeight, fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer();
+}
+
+async function exportImage(sourcePath: string, targetBase: string, settings: WatermarkOptions | null): Promise<{ filePath: string; contentType: string; watermarked: boolean }> {
+  const { format } = await sharp(sourcePath).metadata();
+  const outputFormat = format && EXPORT_IMAGE_FORMATS[format] ? format : 'jpeg';
+  const filePath = `${targetBase}.${outputFormat === 'jpeg' ? 'jpg' : outputFormat}`;
+
+  // Re-encoding drops any EXIF/XMP data, so orientation is applied to the pixels first
+  const { data, info } = await sharp(sourcePath).rotate().toBuffer({ resolveWithObject: true });
+  const mark = settings ? await renderWatermark(settings, info.width, info.height) : null;
+
+  let image = sharp(data);
+  if (mark) {
+    image = image.composite([{ input: mark, gravity: GRAVITY[settings!.position as WatermarkPosition] ?? 'southeast' }]);
+  }
+
+  await image
+    .toFormat(outputFormat as keyof sharp.FormatEnum, outputFormat === 'jpeg' ? { quality: 92 } : undefined)
+    .toFile(filePath);
+
+  return { filePath, contentType: EXPORT_IMAGE_FORMATS[outputFormat], watermarked: !!mark };
+}
+
+async function exportVideo(sourcePath: string, targetBase: string, workDir: string, settings: WatermarkOptions | null): Promise<{ filePath: string; contentType: string; watermarked: boolean }> {
+  const filePath = `${targetBase}.mp4`;
+  let mark: Buffer | null = null;
+
+  if (settings) {
+    const { width, height } = await probeVideo(sourcePath);
+    if (!width || !height) {
+      throw new Error('Could not read the video dimensions');
+    }
+    mark = await renderWatermark(settings, width, height);
+  }
+
+  if (!mark) {
+    await runCommand('ffmpeg', [
+      '-y',
+      '-i', sourcePath,
+      '-map', '0:v',
+      '-map', '0:a?',
+      '-map_metadata', '-1',
+      '-c', 'copy',
+      '-movflags', '+faststart',
+      filePath,
+    ]);
+    return { filePath, contentType: 'video/mp4', watermarked: false };
+  }
+
+  const markPath = path.join(workDir, 'watermark.png');
+  await fs.promises.writeFile(markPath, mark);
+
+  // The picture has to be re-encoded to burn the watermark in, audio is copied as-is
+  await runCommand('ffmpeg', [
+    '-y',
+    '-i', sourcePath,
+    '-i', markPath,
+    '-filter_complex', `[0:v][1:v]overlay=${OVERLAY_POSITION[settings!.position as WatermarkPosition] ?? OVERLAY_POSITION['bottom-right']}[out]`,
+    '-map', '[out]',
+    '-map', '0:a?',
+    '-map_metadata', '-1',
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-crf', '20',
+    '-pix_fmt', 'yuv420p',
+    '-c:a', 'copy',
+    '-movflags', '+faststart',
+    filePath,
+  ]);
+  return { filePath, contentType: 'video/mp4', watermarked: true };
+}
+
+/**
+ * Prepare a media file for download, without metadata and optionally watermarked.
+ * The export is written to a temporary directory the caller removes with cleanup().
+ * @param mediaFile The media file to export
+ * @param settings The owner's watermark settings, nothing is drawn if missing or disabled
+ * @param watermark Whether the watermark should be applied
+ * @returns Promise<ExportedMedia> The exported file and the name to download it as
+ */
+export async function exportMediaFile(
+  mediaFile: MediaFile,
+  settings: WatermarkSettings | undefined,
+  watermark: boolean
+): Promise<ExportedMedia> {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mtf-export-'));
+  const cleanup = () => fs.promises.rm(workDir, { recursive: true, force: true });
+
+  const baseName = mediaFile.title.replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'media';
+  const targetBase = path.join(workDir, `${baseName}-${mediaFile.id}`);
+  const watermarkSettings = watermark && settings?.enabled ? settings : null;
+
+  try {
+    const exported = await objectStorage.withLocalFile(mediaFile.storagePath, (sourcePath) =>
+      mediaFile.fileType === 'video'
+        ? exportVideo(sourcePath, targetBase, workDir, watermarkSettings)
+        : exportImage(sourcePath, targetBase, watermarkSettings)
+    );
+
+    const extension = path.extname(exported.filePath);
+    const fileName = `${path.basename(targetBase)}${exported.watermarked ? '-watermarked' : ''}${extension}`;
+    return { ...exported, fileName, cleanup };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
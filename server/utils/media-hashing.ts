@@ -0,0 +1,197 @@
+import sharp from 'sharp';
+import { createHash } from 'crypto';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { storage } from '../storage';
+import { probeVideo, runCommand } from './media-processing';
+import { MediaFile } from '@shared/schema';
+
+export type DuplicateMatch = 'exact' | 'similar';
+
+export interface MediaHashes {
+  contentHash: string;
+  perceptualHash: string[] | null;
+}
+
+export interface DuplicateCandidate {
+  mediaFile: MediaFile;
+  match: DuplicateMatch;
+  distance: number; // differing bits between perceptual hashes, 0 for exact copies
+}
+
+// Positions in a video (as a fraction of its duration) whose frames are hashed
+const KEYFRAME_POSITIONS = [0.1, 0.3, 0.5, 0.7, 0.9];
+
+// Differing bits out of 64 under which two frames are considered the same picture.
+// Re-encoding, resizing and light edits stay well below this, unrelated photos are usually above 20.
+const SIMILAR_FRAME_DISTANCE = 10;
+
+// Share of a video's keyframes that must appear in the other video
+const SIMILAR_VIDEO_RATIO = 0.6;
+
+/**
+ * SHA-256 of a file, read as a stream so large videos aren't loaded into memory
+ * @param filePath Path to the file
+ * @returns Promise<string> Hex digest
+ */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * 64-bit difference hash of an image. Each bit records whether a pixel of a 9x8 grayscale
+ * thumbnail is brighter than its right neighbour, so it survives resizing and recompression.
+ * @param source Path to the image or its contents
+ * @returns Promise<string> 16 hex characters
+ */
+export async function differenceHash(source: string | Buffer): Promise<string> {
+  const pixels = await sharp(source)
+    .rotate()
+    .grayscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hex = '';
+  for (let row = 0; row < 8; row++) {
+    let byte = 0;
+    for (let column = 0; column < 8; column++) {
+      byte = (byte << 1) | (pixels[row * 9 + column] > pixels[row * 9 + column + 1] ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+async function hashVideoKeyframes(filePath: string): Promise<string[]> {
+  const { duration } = await probeVideo(filePath);
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mtf-hash-'));
+
+  try {
+    const hashes: string[] = [];
+    for (const [index, position] of Array.from(KEYFRAME_POSITIONS.entries())) {
+      const framePath = path.join(workDir, `frame-${index}.png`);
+      await runCommand('ffmpeg', [
+        '-y',
+        '-ss', ((duration ?? 0) * position).toFixed(2),
+        '-i', filePath,
+        '-frames:v', '1',
+        '-vf', 'scale=64:-2',
+        framePath,
+      ]);
+      hashes.push(await differenceHash(framePath));
+    }
+    return hashes;
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Hash an upload for duplicate detection. The perceptual hash is left empty if the file
+ * can't be decoded, exact copies are still caught through the content hash.
+ * @param filePath Path to the uploaded file on local disk
+ * @param fileType 'image' or 'video'
+ * @param contentHash SHA-256 if already known, e.g. from assembling chunks
+ * @returns Promise<MediaHashes> The hashes to store on the media file
+ */
+export async function computeMediaHashes(filePath: string, fileType: string, contentHash?: string): Promise<MediaHashes> {
+  let perceptualHash: string[] | null = null;
+  try {
+    perceptualHash = fileType === 'image'
+      ? [await differenceHash(filePath)]
+      : await hashVideoKeyframes(filePath);
+  } catch (error) {
+    console.warn(`Could not compute perceptual hash of ${path.basename(filePath)}:`, error);
+  }
+
+  return {
+    contentHash: contentHash ?? await hashFile(filePath),
+    perceptualHash,
+  };
+}
+
+const BITS_PER_NIBBLE = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/**
+ * Number of differing bits between two hex hashes of the same length
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let index = 0; index < a.length; index++) {
+    distance += BITS_PER_NIBBLE[parseInt(a[index], 16) ^ parseInt(b[index], 16)];
+  }
+  return distance;
+}
+
+// Distance between two sets of frame hashes, or undefined if they don't look alike.
+// Every frame is matched against its closest counterpart so trimmed videos still match.
+function perceptualDistance(a: string[], b: string[]): number | undefined {
+  const closest = a.map(frame => Math.min(...b.map(other => hammingDistance(frame, other))));
+  const matching = closest.filter(distance => distance <= SIMILAR_FRAME_DISTANCE);
+
+  if (matching.length === 0 || matching.length / a.length < SIMILAR_VIDEO_RATIO) {
+    return undefined;
+  }
+  return Math.round(matching.reduce((sum, distance) => sum + distance, 0) / matching.length);
+}
+
+/**
+ * Find the earlier upload of the same user a media file most likely duplicates.
+ * Other versions of the same content are expected to look alike and are ignored.
+ * @param mediaFile The new media file, with its hashes set
+ * @returns Promise<DuplicateCandidate | undefined> The closest match, exact copies first
+ */
+export async function findDuplicate(mediaFile: MediaFile): Promise<DuplicateCandidate | undefined> {
+  const chainId = mediaFile.parentMediaId ?? mediaFile.id;
+  const perceptualHash = mediaFile.perceptualHash as string[] | null;
+  const candidates: DuplicateCandidate[] = [];
+
+  for (const other of await storage.getMediaFilesByUserId(mediaFile.userId)) {
+    if (other.id === mediaFile.id || (other.parentMediaId ?? other.id) === chainId) continue;
+
+    if (mediaFile.contentHash && other.contentHash === mediaFile.contentHash) {
+      candidates.push({ mediaFile: other, match: 'exact', distance: 0 });
+      continue;
+    }
+
+    const otherHash = other.perceptualHash as string[] | null;
+    if (!perceptualHash?.length || !otherHash?.length || other.fileType !== mediaFile.fileType) continue;
+
+    const distance = perceptualDistance(perceptualHash, otherHash);
+    if (distance !== undefined) {
+      candidates.push({ mediaFile: other, match: 'similar', distance });
+    }
+  }
+
+  // Exact copies first, then the closest look-alike, pointing at the oldest upload on a tie
+  return candidates.sort((a, b) =>
+    (a.match === b.match ? 0 : a.match === 'exact' ? -1 : 1) ||
+    a.distance - b.distance ||
+    a.mediaFile.id - b.mediaFile.id
+  )[0];
+}
+
+/**
+ * Mark a new upload as a possible duplicate of an earlier one
+ * @param mediaFile The new media file, with its hashes set
+ * @returns Promise<MediaFile> The media file, with duplicateOfId set if a match was found
+ */
+export async function flagDuplicate(mediaFile: MediaFile): Promise<MediaFile> {
+  const duplicate = await findDuplicate(mediaFile);
+  if (!duplicate) {
+    return mediaFile;
+  }
+
+  return storage.updateMediaFile(mediaFile.id, {
+    duplicateOfId: duplicate.mediaFile.id,
+    duplicateMatch: duplicate.match,
+  });
+}
@@ -0,0 +1,230 @@
+import sharp from 'sharp';
+import { spawn } from 'child_process';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { storage } from '../storage';
+import { objectStorage } from './object-storage';
+import { MediaFile } from '@shared/schema';
+
+// Derived asset sizes
+const THUMBNAIL_SIZE = 400;
+const IMAGE_PREVIEW_WIDTH = 1280;
+const VIDEO_PREVIEW_HEIGHT = 480;
+const PREVIEW_CLIP_SECONDS = 6;
+
+export interface MediaMetadata {
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  codec: string | null;
+}
+
+interface DerivedAssets extends MediaMetadata {
+  thumbnailSuffix: string;
+  previewSuffix: string;
+}
+
+/**
+ * Run an external command (ffmpeg/ffprobe) and collect its stdout
+ * @param command Binary to execute
+ * @param args Command line arguments
+ * @returns Promise<string> Everything the command wrote to stdout
+ */
+export function runCommand(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (chunk) => { stdout += chunk; });
+    child.stderr.on('data', (chunk) => { stderr += chunk; });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.slice(-500)}`));
+      }
+    });
+  });
+}
+
+/**
+ * Storage key of a thumbnail or preview generated for an original upload
+ * @param storagePath Storage key of the original file
+ * @param suffix Suffix identifying the derived asset (e.g. 'thumb.jpg')
+ */
+export function getDerivedKey(storagePath: string, suffix: string): string {
+  const baseName = path.posix.basename(storagePath, path.posix.extname(storagePath));
+  return path.posix.join(path.posix.dirname(storagePath), 'derived', `${baseName}.${suffix}`);
+}
+
+/**
+ * Read width/height/duration/codec from a video using ffprobe
+ * @param filePath Path to the video file
+ * @returns Promise<MediaMetadata> Metadata of the first video stream
+ */
+export async function probeVideo(filePath: string): Promise<MediaMetadata> {
+  const output = await runCommand('ffprobe', [
+    '-v', 'error',
+    '-select_streams', 'v:0',
+    '-show_entries', 'stream=width,height,codec_name:format=duration',
+    '-of', 'json',
+    filePath,
+  ]);
+
+  const probe = JSON.parse(output);
+  const stream = probe.streams?.[0] || {};
+  const duration = parseFloat(probe.format?.duration);
+
+  return {
+    width: stream.width ?? null,
+    height: stream.height ?? null,
+    duration: isNaN(duration) ? null : duration,
+    codec: stream.codec_name ?? null,
+  };
+}
+
+async function processImage(sourcePath: string, workDir: string): Promise<DerivedAssets> {
+  const thumbnailSuffix = 'thumb.jpg';
+  const previewSuffix = 'preview.jpg';
+
+  const metadata = await sharp(sourcePath).metadata();
+
+  // EXIF orientations 5-8 are rotated by 90 degrees, so the displayed size is swapped
+  const rotated = (metadata.orientation ?? 1) >= 5;
+
+  await sharp(sourcePath)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
+    .jpeg({ quality: 80 })
+    .toFile(path.join(workDir, thumbnailSuffix));
+
+  await sharp(sourcePath)
+    .rotate()
+    .resize({ width: IMAGE_PREVIEW_WIDTH, withoutEnlargement: true })
+    .jpeg({ quality: 85 })
+    .toFile(path.join(workDir, previewSuffix));
+
+  return {
+    thumbnailSuffix,
+    previewSuffix,
+    width: (rotated ? metadata.height : metadata.width) ?? null,
+    height: (rotated ? metadata.width : metadata.height) ?? null,
+    duration: null,
+    codec: metadata.format ?? null,
+  };
+}
+
+async function processVideo(sourcePath: string, workDir: string): Promise<DerivedAssets> {
+  const thumbnailSuffix = 'poster.jpg';
+  const previewSuffix = 'preview.mp4';
+
+  const metadata = await probeVideo(sourcePath);
+
+  // Skip the first 10% of the video so the poster isn't a black intro frame
+  const offset = metadata.duration ? Math.min(metadata.duration * 0.1, 30) : 0;
+
+  await runCommand('ffmpeg', [
+    '-y',
+    '-ss', offset.toFixed(2),
+    '-i', sourcePath,
+    '-frames:v', '1',
+    '-vf', `scale=${THUMBNAIL_SIZE}:-2`,
+    path.join(workDir, thumbnailSuffix),
+  ]);
+
+  await runCommand('ffmpeg', [
+    '-y',
+    '-ss', offset.toFixed(2),
+    '-i', sourcePath,
+    '-t', String(PREVIEW_CLIP_SECONDS),
+    '-an',
+    '-vf', `scale=-2:${VIDEO_PREVIEW_HEIGHT}`,
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-crf', '28',
+    '-movflags', '+faststart',
+    path.join(workDir, previewSuffix),
+  ]);
+
+  return { thumbnailSuffix, previewSuffix, ...metadata };
+}
+
+/**
+ * Generate the thumbnail, preview and metadata for a media file and store them on its row
+ * @param mediaFileId ID of the media file to process
+ * @returns Promise<MediaFile | undefined> The updated media file
+ */
+export async function processMediaFile(mediaFileId: number): Promise<MediaFile | undefined> {
+  const mediaFile = await storage.getMediaFile(mediaFileId);
+  if (!mediaFile) {
+    console.warn(`Media processing skipped, file ${mediaFileId} not found`);
+    return undefined;
+  }
+
+  await storage.updateMediaFile(mediaFileId, { processingStatus: 'processing' });
+
+  // Derived assets are rendered into a scratch directory and then moved into object storage
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mtf-media-'));
+
+  try {
+    const { thumbnailSuffix, previewSuffix, ...metadata } = await objectStorage.withLocalFile(
+      mediaFile.storagePath,
+      (localPath) => mediaFile.fileType === 'image'
+        ? processImage(localPath, workDir)
+        : processVideo(localPath, workDir)
+    );
+
+    const thumbnailPath = getDerivedKey(mediaFile.storagePath, thumbnailSuffix);
+    const previewPath = getDerivedKey(mediaFile.storagePath, previewSuffix);
+    await objectStorage.storeFile(thumbnailPath, path.join(workDir, thumbnailSuffix), 'image/jpeg');
+    await objectStorage.storeFile(
+      previewPath,
+      path.join(workDir, previewSuffix),
+      previewSuffix.endsWith('.mp4') ? 'video/mp4' : 'image/jpeg'
+    );
+
+    console.log(`Generated previews for media file ${mediaFileId}`);
+    return await storage.updateMediaFile(mediaFileId, {
+      ...metadata,
+      thumbnailPath,
+      previewPath,
+      processingStatus: 'ready',
+    });
+  } catch (error) {
+    console.error(`Error processing media file ${mediaFileId}:`, error);
+    return await storage.updateMediaFile(mediaFileId, { processingStatus: 'failed' });
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// Transcoding is CPU heavy, so uploads are processed one at a time in the background
+let processingQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Queue a media file for thumbnail and preview generation without blocking the request
+ * @param mediaFileId ID of the media file to process
+ */
+export function enqueueMediaProcessing(mediaFileId: number): void {
+  processingQueue = processingQueue
+    .then(() => processMediaFile(mediaFileId))
+    .catch((error) => {
+      console.error(`Media processing queue error for file ${mediaFileId}:`, error);
+    });
+}
+
+/**
+ * Delete the thumbnail and preview generated for a media file
+ * @param mediaFile The media file whose derived assets should be removed
+ */
+export async function removeDerivedFiles(mediaFile: Pick<MediaFile, 'storagePath' | 'thumbnailPath' | 'previewPath'>): Promise<void> {
+  for (const derivedPath of [mediaFile.thumbnailPath, mediaFile.previewPath]) {
+    // Older uploads used the original file as their thumbnail
+    if (derivedPath && derivedPath !== mediaFile.storagePath) {
+      await objectStorage.delete(derivedPath);
+    }
+  }
+}
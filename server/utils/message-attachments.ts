@@ -0,0 +1,232 @@
+import sharp from 'sharp';
+import { Response } from 'express';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { storage } from '../storage';
+import { objectStorage, buildStorageKey } from './object-storage';
+import { getDerivedKey, probeVideo, runCommand } from './media-processing';
+import { storeScrubbedUpload } from './metadata-scrubbing';
+import { MessageAttachment } from '@shared/schema';
+
+export type AttachmentKind = 'image' | 'video' | 'pdf' | 'audio';
+
+export const MAX_ATTACHMENT_SIZE = 100 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// Attachments that were uploaded but never sent are removed after a day
+export const ATTACHMENT_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const UNSENT_ATTACHMENT_TTL_MS = 24 * 60 * 60 * 1000;
+
+const THUMBNAIL_SIZE = 400;
+
+// Images are shown inline in the chat, so only raster formats are accepted. SVG can carry scripts.
+const ATTACHMENT_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+/**
+ * What kind of attachment a file is, from its content type
+ * @param mimeType Content type of the upload
+ * @returns AttachmentKind | null The kind, or null when it can't be attached to a message
+ */
+export function getAttachmentKind(mimeType: string): AttachmentKind | null {
+  if (ATTACHMENT_IMAGE_TYPES.includes(mimeType)) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType === 'application/pdf') return 'pdf';
+  return null;
+}
+
+/**
+ * Summary of an attachment as saved on its message and shown in the chat. The URLs check
+ * that the viewer is in the conversation before handing out the file.
+ * @param attachment The attachment
+ */
+export function serializeAttachment(attachment: MessageAttachment) {
+  return {
+    id: attachment.id,
+    kind: attachment.kind as AttachmentKind,
+    fileName: attachment.fileName,
+    mimeType: attachment.mimeType,
+    fileSize: attachment.fileSize,
+    width: attachment.width,
+    height: attachment.height,
+    duration: attachment.duration,
+    url: `/api/messages/attachments/${attachment.id}`,
+    thumbnailUrl: attachment.thumbnailPath ? `/api/messages/attachments/${attachment.id}/thumbnail` : null,
+  };
+}
+
+interface AttachmentDetails {
+  thumbnailSuffix: string | null;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+}
+
+async function describeImage(sourcePath: string, workDir: string): Promise<AttachmentDetails> {
+  const metadata = await sharp(sourcePath).metadata();
+  const rotated = (metadata.orientation ?? 1) >= 5;
+
+  await sharp(sourcePath)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toFile(path.join(workDir, 'thumb.jpg'));
+
+  return {
+    thumbnailSuffix: 'thumb.jpg',
+    width: (rotated ? metadata.height : metadata.width) ?? null,
+    height: (rotated ? metadata.width : metadata.height) ?? null,
+    duration: null,
+  };
+}
+
+async function describeVideo(sourcePath: string, workDir: string): Promise<AttachmentDetails> {
+  const { width, height, duration } = await probeVideo(sourcePath);
+
+  await runCommand('ffmpeg', [
+    '-y',
+    '-ss', duration ? Math.min(duration * 0.1, 5).toFixed(2) : '0',
+    '-i', sourcePath,
+    '-frames:v', '1',
+    '-vf', `scale=${THUMBNAIL_SIZE}:-2`,
+    path.join(workDir, 'poster.jpg'),
+  ]);
+
+  return { thumbnailSuffix: 'poster.jpg', width, height, duration };
+}
+
+async function describeAudio(sourcePath: string): Promise<AttachmentDetails> {
+  // Recorded voice notes often carry no duration in their header, ffprobe works it out
+  const { duration } = await probeVideo(sourcePath);
+  return { thumbnailSuffix: null, width: null, height: null, duration };
+}
+
+/**
+ * Store an upload as an attachment of a conversation, with a thumbnail for images and videos.
+ * Images and videos are stored without their location and device metadata, and a
+ * MetadataScrubError is thrown when it can't be removed. The attachment stays unsent until a
+ * message claims it.
+ * @param uploaderId The user sending it
+ * @param conversationId The conversation it's for
+ * @param file The upload as received by multer, moved into object storage afterwards
+ * @param kind The kind of attachment
+ * @returns Promise<MessageAttachment> The stored attachment
+ */
+export async function storeMessageAttachment(
+  uploaderId: number,
+  conversationId: number,
+  file: Express.Multer.File,
+  kind: AttachmentKind
+): Promise<MessageAttachment> {
+  let storagePath = buildStorageKey(uploaderId, file.filename, 'attachments');
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mtf-attachment-'));
+
+  try {
+    // A file that can't be read still goes through, it just has no thumbnail or duration
+    let details: AttachmentDetails = { thumbnailSuffix: null, width: null, height: null, duration: null };
+    try {
+      if (kind === 'image') details = await describeImage(file.path, workDir);
+      if (kind === 'video') details = await describeVideo(file.path, workDir);
+      if (kind === 'audio') details = await describeAudio(file.path);
+    } catch (error) {
+      console.warn(`Could not generate a preview for attachment ${file.originalname}:`, error);
+    }
+
+    // Only the scrubbed file is kept, nobody needs the original of a chat attachment
+    if (kind === 'image' || kind === 'video') {
+      ({ storagePath } = await storeScrubbedUpload(uploaderId, file.filename, file.path, file.mimetype, kind, {
+        folder: 'attachments',
+        keepOriginal: false,
+      }));
+    } else {
+      await objectStorage.storeFile(storagePath, file.path, file.mimetype);
+    }
+    let thumbnailPath: string | null = null;
+    if (details.thumbnailSuffix) {
+      thumbnailPath = getDerivedKey(storagePath, details.thumbnailSuffix);
+      await objectStorage.storeFile(thumbnailPath, path.join(workDir, details.thumbnailSuffix), 'image/jpeg');
+    }
+
+    return await storage.createMessageAttachment({
+      conversationId,
+      uploaderId,
+      kind,
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      fileSize: file.size,
+      storagePath,
+      thumbnailPath,
+      width: details.width,
+      height: details.height,
+      duration: details.duration,
+    });
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Load the attachments a new message refers to, or respond with 400 when one of them isn't an
+ * unsent upload of the sender's in this conversation
+ * @param res Express response
+ * @param senderId The user sending the message
+ * @param conversationId The conversation it's sent to
+ * @param attachmentIds The attachments' IDs from the request
+ * @returns Promise<MessageAttachment[] | undefined> The attachments, undefined when a response was sent
+ */
+export async function enforceMessageAttachments(
+  res: Response,
+  senderId: number,
+  conversationId: number,
+  attachmentIds: unknown
+): Promise<MessageAttachment[] | undefined> {
+  if (attachmentIds === undefined || attachmentIds === null) {
+    return [];
+  }
+  if (!Array.isArray(attachmentIds) || attachmentIds.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    res.status(400).json({ message: `A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments` });
+    return undefined;
+  }
+
+  const attachments: MessageAttachment[] = [];
+  for (const id of Array.from(new Set(attachmentIds.map(Number)))) {
+    const attachment = Number.isInteger(id) ? await storage.getMessageAttachment(id) : undefined;
+    if (!attachment || attachment.uploaderId !== senderId || attachment.conversationId !== conversationId || attachment.messageId !== null) {
+      res.status(400).json({ message: 'Attachment not found or already sent' });
+      return undefined;
+    }
+    attachments.push(attachment);
+  }
+  return attachments;
+}
+
+/**
+ * Remove an attachment's files and record
+ * @param attachment The attachment
+ */
+export async function deleteMessageAttachment(attachment: MessageAttachment): Promise<void> {
+  await objectStorage.delete(attachment.storagePath);
+  if (attachment.thumbnailPath) {
+    await objectStorage.delete(attachment.thumbnailPath);
+  }
+  await storage.deleteMessageAttachment(attachment.id);
+}
+
+/**
+ * Remove attachments that were uploaded more than a day ago but never sent
+ */
+export async function purgeUnsentAttachments(): Promise<void> {
+  const unsent = await storage.getUnsentMessageAttachments(new Date(Date.now() - UNSENT_ATTACHMENT_TTL_MS));
+
+  for (const attachment of unsent) {
+    try {
+      await deleteMessageAttachment(attachment);
+    } catch (error) {
+      console.error(`Error removing unsent attachment ${attachment.id}:`, error);
+    }
+  }
+  if (unsent.length > 0) {
+    console.log(`Removed ${unsent.length} unsent message attachment(s)`);
+  }
+}
@@ -0,0 +1,147 @@
+import sharp from 'sharp';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { objectStorage, buildStorageKey } from './object-storage';
+import { runCommand } from './media-processing';
+
+// Image formats sharp can write back out unchanged apart from the metadata
+const REWRITABLE_IMAGE_FORMATS = ['jpeg', 'png', 'webp', 'gif', 'tiff', 'avif'];
+
+/**
+ * An upload that couldn't be stored without its location and device metadata. Nothing is
+ * stored and the file on local disk is removed.
+ */
+export class MetadataScrubError extends Error {}
+
+export interface ScrubbedUploadOptions {
+  folder?: string; // sub folder of the user's folder, e.g. 'attachments'
+  keepOriginal?: boolean; // keep the file as received under originals/, true by default
+}
+
+export interface StoredUpload {
+  storagePath: string;
+  originalPath: string | null;
+  metadataScrubbed: boolean;
+}
+
+async function readImageMetadata(sourcePath: string): Promise<sharp.Metadata | undefined> {
+  try {
+    return await sharp(sourcePath).metadata();
+  } catch {
+    // Not readable by sharp, transcodeImage falls back to ffmpeg
+    return undefined;
+  }
+}
+
+async function transcodeImage(sourcePath: string, targetPath: string): Promise<void> {
+  try {
+    await sharp(sourcePath).rotate().keepIccProfile().jpeg({ quality: 95 }).toFile(targetPath);
+  } catch (error) {
+    // sharp builds without HEVC support can't decode iPhone HEIC photos, ffmpeg can
+    console.warn(`sharp could not transcode ${path.basename(sourcePath)}, trying ffmpeg:`, error);
+    await runCommand('ffmpeg', [
+      '-y',
+      '-i', sourcePath,
+      '-frames:v', '1',
+      '-map_metadata', '-1',
+      '-q:v', '2',
+      targetPath,
+    ]);
+  }
+}
+
+async function scrubImage(sourcePath: string, targetPath: string, metadata: sharp.Metadata | undefined): Promise<void> {
+  const { format, orientation, pages } = metadata ?? {};
+  if (!format || !REWRITABLE_IMAGE_FORMATS.includes(format)) {
+    await transcodeImage(sourcePath, targetPath);
+    return;
+  }
+
+  // sharp writes no EXIF, XMP or IPTC data, so the orientation is applied to the pixels instead
+  const animated = (pages ?? 1) > 1;
+  let image = sharp(sourcePath, { animated });
+  if (!animated && orientation && orientation > 1) {
+    image = image.rotate();
+  }
+
+  await image
+    .keepIccProfile()
+    .toFormat(format as keyof sharp.FormatEnum, format === 'jpeg' ? { quality: 95 } : undefined)
+    .toFile(targetPath);
+}
+
+async function scrubVideo(sourcePath: string, targetPath: string): Promise<void> {
+  // Streams are copied as-is, only the container and stream tags (GPS, device, creation time) and
+  // data tracks such as action camera telemetry are dropped
+  await runCommand('ffmpeg', [
+    '-y',
+    '-i', sourcePath,
+    '-map', '0:v',
+    '-map', '0:a?',
+    '-map_metadata', '-1',
+    '-map_metadata:s:v', '-1',
+    '-map_metadata:s:a', '-1',
+    '-map_chapters', '-1',
+    '-fflags', '+bitexact',
+    '-c', 'copy',
+    targetPath,
+  ]);
+}
+
+/**
+ * Move an upload into object storage with its location and device metadata removed.
+ * Images in formats sharp can't write back out are stored as JPEG instead. The file as
+ * received is kept under originals/ for admins unless options.keepOriginal is false. If the
+ * metadata can't be removed nothing is stored and a MetadataScrubError is thrown.
+ * @param userId Owner of the upload
+ * @param fileName File name inside the user's folder
+ * @param sourcePath Path to the upload on local disk, moved or deleted afterwards
+ * @param mimeType Content type of the upload
+ * @param fileType 'image' or 'video'
+ * @param options Where to store it and whether to keep the original
+ * @returns Promise<StoredUpload> Storage keys to save on the media file
+ */
+export async function storeScrubbedUpload(
+  userId: number,
+  fileName: string,
+  sourcePath: string,
+  mimeType: string,
+  fileType: string,
+  options: ScrubbedUploadOptions = {}
+): Promise<StoredUpload> {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mtf-scrub-'));
+
+  try {
+    const metadata = fileType === 'image' ? await readImageMetadata(sourcePath) : undefined;
+    // Images sharp can't write back out (HEIC, SVG, RAW) are stored as JPEG
+    const transcoded = fileType === 'image' && !REWRITABLE_IMAGE_FORMATS.includes(metadata?.format ?? '');
+    const scrubbedFileName = transcoded ? `${path.parse(fileName).name}.jpg` : fileName;
+    const scrubbedPath = path.join(workDir, scrubbedFileName);
+    try {
+      if (fileType === 'image') {
+        await scrubImage(sourcePath, scrubbedPath, metadata);
+      } else {
+        await scrubVideo(sourcePath, scrubbedPath);
+      }
+    } catch (error) {
+      // Never publish the upload with its GPS and device data still in it
+      console.warn(`Could not strip metadata from ${fileName}, rejecting it:`, error);
+      await fs.promises.rm(sourcePath, { force: true });
+      throw new MetadataScrubError(`Location and device metadata could not be removed from this ${fileType}, try exporting it as ${fileType === 'image' ? 'JPEG or PNG' : 'MP4'}`);
+    }
+
+    let originalPath: string | null = null;
+    if (options.keepOriginal ?? true) {
+      originalPath = buildStorageKey(userId, fileName, 'originals');
+      await objectStorage.storeFile(originalPath, sourcePath, mimeType);
+    } else {
+      await fs.promises.rm(sourcePath, { force: true });
+    }
+    const storagePath = buildStorageKey(userId, scrubbedFileName, options.folder);
+    await objectStorage.storeFile(storagePath, scrubbedPath, transcoded ? 'image/jpeg' : mimeType);
+    return { storagePath, originalPath, metadataScrubbed: true };
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
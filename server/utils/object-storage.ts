@@ -0,0 +1,222 @@
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl as getS3SignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createHmac, timingSafeEqual, randomBytes } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { signingSecret } from './signing-secret';
+
+// Root directory for the local disk backend, also used by multer as the upload staging area
+export const UPLOAD_ROOT = path.join(process.cwd(), 'uploads');
+
+// Default lifetime of signed download URLs
+const DEFAULT_URL_TTL_SECONDS = 5 * 60;
+
+/**
+ * Common interface for the places uploaded media and documents can live.
+ * Database rows store the object key, never a backend specific location.
+ */
+export interface ObjectStorageBackend {
+  readonly name: 'local' | 's3';
+  /** Move a local file into storage under the given key. The source file is consumed. */
+  storeFile(key: string, sourcePath: string, contentType?: string): Promise<void>;
+  /** Run a callback with a path to the object on local disk (downloaded to a temp file when remote) */
+  withLocalFile<T>(key: string, callback: (localPath: string) => Promise<T>): Promise<T>;
+  /** Create a short-lived URL the browser can download the object from */
+  getSignedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+}
+
+/**
+ * Build the storage key for a file owned by a user
+ * @param userId Owner of the file
+ * @param fileName File name inside the user's folder
+ * @param folder Optional sub folder (e.g. 'derived', 'verification')
+ */
+export function buildStorageKey(userId: number, fileName: string, folder?: string): string {
+  return path.posix.join(`user_${userId}`, folder || '', fileName);
+}
+
+function signLocalKey(key: string, expires: number): string {
+  return createHmac('sha256', signingSecret).update(`${key}:${expires}`).digest('hex');
+}
+
+/**
+ * Check a signed local download URL and return the file it grants access to
+ * @returns The absolute file path, or null if the signature is invalid or expired
+ */
+export function verifyLocalSignedUrl(key: string, expires: number, signature: string): string | null {
+  if (!key || !expires || !signature || Date.now() > expires * 1000) {
+    return null;
+  }
+
+  const expected = Buffer.from(signLocalKey(key, expires), 'hex');
+  const supplied = Buffer.from(signature, 'hex');
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+    return null;
+  }
+
+  return resolveLocalKey(key);
+}
+
+function resolveLocalKey(key: string): string {
+  // Rows created before the storage abstraction hold absolute filesystem paths
+  if (path.isAbsolute(key)) {
+    return key;
+  }
+
+  const resolved = path.resolve(UPLOAD_ROOT, key);
+  if (!resolved.startsWith(UPLOAD_ROOT + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return resolved;
+}
+
+async function moveFile(sourcePath: string, targetPath: string): Promise<void> {
+  try {
+    await fs.promises.rename(sourcePath, targetPath);
+  } catch (error: any) {
+    // Renaming fails across devices (e.g. from the OS temp dir), fall back to copy + delete
+    if (error.code !== 'EXDEV') throw error;
+    await fs.promises.copyFile(sourcePath, targetPath);
+    await fs.promises.unlink(sourcePath);
+  }
+}
+
+// Files stored on the server's disk under UPLOAD_ROOT
+class LocalStorageBackend implements ObjectStorageBackend {
+  readonly name = 'local' as const;
+
+  async storeFile(key: string, sourcePath: string): Promise<void> {
+    const targetPath = resolveLocalKey(key);
+    if (path.resolve(sourcePath) === targetPath) {
+      return;
+    }
+
+    await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+    await moveFile(sourcePath, targetPath);
+  }
+
+  async withLocalFile<T>(key: string, callback: (localPath: string) => Promise<T>): Promise<T> {
+    return callback(resolveLocalKey(key));
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds = DEFAULT_URL_TTL_SECONDS): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const params = new URLSearchParams({
+      key,
+      expires: String(expires),
+      signature: signLocalKey(key, expires),
+    });
+    return `/api/storage/local?${params.toString()}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = resolveLocalKey(key);
+    if (fs.existsSync(filePath)) {
+      await fs.promises.unlink(filePath);
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fs.existsSync(resolveLocalKey(key));
+  }
+}
+
+// Any S3-compatible service (AWS S3, MinIO, Cloudflare R2, ...)
+class S3StorageBackend implements ObjectStorageBackend {
+  readonly name = 's3' as const;
+  private client: S3Client;
+  private bucket: string;
+
+  constructor() {
+    if (!process.env.S3_BUCKET) {
+      throw new Error('S3_BUCKET must be set when STORAGE_BACKEND is "s3"');
+    }
+
+    this.bucket = process.env.S3_BUCKET;
+    this.client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      // MinIO and most self-hosted services only support path-style bucket addressing
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+        ? {
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+          }
+        : undefined,
+    });
+  }
+
+  async storeFile(key: string, sourcePath: string, contentType?: string): Promise<void> {
+    const { size } = await fs.promises.stat(sourcePath);
+
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: fs.createReadStream(sourcePath),
+      ContentLength: size,
+      ContentType: contentType,
+    }));
+
+    await fs.promises.unlink(sourcePath);
+  }
+
+  async withLocalFile<T>(key: string, callback: (localPath: string) => Promise<T>): Promise<T> {
+    const tempPath = path.join(os.tmpdir(), `mtf-${randomBytes(8).toString('hex')}-${path.posix.basename(key)}`);
+
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      await pipeline(result.Body as Readable, fs.createWriteStream(tempPath));
+      return await callback(tempPath);
+    } finally {
+      if (fs.existsSync(tempPath)) {
+        await fs.promises.unlink(tempPath);
+      }
+    }
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds = DEFAULT_URL_TTL_SECONDS): Promise<string> {
+    return getS3SignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key, Range: 'bytes=0-0' }));
+      return true;
+    } catch (error: any) {
+      if (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Create the storage backend selected by the STORAGE_BACKEND environment variable
+ * @param backend 'local' (default) or 's3'
+ */
+export function createObjectStorage(backend = process.env.STORAGE_BACKEND || 'local'): ObjectStorageBackend {
+  if (backend === 's3') {
+    console.log(`Object storage: S3 (bucket ${process.env.S3_BUCKET})`);
+    return new S3StorageBackend();
+  }
+
+  console.log('Object storage: local disk');
+  return new LocalStorageBackend();
+}
+
+export const objectStorage = createObjectStorage();
@@ -0,0 +1,199 @@
+import { Response } from 'express';
+import { storage, StorageUsageChange } from '../storage';
+import { MediaFile, StorageUsage, User } from '@shared/schema';
+import { MAX_UPLOAD_SIZE } from './chunked-upload';
+
+export type PlanName = 'basic' | 'pro' | 'premium';
+
+export interface PlanEntitlements {
+  storageBytes: number;
+  filesPerMonth: number | null; // null for no limit
+  maxFileSize: number; // in bytes
+}
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+export const PLAN_ENTITLEMENTS: Record<PlanName, PlanEntitlements> = {
+  basic: { storageBytes: 25 * GB, filesPerMonth: 200, maxFileSize: 500 * MB },
+  pro: { storageBytes: 100 * GB, filesPerMonth: 1000, maxFileSize: 2 * GB },
+  premium: { storageBytes: 500 * GB, filesPerMonth: null, maxFileSize: MAX_UPLOAD_SIZE },
+};
+
+// Largest file any plan accepts, the limit while an upload is received and the plan isn't checked yet
+export const MAX_PLAN_FILE_SIZE = Math.max(...Object.values(PLAN_ENTITLEMENTS).map(entitlements => entitlements.maxFileSize));
+
+export type QuotaViolationCode = 'FILE_TOO_LARGE' | 'STORAGE_QUOTA' | 'MONTHLY_UPLOAD_LIMIT';
+
+export interface QuotaViolation {
+  code: QuotaViolationCode;
+  message: string;
+}
+
+export interface UsageSummary {
+  plan: PlanName;
+  limits: PlanEntitlements;
+  bytesUsed: number;
+  fileCount: number;
+  uploadsThisMonth: number;
+  monthStart: Date;
+  exempt: boolean; // admins upload without limits
+}
+
+/**
+ * Normalize users.plan, users without a known plan get the basic entitlements
+ * @param plan The user's plan
+ * @returns PlanName The plan whose limits apply
+ */
+export function getPlanName(plan: string | null | undefined): PlanName {
+  const name = plan?.toLowerCase();
+  return name === 'pro' || name === 'premium' ? name : 'basic';
+}
+
+/**
+ * Start of the current month in UTC, monthly upload limits reset then
+ * @param now Defaults to the current time
+ * @returns Date First day of the month
+ */
+export function currentMonthStart(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+// Human readable size for quota messages
+export function formatBytes(bytes: number): string {
+  if (bytes >= GB) return `${(bytes / GB).toFixed(1)} GB`;
+  if (bytes >= MB) return `${(bytes / MB).toFixed(1)} MB`;
+  return `${Math.ceil(bytes / 1024)} KB`;
+}
+
+// Usage of a user, counted from their media the first time so content uploaded before usage
+// was tracked is included. Files from before sizes were recorded count as 0 bytes, and
+// trashed files count until they're purged.
+async function loadStorageUsage(userId: number): Promise<StorageUsage> {
+  const usage = await storage.getStorageUsageByUserId(userId);
+  if (usage) {
+    return usage;
+  }
+
+  const monthStart = currentMonthStart();
+  const files = [
+    ...(await storage.getMediaFilesByUserId(userId)),
+    ...(await storage.getTrashedMediaFiles(userId)),
+  ];
+  return storage.adjustStorageUsage(userId, {
+    bytes: files.reduce((total, file) => total + (file.fileSize ?? 0), 0),
+    files: files.length,
+    uploads: files.filter(file => file.uploadDate >= monthStart).length,
+  }, monthStart);
+}
+
+/**
+ * A user's usage against their plan's quotas
+ * @param user The user
+ * @returns Promise<UsageSummary> Usage and limits
+ */
+export async function getUsageSummary(user: Pick<User, 'id' | 'plan' | 'role'>): Promise<UsageSummary> {
+  const plan = getPlanName(user.plan);
+  const usage = await loadStorageUsage(user.id);
+  const monthStart = currentMonthStart();
+
+  return {
+    plan,
+    limits: PLAN_ENTITLEMENTS[plan],
+    bytesUsed: usage.bytesUsed,
+    fileCount: usage.fileCount,
+    // The counter only resets on the next upload, until then last month's uploads don't count
+    uploadsThisMonth: usage.monthStart >= monthStart ? usage.uploadsThisMonth : 0,
+    monthStart,
+    exempt: user.role === 'admin',
+  };
+}
+
+/**
+ * Check whether new uploads fit the user's plan
+ * @param user The uploading user
+ * @param fileSizes Size in bytes of each file about to be stored
+ * @returns Promise<QuotaViolation | null> The first limit that would be exceeded, or null
+ */
+export async function checkUploadQuota(user: Pick<User, 'id' | 'plan' | 'role'>, fileSizes: number[]): Promise<QuotaViolation | null> {
+  const summary = await getUsageSummary(user);
+  if (summary.exempt) {
+    return null;
+  }
+
+  const { limits } = summary;
+  const tooLarge = fileSizes.find(size => size > limits.maxFileSize);
+  if (tooLarge !== undefined) {
+    return {
+      code: 'FILE_TOO_LARGE',
+      message: `Files on the ${summary.plan} plan can be at most ${formatBytes(limits.maxFileSize)}, this one is ${formatBytes(tooLarge)}`,
+    };
+  }
+
+  if (limits.filesPerMonth !== null && summary.uploadsThisMonth + fileSizes.length > limits.filesPerMonth) {
+    return {
+      code: 'MONTHLY_UPLOAD_LIMIT',
+      message: `The ${summary.plan} plan includes ${limits.filesPerMonth} uploads a month and ${summary.uploadsThisMonth} have been used`,
+    };
+  }
+
+  const newBytes = fileSizes.reduce((total, size) => total + size, 0);
+  if (summary.bytesUsed + newBytes > limits.storageBytes) {
+    return {
+      code: 'STORAGE_QUOTA',
+      message: `This would go over the ${formatBytes(limits.storageBytes)} of storage on the ${summary.plan} plan ` +
+        `(${formatBytes(summary.bytesUsed)} used), delete some content or upgrade the plan`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Reject uploads that don't fit the user's plan. Responds with 413 for a file over the size limit
+ * and 403 when the storage or monthly upload quota would be exceeded.
+ * @param res The response
+ * @param user The uploading user
+ * @param fileSizes Size in bytes of each file about to be stored
+ * @returns Promise<boolean> True if the upload can go ahead
+ */
+export async function enforceUploadQuota(res: Response, user: Pick<User, 'id' | 'plan' | 'role'>, fileSizes: number[]): Promise<boolean> {
+  const violation = await checkUploadQuota(user, fileSizes);
+  if (!violation) {
+    return true;
+  }
+
+  res.status(violation.code === 'FILE_TOO_LARGE' ? 413 : 403).json({
+    ...violation,
+    usage: await getUsageSummary(user),
+  });
+  return false;
+}
+
+async function adjustUsage(userId: number, change: StorageUsageChange): Promise<void> {
+  // Without totals yet, counting the user's media already takes this change into account
+  if (!(await storage.getStorageUsageByUserId(userId))) {
+    await loadStorageUsage(userId);
+    return;
+  }
+
+  await storage.adjustStorageUsage(userId, change, currentMonthStart());
+}
+
+/**
+ * Count a stored upload towards its owner's storage and monthly uploads, once its record exists
+ * @param mediaFile The new media file, with its fileSize set
+ * @returns Promise<void>
+ */
+export async function recordUploadUsage(mediaFile: MediaFile): Promise<void> {
+  await adjustUsage(mediaFile.userId, { bytes: mediaFile.fileSize ?? 0, files: 1, uploads: 1 });
+}
+
+/**
+ * Give back the storage of a media file after its record was deleted. The monthly upload it used is not given back.
+ * @param mediaFile The deleted media file
+ * @returns Promise<void>
+ */
+export async function releaseUploadUsage(mediaFile: MediaFile): Promise<void> {
+  await adjustUsage(mediaFile.userId, { bytes: -(mediaFile.fileSize ?? 0), files: -1, uploads: 0 });
+}
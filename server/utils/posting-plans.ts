@@ -0,0 +1,176 @@
+import { storage } from '../storage';
+import { MediaFile, PostingVariant, ScheduledPost } from '@shared/schema';
+
+export type PostingVariantStatus = 'draft' | 'ready' | 'scheduled' | 'posted';
+
+export const POSTING_VARIANT_STATUSES: PostingVariantStatus[] = ['draft', 'ready', 'scheduled', 'posted'];
+
+// Platforms where a variant can be sold as pay-per-view
+export const PPV_PLATFORMS = ['OnlyFans'];
+
+export interface PostingScheduleRow {
+  client: string;
+  mediaFileId: number;
+  title: string;
+  platform: string;
+  targetDate: Date | null;
+  status: string;
+  price: string | null;
+  caption: string;
+  hashtags: string;
+}
+
+/**
+ * Clean up hashtags entered as a list or a comma/space separated string
+ * @param input Hashtags with or without the leading #
+ * @returns string[] Unique hashtags without the leading #
+ */
+export function normalizeHashtags(input: string[] | string | undefined | null): string[] {
+  if (!input) {
+    return [];
+  }
+
+  const tags = (Array.isArray(input) ? input : input.split(/[\s,]+/))
+    .map(tag => tag.trim().replace(/^#+/, ''))
+    .filter(Boolean);
+
+  return Array.from(new Set(tags));
+}
+
+/**
+ * Start the posting plan of a new upload with the caption and platform from the upload form
+ * @param mediaFile The uploaded media file
+ * @param platform Platform chosen on upload
+ * @param caption Caption entered on upload
+ * @param createdBy ID of the uploading user
+ * @returns Promise<PostingVariant | undefined> The variant, or undefined if there is nothing to add
+ */
+export async function createInitialVariant(
+  mediaFile: MediaFile,
+  platform: string | undefined,
+  caption: string | undefined,
+  createdBy: number
+): Promise<PostingVariant | undefined> {
+  if (!platform) {
+    return undefined;
+  }
+
+  // A resubmitted version inherits the plan of the version it replaces, which takes precedence
+  const existing = await storage.getPostingVariantsByMediaFileId(mediaFile.id);
+  if (existing.some(variant => variant.platform === platform)) {
+    return undefined;
+  }
+
+  return storage.createPostingVariant({
+    mediaFileId: mediaFile.id,
+    userId: mediaFile.userId,
+    platform,
+    caption: caption || null,
+    hashtags: [],
+    status: 'draft',
+    createdBy,
+  });
+}
+
+/**
+ * Carry the posting plan over to a new version of the content
+ * @param fromMediaFileId ID of the version being replaced
+ * @param toMediaFileId ID of the new version
+ */
+export async function moveVariants(fromMediaFileId: number, toMediaFileId: number): Promise<void> {
+  for (const variant of await storage.getPostingVariantsByMediaFileId(fromMediaFileId)) {
+    await storage.updatePostingVariant(variant.id, { mediaFileId: toMediaFileId });
+  }
+}
+
+/**
+ * Reflect a calendar entry on the matching platform variant
+ * @param post The scheduled post that was queued or published
+ */
+export async function syncVariantWithPost(post: ScheduledPost): Promise<void> {
+  const variants = await storage.getPostingVariantsByMediaFileId(post.mediaFileId);
+  const variant = variants.find(candidate => candidate.platform === post.platform);
+  if (!variant || variant.status === 'posted') {
+    return;
+  }
+
+  if (post.status === 'posted') {
+    await storage.updatePostingVariant(variant.id, { status: 'posted' });
+  } else if (post.status === 'queued') {
+    await storage.updatePostingVariant(variant.id, { status: 'scheduled', targetDate: post.scheduledFor });
+  }
+}
+
+/**
+ * Posting schedule of a client, ordered by target date with undated variants last
+ * @param userId ID of the client
+ * @param start Only include variants targeted on or after this date
+ * @param end Only include variants targeted before this date
+ * @returns Promise<PostingScheduleRow[]> One row per platform variant
+ */
+export async function buildPostingSchedule(userId: number, start?: Date, end?: Date): Promise<PostingScheduleRow[]> {
+  const client = await storage.getUser(userId);
+  const variants = (await storage.getPostingVariantsByUserId(userId)).filter(variant => {
+    if (!start && !end) return true;
+    if (!variant.targetDate) return false;
+    return (!start || variant.targetDate >= start) && (!end || variant.targetDate < end);
+  });
+
+  const rows: PostingScheduleRow[] = [];
+  for (const variant of variants) {
+    const mediaFile = await storage.getMediaFile(variant.mediaFileId);
+    // Replaced versions are not posted
+    if (!mediaFile || mediaFile.status === 'superseded') continue;
+
+    rows.push({
+      client: client?.fullName ?? `Client #${userId}`,
+      mediaFileId: variant.mediaFileId,
+      title: mediaFile.title,
+      platform: variant.platform,
+      targetDate: variant.targetDate,
+      status: variant.status,
+      price: variant.price,
+      caption: variant.caption ?? '',
+      hashtags: ((variant.hashtags as string[] | null) ?? []).map(tag => `#${tag}`).join(' '),
+    });
+  }
+
+  return rows.sort((a, b) => {
+    if (!a.targetDate) return b.targetDate ? 1 : 0;
+    if (!b.targetDate) return -1;
+    return a.targetDate.getTime() - b.targetDate.getTime();
+  });
+}
+
+/**
+ * Quote a value for a CSV cell. Captions and titles come from clients, so a value a spreadsheet would
+ * run as a formula is prefixed with a quote to keep it text.
+ * @param value The cell's value
+ * @returns string The escaped cell
+ */
+export function escapeCsv(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render a posting schedule as CSV for spreadsheets
+ * @param rows Rows from buildPostingSchedule
+ * @returns string CSV with a header row
+ */
+export function postingScheduleToCsv(rows: PostingScheduleRow[]): string {
+  const header = ['Client', 'Media ID', 'Title', 'Platform', 'Target Date', 'Status', 'Price', 'Caption', 'Hashtags'];
+  const lines = rows.map(row => [
+    row.client,
+    String(row.mediaFileId),
+    row.title,
+    row.platform,
+    row.targetDate ? row.targetDate.toISOString() : '',
+    row.status,
+    row.price ?? '',
+    row.caption,
+    row.hashtags,
+  ].map(escapeCsv).join(','));
+
+  return [header.join(','), ...lines].join('\r\n');
+}
@@ -0,0 +1,226 @@
+import { Response } from 'express';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { BookingRequest, RentMenSettings } from '@shared/schema';
+import { evaluateScreening, parseRate } from './appointment-screening';
+import { storage } from '../storage';
+import { signingSecret } from './signing-secret';
+
+export type BookingRequestStatus = 'new' | 'proposed' | 'rejected' | 'spam';
+
+export interface ScreeningQuestion {
+  id: string;
+  label: string;
+  type: 'confirm' | 'choice' | 'text';
+  options?: string[];
+  required: boolean;
+}
+
+export interface BookingChallenge {
+  question: string;
+  token: string;
+}
+
+export interface RateLimiter {
+  windowMs: number;
+  max: number;
+  hits: Map<string, { count: number; resetAt: number }>;
+}
+
+// Questionnaire every public booking request answers, confirmations have to be ticked to send it
+export const SCREENING_QUESTIONS: ScreeningQuestion[] = [
+  { id: 'adult', label: 'I am 18 or older', type: 'confirm', required: true },
+  { id: 'idCheck', label: "I'm willing to verify my ID before we meet", type: 'confirm', required: true },
+  { id: 'firstBooking', label: 'Is this your first booking with them?', type: 'choice', options: ['Yes', 'No'], required: true },
+  { id: 'referral', label: 'How did you hear about them?', type: 'text', required: false },
+];
+
+export const publicBookingRequestSchema = z.object({
+  bookerName: z.string().trim().min(1, 'Enter your name').max(200),
+  bookerEmail: z.string().trim().email('Enter a valid email'),
+  bookerPhone: z.string().trim().max(50).optional(),
+  bookerReferences: z.string().trim().max(2000).optional(),
+  service: z.string().trim().max(100).optional(),
+  requestedDate: z.coerce.date(),
+  duration: z.coerce.number().int().min(30).max(12 * 60),
+  location: z.string().trim().max(300).optional(),
+  offeredRate: z.string().trim().max(50).optional(),
+  message: z.string().trim().max(2000).optional(),
+  answers: z.record(z.union([z.string().trim().max(500), z.boolean()])).default({}),
+  challengeToken: z.string().min(1),
+  challengeAnswer: z.coerce.number().int(),
+  website: z.string().optional(), // honeypot, hidden from people so only bots fill it in
+});
+
+export type PublicBookingRequest = z.infer<typeof publicBookingRequestSchema>;
+
+// A challenge answered faster than a person could is a bot, one left open too long has to be fetched again
+const CHALLENGE_MIN_AGE_MS = 3 * 1000;
+const CHALLENGE_MAX_AGE_MS = 30 * 60 * 1000;
+
+// Nonces of answered challenges until they expire, so each challenge can be used once
+const usedChallenges = new Map<string, number>();
+
+function signChallenge(issuedAt: number, nonce: string, answer: number): string {
+  return createHmac('sha256', signingSecret).update(`booking:${issuedAt}:${nonce}:${answer}`).digest('hex');
+}
+
+/**
+ * A small sum for the booking form, the answer is only kept in the token's signature
+ * @param now Current time
+ * @returns BookingChallenge The question and the token to send back with the answer
+ */
+export function createBookingChallenge(now: number = Date.now()): BookingChallenge {
+  const a = 2 + Math.floor(Math.random() * 9);
+  const b = 2 + Math.floor(Math.random() * 9);
+  const nonce = randomBytes(12).toString('hex');
+  return {
+    question: `What is ${a} + ${b}?`,
+    token: `${now}.${nonce}.${signChallenge(now, nonce, a + b)}`,
+  };
+}
+
+/**
+ * Check an answer to a challenge from createBookingChallenge and use the challenge up
+ * @param token The challenge token
+ * @param answer The answer given
+ * @param now Current time
+ * @returns string | null Why it was refused, or null if it was answered correctly
+ */
+export function verifyBookingChallenge(token: string, answer: number, now: number = Date.now()): string | null {
+  for (const [nonce, expiresAt] of Array.from(usedChallenges)) {
+    if (expiresAt <= now) usedChallenges.delete(nonce);
+  }
+
+  const [issued, nonce, signature] = token.split('.');
+  const issuedAt = Number(issued);
+  if (!nonce || !signature || !Number.isFinite(issuedAt)) {
+    return 'The check is invalid, reload the page and try again';
+  }
+  if (now - issuedAt > CHALLENGE_MAX_AGE_MS || usedChallenges.has(nonce)) {
+    return 'The check has expired, answer the new one';
+  }
+  if (now - issuedAt < CHALLENGE_MIN_AGE_MS) {
+    return 'That was sent too quickly, wait a moment and try again';
+  }
+
+  const expected = Buffer.from(signChallenge(issuedAt, nonce, answer));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+    return "The answer to the check isn't right";
+  }
+
+  usedChallenges.set(nonce, issuedAt + CHALLENGE_MAX_AGE_MS);
+  return null;
+}
+
+/**
+ * A fixed-window limit on how often a key, e.g. an IP address, can do something
+ * @param windowMs Length of the window
+ * @param max Attempts allowed per window
+ * @returns RateLimiter The limiter, kept in memory by this process only
+ */
+export function createRateLimiter(windowMs: number, max: number): RateLimiter {
+  return { windowMs, max, hits: new Map() };
+}
+
+/**
+ * Count an attempt against a limit. Responds with 429 and Retry-After once it's used up.
+ * @param res The response
+ * @param limiter The limiter
+ * @param key Who or what is limited
+ * @param now Current time
+ * @returns boolean True if the attempt is allowed
+ */
+export function enforceRateLimit(res: Response, limiter: RateLimiter, key: string, now: number = Date.now()): boolean {
+  for (const [hitKey, hit] of Array.from(limiter.hits)) {
+    if (hit.resetAt <= now) limiter.hits.delete(hitKey);
+  }
+
+  const hit = limiter.hits.get(key) ?? { count: 0, resetAt: now + limiter.windowMs };
+  hit.count++;
+  limiter.hits.set(key, hit);
+  if (hit.count <= limiter.max) {
+    return true;
+  }
+
+  res.setHeader('Retry-After', Math.ceil((hit.resetAt - now) / 1000).toString());
+  res.status(429).json({ message: 'Too many requests, please try again later' });
+  return false;
+}
+
+/**
+ * Hash a sender's IP address so repeat senders can be spotted without storing addresses
+ * @param ip The address
+ * @returns string The hash
+ */
+export function hashSourceIp(ip: string | undefined): string {
+  return createHmac('sha256', signingSecret).update(`ip:${ip ?? 'unknown'}`).digest('hex').slice(0, 32);
+}
+
+/**
+ * Why a request doesn't fit the creator's page: a service they don't offer, an offer below their minimum
+ * rate, or a questionnaire left incomplete
+ * @param request The parsed request
+ * @param settings The creator's Rent.Men settings
+ * @returns string | null The problem, or null
+ */
+export function getBookingRequestError(request: PublicBookingRequest, settings: RentMenSettings): string | null {
+  const services = Array.isArray(settings.servicesOffered) ? settings.servicesOffered as string[] : [];
+  if (request.service && !services.includes(request.service)) {
+    return "That service isn't offered";
+  }
+
+  const minimumRate = parseRate(settings.minimumRate);
+  const offered = parseRate(request.offeredRate);
+  if (minimumRate !== null && offered !== null && offered < minimumRate) {
+    return `The minimum rate is ${settings.minimumRate}`;
+  }
+
+  for (const question of SCREENING_QUESTIONS) {
+    const answer = request.answers[question.id];
+    const answered = question.type === 'confirm'
+      ? answer === true
+      : typeof answer === 'string' && answer !== '' && (!question.options || question.options.includes(answer));
+    if (question.required && !answered) {
+      return `Please answer: ${question.label}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * What the admin should know when triaging a request: where it falls short of the creator's screening
+ * rules and whether the same sender has been sending others
+ * @param request The request
+ * @param settings The creator's Rent.Men settings
+ * @param requests Every booking request, to find repeats
+ * @returns Promise<string[]> One sentence each, empty when there's nothing to flag
+ */
+export async function getTriageNotes(
+  request: BookingRequest,
+  settings: RentMenSettings | undefined,
+  requests: BookingRequest[]
+): Promise<string[]> {
+  const history = await storage.getAppointmentsByClientId(request.clientId);
+  const { reasons } = evaluateScreening({
+    bookerName: request.bookerName,
+    bookerEmail: request.bookerEmail,
+    bookerPhone: request.bookerPhone,
+    bookerReferences: request.bookerReferences,
+    bookerVerified: false,
+    amount: request.offeredRate,
+  }, settings, history);
+
+  const dayBefore = request.createdAt.getTime() - 24 * 60 * 60 * 1000;
+  const others = requests.filter(other => other.id !== request.id && other.createdAt.getTime() >= dayBefore &&
+    other.createdAt <= request.createdAt &&
+    ((request.sourceIpHash && other.sourceIpHash === request.sourceIpHash) || other.bookerEmail === request.bookerEmail));
+  if (others.length > 0) {
+    reasons.push(`The same sender sent ${others.length} other ${others.length === 1 ? 'request' : 'requests'} in the day before`);
+  }
+  if (requests.some(other => other.status === 'spam' && other.bookerEmail === request.bookerEmail)) {
+    reasons.push('An earlier request from this email was marked as spam');
+  }
+  return reasons;
+}
@@ -0,0 +1,132 @@
+import { storage } from '../storage';
+import { MediaFile, ScheduledPost, PlatformAccount } from '@shared/schema';
+import { syncVariantWithPost } from './posting-plans';
+import { sendNotification } from './realtime';
+
+export type ScheduledPostStatus = 'queued' | 'due' | 'posted' | 'missed' | 'cancelled';
+
+// How often the queue is checked for posts that became due
+export const PUBLISHING_QUEUE_INTERVAL_MS = 60 * 1000;
+
+// A due post that nobody marked as posted within this window is reported as missed
+const MISSED_AFTER_MS = 2 * 60 * 60 * 1000;
+
+// Posts that are still waiting to go out and can be moved around the calendar
+export const OPEN_POST_STATUSES: ScheduledPostStatus[] = ['queued', 'due', 'missed'];
+
+/**
+ * Notify the manager assigned to a post, or every admin if nobody is assigned
+ * @param post The scheduled post
+ * @param title Notification title
+ * @param content Notification text
+ */
+async function notifyManager(post: ScheduledPost, title: string, content: string): Promise<void> {
+  const recipientIds = post.assignedManagerId
+    ? [post.assignedManagerId]
+    : (await storage.getAllUsers()).filter(user => user.role === 'admin').map(user => user.id);
+
+  for (const recipientId of recipientIds) {
+    await sendNotification({
+      recipientId,
+      type: 'content',
+      title,
+      content,
+      link: '/admin/content-calendar',
+    });
+  }
+}
+
+async function describePost(post: ScheduledPost): Promise<string> {
+  const mediaFile = await storage.getMediaFile(post.mediaFileId);
+  const client = await storage.getUser(post.userId);
+  return `"${mediaFile?.title ?? `Content #${post.mediaFileId}`}" for ${client?.fullName ?? 'a client'} on ${post.platform}`;
+}
+
+/**
+ * Move queued posts to due when their time comes and due posts to missed once the grace window passes
+ */
+export async function processPublishingQueue(): Promise<void> {
+  const now = new Date();
+
+  const duePosts = await storage.getScheduledPostsByStatus('queued', now);
+  for (const post of duePosts) {
+    await storage.updateScheduledPost(post.id, { status: 'due', dueNotifiedAt: now });
+    await notifyManager(post, 'Post due', `${await describePost(post)} is due to be posted now.`);
+  }
+
+  // The grace window runs from when the manager was told, so a post scheduled in the past isn't missed straight away
+  const cutoff = new Date(now.getTime() - MISSED_AFTER_MS);
+  const missedPosts = (await storage.getScheduledPostsByStatus('due', cutoff))
+    .filter(post => !post.dueNotifiedAt || post.dueNotifiedAt <= cutoff);
+  for (const post of missedPosts) {
+    await storage.updateScheduledPost(post.id, { status: 'missed' });
+    await notifyManager(post, 'Post missed', `${await describePost(post)} was not marked as posted and has been flagged as missed.`);
+  }
+
+  if (duePosts.length > 0 || missedPosts.length > 0) {
+    console.log(`Publishing queue: ${duePosts.length} post(s) due, ${missedPosts.length} missed`);
+  }
+}
+
+/**
+ * Keep mediaFiles.scheduledDate pointing at the next open calendar entry for the item
+ * @param mediaFileId ID of the media file
+ */
+export async function syncMediaScheduledDate(mediaFileId: number): Promise<void> {
+  const posts = await storage.getScheduledPostsByMediaFileId(mediaFileId);
+  const nextPost = posts.find(post => OPEN_POST_STATUSES.includes(post.status as ScheduledPostStatus));
+
+  await storage.updateMediaFile(mediaFileId, { scheduledDate: nextPost ? nextPost.scheduledFor : null });
+}
+
+/**
+ * Put a media item on the calendar for one of the owner's platform accounts
+ * @param mediaFile The media file to publish
+ * @param platformAccount The platform account it will be posted to
+ * @param scheduledFor When it should go out
+ * @param createdBy ID of the user scheduling the post
+ * @param assignedManagerId Admin responsible for posting it, if any
+ * @returns Promise<ScheduledPost> The queued post
+ */
+export async function queueScheduledPost(
+  mediaFile: MediaFile,
+  platformAccount: PlatformAccount,
+  scheduledFor: Date,
+  createdBy: number,
+  assignedManagerId?: number | null
+): Promise<ScheduledPost> {
+  const post = await storage.createScheduledPost({
+    mediaFileId: mediaFile.id,
+    userId: mediaFile.userId,
+    platformAccountId: platformAccount.id,
+    platform: platformAccount.platformType,
+    scheduledFor,
+    status: 'queued',
+    assignedManagerId: assignedManagerId ?? null,
+    createdBy,
+  });
+
+  await syncMediaScheduledDate(mediaFile.id);
+  await syncVariantWithPost(post);
+  return post;
+}
+
+/**
+ * Carry open calendar entries over to a new version of the content
+ * @param fromMediaFileId ID of the version being replaced
+ * @param toMediaFileId ID of the new version
+ */
+export async function moveScheduledPosts(fromMediaFileId: number, toMediaFileId: number): Promise<void> {
+  const posts = await storage.getScheduledPostsByMediaFileId(fromMediaFileId);
+  const openPosts = posts.filter(post => OPEN_POST_STATUSES.includes(post.status as ScheduledPostStatus));
+  if (openPosts.length === 0) {
+    return;
+  }
+
+  for (const post of openPosts) {
+    await storage.updateScheduledPost(post.id, { mediaFileId: toMediaFileId });
+  }
+
+  await syncMediaScheduledDate(fromMediaFileId);
+  await syncMediaScheduledDate(toMediaFileId);
+}
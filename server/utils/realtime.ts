@@ -0,0 +1,254 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { Request, RequestHandler, Response } from 'express';
+import { Session, SessionData } from 'express-session';
+import { WebSocketServer, WebSocket } from 'ws';
+import { storage } from '../storage';
+import { Appointment, InsertNotification, Message, Notification, User } from '@shared/schema';
+
+// A signed-in user's open connection, one per tab
+interface WSClient {
+  sessionId: string; // session the connection was opened with, so signing out closes it
+  userId: number;
+  username: string;
+  role: string;
+  connection: WebSocket;
+  isAlive: boolean;
+}
+
+export type WSMessageType = 'message' | 'notification' | 'status' | 'typing' | 'read' | 'appointment';
+
+export interface WSMessage {
+  type: WSMessageType;
+  data: any;
+  sender: {
+    id: number;
+    username: string;
+  } | null; // null when the server sent it
+  timestamp: number;
+}
+
+export const REALTIME_PATH = '/ws';
+
+// Connections that miss a ping are dropped, so a user's list doesn't fill with dead sockets
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Only typing indicators are sent by clients, and they're small
+const MAX_PAYLOAD_BYTES = 4 * 1024;
+
+let wsClients: WSClient[] = [];
+
+function send(client: WSClient, message: WSMessage) {
+  if (client.connection.readyState === WebSocket.OPEN) {
+    client.connection.send(JSON.stringify(message));
+  }
+}
+
+function reject(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// An upgrade request once the session middleware has run on it
+type UpgradeRequest = IncomingMessage & { session?: Session & Partial<SessionData>; sessionID?: string };
+
+// express-session only reads the request's cookie header and sets request.session, so it can run on a bare
+// upgrade request without an Express response
+function parseUpgradeSession(request: UpgradeRequest, sessionParser: RequestHandler): Promise<void> {
+  return new Promise((resolve, reject) => {
+    sessionParser(request as Request, {} as Response, error => error ? reject(error) : resolve());
+  });
+}
+
+// The signed-in user behind an upgrade request, from the same session cookie the API uses
+async function authenticateUpgrade(request: UpgradeRequest, sessionParser: RequestHandler): Promise<User | undefined> {
+  await parseUpgradeSession(request, sessionParser);
+  const userId = request.session?.passport?.user;
+  return typeof userId === 'number' ? storage.getUser(userId) : undefined;
+}
+
+// Browsers send cookies with cross-site WebSocket requests, so the page has to come from this host
+function isSameOrigin(request: IncomingMessage): boolean {
+  const origin = request.headers.origin;
+  if (!origin) return true; // not a browser
+  try {
+    return new URL(origin).host === request.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+async function handleClientMessage(client: WSClient, raw: string) {
+  let message: { type?: string; data?: any };
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return;
+  }
+
+  // Typing indicators go to everyone else in the conversation, as long as the sender is in it too
+  if (message.type === 'typing') {
+    const conversationId = Number(message.data?.conversationId);
+    if (!Number.isInteger(conversationId) || !(await storage.isUserInConversation(client.userId, conversationId))) {
+      return;
+    }
+    const recipientIds = (await storage.getConversationParticipantIds(conversationId)).filter(id => id !== client.userId);
+    sendToUsers(recipientIds, 'typing', { conversationId, isTyping: !!message.data?.isTyping }, client);
+  }
+}
+
+/**
+ * Accept WebSocket connections on the HTTP server at /ws for signed-in users. Other upgrade requests,
+ * e.g. Vite's hot reload, are left alone.
+ * @param server The HTTP server
+ * @param sessionParser The express-session middleware, to read the user from the session cookie
+ * @returns WebSocketServer The gateway
+ */
+export function attachRealtimeGateway(server: Server, sessionParser: RequestHandler): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES });
+
+  server.on('upgrade', async (request: UpgradeRequest, socket: Duplex, head: Buffer) => {
+    if (new URL(request.url ?? '', 'http://localhost').pathname !== REALTIME_PATH) {
+      return;
+    }
+    if (!isSameOrigin(request)) {
+      return reject(socket, '403 Forbidden');
+    }
+
+    try {
+      const user = await authenticateUpgrade(request, sessionParser);
+      if (!user) {
+        return reject(socket, '401 Unauthorized');
+      }
+
+      wss.handleUpgrade(request, socket, head, connection => {
+        const client: WSClient = {
+          sessionId: request.sessionID ?? '',
+          userId: user.id,
+          username: user.username,
+          role: user.role,
+          connection,
+          isAlive: true,
+        };
+        wsClients.push(client);
+
+        connection.on('pong', () => {
+          client.isAlive = true;
+        });
+        connection.on('message', raw => {
+          handleClientMessage(client, raw.toString()).catch(error => {
+            console.error('Error handling WebSocket message:', error);
+          });
+        });
+        connection.on('close', () => {
+          wsClients = wsClients.filter(other => other !== client);
+        });
+
+        send(client, { type: 'status', data: { connected: true }, sender: null, timestamp: Date.now() });
+      });
+    } catch (error) {
+      console.error('Error authenticating WebSocket connection:', error);
+      reject(socket, '500 Internal Server Error');
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const client of wsClients) {
+      if (!client.isAlive) {
+        client.connection.terminate();
+        continue;
+      }
+      client.isAlive = false;
+      client.connection.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+  server.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+}
+
+/**
+ * Close the connections opened with a session, e.g. once it signs out. The user's other devices stay connected.
+ * @param sessionId The session's ID
+ */
+export function disconnectSession(sessionId: string) {
+  for (const client of wsClients) {
+    if (client.sessionId === sessionId) {
+      client.connection.close(1000, 'Signed out');
+    }
+  }
+}
+
+/**
+ * Push an event to every open connection of some users
+ * @param userIds The users
+ * @param type The event
+ * @param data Its payload
+ * @param sender The user it came from, if it didn't come from the server
+ */
+export function sendToUsers(userIds: number[], type: WSMessageType, data: any, sender?: { userId: number; username: string }) {
+  const message: WSMessage = {
+    type,
+    data,
+    sender: sender ? { id: sender.userId, username: sender.username } : null,
+    timestamp: Date.now(),
+  };
+  for (const client of wsClients) {
+    if (userIds.includes(client.userId)) {
+      send(client, message);
+    }
+  }
+}
+
+/**
+ * Push a new message to everyone in its conversation, the sender's other tabs included
+ * @param message The message
+ * @param sender The user who sent it
+ */
+export async function publishMessage(message: Message, sender: { id: number; username: string }) {
+  const participantIds = await storage.getConversationParticipantIds(message.conversationId);
+  sendToUsers(participantIds, 'message', message, { userId: sender.id, username: sender.username });
+}
+
+/**
+ * Tell everyone in a conversation that a message was read
+ * @param message The message
+ * @param reader The user who read it
+ */
+export async function publishReadReceipt(message: Message, reader: { id: number; username: string }) {
+  const participantIds = await storage.getConversationParticipantIds(message.conversationId);
+  sendToUsers(participantIds, 'read', {
+    messageId: message.id,
+    conversationId: message.conversationId,
+    readBy: reader.id,
+    readAt: new Date().toISOString(),
+  }, { userId: reader.id, username: reader.username });
+}
+
+/**
+ * Tell both sides of appointments that they changed, so open pages reload them
+ * @param appointments The appointments
+ */
+export function publishAppointmentUpdate(appointments: Appointment | Appointment[]) {
+  for (const appointment of Array.isArray(appointments) ? appointments : [appointments]) {
+    sendToUsers([appointment.adminId, appointment.clientId], 'appointment', {
+      appointmentId: appointment.id,
+      status: appointment.status,
+      seriesId: appointment.seriesId,
+    });
+  }
+}
+
+/**
+ * Store an in-app notification and push it to the recipient if they're connected
+ * @param notification The notification
+ * @returns Promise<Notification> The stored notification
+ */
+export async function sendNotification(notification: InsertNotification): Promise<Notification> {
+  const created = await storage.createNotification(notification);
+  if (created?.recipientId) {
+    sendToUsers([created.recipientId], 'notification', created);
+  }
+  return created;
+}
@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import { addDays, zonedParts, zonedTimeToDate } from './availability';
+
+// Most appointments a standing booking expands to, a year of twice-weekly appointments
+export const MAX_OCCURRENCES = 104;
+
+const RECURRENCE_DAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+
+export type RecurrenceDay = typeof RECURRENCE_DAYS[number];
+
+const DAY_NAMES: Record<RecurrenceDay, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+// The RRULE subset standing bookings support: weekly or every other week on given days, until a date or
+// for a number of appointments
+export const recurrenceRuleSchema = z.object({
+  frequency: z.enum(['weekly', 'biweekly']),
+  days: z.array(z.enum(RECURRENCE_DAYS)).min(1).max(7),
+  until: z.coerce.date().optional(), // last moment an appointment can start
+  count: z.coerce.number().int().min(2).max(MAX_OCCURRENCES).optional(),
+}).refine(rule => !rule.until !== !rule.count, {
+  message: 'End the series on a date or after a number of appointments',
+  path: ['until'],
+});
+
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+
+// Monday first, as RRULE weeks start by default
+const sortDays = (days: RecurrenceDay[]) =>
+  RECURRENCE_DAYS.filter(day => days.includes(day));
+
+// 0 is Sunday, as Date.getUTCDay
+const weekdayOf = (day: RecurrenceDay) => (RECURRENCE_DAYS.indexOf(day) + 1) % 7;
+
+const formatUntil = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+function parseUntil(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) {
+    throw new Error(`Invalid UNTIL in recurrence rule: ${value}`);
+  }
+  const [, year, month, day, hours = '23', minutes = '59', seconds = '59'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+}
+
+/**
+ * Write a recurrence rule as an RRULE value
+ * @param rule The rule
+ * @returns string e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=6"
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  return [
+    'FREQ=WEEKLY',
+    `INTERVAL=${rule.frequency === 'biweekly' ? 2 : 1}`,
+    `BYDAY=${sortDays(rule.days).join(',')}`,
+    rule.until ? `UNTIL=${formatUntil(rule.until)}` : `COUNT=${rule.count}`,
+  ].join(';');
+}
+
+/**
+ * Read an RRULE value written by formatRecurrenceRule
+ * @param value The RRULE value, with or without the "RRULE:" prefix
+ * @returns RecurrenceRule The rule
+ * @throws Error if it uses anything outside the supported subset
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  const parts = Object.fromEntries(
+    value.replace(/^RRULE:/i, '').split(';').filter(Boolean).map(part => {
+      const [name, partValue = ''] = part.split('=');
+      return [name.toUpperCase(), partValue.toUpperCase()];
+    })
+  );
+
+  const interval = parts.INTERVAL ?? '1';
+  if (parts.FREQ !== 'WEEKLY' || !['1', '2'].includes(interval)) {
+    throw new Error(`Unsupported recurrence rule: ${value}`);
+  }
+
+  const result = recurrenceRuleSchema.safeParse({
+    frequency: interval === '2' ? 'biweekly' : 'weekly',
+    days: parts.BYDAY?.split(',') ?? [],
+    until: parts.UNTIL ? parseUntil(parts.UNTIL) : undefined,
+    count: parts.COUNT,
+  });
+  if (!result.success) {
+    throw new Error(`Unsupported recurrence rule: ${value}`);
+  }
+  return result.data;
+}
+
+/**
+ * Every start time a rule gives from a first appointment. Days and the time of day are as seen in the
+ * timezone, so appointments keep their local time across daylight saving changes.
+ * @param rule The rule
+ * @param start The first appointment, which should fall on one of the rule's days
+ * @param timeZone IANA timezone the days are in
+ * @returns Date[] Start times in order, from the first appointment on. Stops one past MAX_OCCURRENCES, so a
+ * rule that runs too long can be told apart.
+ */
+export function expandRecurrence(rule: RecurrenceRule, start: Date, timeZone: string): Date[] {
+  const first = zonedParts(start, timeZone);
+  const weekdays = rule.days.map(weekdayOf);
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES + 1, MAX_OCCURRENCES + 1);
+  const interval = rule.frequency === 'biweekly' ? 2 : 1;
+
+  const occurrences: Date[] = [];
+  let weekStart = addDays(first, -((first.weekday + 6) % 7));
+  while (occurrences.length < limit) {
+    for (let offset = 0; offset < 7 && occurrences.length < limit; offset++) {
+      const day = addDays(weekStart, offset);
+      if (!weekdays.includes(day.weekday)) continue;
+
+      const occurrence = zonedTimeToDate(day, first.minutes, timeZone);
+      if (occurrence < start) continue;
+      if (rule.until && occurrence > rule.until) return occurrences;
+      occurrences.push(occurrence);
+    }
+    weekStart = addDays(weekStart, 7 * interval);
+  }
+  return occurrences;
+}
+
+/**
+ * A rule in words, for notifications and the appointment screens
+ * @param rule The rule
+ * @param timeZone IANA timezone the series is in
+ * @returns string e.g. "Every 2 weeks on Monday and Thursday, 6 appointments"
+ */
+export function describeRecurrence(rule: RecurrenceRule, timeZone: string): string {
+  const names = sortDays(rule.days).map(day => DAY_NAMES[day]);
+  const days = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+  const end = rule.until
+    ? `until ${rule.until.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone })}`
+    : `${rule.count} appointments`;
+  return `${rule.frequency === 'biweekly' ? 'Every 2 weeks' : 'Weekly'} on ${days}, ${end}`;
+}
@@ -0,0 +1,175 @@
+import { storage } from '../storage';
+import { MediaFile, RetentionRule } from '@shared/schema';
+import { objectStorage } from './object-storage';
+import { removeDerivedFiles } from './media-processing';
+import { releaseUploadUsage } from './plan-quotas';
+import { OPEN_POST_STATUSES, ScheduledPostStatus, syncMediaScheduledDate } from './publishing-queue';
+import { syncVariantWithPost } from './posting-plans';
+import { ContentStatus } from './content-review';
+import { sendNotification } from './realtime';
+
+// How long content stays in the trash, restorable, before it's purged for good
+export const TRASH_RETENTION_DAYS = 30;
+
+// How often retention rules are applied and expired trash is purged
+export const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Review statuses a retention rule can match
+export const RETENTION_STATUSES = ['pending', 'changes_requested', 'approved', 'rejected', 'superseded'] as const;
+
+const statusLabels: Record<ContentStatus, string> = {
+  pending: 'Pending review',
+  changes_requested: 'Changes requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  superseded: 'Replaced by a newer version',
+};
+
+/**
+ * Describe what a retention rule does, e.g. "Rejected for 30 days"
+ * @param rule The retention rule
+ * @returns string Reason stored on the content it moves to the trash
+ */
+export function describeRetentionRule(rule: Pick<RetentionRule, 'status' | 'afterDays'>): string {
+  const label = statusLabels[rule.status as ContentStatus] ?? rule.status;
+  return `${label} for ${rule.afterDays} ${rule.afterDays === 1 ? 'day' : 'days'}`;
+}
+
+/**
+ * Move a media item to the trash. It's hidden from content lists and its open calendar entries are cancelled,
+ * the file stays in storage until the item is purged.
+ * @param mediaFile The media file to trash
+ * @param deletedBy ID of the user deleting it, null when a retention rule does
+ * @param reason Why it was deleted, shown in the trash
+ * @returns Promise<MediaFile> The trashed media file
+ */
+export async function moveToTrash(mediaFile: MediaFile, deletedBy: number | null, reason: string | null = null): Promise<MediaFile> {
+  const now = new Date();
+  const trashedFile = await storage.updateMediaFile(mediaFile.id, {
+    deletedAt: now,
+    deletedBy,
+    deletionReason: reason,
+    purgeAfter: new Date(now.getTime() + TRASH_RETENTION_DAYS * DAY_MS),
+  });
+
+  // Trashed content can't go out, restoring it doesn't bring the posts back
+  const posts = await storage.getScheduledPostsByMediaFileId(mediaFile.id);
+  const openPosts = posts.filter(post => OPEN_POST_STATUSES.includes(post.status as ScheduledPostStatus));
+  for (const post of openPosts) {
+    const cancelledPost = await storage.updateScheduledPost(post.id, { status: 'cancelled' });
+    await syncVariantWithPost(cancelledPost);
+  }
+  if (openPosts.length > 0) {
+    await syncMediaScheduledDate(mediaFile.id);
+  }
+
+  return trashedFile;
+}
+
+/**
+ * Take a media item out of the trash. Retention rules count from the restore, so it isn't trashed again on the next run.
+ * @param mediaFile The trashed media file
+ * @returns Promise<MediaFile> The restored media file
+ */
+export async function restoreFromTrash(mediaFile: MediaFile): Promise<MediaFile> {
+  return storage.updateMediaFile(mediaFile.id, {
+    deletedAt: null,
+    deletedBy: null,
+    deletionReason: null,
+    purgeAfter: null,
+    restoredAt: new Date(),
+  });
+}
+
+/**
+ * Remove a media item for good: its record, the stored file and original, and the derived thumbnails and previews
+ * @param mediaFile The media file to purge
+ */
+export async function purgeMediaFile(mediaFile: MediaFile): Promise<void> {
+  await storage.deleteMediaFile(mediaFile.id);
+  await releaseUploadUsage(mediaFile);
+
+  await objectStorage.delete(mediaFile.storagePath);
+  if (mediaFile.originalPath) {
+    await objectStorage.delete(mediaFile.originalPath);
+  }
+  await removeDerivedFiles(mediaFile);
+}
+
+/**
+ * Move content that has had a rule's status for longer than the rule allows to the trash.
+ * It's purged TRASH_RETENTION_DAYS later, so a rule removes content for good after afterDays + TRASH_RETENTION_DAYS.
+ * @param now Defaults to the current time
+ * @returns Promise<MediaFile[]> The media files moved to the trash
+ */
+export async function applyRetentionRules(now = new Date()): Promise<MediaFile[]> {
+  const rules = await storage.getEnabledRetentionRules();
+  const trashed: MediaFile[] = [];
+
+  for (const rule of rules) {
+    const files = (await storage.getMediaFilesByUserId(rule.userId)).filter(file => file.status === rule.status);
+    if (files.length === 0) continue;
+
+    // The status counts from when it was last set, content without history from its upload
+    const history = await storage.getStatusHistoryByMediaFileIds(files.map(file => file.id));
+    const cutoff = new Date(now.getTime() - rule.afterDays * DAY_MS);
+
+    for (const file of files) {
+      const statusSince = history
+        .filter(entry => entry.mediaFileId === file.id && entry.toStatus === file.status)
+        .reduce((latest, entry) => entry.createdAt > latest ? entry.createdAt : latest, file.uploadDate);
+      const since = file.restoredAt && file.restoredAt > statusSince ? file.restoredAt : statusSince;
+
+      if (since <= cutoff) {
+        trashed.push(await moveToTrash(file, null, describeRetentionRule(rule)));
+      }
+    }
+  }
+
+  // Let each client know what the rules removed, it can still be restored from the trash
+  const countsByClient = new Map<number, number>();
+  for (const file of trashed) {
+    countsByClient.set(file.userId, (countsByClient.get(file.userId) ?? 0) + 1);
+  }
+  for (const [recipientId, count] of Array.from(countsByClient)) {
+    await sendNotification({
+      recipientId,
+      type: 'content',
+      title: 'Content moved to trash',
+      content: `${count} ${count === 1 ? 'item was' : 'items were'} moved to the trash by your retention rules ` +
+        `and will be deleted after ${TRASH_RETENTION_DAYS} days unless restored.`,
+      link: '/content-upload',
+    });
+  }
+
+  return trashed;
+}
+
+/**
+ * Purge trashed content whose time in the trash is up
+ * @param now Defaults to the current time
+ * @returns Promise<number> How many media files were purged
+ */
+export async function purgeExpiredTrash(now = new Date()): Promise<number> {
+  const expired = (await storage.getTrashedMediaFiles())
+    .filter(file => file.purgeAfter && file.purgeAfter <= now);
+
+  for (const file of expired) {
+    await purgeMediaFile(file);
+  }
+  return expired.length;
+}
+
+/**
+ * Apply every client's retention rules, then purge expired trash
+ */
+export async function processRetention(): Promise<void> {
+  const trashed = await applyRetentionRules();
+  const purged = await purgeExpiredTrash();
+
+  if (trashed.length > 0 || purged > 0) {
+    console.log(`Retention: ${trashed.length} item(s) moved to trash, ${purged} purged`);
+  }
+}
@@ -0,0 +1,82 @@
+// Lightweight in-process runner for recurring background jobs
+
+interface BackgroundJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+  running: boolean;
+  timer?: NodeJS.Timeout;
+}
+
+const jobs = new Map<string, BackgroundJob>();
+let started = false;
+
+async function runJob(job: BackgroundJob): Promise<void> {
+  // Skip a tick rather than overlap when the previous run is still going
+  if (job.running) {
+    return;
+  }
+
+  job.running = true;
+  try {
+    await job.run();
+  } catch (error) {
+    console.error(`Background job "${job.name}" failed:`, error);
+  } finally {
+    job.running = false;
+  }
+}
+
+function scheduleJob(job: BackgroundJob): void {
+  job.timer = setInterval(() => runJob(job), job.intervalMs);
+  // Don't keep the process alive just for background jobs
+  job.timer.unref();
+}
+
+/**
+ * Register a job that runs every intervalMs once the scheduler is started
+ * @param name Unique job name used in logs
+ * @param intervalMs Time between runs
+ * @param run The work to do, errors are logged and the job keeps running
+ */
+export function registerJob(name: string, intervalMs: number, run: () => Promise<void>): void {
+  if (jobs.has(name)) {
+    throw new Error(`Background job "${name}" is already registered`);
+  }
+
+  const job: BackgroundJob = { name, intervalMs, run, running: false };
+  jobs.set(name, job);
+
+  if (started) {
+    scheduleJob(job);
+  }
+}
+
+/**
+ * Start every registered job, each one also runs once immediately
+ */
+export function startScheduler(): void {
+  if (started) {
+    return;
+  }
+
+  started = true;
+  for (const job of Array.from(jobs.values())) {
+    scheduleJob(job);
+    runJob(job);
+  }
+  console.log(`Background scheduler started with ${jobs.size} job(s)`);
+}
+
+/**
+ * Stop all jobs, e.g. during shutdown
+ */
+export function stopScheduler(): void {
+  for (const job of Array.from(jobs.values())) {
+    if (job.timer) {
+      clearInterval(job.timer);
+      job.timer = undefined;
+    }
+  }
+  started = false;
+}
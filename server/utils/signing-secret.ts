@@ -0,0 +1,24 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * The secret behind signed download URLs, public booking challenges and hashed booker IPs.
+ * Production refuses to start without one, since a known secret lets anyone sign their own URLs
+ * and challenge answers.
+ * Elsewhere a random secret is made per process, so links stop working after a restart.
+ * @returns string The configured or generated secret
+ */
+function resolveSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.SESSION_SECRET;
+  if (secret) {
+    return secret;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('STORAGE_SIGNING_SECRET or SESSION_SECRET must be set in production');
+  }
+
+  console.warn('No STORAGE_SIGNING_SECRET or SESSION_SECRET set, signing with a random secret for this process');
+  return randomBytes(32).toString('hex');
+}
+
+export const signingSecret = resolveSigningSecret();
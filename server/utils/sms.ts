@@ -0,0 +1,64 @@
+import twilio from "twilio";
+
+// Initialize Twilio if API keys exist
+const twilioAccountSid = process.env.TWILIO_ACCOUNT_SID;
+const twilioAuthToken = process.env.TWILIO_AUTH_TOKEN;
+const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER;
+let twilioClient: twilio.Twilio | undefined;
+
+if (twilioAccountSid && twilioAuthToken && twilioAccountSid.startsWith('AC')) {
+  try {
+    twilioClient = twilio(twilioAccountSid, twilioAuthToken);
+    console.log("Twilio client initialized");
+  } catch (error) {
+    console.error("Error initializing Twilio client:", error);
+  }
+} else {
+  console.warn("Twilio credentials missing or invalid. SMS functionality will be unavailable.");
+}
+
+// Utility to format phone number for Twilio
+function formatPhoneNumber(phoneNumber: string): string {
+  // Remove all non-numeric characters
+  const digitsOnly = phoneNumber.replace(/\D/g, '');
+  
+  // Ensure it has country code, add +1 (US) if needed
+  if (digitsOnly.length === 10) {
+    return `+1${digitsOnly}`;
+  } else if (digitsOnly.length > 10 && !phoneNumber.startsWith('+')) {
+    return `+${digitsOnly}`;
+  }
+  
+  // If already has +, just return the cleaned version
+  return phoneNumber.startsWith('+') ? phoneNumber : `+${digitsOnly}`;
+}
+
+/**
+ * Send a text message through Twilio
+ * @param to Recipient phone number, US numbers may leave out the country code
+ * @param message Message body
+ * @returns Promise<boolean> True if the SMS was sent successfully
+ */
+export async function sendSmsNotification(to: string, message: string): Promise<boolean> {
+  if (!twilioClient || !twilioPhoneNumber) {
+    console.warn("Twilio not configured. SMS not sent.");
+    return false;
+  }
+
+  try {
+    // Format the phone number for Twilio
+    const formattedNumber = formatPhoneNumber(to);
+    
+    const result = await twilioClient.messages.create({
+      body: message,
+      from: twilioPhoneNumber,
+      to: formattedNumber
+    });
+    
+    console.log(`SMS sent successfully: ${result.sid}`);
+    return true;
+  } catch (error) {
+    console.error("Error sending SMS:", error);
+    return false;
+  }
+}
@@ -0,0 +1,13 @@
+import Stripe from 'stripe';
+
+// Initialize Stripe if API key exists, pinned to the API version the SDK's types describe. STRIPE_API_HOST,
+// STRIPE_API_PORT and STRIPE_API_PROTOCOL point the client somewhere other than api.stripe.com, e.g. stripe-mock when testing.
+const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+export const stripe: Stripe | undefined = stripeSecretKey
+  ? new Stripe(stripeSecretKey, {
+      apiVersion: '2025-04-30.basil',
+      ...(process.env.STRIPE_API_HOST && { host: process.env.STRIPE_API_HOST }),
+      ...(process.env.STRIPE_API_PORT && { port: Number(process.env.STRIPE_API_PORT) }),
+      ...(process.env.STRIPE_API_PROTOCOL && { protocol: process.env.STRIPE_API_PROTOCOL as 'http' | 'https' }),
+    })
+  : undefined;
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, varchar, numeric } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, varchar, numeric, real, bigint, index, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -67,11 +68,113 @@ export const mediaFiles = pgTable("media_files", {
   description: text("description"),
   fileType: text("file_type").notNull(), // 'image', 'video', etc.
   storagePath: text("storage_path").notNull(),
+  originalPath: text("original_path"), // upload as received, with its EXIF/device metadata, admins only
+  fileSize: bigint("file_size", { mode: "number" }), // in bytes, as uploaded, counted against the plan's storage quota
+  metadataScrubbed: boolean("metadata_scrubbed").default(false).notNull(),
   thumbnailPath: text("thumbnail_path"),
-  status: text("status").default("pending").notNull(), // 'pending', 'approved', 'rejected'
+  previewPath: text("preview_path"), // resized image or short video clip
+  processingStatus: text("processing_status").default("pending").notNull(), // 'pending', 'processing', 'ready', 'failed'
+  width: integer("width"),
+  height: integer("height"),
+  duration: real("duration"), // in seconds, videos only
+  codec: text("codec"),
+  contentHash: text("content_hash"), // SHA-256 of the original file
+  perceptualHash: json("perceptual_hash"), // dHash of the image, or of each sampled video keyframe
+  duplicateOfId: integer("duplicate_of_id"), // earlier upload of the same user this looks like a copy of
+  duplicateMatch: text("duplicate_match"), // 'exact', 'similar'
+  status: text("status").default("pending").notNull(), // 'pending', 'approved', 'rejected', 'changes_requested', 'superseded'
+  parentMediaId: integer("parent_media_id"), // first version of a resubmitted item
+  version: integer("version").default(1).notNull(),
   uploadDate: timestamp("upload_date").defaultNow().notNull(),
   scheduledDate: timestamp("scheduled_date"),
   tags: json("tags"),
+  deletedAt: timestamp("deleted_at"), // in the trash since, null for live content
+  deletedBy: integer("deleted_by"), // null when a retention rule moved it
+  deletionReason: text("deletion_reason"),
+  purgeAfter: timestamp("purge_after"), // trashed content is removed for good after this
+  restoredAt: timestamp("restored_at"), // retention rules count from here again after a restore
+}, (table) => [
+  index("media_files_search_idx").using("gin", mediaFileSearchVector(table)),
+]);
+
+// Weighted document searched by the content search (title, then description, then tags).
+// The GIN index and the search queries must use the same expression for the index to apply.
+export function mediaFileSearchVector(table: { title: AnyPgColumn; description: AnyPgColumn; tags: AnyPgColumn }) {
+  return sql`(setweight(to_tsvector('english', coalesce(${table.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${table.description}, '')), 'B') || setweight(to_tsvector('english', coalesce(${table.tags}::text, '')), 'C'))`;
+}
+
+// Review comments on a media item, optionally pinned to a position in a video
+export const contentReviewComments = pgTable("content_review_comments", {
+  id: serial("id").primaryKey(),
+  mediaFileId: integer("media_file_id").notNull().references(() => mediaFiles.id),
+  authorId: integer("author_id").notNull().references(() => users.id),
+  parentCommentId: integer("parent_comment_id"), // set for replies
+  body: text("body").notNull(),
+  timecode: real("timecode"), // in seconds, the video frame the comment refers to
+  resolved: boolean("resolved").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Every review status change of a media item
+export const contentStatusHistory = pgTable("content_status_history", {
+  id: serial("id").primaryKey(),
+  mediaFileId: integer("media_file_id").notNull().references(() => mediaFiles.id),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  changedBy: integer("changed_by").notNull().references(() => users.id),
+  note: text("note"), // rejection reason, requested changes etc.
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Content calendar entries, one per media item and platform slot
+export const scheduledPosts = pgTable("scheduled_posts", {
+  id: serial("id").primaryKey(),
+  mediaFileId: integer("media_file_id").notNull().references(() => mediaFiles.id),
+  userId: integer("user_id").notNull().references(() => users.id), // client who owns the content
+  platformAccountId: integer("platform_account_id").references(() => platformAccounts.id),
+  platform: text("platform").notNull(), // 'OnlyFans', 'Instagram', etc.
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  status: text("status").default("queued").notNull(), // 'queued', 'due', 'posted', 'missed', 'cancelled'
+  assignedManagerId: integer("assigned_manager_id").references(() => users.id), // admin who publishes the post
+  dueNotifiedAt: timestamp("due_notified_at"),
+  postedAt: timestamp("posted_at"),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Posting plan for a media item, one variant per platform with its own copy and price
+export const postingVariants = pgTable("posting_variants", {
+  id: serial("id").primaryKey(),
+  mediaFileId: integer("media_file_id").notNull().references(() => mediaFiles.id),
+  userId: integer("user_id").notNull().references(() => users.id), // client who owns the content
+  platform: text("platform").notNull(), // 'OnlyFans', 'Instagram', etc.
+  caption: text("caption"),
+  hashtags: json("hashtags"), // array of tags without the leading #
+  price: numeric("price"), // pay-per-view price, OnlyFans only
+  targetDate: timestamp("target_date"),
+  status: text("status").default("draft").notNull(), // 'draft', 'ready', 'scheduled', 'posted'
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Resumable chunked uploads, assembled into a media file once every chunk has arrived
+export const uploadSessions = pgTable("upload_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  fileSize: bigint("file_size", { mode: "number" }).notNull(), // in bytes
+  fingerprint: text("fingerprint").notNull(), // client-side identity of the file (name, size, last modified)
+  chunkSize: integer("chunk_size").notNull(), // in bytes
+  totalChunks: integer("total_chunks").notNull(),
+  receivedChunks: json("received_chunks").default([]).notNull(), // indexes of the stored chunks
+  metadata: json("metadata"), // caption, tags, platform etc. applied to the media file
+  status: text("status").default("uploading").notNull(), // 'uploading', 'completing', 'completed', 'cancelled'
+  mediaFileId: integer("media_file_id").references(() => mediaFiles.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 // Verification Documents
@@ -97,6 +200,23 @@ export const subscriptions = pgTable("subscriptions", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Appointment Series Table
+// A standing booking proposed once with a recurrence rule, each occurrence is its own appointment
+export const appointmentSeries = pgTable("appointment_series", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull().references(() => users.id),
+  clientId: integer("client_id").notNull().references(() => users.id),
+  recurrenceRule: text("recurrence_rule").notNull(), // RRULE subset, e.g. 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=6'
+  timezone: text("timezone").notNull(), // IANA timezone the days and time of day are in, the client's
+  startDate: timestamp("start_date").notNull(), // first occurrence
+  duration: integer("duration").notNull(), // in minutes
+  location: text("location").notNull(),
+  amount: varchar("amount", { length: 50 }),
+  status: text("status").default("active").notNull(), // 'active', 'cancelled'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Appointments Table
 export const appointments = pgTable("appointments", {
   id: serial("id").primaryKey(),
@@ -108,9 +228,107 @@ export const appointments = pgTable("appointments", {
   details: text("details"),
   amount: varchar("amount", { length: 50 }),
   photoUrl: text("photo_url"),
-  status: text("status").default("pending").notNull(), // 'pending', 'approved', 'declined', 'canceled'
+  // 'pending', 'countered' (new terms waiting on the other party), 'approved',
+  // 'rescheduled' (a change to an approved booking waiting on the other party), 'declined', 'cancelled',
+  // 'completed', 'no_show' (the client didn't turn up)
+  status: text("status").default("pending").notNull(),
   notificationSent: boolean("notification_sent").default(false),
   notificationMethod: text("notification_method"), // 'email', 'sms', 'in-app', 'all'
+  // Deposit and cancellation policy, amounts in cents. The fee is kept from the deposit when the client cancels late.
+  depositCents: integer("deposit_cents"),
+  cancellationFeeCents: integer("cancellation_fee_cents"),
+  freeCancellationHours: integer("free_cancellation_hours"), // cancelling is free until this many hours before
+  // 'not_required', 'unpaid', 'paid', 'refunded', 'partially_refunded', 'fee_retained'
+  paymentStatus: text("payment_status").default("not_required").notNull(),
+  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  depositPaidAt: timestamp("deposit_paid_at"),
+  refundedCents: integer("refunded_cents").default(0).notNull(),
+  feeRetainedCents: integer("fee_retained_cents").default(0).notNull(),
+  // What happened, recorded by the admin once the appointment is over
+  completedAt: timestamp("completed_at"),
+  actualDuration: integer("actual_duration"), // in minutes
+  amountCollectedCents: integer("amount_collected_cents"),
+  outcomeNotes: text("outcome_notes"),
+  // Occurrence of a standing booking. One changed on its own is detached and left alone by changes to the series.
+  seriesId: integer("series_id").references(() => appointmentSeries.id),
+  seriesOccurrence: timestamp("series_occurrence"), // start the recurrence rule gave it
+  detachedFromSeries: boolean("detached_from_series").default(false).notNull(),
+  // The person booking the client, as collected by the admin, and how they fared against the client's screening rules
+  bookerName: text("booker_name"),
+  bookerEmail: text("booker_email"),
+  bookerPhone: text("booker_phone"),
+  bookerReferences: text("booker_references"), // other providers who can vouch for them
+  bookerVerified: boolean("booker_verified").default(false).notNull(), // ID checked by the admin
+  screeningStatus: text("screening_status").default("not_screened").notNull(), // 'not_screened', 'passed', 'needs_review'
+  screeningReasons: json("screening_reasons").default([]), // why it needs review, one sentence each
+  screenedAt: timestamp("screened_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Appointment Revisions Table
+// Every set of terms put forward for an appointment, the appointment keeps the agreed terms until one is accepted
+export const appointmentRevisions = pgTable("appointment_revisions", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").notNull().references(() => appointments.id),
+  proposedBy: integer("proposed_by").notNull().references(() => users.id),
+  kind: text("kind").notNull(), // 'proposal', 'counter', 'reschedule'
+  appointmentDate: timestamp("appointment_date").notNull(),
+  duration: integer("duration").notNull(), // in minutes
+  location: text("location").notNull(),
+  amount: varchar("amount", { length: 50 }),
+  note: text("note"),
+  status: text("status").default("open").notNull(), // 'open', 'accepted', 'declined', 'superseded'
+  respondedBy: integer("responded_by").references(() => users.id),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Appointment Reminders Table
+// One row per reminder sent before an appointment, so a reminder never goes out twice for the same start time
+export const appointmentReminders = pgTable("appointment_reminders", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").notNull().references(() => appointments.id),
+  minutesBefore: integer("minutes_before").notNull(),
+  appointmentDate: timestamp("appointment_date").notNull(), // start time the reminder was for, a reschedule gets new reminders
+  status: text("status").default("pending").notNull(), // 'pending', 'sent', 'failed', 'skipped' (due while a closer reminder went out)
+  channels: json("channels"), // ['email', 'sms', 'in-app'] it was sent over
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Calendar Feeds Table
+// Secret token for a user's iCal feed of appointments, calendar apps fetch it without a session
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id),
+  token: text("token").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Booking Requests Table
+// Requests sent through a creator's public booking page, triaged by an admin who proposes an appointment from them
+export const bookingRequests = pgTable("booking_requests", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => users.id), // the creator being booked
+  status: text("status").default("new").notNull(), // 'new', 'proposed', 'rejected', 'spam'
+  bookerName: text("booker_name").notNull(),
+  bookerEmail: text("booker_email").notNull(),
+  bookerPhone: text("booker_phone"),
+  bookerReferences: text("booker_references"),
+  service: text("service"), // one of the creator's services offered
+  requestedDate: timestamp("requested_date").notNull(),
+  duration: integer("duration").notNull(), // in minutes
+  location: text("location"),
+  offeredRate: varchar("offered_rate", { length: 50 }),
+  message: text("message"),
+  screeningAnswers: json("screening_answers"), // { questionId: answer } for the page's questionnaire
+  sourceIpHash: text("source_ip_hash"), // hashed, to spot repeat senders without keeping addresses
+  appointmentId: integer("appointment_id").references(() => appointments.id), // proposed from this request
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -123,9 +341,30 @@ export const messages = pgTable("messages", {
   content: text("content").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   readAt: timestamp("read_at"),
-  attachments: json("attachments"),
+  attachments: json("attachments"), // summaries of the message's attachments, see messageAttachments
 });
 
+// Message Attachments Table
+// Uploaded before the message is sent, only the conversation's participants can fetch them
+export const messageAttachments = pgTable("message_attachments", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id),
+  uploaderId: integer("uploader_id").notNull().references(() => users.id),
+  messageId: integer("message_id").references(() => messages.id), // null until the message is sent
+  kind: text("kind").notNull(), // 'image', 'video', 'pdf', 'audio'
+  fileName: text("file_name").notNull(), // as uploaded
+  mimeType: text("mime_type").notNull(),
+  fileSize: bigint("file_size", { mode: "number" }).notNull(), // in bytes
+  storagePath: text("storage_path").notNull(),
+  thumbnailPath: text("thumbnail_path"), // images and videos
+  width: integer("width"),
+  height: integer("height"),
+  duration: real("duration"), // in seconds, videos and voice notes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("message_attachments_message_idx").on(table.messageId),
+]);
+
 // Conversations Table
 export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
@@ -162,12 +401,17 @@ export const rentMenSettings = pgTable("rent_men_settings", {
   geographicAvailability: text("geographic_availability"),
   minimumRate: text("minimum_rate"),
   clientScreeningPreferences: text("client_screening_preferences"),
+  screeningRequirements: json("screening_requirements").default([]), // booker details required: 'name', 'email', 'phone', 'references'
   servicesOffered: json("services_offered"),
   approvalProcess: text("approval_process").default("manual"), // 'auto', 'manual'
   bookingSummaryPreferences: json("booking_summary_preferences"),
-  availabilityTimes: json("availability_times"),
+  availabilityTimes: json("availability_times"), // [{ day: 'Monday', available, startTime: '09:00', endTime: '17:00' }] in the profile's timezone
+  bufferMinutes: integer("buffer_minutes").default(30), // kept free before and after each booking
+  reminderMinutes: json("reminder_minutes").default([1440, 120]), // automatic reminders, minutes before each approved appointment
   receiveBookingAlerts: boolean("receive_booking_alerts").default(true),
   showOnlyVerifiedClients: boolean("show_only_verified_clients").default(true),
+  publicBookingEnabled: boolean("public_booking_enabled").default(false), // opt-in page at /book/:slug
+  publicBookingSlug: text("public_booking_slug").unique(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -183,6 +427,9 @@ export const analytics = pgTable("analytics", {
   earningsTotal: numeric("earnings_total").default("0"),
   subscriberCount: integer("subscriber_count").default(0),
   averageAppointmentDuration: integer("average_appointment_duration").default(0), // in minutes
+  noShowAppointments: integer("no_show_appointments").default(0),
+  appointmentRevenueCents: integer("appointment_revenue_cents").default(0),
+  appointmentsRolledUpAt: timestamp("appointments_rolled_up_at"), // appointment figures are computed, not entered
   contentUploads: integer("content_uploads").default(0),
   customMetrics: json("custom_metrics"), // Flexible storage for custom metrics
   period: text("period").notNull(), // 'weekly', 'monthly', 'all-time'
@@ -221,6 +468,86 @@ export const communicationHistory = pgTable("communication_history", {
   sentAt: timestamp("sent_at").defaultNow().notNull(),
 });
 
+// Audit trail of admins sending text that matched a client's do-not-say terms
+export const doNotSayOverrides = pgTable("do_not_say_overrides", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => users.id), // whose do-not-say list was matched
+  adminId: integer("admin_id").notNull().references(() => users.id),
+  context: text("context").notNull(), // 'caption', 'message', 'template'
+  contextId: integer("context_id"), // media file, conversation or template the text belongs to
+  text: text("text").notNull(),
+  violations: json("violations").notNull(),
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Watermark applied to a client's media when it is exported
+export const watermarkSettings = pgTable("watermark_settings", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  enabled: boolean("enabled").default(true).notNull(),
+  type: text("type").default("text").notNull(), // 'text', 'logo'
+  text: text("text"),
+  logoPath: text("logo_path"), // storage key of the uploaded logo
+  position: text("position").default("bottom-right").notNull(), // 'top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'
+  opacity: real("opacity").default(0.5).notNull(), // 0 to 1
+  scale: real("scale").default(0.25).notNull(), // watermark width as a fraction of the media width
+  updatedBy: integer("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Named groups of a client's media, e.g. a PPV bundle or a themed set. Smart albums
+// have no members of their own, their content is whatever currently matches the rules.
+export const collections = pgTable("collections", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id), // client whose media it holds
+  name: text("name").notNull(),
+  description: text("description"),
+  type: text("type").default("manual").notNull(), // 'manual', 'smart'
+  rules: json("rules"), // smart albums only, see SmartAlbumRules in server/utils/collections.ts
+  coverMediaId: integer("cover_media_id"),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Membership of media files in manual collections, a file can be in any number of them
+export const collectionItems = pgTable("collection_items", {
+  id: serial("id").primaryKey(),
+  collectionId: integer("collection_id").notNull().references(() => collections.id),
+  mediaFileId: integer("media_file_id").notNull().references(() => mediaFiles.id),
+  position: integer("position").default(0).notNull(),
+  addedBy: integer("added_by").notNull().references(() => users.id),
+  addedAt: timestamp("added_at").defaultNow().notNull(),
+});
+
+// Per-client rules that move content to the trash once it has had a status for a number of days,
+// e.g. rejected content after 30 days. It's purged once its time in the trash is up, so content is
+// only gone for good after afterDays plus the trash period.
+export const retentionRules = pgTable("retention_rules", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id), // client the rule applies to
+  status: text("status").notNull(), // 'pending', 'changes_requested', 'approved', 'rejected', 'superseded'
+  afterDays: integer("after_days").notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Running totals checked against the plan's quotas, one row per user. Updated when media is
+// uploaded and deleted rather than summed from media_files on every upload.
+export const storageUsage = pgTable("storage_usage", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id),
+  bytesUsed: bigint("bytes_used", { mode: "number" }).default(0).notNull(),
+  fileCount: integer("file_count").default(0).notNull(),
+  monthStart: timestamp("month_start").notNull(), // first day of the month uploadsThisMonth counts
+  uploadsThisMonth: integer("uploads_this_month").default(0).notNull(), // deleting a file doesn't give the upload back
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Create Zod schemas for validation
 
 export const insertUserSchema = createInsertSchema(users).omit({
@@ -257,6 +584,70 @@ export const insertMediaFileSchema = createInsertSchema(mediaFiles).omit({
   status: true
 });
 
+export const insertContentReviewCommentSchema = createInsertSchema(contentReviewComments).omit({
+  id: true,
+  createdAt: true,
+  resolved: true
+});
+
+export const insertContentStatusHistorySchema = createInsertSchema(contentStatusHistory).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertScheduledPostSchema = createInsertSchema(scheduledPosts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  dueNotifiedAt: true,
+  postedAt: true
+});
+
+export const insertPostingVariantSchema = createInsertSchema(postingVariants).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertDoNotSayOverrideSchema = createInsertSchema(doNotSayOverrides).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertWatermarkSettingsSchema = createInsertSchema(watermarkSettings).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertCollectionSchema = createInsertSchema(collections).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertCollectionItemSchema = createInsertSchema(collectionItems).omit({
+  id: true,
+  addedAt: true
+});
+
+export const insertRetentionRuleSchema = createInsertSchema(retentionRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertStorageUsageSchema = createInsertSchema(storageUsage).omit({
+  id: true,
+  updatedAt: true
+});
+
+export const insertUploadSessionSchema = createInsertSchema(uploadSessions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
 export const insertVerificationDocumentSchema = createInsertSchema(verificationDocuments).omit({
   id: true,
   uploadDate: true,
@@ -269,6 +660,12 @@ export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({
   updatedAt: true
 });
 
+export const insertAppointmentSeriesSchema = createInsertSchema(appointmentSeries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
 export const insertAppointmentSchema = createInsertSchema(appointments).omit({
   id: true,
   createdAt: true,
@@ -277,12 +674,39 @@ export const insertAppointmentSchema = createInsertSchema(appointments).omit({
   notificationSent: true
 });
 
+export const insertAppointmentRevisionSchema = createInsertSchema(appointmentRevisions).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertAppointmentReminderSchema = createInsertSchema(appointmentReminders).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertCalendarFeedSchema = createInsertSchema(calendarFeeds).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertBookingRequestSchema = createInsertSchema(bookingRequests).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
 export const insertMessageSchema = createInsertSchema(messages).omit({
   id: true,
   createdAt: true,
   readAt: true
 });
 
+export const insertMessageAttachmentSchema = createInsertSchema(messageAttachments).omit({
+  id: true,
+  createdAt: true
+});
+
 export const insertConversationSchema = createInsertSchema(conversations).omit({
   id: true,
   createdAt: true,
@@ -329,18 +753,69 @@ export type ContentStrategy = typeof contentStrategies.$inferSelect;
 export type InsertMediaFile = z.infer<typeof insertMediaFileSchema>;
 export type MediaFile = typeof mediaFiles.$inferSelect;
 
+export type InsertContentReviewComment = z.infer<typeof insertContentReviewCommentSchema>;
+export type ContentReviewComment = typeof contentReviewComments.$inferSelect;
+
+export type InsertContentStatusHistory = z.infer<typeof insertContentStatusHistorySchema>;
+export type ContentStatusHistory = typeof contentStatusHistory.$inferSelect;
+
+export type InsertScheduledPost = z.infer<typeof insertScheduledPostSchema>;
+export type ScheduledPost = typeof scheduledPosts.$inferSelect;
+
+export type InsertPostingVariant = z.infer<typeof insertPostingVariantSchema>;
+export type PostingVariant = typeof postingVariants.$inferSelect;
+
+export type InsertDoNotSayOverride = z.infer<typeof insertDoNotSayOverrideSchema>;
+export type DoNotSayOverride = typeof doNotSayOverrides.$inferSelect;
+
+export type InsertWatermarkSettings = z.infer<typeof insertWatermarkSettingsSchema>;
+export type WatermarkSettings = typeof watermarkSettings.$inferSelect;
+
+export type InsertCollection = z.infer<typeof insertCollectionSchema>;
+export type Collection = typeof collections.$inferSelect;
+
+export type InsertCollectionItem = z.infer<typeof insertCollectionItemSchema>;
+export type CollectionItem = typeof collectionItems.$inferSelect;
+
+export type InsertRetentionRule = z.infer<typeof insertRetentionRuleSchema>;
+export type RetentionRule = typeof retentionRules.$inferSelect;
+
+export type InsertStorageUsage = z.infer<typeof insertStorageUsageSchema>;
+export type StorageUsage = typeof storageUsage.$inferSelect;
+
+export type InsertUploadSession = z.infer<typeof insertUploadSessionSchema>;
+export type UploadSession = typeof uploadSessions.$inferSelect;
+
 export type InsertVerificationDocument = z.infer<typeof insertVerificationDocumentSchema>;
 export type VerificationDocument = typeof verificationDocuments.$inferSelect;
 
 export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
 export type Subscription = typeof subscriptions.$inferSelect;
 
+export type InsertAppointmentSeries = z.infer<typeof insertAppointmentSeriesSchema>;
+export type AppointmentSeries = typeof appointmentSeries.$inferSelect;
+
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
 export type Appointment = typeof appointments.$inferSelect;
 
+export type InsertAppointmentRevision = z.infer<typeof insertAppointmentRevisionSchema>;
+export type AppointmentRevision = typeof appointmentRevisions.$inferSelect;
+
+export type InsertAppointmentReminder = z.infer<typeof insertAppointmentReminderSchema>;
+export type AppointmentReminder = typeof appointmentReminders.$inferSelect;
+
+export type InsertCalendarFeed = z.infer<typeof insertCalendarFeedSchema>;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+
+export type InsertBookingRequest = z.infer<typeof insertBookingRequestSchema>;
+export type BookingRequest = typeof bookingRequests.$inferSelect;
+
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
 
+export type InsertMessageAttachment = z.infer<typeof insertMessageAttachmentSchema>;
+export type MessageAttachment = typeof messageAttachments.$inferSelect;
+
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type Conversation = typeof conversations.$inferSelect;
 